@@ -0,0 +1,12 @@
+// backend/jest.config.js
+
+// Jest configuration: TypeScript specs under src/**/__tests__, compiled by ts-jest with the project's tsconfig
+// (decorator metadata included, which TypeORM entities need).
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    testMatch: ['**/__tests__/**/*.spec.ts'],
+    setupFiles: ['<rootDir>/jest.setup.js'], // Environment the config module requires
+    silent: true, // The services log every step; failures are reported anyway
+};
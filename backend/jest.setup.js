@@ -0,0 +1,12 @@
+// backend/jest.setup.js
+
+// Environment for the specs: the config module throws without PORT and the JWT keys, and the FHIR settings
+// must not come from a developer's .env (dotenv never overrides variables that are already set).
+process.env.NODE_ENV = 'test';
+process.env.PORT = process.env.PORT || '3000';
+process.env.JWT_PRIVATE_KEY = 'test-private-key';
+process.env.JWT_PUBLIC_KEY = 'test-public-key';
+process.env.FHIR_TARGET_SERVER_URL = '';
+process.env.FHIR_AUTH_TYPE = 'none';
+process.env.FHIR_ENDPOINTS_FILE = '';
+process.env.FHIR_SUBSCRIPTION_SECRET = '';
@@ -12,8 +12,11 @@ const app: Express = express();
 // Enable CORS
 app.use(cors({ origin: config.corsOrigin, credentials: true })); // credentials: true if cookies/sessions are needed
 
-// Parse JSON request bodies
-app.use(express.json());
+// Parse JSON request bodies (including FHIR JSON sent as application/fhir+json)
+app.use(express.json({ type: ['application/json', 'application/fhir+json'] }));
+
+// Keep FHIR XML request bodies as text; FHIR handlers parse them (see readFhirRequestBody in utils/fhirRequest.ts)
+app.use(express.text({ type: ['application/fhir+xml', 'application/xml', 'text/xml'] }));
 
 // Parse URL-encoded request bodies
 app.use(express.urlencoded({ extended: true }));
@@ -4,6 +4,11 @@ import config from '.' // Import the centralized application configuration
 // Import all necessary Entity classes that TypeORM should manage.
 import { PatientEntity } from '../models/entities/Patient.entity'
 import { UserEntity } from '../models/entities/User.entity'
+import { FhirOutboxEntity } from '../models/entities/FhirOutbox.entity'
+import { PatientFhirSyncEntity } from '../models/entities/PatientFhirSync.entity'
+import { TerminologyMappingEntity } from '../models/entities/TerminologyMapping.entity'
+import { FhirInboundChangeEntity } from '../models/entities/FhirInboundChange.entity'
+import { PatientMergeEntity } from '../models/entities/PatientMerge.entity'
 
 /**
  * @file dataSource.ts
@@ -61,6 +66,11 @@ export const dataSourceOptions: DataSourceOptions = {
     entities: [
         PatientEntity,
         UserEntity,
+        FhirOutboxEntity,
+        PatientFhirSyncEntity,
+        TerminologyMappingEntity,
+        FhirInboundChangeEntity,
+        PatientMergeEntity,
         // Add other entities here as they are created...
     ],
 
@@ -1,5 +1,6 @@
 // src/config/index.ts
 import dotenv from 'dotenv'
+import path from 'path'
 
 /**
  * Loads environment variables from the .env file into process.env.
@@ -27,6 +28,42 @@ if (envFound.error && process.env.NODE_ENV !== 'production') {
  * @property {string | undefined} db.database - Database name.
  * @property {Object} fhir - FHIR-related configuration.
  * @property {string | undefined} fhir.targetServerUrl - Target FHIR server URL.
+ * @property {string} fhir.targetServerName - Name of the target FHIR server in the endpoint registry (the primary endpoint).
+ * @property {number} fhir.targetServerTimeoutMs - Timeout of each request to the target FHIR server.
+ * @property {string | undefined} fhir.endpointsFile - JSON file listing further named FHIR endpoints (URL, version, auth, timeout, enabled flag, routing rules) that patients are pushed to as well.
+ * @property {Object} fhir.auth - How outbound requests to the target FHIR server authenticate.
+ * @property {'none' | 'basic' | 'bearer' | 'client_credentials'} fhir.auth.type - Authentication scheme (client_credentials: OAuth2 / SMART Backend Services).
+ * @property {string | undefined} fhir.auth.username - Basic auth user name.
+ * @property {string | undefined} fhir.auth.password - Basic auth password.
+ * @property {string | undefined} fhir.auth.bearerToken - Static bearer token.
+ * @property {string | undefined} fhir.auth.tokenUrl - OAuth2 token endpoint (client_credentials).
+ * @property {string | undefined} fhir.auth.clientId - OAuth2 client ID (client_credentials).
+ * @property {string | undefined} fhir.auth.clientSecret - OAuth2 client secret, used (client_secret_basic) when no private key is set.
+ * @property {string | undefined} fhir.auth.privateKey - PEM private key signing the private_key_jwt client assertion.
+ * @property {string | undefined} fhir.auth.keyId - `kid` of the signing key, as published in the client's JWKS.
+ * @property {'RS384' | 'ES384'} fhir.auth.signingAlgorithm - Algorithm of the client assertion.
+ * @property {string} fhir.auth.scope - Scopes requested with the token.
+ * @property {'R4' | 'R5'} fhir.targetServerVersion - FHIR release spoken by the target server; pushes and reads are converted to it.
+ * @property {'base' | 'twcore'} fhir.profile - Profile the Patient output conforms to: plain FHIR, or Taiwan Core (TW Core IG).
+ * @property {'R4' | 'R5'} fhir.defaultVersion - FHIR release of responses (and request bodies) that do not name one via the `fhirVersion` MIME parameter.
+ * @property {string | undefined} fhir.publicBaseUrl - Public base URL of this server's `/fhir` facade (e.g., behind a reverse proxy). Derived from the request when unset.
+ * @property {string} fhir.bulkExportDir - Local directory where Bulk Data `$export` jobs write their NDJSON files.
+ * @property {number} fhir.bulkExportRetentionHours - How long finished `$export` jobs and their files are kept before being purged.
+ * @property {string} fhir.reconciliationReportDir - Local directory where reconciliation runs store their JSON reports.
+ * @property {string} fhir.validationProfileDir - Local directory of profile JSON files (StructureDefinition, ValueSet, CodeSystem) checked by `$validate` and before every push.
+ * @property {boolean} fhir.provenanceEnabled - Whether every Patient push is sent as a transaction together with a Provenance naming the user, the activity and the time.
+ * @property {'delete' | 'deactivate' | 'keep'} fhir.deletePolicy - What deleting a local patient does to its Patient on the FHIR server: `DELETE` it, set `active=false`, or leave it.
+ * @property {number} fhir.terminologyRefreshIntervalMs - How often the cached terminology mappings are reloaded from the database (0 disables; changes made through this process apply immediately).
+ * @property {Object} fhir.subscription - Settings for Subscription rest-hook notifications sent by the FHIR server.
+ * @property {string | undefined} fhir.subscription.secret - Shared secret the FHIR server must send as `Authorization: Bearer <secret>`; notifications are refused while unset.
+ * @property {boolean} fhir.subscription.autoApply - Whether remote changes to in-sync patients are applied without review (otherwise every change is queued).
+ * @property {Object} fhir.outbox - Settings for the durable FHIR push outbox and its background worker.
+ * @property {boolean} fhir.outbox.workerEnabled - Whether this process drains the outbox (disable on extra replicas if desired).
+ * @property {number} fhir.outbox.pollIntervalMs - How often the worker looks for due items.
+ * @property {number} fhir.outbox.batchSize - Maximum items claimed per poll.
+ * @property {number} fhir.outbox.maxAttempts - Attempts before an item is moved to the dead-letter state.
+ * @property {number} fhir.outbox.baseDelayMs - Delay before the first retry; doubled on every further failure.
+ * @property {number} fhir.outbox.maxDelayMs - Upper bound for the retry delay.
  * @property {Object} jwt - JWT configuration for authentication.
  * @property {string | undefined} jwt.privateKey - Private key for JWT signing.
  * @property {string | undefined} jwt.publicKey - Public key for JWT verification.
@@ -53,6 +90,64 @@ const config = {
     },
     fhir: {
         targetServerUrl: process.env.FHIR_TARGET_SERVER_URL,
+        targetServerName: process.env.FHIR_TARGET_SERVER_NAME || 'default',
+        targetServerTimeoutMs: parseInt(process.env.FHIR_TARGET_SERVER_TIMEOUT_MS || '15000', 10),
+        endpointsFile: process.env.FHIR_ENDPOINTS_FILE,
+        auth: {
+            type: (process.env.FHIR_AUTH_TYPE || 'none').toLowerCase() as
+                | 'none'
+                | 'basic'
+                | 'bearer'
+                | 'client_credentials',
+            username: process.env.FHIR_AUTH_USERNAME,
+            password: process.env.FHIR_AUTH_PASSWORD,
+            bearerToken: process.env.FHIR_AUTH_BEARER_TOKEN,
+            tokenUrl: process.env.FHIR_AUTH_TOKEN_URL,
+            clientId: process.env.FHIR_AUTH_CLIENT_ID,
+            clientSecret: process.env.FHIR_AUTH_CLIENT_SECRET,
+            privateKey: process.env.FHIR_AUTH_PRIVATE_KEY?.replace(/\\n/g, '\n'), // Handle newline characters
+            keyId: process.env.FHIR_AUTH_KEY_ID,
+            signingAlgorithm: (process.env.FHIR_AUTH_SIGNING_ALGORITHM || 'RS384').toUpperCase() as
+                | 'RS384'
+                | 'ES384',
+            scope: process.env.FHIR_AUTH_SCOPE || 'system/Patient.cruds system/Provenance.c',
+        },
+        targetServerVersion: (process.env.FHIR_TARGET_SERVER_VERSION || 'R5').toUpperCase() as
+            | 'R4'
+            | 'R5',
+        defaultVersion: (process.env.FHIR_DEFAULT_VERSION || 'R5').toUpperCase() as 'R4' | 'R5',
+        profile: (process.env.FHIR_PROFILE || 'base').toLowerCase() as 'base' | 'twcore',
+        publicBaseUrl: process.env.FHIR_PUBLIC_BASE_URL,
+        bulkExportDir: process.env.FHIR_BULK_EXPORT_DIR || path.resolve(process.cwd(), 'exports'),
+        bulkExportRetentionHours: process.env.FHIR_BULK_EXPORT_RETENTION_HOURS
+            ? parseInt(process.env.FHIR_BULK_EXPORT_RETENTION_HOURS, 10)
+            : 24,
+        reconciliationReportDir:
+            process.env.FHIR_RECONCILIATION_REPORT_DIR ||
+            path.resolve(process.cwd(), 'reconciliation-reports'),
+        validationProfileDir:
+            process.env.FHIR_VALIDATION_PROFILE_DIR || path.resolve(process.cwd(), 'profiles'),
+        provenanceEnabled: process.env.FHIR_PROVENANCE_ENABLED !== 'false',
+        deletePolicy: (process.env.FHIR_DELETE_POLICY || 'deactivate').toLowerCase() as
+            | 'delete'
+            | 'deactivate'
+            | 'keep',
+        terminologyRefreshIntervalMs: parseInt(
+            process.env.FHIR_TERMINOLOGY_REFRESH_INTERVAL_MS || '60000',
+            10
+        ),
+        subscription: {
+            secret: process.env.FHIR_SUBSCRIPTION_SECRET,
+            autoApply: process.env.FHIR_SUBSCRIPTION_AUTO_APPLY !== 'false',
+        },
+        outbox: {
+            workerEnabled: process.env.FHIR_OUTBOX_WORKER_ENABLED !== 'false',
+            pollIntervalMs: parseInt(process.env.FHIR_OUTBOX_POLL_INTERVAL_MS || '5000', 10),
+            batchSize: parseInt(process.env.FHIR_OUTBOX_BATCH_SIZE || '10', 10),
+            maxAttempts: parseInt(process.env.FHIR_OUTBOX_MAX_ATTEMPTS || '10', 10),
+            baseDelayMs: parseInt(process.env.FHIR_OUTBOX_BASE_DELAY_MS || '30000', 10),
+            maxDelayMs: parseInt(process.env.FHIR_OUTBOX_MAX_DELAY_MS || '3600000', 10),
+        },
     },
     jwt: {
         privateKey: process.env.JWT_PRIVATE_KEY?.replace(/\\n/g, '\n'), // Handle newline characters
@@ -89,6 +184,49 @@ if (!config.fhir.targetServerUrl) {
         '⚠️ Missing FHIR_TARGET_SERVER_URL in environment variables. FHIR push will fail.'
     );
 }
+if (
+    !['R4', 'R5'].includes(config.fhir.targetServerVersion) ||
+    !['R4', 'R5'].includes(config.fhir.defaultVersion)
+) {
+    throw new Error('FHIR_TARGET_SERVER_VERSION and FHIR_DEFAULT_VERSION must be R4 or R5');
+}
+if (!/^[A-Za-z0-9_-]{1,50}$/.test(config.fhir.targetServerName)) {
+    throw new Error('FHIR_TARGET_SERVER_NAME must be 1-50 letters, digits, dashes or underscores');
+}
+if (!(config.fhir.targetServerTimeoutMs > 0)) {
+    throw new Error('FHIR_TARGET_SERVER_TIMEOUT_MS must be a positive number of milliseconds');
+}
+if (!['base', 'twcore'].includes(config.fhir.profile)) {
+    throw new Error('FHIR_PROFILE must be base or twcore');
+}
+if (!['delete', 'deactivate', 'keep'].includes(config.fhir.deletePolicy)) {
+    throw new Error('FHIR_DELETE_POLICY must be delete, deactivate or keep');
+}
+if (!['none', 'basic', 'bearer', 'client_credentials'].includes(config.fhir.auth.type)) {
+    throw new Error('FHIR_AUTH_TYPE must be none, basic, bearer or client_credentials');
+}
+if (
+    config.fhir.auth.type === 'basic' &&
+    (!config.fhir.auth.username || !config.fhir.auth.password)
+) {
+    throw new Error('FHIR_AUTH_TYPE=basic requires FHIR_AUTH_USERNAME and FHIR_AUTH_PASSWORD');
+}
+if (config.fhir.auth.type === 'bearer' && !config.fhir.auth.bearerToken) {
+    throw new Error('FHIR_AUTH_TYPE=bearer requires FHIR_AUTH_BEARER_TOKEN');
+}
+if (
+    config.fhir.auth.type === 'client_credentials' &&
+    (!config.fhir.auth.tokenUrl ||
+        !config.fhir.auth.clientId ||
+        !(config.fhir.auth.privateKey || config.fhir.auth.clientSecret))
+) {
+    throw new Error(
+        'FHIR_AUTH_TYPE=client_credentials requires FHIR_AUTH_TOKEN_URL, FHIR_AUTH_CLIENT_ID and FHIR_AUTH_PRIVATE_KEY (or FHIR_AUTH_CLIENT_SECRET)'
+    );
+}
+if (!['RS384', 'ES384'].includes(config.fhir.auth.signingAlgorithm)) {
+    throw new Error('FHIR_AUTH_SIGNING_ALGORITHM must be RS384 or ES384');
+}
 
 if (!config.jwt.privateKey || !config.jwt.publicKey) {
     throw new Error('Missing critical environment variables: JWT_PRIVATE_KEY or JWT_PUBLIC_KEY');
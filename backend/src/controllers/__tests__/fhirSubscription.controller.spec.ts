@@ -0,0 +1,75 @@
+// backend/src/controllers/__tests__/fhirSubscription.controller.spec.ts
+// Authentication of the Subscription notification endpoint (shared secret, not the JWT middleware).
+
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { NextFunction, Request, Response } from 'express';
+import config from '../../config';
+import { receiveSubscriptionNotification } from '../fhirSubscription.controller';
+
+/** A minimal Express response that records the status and JSON body. */
+const mockResponse = (): Response & { body?: unknown } => {
+    const res = {} as Response & { body?: unknown };
+    res.status = jest.fn(() => res) as unknown as Response['status'];
+    res.type = jest.fn(() => res) as unknown as Response['type'];
+    res.json = jest.fn((body: unknown) => {
+        res.body = body;
+        return res;
+    }) as unknown as Response['json'];
+    return res;
+};
+
+const notification = (authorization?: string): Request =>
+    ({
+        method: 'POST',
+        originalUrl: '/fhir-subscription',
+        params: {},
+        headers: authorization ? { authorization } : {},
+        body: { resourceType: 'Bundle', type: 'subscription-notification', entry: [] },
+    }) as unknown as Request;
+
+describe('receiveSubscriptionNotification', () => {
+    const next = jest.fn() as unknown as NextFunction;
+
+    afterEach(() => {
+        config.fhir.subscription.secret = undefined;
+    });
+
+    it('answers 503 while no secret is configured', async () => {
+        config.fhir.subscription.secret = undefined;
+        const res = mockResponse();
+
+        await receiveSubscriptionNotification(notification('Bearer anything'), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(503);
+        expect(res.type).toHaveBeenCalledWith('application/fhir+json');
+        expect(res.body).toMatchObject({
+            resourceType: 'OperationOutcome',
+            issue: [{ severity: 'error', code: 'not-supported' }],
+        });
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['a wrong secret', 'Bearer not-the-secret'],
+        ['no Authorization header', undefined],
+        ['another scheme', 'Basic czNjcjN0'],
+    ])('answers 401 to %s', async (_case, authorization) => {
+        config.fhir.subscription.secret = 's3cr3t';
+        const res = mockResponse();
+
+        await receiveSubscriptionNotification(notification(authorization), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.body).toMatchObject({
+            resourceType: 'OperationOutcome',
+            issue: [
+                {
+                    severity: 'error',
+                    code: 'security',
+                    diagnostics: 'Missing or invalid subscription secret.',
+                },
+            ],
+        });
+        expect(next).not.toHaveBeenCalled();
+    });
+});
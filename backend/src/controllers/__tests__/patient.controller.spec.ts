@@ -0,0 +1,86 @@
+// backend/src/controllers/__tests__/patient.controller.spec.ts
+// Duplicate handling of patient creation: probable duplicates can be overridden, an existing PID cannot.
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { NextFunction, Request, Response } from 'express';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { PatientService } from '../../services/patient.service';
+import { PatientMatch, PatientMatchService } from '../../services/patientMatch.service';
+import { createPatient } from '../patient.controller';
+
+/** A minimal Express response that records the status and JSON body. */
+const mockResponse = (): Response & { body?: unknown } => {
+    const res = {} as Response & { body?: unknown };
+    res.status = jest.fn(() => res) as unknown as Response['status'];
+    res.json = jest.fn((body: unknown) => {
+        res.body = body;
+        return res;
+    }) as unknown as Response['json'];
+    return res;
+};
+
+const existing = Object.assign(new PatientEntity(), {
+    id: 7,
+    pid: 'A123456789',
+    familyName: '王',
+    givenName: '小明',
+});
+
+const createRequest = (pid: string, allowDuplicates?: string): Request =>
+    ({
+        body: { pid, familyName: '王', givenName: '小明', birthday: '1980-03-04' },
+        query: allowDuplicates ? { allowDuplicates } : {},
+    }) as unknown as Request;
+
+describe('createPatient', () => {
+    const next = jest.fn() as unknown as NextFunction;
+    let matches: PatientMatch[];
+    let create: jest.SpiedFunction<PatientService['create']>;
+
+    beforeEach(() => {
+        matches = [];
+        jest.spyOn(PatientMatchService.prototype, 'findMatches').mockImplementation(
+            async () => matches
+        );
+        create = jest
+            .spyOn(PatientService.prototype, 'create')
+            .mockImplementation(async (data) =>
+                Object.assign(new PatientEntity(), data, { id: 8 })
+            );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('answers 409 with the matches for a probable duplicate', async () => {
+        matches = [{ patient: existing, score: 0.9, grade: 'probable' }];
+        const res = mockResponse();
+
+        await createPatient(createRequest('B987654321'), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(409);
+        expect(res.body).toMatchObject({ matches });
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('saves a probable duplicate the clerk confirmed', async () => {
+        const res = mockResponse();
+
+        await createPatient(createRequest('B987654321', 'true'), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(201);
+        expect(PatientMatchService.prototype.findMatches).not.toHaveBeenCalled();
+    });
+
+    it('answers an existing PID with the PID conflict, without matches to override', async () => {
+        matches = [{ patient: existing, score: 1, grade: 'certain' }];
+        const res = mockResponse();
+
+        await createPatient(createRequest(' a123456789 '), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(409);
+        expect(res.body).toEqual({ message: 'Identity number (PID) already exists' });
+        expect(create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,231 @@
+// backend/src/controllers/bulkExport.controller.ts
+import { NextFunction, Request, Response } from 'express';
+import { OperationOutcomeIssue } from 'fhir/r5';
+import { PatientService } from '../services/patient.service';
+import { FhirService } from '../services/fhir.service';
+import { BulkExportService } from '../services/bulkExport.service';
+import { NotFoundError } from '../utils/error';
+import { buildOperationOutcome } from '../utils/operationOutcome';
+import {
+    getFhirBaseUrl,
+    negotiateFhirVersion,
+    UNSUPPORTED_FHIR_VERSION_MESSAGE,
+} from '../utils/fhirRequest';
+
+const patientService = new PatientService();
+const fhirService = new FhirService(patientService);
+const bulkExportService = new BulkExportService(patientService, fhirService);
+
+/** `_outputFormat` values accepted for NDJSON, as listed by the Bulk Data specification. */
+const NDJSON_FORMATS = ['application/fhir+ndjson', 'application/ndjson', 'ndjson'];
+
+/**
+ * Sends an OperationOutcome with a single issue.
+ */
+const sendOutcome = (
+    res: Response,
+    status: number,
+    code: OperationOutcomeIssue['code'],
+    message: string
+): void => {
+    res.status(status)
+        .type('application/fhir+json')
+        .json(buildOperationOutcome(status >= 500 ? 'fatal' : 'error', code, message));
+};
+
+/**
+ * Kicks off a Bulk Data export of all patients.
+ * @route GET /fhir/$export
+ * @route GET /fhir/Patient/$export
+ * @header Prefer: respond-async (required)
+ * @header Accept - May name the FHIR release of the exported resources (`application/fhir+json; fhirVersion=4.0`).
+ * @query {string} [_since] - Only patients changed at or after this instant.
+ * @query {string} [_type] - Must be 'Patient' when given.
+ * @query {string} [_outputFormat] - Must be an NDJSON format when given.
+ * @design Returns 202 Accepted with a `Content-Location` header pointing at the status endpoint;
+ * the job itself runs in the background (`BulkExportService`).
+ */
+export const kickOffExport = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Bulk Data export kick-off.`
+        );
+        if (!/respond-async/i.test(req.get('Prefer') ?? '')) {
+            sendOutcome(
+                res,
+                400,
+                'invalid',
+                "Bulk Data export requires the 'Prefer: respond-async' header."
+            );
+            return;
+        }
+
+        const fhirVersion = negotiateFhirVersion(req);
+        if (!fhirVersion) {
+            sendOutcome(res, 406, 'not-supported', UNSUPPORTED_FHIR_VERSION_MESSAGE);
+            return;
+        }
+
+        const { _since, _type, _outputFormat } = req.query;
+        if (_outputFormat !== undefined && !NDJSON_FORMATS.includes(String(_outputFormat))) {
+            sendOutcome(res, 400, 'not-supported', `Unsupported _outputFormat '${_outputFormat}'.`);
+            return;
+        }
+        if (
+            _type !== undefined &&
+            String(_type)
+                .split(',')
+                .some((type) => type.trim() !== 'Patient')
+        ) {
+            sendOutcome(
+                res,
+                400,
+                'not-supported',
+                `Only the Patient resource type can be exported.`
+            );
+            return;
+        }
+        let since: Date | undefined;
+        if (_since !== undefined) {
+            since = typeof _since === 'string' ? new Date(_since) : undefined;
+            if (!since || isNaN(since.getTime())) {
+                sendOutcome(
+                    res,
+                    400,
+                    'invalid',
+                    `Invalid _since '${_since}': expected a FHIR instant.`
+                );
+                return;
+            }
+        }
+
+        const baseUrl = getFhirBaseUrl(req);
+        const job = await bulkExportService.startExport(
+            `${baseUrl}${req.originalUrl.replace(/^\/fhir/, '')}`,
+            since,
+            fhirVersion
+        );
+        res.setHeader('Content-Location', `${baseUrl}/bulkstatus/${job.id}`);
+        res.status(202).end();
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Reports the status of a Bulk Data export job.
+ * @route GET /fhir/bulkstatus/:jobId
+ * @design
+ * - 202 Accepted with `X-Progress` while the job is running.
+ * - 200 OK with the output manifest once completed (file URLs point at `/fhir/bulkfiles/:jobId/:fileName`).
+ * - 500 with an OperationOutcome if the job failed; 404 if it does not exist.
+ */
+export const getExportStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const job = await bulkExportService.getJob(req.params.jobId);
+
+        if (job.status === 'in-progress') {
+            res.setHeader(
+                'X-Progress',
+                `${job.processed} of ${job.total || '?'} patients exported`
+            );
+            res.setHeader('Retry-After', '5');
+            res.status(202).end();
+            return;
+        }
+        if (job.status === 'failed') {
+            sendOutcome(
+                res,
+                500,
+                'exception',
+                `Export job failed: ${job.error ?? 'unknown error'}`
+            );
+            return;
+        }
+
+        const baseUrl = getFhirBaseUrl(req);
+        res.setHeader('Expires', new Date(Date.now() + 60 * 60 * 1000).toUTCString());
+        res.status(200).json({
+            transactionTime: job.transactionTime,
+            request: job.request,
+            requiresAccessToken: true, // Downloads go through the same auth middleware.
+            output: job.output.map((file) => ({
+                type: file.type,
+                url: `${baseUrl}/bulkfiles/${job.id}/${file.fileName}`,
+                count: file.count,
+            })),
+            error: [],
+        });
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            sendOutcome(res, error.statusCode, 'not-found', error.message);
+            return;
+        }
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Cancels a running export job, or deletes a finished one and its files.
+ * @route DELETE /fhir/bulkstatus/:jobId
+ */
+export const cancelExport = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        await bulkExportService.cancelJob(req.params.jobId);
+        res.status(202).end();
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            sendOutcome(res, error.statusCode, 'not-found', error.message);
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] DELETE ${req.originalUrl} - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Downloads an NDJSON output file of a completed export job.
+ * @route GET /fhir/bulkfiles/:jobId/:fileName
+ */
+export const downloadExportFile = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const filePath = await bulkExportService.getOutputFilePath(
+            req.params.jobId,
+            req.params.fileName
+        );
+        res.setHeader('Content-Type', 'application/fhir+ndjson');
+        res.sendFile(filePath, (error) => {
+            if (error && !res.headersSent) {
+                next(error);
+            }
+        });
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            sendOutcome(res, error.statusCode, 'not-found', error.message);
+            return;
+        }
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
@@ -1,15 +1,94 @@
 // backend/src/controllers/fhir.controller.ts
-import { Request, Response } from 'express';
-import { PatientService } from '../services/patient.service'; // Import the PatientService class
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Bundle, BundleEntry, Parameters, Patient } from 'fhir/r5';
+import { CreatePatientDto, PatientService } from '../services/patient.service'; // Import the PatientService class
 import { FhirService } from '../services/fhir.service'; // Import the FhirService class
-// Assuming a custom error type exists
+import { FhirSearchService } from '../services/fhirSearch.service';
+import { FhirEverythingService } from '../services/fhirEverything.service';
+import { FhirCapabilityService, FhirRoute } from '../services/fhirCapability.service';
+import { PatientMatchService } from '../services/patientMatch.service';
+import {
+    BadRequestError,
+    ConflictError,
+    NotFoundError,
+    UnprocessableEntityError,
+    UpstreamServiceError,
+} from '../utils/error';
+import { buildOperationOutcome, buildPushErrorBody } from '../utils/operationOutcome';
+import {
+    getFhirBaseUrl,
+    getRequestBodyFhirVersion,
+    negotiateFhirFormat,
+    negotiateFhirVersion,
+    readFhirRequestBody,
+    sendFhirResource,
+    UNSUPPORTED_FHIR_VERSION_MESSAGE,
+} from '../utils/fhirRequest';
+import { getFhirConverter } from '../services/fhirVersions';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 
 const patientService = new PatientService();
 const fhirService = new FhirService(patientService); // Inject patientService instance into fhirService
+const fhirSearchService = new FhirSearchService(patientService, fhirService);
+const fhirEverythingService = new FhirEverythingService(patientService, fhirService);
+const fhirCapabilityService = new FhirCapabilityService();
+const patientMatchService = new PatientMatchService();
+
+/** `$match` parameters: default and maximum number of matches returned. */
+const MATCH_COUNT_DEFAULT = 10;
+const MATCH_COUNT_MAX = 100;
+/** Extension on `Bundle.entry.search` carrying the match grade of a `$match` result. */
+const MATCH_GRADE_EXTENSION = 'http://hl7.org/fhir/StructureDefinition/match-grade';
+
+/**
+ * Sends 406 with an OperationOutcome, for FHIR-facing endpoints asked for an unsupported FHIR release.
+ */
+const sendUnsupportedFhirVersion = (res: Response): void => {
+    res.status(406)
+        .type('application/fhir+json')
+        .json(buildOperationOutcome('error', 'not-supported', UNSUPPORTED_FHIR_VERSION_MESSAGE));
+};
+
+/**
+ * The CapabilityStatement of the FHIR facade: what FHIR clients check before talking to the server.
+ * @route GET /fhir/metadata
+ * @param {FhirRoute[]} routes - The routes to describe: `FHIR_ROUTES`, which the FHIR router is registered from. Passed
+ * in by `routes/index.ts` because `routes/fhir.routes.ts` imports this controller.
+ * @returns {RequestHandler} The handler of the route.
+ * @design
+ * - Generated by `FhirCapabilityService` from the route table of the facade, so it stays in step with the routes.
+ * - Registered without the JWT middleware: clients read it before they authenticate (its `rest.security` says how).
+ * - Served in the release negotiated from `Accept` (406 if unsupported), as JSON or XML.
+ */
+export const getCapabilityStatement =
+    (routes: readonly FhirRoute[]): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            console.log(
+                `[API][${new Date().toISOString()}] GET /fhir/metadata - Capability statement.`
+            );
+            const version = negotiateFhirVersion(req);
+            if (!version) {
+                sendUnsupportedFhirVersion(res);
+                return;
+            }
+            const statement = fhirCapabilityService.buildCapabilityStatement(
+                routes,
+                version,
+                getFhirBaseUrl(req)
+            );
+            sendFhirResource(res, 200, statement, version, negotiateFhirFormat(req));
+        } catch (error: any) {
+            console.error(`[API][${new Date().toISOString()}] GET /fhir/metadata - Error:`, error);
+            next(error);
+        }
+    };
 
 /**
  * Retrieves a patient's FHIR Patient resource by their primary key ID.
  * @route GET /api/patients/:id/fhir
+ * @header Accept - `application/fhir+json; fhirVersion=4.0` for R4; defaults to `config.fhir.defaultVersion`.
+ * `application/fhir+xml` (or `?_format=xml`) for FHIR XML; defaults to JSON.
  */
 export const getPatientAsFhir = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -22,14 +101,18 @@ export const getPatientAsFhir = async (req: Request, res: Response): Promise<voi
             res.status(400).json({ message: 'Invalid patient ID format' });
             return;
         }
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            res.status(406).json({ message: UNSUPPORTED_FHIR_VERSION_MESSAGE });
+            return;
+        }
 
         // Call FhirService to perform the conversion
         const fhirPatientResource = await fhirService.convertDbPatientToFhir(id);
 
         if (fhirPatientResource) {
-            // Set Content-Type header to FHIR JSON
-            res.setHeader('Content-Type', 'application/fhir+json');
-            res.status(200).json(fhirPatientResource);
+            // FHIR JSON or XML in the negotiated release.
+            sendFhirResource(res, 200, fhirPatientResource, version, negotiateFhirFormat(req));
         } else {
             res.status(404).json({
                 message: `Patient with ID ${id} not found for FHIR conversion`,
@@ -43,3 +126,502 @@ export const getPatientAsFhir = async (req: Request, res: Response): Promise<voi
         res.status(500).json({ message: 'Error occurred while converting to FHIR resource' });
     }
 };
+
+/**
+ * Validates a patient's FHIR Patient resource locally, without sending it anywhere.
+ * @route POST /api/patients/:id/fhir/$validate
+ * @header Accept - `application/fhir+json; fhirVersion=4.0` for an R4 OperationOutcome; defaults to `config.fhir.defaultVersion`.
+ * @design
+ * - Checks the resource exactly as a push would (base definitions, base invariants, local profiles; see
+ *   `FhirValidationService`) and returns the OperationOutcome.
+ * - Like the FHIR `$validate` operation, answers 200 whether or not the resource is valid: the outcome's error issues
+ *   tell the caller. 404 (as an OperationOutcome) when the patient does not exist.
+ */
+export const validatePatientFhir = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        console.log(
+            `[API][${new Date().toISOString()}] POST /api/patients/${id}/fhir/$validate - Validating FHIR Patient resource.`
+        );
+
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid patient ID format' });
+            return;
+        }
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+
+        const outcome = await fhirService.validatePatient(id);
+        sendFhirResource(res, 200, outcome, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        console.error(
+            `[API][${new Date().toISOString()}] POST /api/patients/${req.params.id}/fhir/$validate - Error:`,
+            error
+        );
+        if (error instanceof NotFoundError) {
+            res.status(404)
+                .type('application/fhir+json')
+                .json(buildOperationOutcome('error', 'not-found', error.message));
+        } else {
+            next(error);
+        }
+    }
+};
+
+/**
+ * Imports a patient from an inbound FHIR Patient resource (e.g., sent by a partner clinic).
+ * Maps the resource back onto a PatientEntity via `FhirService.convertFhirToDbPatient` and
+ * returns a per-field report of everything that was dropped or could not be mapped.
+ * @route POST /api/patients/import/fhir
+ * @query {string} [dryRun] - When 'true', only returns the mapping and report without saving.
+ * @header Content-Type - `application/fhir+json; fhirVersion=4.0` for an R4 resource; defaults to `config.fhir.defaultVersion`.
+ * `application/fhir+xml` (same parameter) for a resource in FHIR XML.
+ * @design
+ * - 201 Created with `{ patient, report }` when the record was saved.
+ * - 200 OK with `{ patientData, report }` for dry runs.
+ * - 400 Bad Request with the report when the resource is not a Patient or required local fields are missing/invalid
+ *   (without a report when an XML body cannot be parsed).
+ * - 415 Unsupported Media Type when the body names an unsupported FHIR release.
+ * - 409 Conflict when the mapped PID already exists.
+ * - Like `createPatient`, the FHIR push of the new record is queued in the outbox within the same transaction.
+ */
+export const importPatientFromFhir = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] POST /api/patients/import/fhir - Importing FHIR Patient resource.`
+        );
+        const version = getRequestBodyFhirVersion(req);
+        if (!version) {
+            res.status(415).json({ message: UNSUPPORTED_FHIR_VERSION_MESSAGE });
+            return;
+        }
+        const body = readFhirRequestBody(req);
+        if (!body || body.resourceType !== 'Patient') {
+            res.status(400).json({
+                message: `Expected a FHIR Patient resource but received '${body?.resourceType ?? 'nothing'}'.`,
+            });
+            return;
+        }
+        // The mapping works on the internal (R5) model.
+        const resource = getFhirConverter(version).toInternal(body) as Patient;
+
+        // 1. Map the FHIR resource back into local patient fields.
+        const { patientData, report, importable } = fhirService.convertFhirToDbPatient(resource);
+
+        if (!importable) {
+            res.status(400).json({
+                message: 'FHIR Patient cannot be imported: required fields are missing or invalid.',
+                patientData,
+                report,
+            });
+            return;
+        }
+        if (req.query.dryRun === 'true') {
+            res.status(200).json({ patientData, report });
+            return;
+        }
+
+        // 2. Save the record. `importable` guarantees every required column is present.
+        // Like `createPatient`, the FHIR push is queued in the same transaction (outbox).
+        const savedPatient = await patientService.create(
+            patientData as CreatePatientDto,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(
+            `[API] Imported FHIR Patient '${resource.id ?? '(no id)'}' as local patient ${savedPatient.id} with ${report.length} report entries.`
+        );
+
+        res.status(201).json({ patient: savedPatient, report });
+    } catch (error: any) {
+        console.error(
+            `[API][${new Date().toISOString()}] POST /api/patients/import/fhir - Error:`,
+            error
+        );
+        if (error instanceof ConflictError || error instanceof BadRequestError) {
+            res.status(error.statusCode).json({ message: error.message });
+        } else {
+            next(error);
+        }
+    }
+};
+
+/**
+ * Returns the local FHIR representation of a patient next to the copy currently on the FHIR server,
+ * so a version conflict (412 on push) can be resolved by hand.
+ * @route GET /api/patients/:id/fhir/remote
+ * @design Responds `{ local, remote, versionId, lastUpdated }`; `remote` is null when the server has no such Patient.
+ * Pass `versionId` to `POST /api/patients/:id/fhir/resolve-conflict` to push the local copy over exactly that version.
+ */
+export const getRemotePatientCopy = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        console.log(
+            `[API][${new Date().toISOString()}] GET /api/patients/${req.params.id}/fhir/remote - Fetching remote FHIR copy.`
+        );
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid patient ID format' });
+            return;
+        }
+        const patientEntity = await patientService.findById(id);
+        const local = await fhirService.buildLinkedFhirPatient(patientEntity);
+        const remote = await fhirService.fetchRemotePatient(patientEntity.pid);
+        res.status(200).json({
+            local,
+            remote: remote?.resource ?? null,
+            versionId: remote?.versionId ?? null,
+            lastUpdated: remote?.lastUpdated ?? null,
+        });
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] GET /api/patients/${req.params.id}/fhir/remote - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Resolves a FHIR version conflict by pushing the local patient over the remote copy the user reviewed.
+ * @route POST /api/patients/:id/fhir/resolve-conflict
+ * @body {string} [versionId] - Remote version that was reviewed (from `GET /api/patients/:id/fhir/remote`).
+ * Omit it only when the remote copy no longer exists; the push then overwrites unconditionally.
+ * @design 409 if the remote copy changed again since it was reviewed, so nothing is overwritten without being seen.
+ * Failed pushes answer like `POST /api/patients/:id/push-to-fhir`: 422 if the resource fails local validation
+ * (it is not sent), or the upstream status class if the FHIR server does not accept it, with
+ * `{ message, upstreamStatusCode, issues, outcome }`.
+ */
+export const resolveFhirConflict = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        console.log(
+            `[API][${new Date().toISOString()}] POST /api/patients/${req.params.id}/fhir/resolve-conflict - Resolving FHIR conflict.`
+        );
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid patient ID format' });
+            return;
+        }
+        const { versionId } = req.body ?? {};
+        if (versionId !== undefined && (typeof versionId !== 'string' || versionId === '')) {
+            res.status(400).json({ message: "'versionId' must be a non-empty string." });
+            return;
+        }
+
+        const result = await fhirService.resolveConflict(
+            id,
+            versionId,
+            (req as AuthenticatedRequest).user
+        );
+        res.status(200).json({
+            message: `Patient ${id} pushed over the remote copy; the FHIR server is now at version ${result.versionId ?? 'unknown'}.`,
+            versionId: result.versionId ?? null,
+        });
+    } catch (error: any) {
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        if (error instanceof UnprocessableEntityError || error instanceof UpstreamServiceError) {
+            res.status(error.statusCode).json(buildPushErrorBody(error));
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] POST /api/patients/${req.params.id}/fhir/resolve-conflict - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * FHIR RESTful search on Patient, returning a `searchset` Bundle.
+ * @route GET /fhir/Patient
+ * @query identifier, _id, family, given, name, birthdate, gender, active, _count, _sort, _offset
+ * @design
+ * - Parameter parsing and Bundle assembly live in `FhirSearchService`; this handler only negotiates errors.
+ * - Errors are returned as OperationOutcome (400 for malformed parameters) so FHIR clients can parse them.
+ * - `Prefer: handling=strict` makes unknown parameters an error instead of a warning entry.
+ * - The Bundle is returned in the release negotiated from `Accept` (406 if unsupported), as JSON or XML
+ *   (`Accept: application/fhir+xml` or `_format=xml`).
+ */
+export const searchFhirPatients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET /fhir/Patient - Searching with query:`,
+            req.query
+        );
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        const strict = /handling\s*=\s*strict/i.test(req.get('Prefer') ?? '');
+        const bundle = await fhirSearchService.searchPatients(
+            req.query,
+            getFhirBaseUrl(req),
+            strict
+        );
+        sendFhirResource(res, 200, bundle, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        if (error instanceof BadRequestError) {
+            res.status(error.statusCode)
+                .type('application/fhir+json')
+                .json(buildOperationOutcome('error', 'invalid', error.message));
+            return;
+        }
+        console.error(`[API][${new Date().toISOString()}] GET /fhir/Patient - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * FHIR RESTful read of a single Patient by its logical id (the local PID).
+ * @route GET /fhir/Patient/:id
+ * @design Returns 404 with an OperationOutcome when no patient has that PID, 406 when `Accept` names an unsupported release.
+ */
+export const readFhirPatient = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET /fhir/Patient/${req.params.id} - Reading FHIR Patient.`
+        );
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        const patientEntity = await patientService.findByPid(req.params.id);
+        const fhirPatientResource = await fhirService.buildLinkedFhirPatient(patientEntity);
+        if (!fhirPatientResource) {
+            throw new NotFoundError(`Patient/${req.params.id} cannot be represented in FHIR`);
+        }
+        sendFhirResource(res, 200, fhirPatientResource, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            res.status(error.statusCode)
+                .type('application/fhir+json')
+                .json(buildOperationOutcome('error', 'not-found', error.message));
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] GET /fhir/Patient/${req.params.id} - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * FHIR `Patient/$everything`: the Patient and every related resource the EHR holds, in one `searchset` Bundle.
+ * @route GET /fhir/Patient/:id/$everything
+ * @query {string} [_since] - Only resources changed at or after this instant.
+ * @query {string} [_type] - Comma-separated resource types to return (e.g., `Patient,Provenance`).
+ * @design
+ * - Assembled by `FhirEverythingService` (today: Patient, RelatedPerson for the emergency contact, Provenance).
+ * - 400 for a malformed `_since` / `_type`, 404 when no patient has that PID, both as OperationOutcome;
+ *   406 when `Accept` names an unsupported release. JSON or XML like the other facade endpoints.
+ */
+export const getPatientEverything = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET /fhir/Patient/${req.params.id}/$everything - Query:`,
+            req.query
+        );
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        const { _since, _type } = req.query;
+        let since: Date | undefined;
+        if (_since !== undefined) {
+            since = typeof _since === 'string' ? new Date(_since) : undefined;
+            if (!since || isNaN(since.getTime())) {
+                throw new BadRequestError(`Invalid _since '${_since}': expected a FHIR instant.`);
+            }
+        }
+        let types: string[] | undefined;
+        if (_type !== undefined) {
+            if (typeof _type !== 'string') {
+                throw new BadRequestError('_type must be given once, as a comma-separated list.');
+            }
+            types = _type
+                .split(',')
+                .map((type) => type.trim())
+                .filter((type) => type.length > 0);
+        }
+
+        const bundle = await fhirEverythingService.getEverything(
+            req.params.id,
+            { since, types },
+            getFhirBaseUrl(req)
+        );
+        sendFhirResource(res, 200, bundle, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        if (error instanceof BadRequestError || error instanceof NotFoundError) {
+            res.status(error.statusCode)
+                .type('application/fhir+json')
+                .json(
+                    buildOperationOutcome(
+                        'error',
+                        error instanceof NotFoundError ? 'not-found' : 'invalid',
+                        error.message
+                    )
+                );
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] GET /fhir/Patient/${req.params.id}/$everything - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Extracts the `$match` input from a Parameters body (FHIR JSON or XML).
+ * The Patient is converted to the internal model separately: converters do not rewrite resources nested in Parameters.
+ */
+const readMatchRequest = (
+    req: Request
+): { patient: Patient; onlyCertainMatches: boolean; count: number } => {
+    const version = getRequestBodyFhirVersion(req)!;
+    const body = readFhirRequestBody(req) as Parameters | undefined;
+    if (body?.resourceType !== 'Parameters') {
+        throw new BadRequestError('The request body must be a Parameters resource.');
+    }
+    const parameters = body.parameter ?? [];
+    const resource = parameters.find((parameter) => parameter.name === 'resource')?.resource;
+    if (resource?.resourceType !== 'Patient') {
+        throw new BadRequestError("The 'resource' parameter must be a Patient resource.");
+    }
+    const onlyCertainMatches =
+        parameters.find((parameter) => parameter.name === 'onlyCertainMatches')?.valueBoolean ===
+        true;
+    const countParameter = parameters.find((parameter) => parameter.name === 'count');
+    const count =
+        countParameter?.valueInteger ?? countParameter?.valuePositiveInt ?? MATCH_COUNT_DEFAULT;
+    if (!Number.isInteger(count) || count < 1 || count > MATCH_COUNT_MAX) {
+        throw new BadRequestError(`'count' must be an integer from 1 to ${MATCH_COUNT_MAX}.`);
+    }
+    return {
+        patient: getFhirConverter(version).toInternal(
+            resource as unknown as Record<string, unknown>
+        ) as Patient,
+        onlyCertainMatches,
+        count,
+    };
+};
+
+/**
+ * `$match` on Patient: the registered patients that are probably the same person as the given Patient (MPI lookup).
+ * @route POST /fhir/Patient/$match
+ * @design
+ * - Input: Parameters with `resource` (the Patient), `onlyCertainMatches` and `count` (default 10, at most 100).
+ *   The Patient is mapped onto local fields like an import and scored by `PatientMatchService`.
+ * - Output: searchset Bundle of the matches, best first; each entry's `search.score` is the match score and its
+ *   match-grade extension the grade. Without `onlyCertainMatches`, possible matches and above are returned.
+ * - 400 (invalid input) and 415 (unsupported FHIR release of the body) are returned as OperationOutcome.
+ */
+export const matchFhirPatients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(`[API][${new Date().toISOString()}] POST /fhir/Patient/$match`);
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        if (!getRequestBodyFhirVersion(req)) {
+            res.status(415)
+                .type('application/fhir+json')
+                .json(
+                    buildOperationOutcome(
+                        'error',
+                        'not-supported',
+                        UNSUPPORTED_FHIR_VERSION_MESSAGE
+                    )
+                );
+            return;
+        }
+        const { patient, onlyCertainMatches, count } = readMatchRequest(req);
+        const { patientData } = fhirService.convertFhirToDbPatient(patient);
+        const matches = await patientMatchService.findMatches(patientData, {
+            minimumGrade: onlyCertainMatches ? 'certain' : 'possible',
+            count,
+        });
+
+        const baseUrl = getFhirBaseUrl(req);
+        const entry: BundleEntry[] = [];
+        for (const match of matches) {
+            const resource = fhirService.buildFhirPatient(match.patient);
+            if (resource) {
+                entry.push({
+                    fullUrl: `${baseUrl}/Patient/${resource.id}`,
+                    resource,
+                    search: {
+                        mode: 'match',
+                        score: match.score,
+                        extension: [{ url: MATCH_GRADE_EXTENSION, valueCode: match.grade }],
+                    },
+                });
+            }
+        }
+        const bundle: Bundle = {
+            resourceType: 'Bundle',
+            type: 'searchset',
+            timestamp: new Date().toISOString(),
+            total: entry.length,
+            entry: entry.length > 0 ? entry : undefined,
+        };
+        sendFhirResource(res, 200, bundle, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        if (error instanceof BadRequestError) {
+            res.status(error.statusCode)
+                .type('application/fhir+json')
+                .json(buildOperationOutcome('error', 'invalid', error.message));
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] POST /fhir/Patient/$match - Error:`,
+            error
+        );
+        next(error);
+    }
+};
@@ -0,0 +1,34 @@
+// backend/src/controllers/fhirEndpoints.controller.ts
+import { NextFunction, Request, Response } from 'express';
+import { getFhirEndpoints, summarizeFhirEndpoint } from '../services/fhirEndpoints';
+import { FhirSyncService } from '../services/fhirSync.service';
+
+const fhirSyncService = new FhirSyncService();
+
+/**
+ * Lists the configured FHIR endpoints with the push results recorded for each.
+ * @route GET /api/admin/fhir-endpoints
+ * @design Responds with `{ endpoints }`, primary endpoint first. Each endpoint carries its settings (the auth type
+ * only, never credentials) and `pushResults`: the number of patients per last push result (success | failed | conflict).
+ */
+export const listFhirEndpoints = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Listing FHIR endpoints.`
+        );
+        const pushResults = await fhirSyncService.countPushResultsByEndpoint();
+        res.status(200).json({
+            endpoints: getFhirEndpoints().map((endpoint) => ({
+                ...summarizeFhirEndpoint(endpoint),
+                pushResults: pushResults.get(endpoint.name) ?? {},
+            })),
+        });
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
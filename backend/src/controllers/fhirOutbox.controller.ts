@@ -0,0 +1,127 @@
+// backend/src/controllers/fhirOutbox.controller.ts
+import { NextFunction, Request, Response } from 'express';
+import { FhirOutboxService } from '../services/fhirOutbox.service';
+import { FhirOutboxStatus } from '../models/entities/FhirOutbox.entity';
+import { ConflictError, NotFoundError } from '../utils/error';
+
+const fhirOutboxService = new FhirOutboxService();
+
+/** Statuses accepted by the `status` filter of the list endpoint. */
+const OUTBOX_STATUSES: FhirOutboxStatus[] = ['pending', 'processing', 'done', 'dead', 'discarded'];
+/** Default and maximum page size of the list endpoint. */
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/**
+ * Lists FHIR outbox items, newest first.
+ * @route GET /api/admin/fhir-outbox
+ * @query {string} [status] - One of pending | processing | done | dead | discarded.
+ * @query {string} [endpoint] - Name of a FHIR endpoint (see `GET /api/admin/fhir-endpoints`).
+ * @query {number} [limit=50] - Page size (1-200).
+ * @query {number} [offset=0] - Number of items to skip.
+ * @design Responds with `{ items, total, counts, limit, offset }`; `counts` holds the number of items per status
+ * across the whole outbox so an admin can spot a growing dead-letter queue at a glance.
+ */
+export const listOutboxItems = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Listing FHIR outbox.`
+        );
+        const { status, endpoint } = req.query;
+        if (status !== undefined && !OUTBOX_STATUSES.includes(status as FhirOutboxStatus)) {
+            res.status(400).json({
+                message: `Invalid status '${status}'. Expected one of: ${OUTBOX_STATUSES.join(', ')}.`,
+            });
+            return;
+        }
+        if (endpoint !== undefined && typeof endpoint !== 'string') {
+            res.status(400).json({ message: "'endpoint' must be a single endpoint name." });
+            return;
+        }
+        const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+        const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+            res.status(400).json({
+                message: `'limit' must be an integer between 1 and ${MAX_LIST_LIMIT}.`,
+            });
+            return;
+        }
+        if (!Number.isInteger(offset) || offset < 0) {
+            res.status(400).json({ message: "'offset' must be a non-negative integer." });
+            return;
+        }
+
+        const result = await fhirOutboxService.list({
+            status: status as FhirOutboxStatus | undefined,
+            endpoint,
+            limit,
+            offset,
+        });
+        res.status(200).json({ ...result, limit, offset });
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Re-queues an outbox item (typically a dead-lettered one) for an immediate attempt.
+ * @route POST /api/admin/fhir-outbox/:id/retry
+ * @design 404 if the item does not exist, 409 if the worker is processing it right now.
+ */
+export const retryOutboxItem = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid outbox item ID format' });
+            return;
+        }
+        const item = await fhirOutboxService.retry(id);
+        console.log(`[Controller] Outbox item ${id} re-queued for patient ${item.patientId}.`);
+        res.status(200).json(item);
+    } catch (error: any) {
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(`[Controller] Error in retryOutboxItem for id ${req.params.id}:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Discards an outbox item so it is never pushed (the row is kept for auditing).
+ * @route POST /api/admin/fhir-outbox/:id/discard
+ * @design 404 if the item does not exist, 409 if it is being processed or was already pushed.
+ */
+export const discardOutboxItem = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid outbox item ID format' });
+            return;
+        }
+        const item = await fhirOutboxService.discard(id);
+        console.log(`[Controller] Outbox item ${id} discarded (patient ${item.patientId}).`);
+        res.status(200).json(item);
+    } catch (error: any) {
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(`[Controller] Error in discardOutboxItem for id ${req.params.id}:`, error);
+        next(error);
+    }
+};
@@ -0,0 +1,87 @@
+// backend/src/controllers/fhirReconciliation.controller.ts
+import { NextFunction, Request, Response } from 'express';
+import { PatientService } from '../services/patient.service';
+import { FhirService } from '../services/fhir.service';
+import { FhirReconciliationService } from '../services/fhirReconciliation.service';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ConflictError, NotFoundError } from '../utils/error';
+
+const patientService = new PatientService();
+const fhirService = new FhirService(patientService);
+const fhirReconciliationService = new FhirReconciliationService(patientService, fhirService);
+
+/**
+ * Starts a reconciliation run comparing all local patients with the FHIR server.
+ * @route POST /api/admin/fhir-reconciliation
+ * @design Responds 202 with the new run (and a `Location` header); the comparison runs in the background and the
+ * report is polled with `GET /api/admin/fhir-reconciliation/:runId`. 409 if a run is already in progress.
+ */
+export const startReconciliation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] POST ${req.originalUrl} - Starting FHIR reconciliation.`
+        );
+        const run = await fhirReconciliationService.startRun(
+            (req as AuthenticatedRequest).user?.userId
+        );
+        res.setHeader('Location', `${req.baseUrl}${req.path.replace(/\/$/, '')}/${run.id}`);
+        res.status(202).json(run);
+    } catch (error: any) {
+        if (error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(`[API][${new Date().toISOString()}] POST ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Lists past and running reconciliation runs, newest first, with their summaries only.
+ * @route GET /api/admin/fhir-reconciliation
+ */
+export const listReconciliations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Listing FHIR reconciliation runs.`
+        );
+        res.status(200).json(await fhirReconciliationService.listRuns());
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Returns a reconciliation run with its full report (missing remotely, remote-only, field-by-field changes, errors).
+ * @route GET /api/admin/fhir-reconciliation/:runId
+ * @design While `status` is 'in-progress', `processed` / `total` report the progress and the lists are partial.
+ */
+export const getReconciliation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const run = await fhirReconciliationService.getRun(req.params.runId);
+        res.status(200).json(run);
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(
+            `[Controller] Error in getReconciliation for run ${req.params.runId}:`,
+            error
+        );
+        next(error);
+    }
+};
@@ -0,0 +1,235 @@
+// backend/src/controllers/fhirSubscription.controller.ts
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { OperationOutcome } from 'fhir/r5';
+import config from '../config';
+import { PatientService } from '../services/patient.service';
+import { FhirService } from '../services/fhir.service';
+import {
+    extractNotifiedPatientIds,
+    FhirSubscriptionService,
+} from '../services/fhirSubscription.service';
+import { FhirInboundChangeStatus } from '../models/entities/FhirInboundChange.entity';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/error';
+import { buildOperationOutcome } from '../utils/operationOutcome';
+
+const patientService = new PatientService();
+const fhirService = new FhirService(patientService);
+const fhirSubscriptionService = new FhirSubscriptionService(patientService, fhirService);
+
+/** Statuses accepted by the `status` filter of the list endpoint. */
+const INBOUND_STATUSES: FhirInboundChangeStatus[] = [
+    'pending',
+    'applied',
+    'rejected',
+    'superseded',
+];
+/** Default and maximum page size of the list endpoint. */
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/**
+ * Whether the request carries `Authorization: Bearer <FHIR_SUBSCRIPTION_SECRET>`.
+ * Compares digests in constant time, so the secret cannot be guessed from response times.
+ */
+const hasSubscriptionSecret = (req: Request, secret: string): boolean => {
+    const provided = /^Bearer (.+)$/i.exec(req.headers.authorization ?? '')?.[1] ?? '';
+    const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(provided), digest(secret));
+};
+
+/**
+ * Receives a Subscription `rest-hook` notification from the FHIR server.
+ * @route POST /fhir-subscription - Notification Bundle (R5, or R4 backport) or Patient resource.
+ * @route PUT /fhir-subscription/Patient/:id - Full-resource payload of an R4 Subscription (HAPI appends the resource path).
+ * @header Authorization - `Bearer <FHIR_SUBSCRIPTION_SECRET>`, set in the Subscription's `channel.header`.
+ * @design
+ * - Not behind the JWT middleware: the FHIR server authenticates with the shared secret instead (401 if missing or
+ *   wrong, 503 while no secret is configured).
+ * - Each notified Patient is read again from the FHIR server and applied, queued for review or ignored
+ *   (see `FhirSubscriptionService`). Responds 200 with one information issue per Patient; handshake and
+ *   heartbeat notifications get a single issue. A failed read answers 500, so the FHIR server retries.
+ */
+export const receiveSubscriptionNotification = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] ${req.method} ${req.originalUrl} - FHIR Subscription notification.`
+        );
+        const secret = config.fhir.subscription.secret;
+        if (!secret) {
+            res.status(503)
+                .type('application/fhir+json')
+                .json(
+                    buildOperationOutcome(
+                        'error',
+                        'not-supported',
+                        'Subscription notifications are disabled: FHIR_SUBSCRIPTION_SECRET is not configured.'
+                    )
+                );
+            return;
+        }
+        if (!hasSubscriptionSecret(req, secret)) {
+            res.status(401)
+                .type('application/fhir+json')
+                .json(
+                    buildOperationOutcome(
+                        'error',
+                        'security',
+                        'Missing or invalid subscription secret.'
+                    )
+                );
+            return;
+        }
+
+        const resourceIds = req.params.id ? [req.params.id] : extractNotifiedPatientIds(req.body);
+        const results = await fhirSubscriptionService.handleNotification(resourceIds);
+        const outcome: OperationOutcome = {
+            resourceType: 'OperationOutcome',
+            issue:
+                results.length > 0
+                    ? results.map((result) => ({
+                          severity: 'information',
+                          code: 'informational',
+                          diagnostics: `Patient/${result.resourceId}: ${result.outcome}. ${result.message}`,
+                      }))
+                    : [
+                          {
+                              severity: 'information',
+                              code: 'informational',
+                              diagnostics: 'The notification names no Patient.',
+                          },
+                      ],
+        };
+        res.status(200).type('application/fhir+json').json(outcome);
+    } catch (error: any) {
+        console.error(
+            `[API][${new Date().toISOString()}] ${req.method} ${req.originalUrl} - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Lists changes received from the FHIR server, newest first.
+ * @route GET /api/admin/fhir-inbound
+ * @query {string} [status] - One of pending | applied | rejected | superseded.
+ * @query {number} [limit=50] - Page size (1-200).
+ * @query {number} [offset=0] - Number of items to skip.
+ * @design Responds with `{ items, total, limit, offset }`. Each item carries the remote resource, the mapped local
+ * fields and the import report, so a reviewer can compare them with the local patient.
+ */
+export const listInboundChanges = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Listing inbound FHIR changes.`
+        );
+        const { status } = req.query;
+        if (status !== undefined && !INBOUND_STATUSES.includes(status as FhirInboundChangeStatus)) {
+            res.status(400).json({
+                message: `Invalid status '${status}'. Expected one of: ${INBOUND_STATUSES.join(', ')}.`,
+            });
+            return;
+        }
+        const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+        const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+            res.status(400).json({
+                message: `'limit' must be an integer between 1 and ${MAX_LIST_LIMIT}.`,
+            });
+            return;
+        }
+        if (!Number.isInteger(offset) || offset < 0) {
+            res.status(400).json({ message: "'offset' must be a non-negative integer." });
+            return;
+        }
+
+        const result = await fhirSubscriptionService.list({
+            status: status as FhirInboundChangeStatus | undefined,
+            limit,
+            offset,
+        });
+        res.status(200).json({ ...result, limit, offset });
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Applies a pending inbound change to the local patient (or creates the patient when none had the PID).
+ * @route POST /api/admin/fhir-inbound/:id/apply
+ * @design 404 if the change or its local patient does not exist, 409 if it is no longer pending (or the PID is taken),
+ * 422 if it would create a patient from an incomplete resource.
+ */
+export const applyInboundChange = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid inbound change ID format' });
+            return;
+        }
+        const change = await fhirSubscriptionService.apply(
+            id,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(`[Controller] Inbound change ${id} applied to patient ${change.patientId}.`);
+        res.status(200).json(change);
+    } catch (error: any) {
+        if (
+            error instanceof NotFoundError ||
+            error instanceof ConflictError ||
+            error instanceof UnprocessableEntityError
+        ) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(`[Controller] Error in applyInboundChange for id ${req.params.id}:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Rejects a pending inbound change; the local patient stays as it is (the row is kept for auditing).
+ * @route POST /api/admin/fhir-inbound/:id/reject
+ * @design 404 if the change does not exist, 409 if it is no longer pending.
+ */
+export const rejectInboundChange = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid inbound change ID format' });
+            return;
+        }
+        const change = await fhirSubscriptionService.reject(
+            id,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(`[Controller] Inbound change ${id} rejected (PID ${change.pid}).`);
+        res.status(200).json(change);
+    } catch (error: any) {
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(`[Controller] Error in rejectInboundChange for id ${req.params.id}:`, error);
+        next(error);
+    }
+};
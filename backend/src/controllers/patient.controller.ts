@@ -1,8 +1,28 @@
 // backend/src/controllers/patient.controller.ts
 import { NextFunction, Request, Response } from 'express';
-import { PatientService } from '../services/patient.service'; // Service for core patient logic
-import { FhirService } from '../services/fhir.service'; // Service for FHIR-related operations
-import { ConflictError, NotFoundError } from '../utils/error'; // Custom error class for handling 404s
+import config from '../config';
+import {
+    PATIENT_SORT_FIELDS,
+    PatientDateCriterion,
+    PatientMergeChoices,
+    PatientSearchCriteria,
+    PatientService,
+    PatientSortField,
+} from '../services/patient.service'; // Service for core patient logic
+import { FhirService, MAX_TRANSACTION_CHUNK_SIZE } from '../services/fhir.service'; // Service for FHIR-related operations
+import {
+    BadRequestError,
+    ConflictError,
+    NotFoundError,
+    UnprocessableEntityError,
+    UpstreamServiceError,
+} from '../utils/error'; // Custom error class for handling 404s
+import { buildPushErrorBody } from '../utils/operationOutcome';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { FHIR_SYNC_FILTERS, FhirSyncFilter, FhirSyncService } from '../services/fhirSync.service';
+import { FhirEndpoint, resolveFhirPushTarget } from '../services/fhirEndpoints';
+import { PatientMatchService } from '../services/patientMatch.service';
+import { PatientSearchService } from '../services/patientSearch.service';
 
 // --- Dependency Instantiation ---
 // In a real-world scenario with dependency injection (DI), these would be injected.
@@ -10,6 +30,9 @@ import { ConflictError, NotFoundError } from '../utils/error'; // Custom error c
 const patientService = new PatientService();
 // Inject the patientService instance into FhirService, as FhirService needs it for data conversion.
 const fhirService = new FhirService(patientService);
+const fhirSyncService = new FhirSyncService();
+const patientMatchService = new PatientMatchService();
+const patientSearchService = new PatientSearchService();
 
 /**
  * @controller PatientController
@@ -22,14 +45,124 @@ const fhirService = new FhirService(patientService);
  * containing complex business rules or direct database access.
  */
 
+/** Default and maximum page size of the patient list. */
+const DEFAULT_LIST_PAGE_SIZE = 20;
+const MAX_LIST_PAGE_SIZE = 100;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * @function readListDate
+ * @description Reads an optional `YYYY-MM-DD` query parameter of the patient list.
+ * @returns {Date | undefined} The date at UTC midnight, or undefined when the parameter is absent or empty.
+ * @throws {BadRequestError} If the value is not a valid calendar date.
+ */
+const readListDate = (req: Request, name: string): Date | undefined => {
+    const value = req.query[name];
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const date = typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : null;
+    if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+        throw new BadRequestError(`'${name}' must be a date in YYYY-MM-DD format.`);
+    }
+    return date;
+};
+
+/**
+ * @function readPatientListQuery
+ * @description Translates the query parameters of `GET /api/patients` into search criteria.
+ * @returns {{ criteria: PatientSearchCriteria; page: number; pageSize: number }} The criteria and the requested page.
+ * @throws {BadRequestError} If a parameter is repeated or out of range.
+ */
+const readPatientListQuery = (
+    req: Request
+): { criteria: PatientSearchCriteria; page: number; pageSize: number } => {
+    const params: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.query)) {
+        if (typeof value !== 'string') {
+            throw new BadRequestError(`'${name}' must be given once.`);
+        }
+        params[name] = value.trim();
+    }
+    const { syncStatus, sort, order, active, gender, country, q } = params;
+
+    const page = params.page ? Number(params.page) : 1;
+    const pageSize = params.pageSize ? Number(params.pageSize) : DEFAULT_LIST_PAGE_SIZE;
+    if (!Number.isInteger(page) || page < 1) {
+        throw new BadRequestError("'page' must be a positive integer.");
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIST_PAGE_SIZE) {
+        throw new BadRequestError(
+            `'pageSize' must be an integer between 1 and ${MAX_LIST_PAGE_SIZE}.`
+        );
+    }
+    if (sort && !PATIENT_SORT_FIELDS.includes(sort as PatientSortField)) {
+        throw new BadRequestError(
+            `Invalid sort '${sort}'. Expected one of: ${PATIENT_SORT_FIELDS.join(', ')}.`
+        );
+    }
+    if (order && order !== 'asc' && order !== 'desc') {
+        throw new BadRequestError("'order' must be asc or desc.");
+    }
+    if (active && active !== 'true' && active !== 'false') {
+        throw new BadRequestError("'active' must be true or false.");
+    }
+    if (syncStatus && !FHIR_SYNC_FILTERS.includes(syncStatus as FhirSyncFilter)) {
+        throw new BadRequestError(
+            `Invalid syncStatus '${syncStatus}'. Expected one of: ${FHIR_SYNC_FILTERS.join(', ')}.`
+        );
+    }
+
+    // Birthday bounds are inclusive; the date criteria take the exclusive end of the day.
+    const birthday: PatientDateCriterion[] = [];
+    const from = readListDate(req, 'birthdayFrom');
+    const to = readListDate(req, 'birthdayTo');
+    if (from) {
+        birthday.push({ comparator: 'ge', start: params.birthdayFrom, end: params.birthdayFrom });
+    }
+    if (to) {
+        const end = new Date(to.getTime() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        birthday.push({ comparator: 'le', start: params.birthdayTo, end });
+    }
+
+    const criteria: PatientSearchCriteria = {
+        text: q ? [{ values: [q], match: 'contains' }] : undefined,
+        gender: gender ? [{ values: [gender.toLowerCase()] }] : undefined,
+        country: country ? [{ values: [country], match: 'startsWith' }] : undefined,
+        birthday,
+        active: active ? active === 'true' : undefined,
+        syncStatus: (syncStatus || undefined) as FhirSyncFilter | undefined,
+        sort: sort
+            ? [{ field: sort as PatientSortField, direction: order === 'desc' ? 'DESC' : 'ASC' }]
+            : undefined,
+        offset: (page - 1) * pageSize,
+        count: pageSize,
+    };
+    return { criteria, page, pageSize };
+};
+
 /**
  * @function getAllPatients
- * @description Retrieves and returns a list of all patients.
+ * @description Retrieves one page of patients, filtered and sorted by the query parameters.
  * @route GET /api/patients
+ * @query {number} [page=1] - 1-based page number.
+ * @query {number} [pageSize=20] - Page size (1-100).
+ * @query {string} [sort] - Sort field: id | pid | familyName | givenName | birthday | gender | active (default id).
+ * @query {string} [order=asc] - Sort direction: asc | desc. Ties are broken by ID so pages do not overlap.
+ * @query {string} [q] - Text query: substring of the PID, family or given name, phone or email (case-insensitive).
+ * @query {boolean} [active] - Only active (`true`) or inactive (`false`) patients.
+ * @query {string} [gender] - Only patients with this gender (local value, e.g. 男).
+ * @query {string} [birthdayFrom] - Only patients born on or after this date (YYYY-MM-DD).
+ * @query {string} [birthdayTo] - Only patients born on or before this date (YYYY-MM-DD).
+ * @query {string} [country] - Only patients whose country starts with this value (case-insensitive).
+ * @query {string} [syncStatus] - Only patients in this FHIR sync state: never-pushed | conflict | failed | modified |
+ * in-sync, or `out-of-sync` for every state but in-sync.
  * @param {Request} req - Express request object.
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Express next middleware function (for error handling).
- * @returns {Promise<void>} Sends a JSON response with the patient list or passes error to next().
+ * @returns {Promise<void>} Sends `{ items, total, page, pageSize }` (`total`: matches across all pages).
+ * @design Paging, sorting and filtering run in the database (`PatientService.search`), so the list stays fast
+ * however many patients are registered. Empty parameters are ignored, so a UI can send its whole filter form.
  */
 export const getAllPatients = async (
     req: Request,
@@ -38,21 +171,82 @@ export const getAllPatients = async (
 ): Promise<void> => {
     try {
         console.log(`[Controller] Handling GET /api/patients`);
+        const { criteria, page, pageSize } = readPatientListQuery(req);
         // Delegate fetching logic entirely to the service layer.
-        const patients = await patientService.findAll();
-        console.log(`[Controller] Found ${patients.length} patients.`);
+        const { patients, total } = await patientService.search(criteria);
+        console.log(`[Controller] Found ${total} patients, returning page ${page}.`);
         // Send successful response.
-        res.status(200).json(patients);
-    } catch (error) {
+        res.status(200).json({ items: patients, total, page, pageSize });
+    } catch (error: any) {
         console.error(`[Controller] Error in getAllPatients:`, error);
-        // Pass any unexpected errors to the central error handling middleware.
+        if (error instanceof BadRequestError) {
+            res.status(error.statusCode).json({ message: error.message });
+        } else {
+            // Pass any unexpected errors to the central error handling middleware.
+            next(error);
+        }
+    }
+};
+
+/** Default and maximum number of results of the patient search. */
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+/** Longest accepted search query. */
+const MAX_SEARCH_QUERY_LENGTH = 100;
+
+/**
+ * @function searchPatients
+ * @description Ranked free-text search over patients, with the matched parts of each result marked.
+ * @route GET /api/patients/search
+ * @query {string} q - The query: part of a name (Chinese or Latin characters), of a phone number, a PID prefix or an email.
+ * @query {number} [limit=10] - Maximum number of results (1-50).
+ * @param {Request} req - Express request object.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends `{ items }`; each item is `{ patient, score, highlights }`, best first, where
+ * `highlights` lists the matched fields with the `[start, end)` offsets of the matched text (none for a fuzzy match).
+ * @design Backs the type-ahead of the patient list; see `PatientSearchService` for matching and ranking.
+ * Records merged into another one are not returned.
+ */
+export const searchPatients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { q } = req.query;
+        console.log(`[Controller] Handling GET /api/patients/search`);
+        if (typeof q !== 'string' || !q.trim()) {
+            res.status(400).json({ message: "'q' must be a single, non-empty search query." });
+            return;
+        }
+        if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+            res.status(400).json({
+                message: `'q' must not be longer than ${MAX_SEARCH_QUERY_LENGTH} characters.`,
+            });
+            return;
+        }
+        const limit =
+            req.query.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(req.query.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+            res.status(400).json({
+                message: `'limit' must be an integer between 1 and ${MAX_SEARCH_LIMIT}.`,
+            });
+            return;
+        }
+
+        const items = await patientSearchService.search(q, limit);
+        res.status(200).json({ items });
+    } catch (error: any) {
+        console.error('[Controller] Error in searchPatients:', error);
         next(error);
     }
 };
 
 /**
  * @function getPatientById
- * @description Retrieves a single patient based on the ID provided in the route parameter.
+ * @description Retrieves a single patient based on the ID provided in the route parameter,
+ * together with its FHIR sync metadata (`fhirSync`: state, last push, remote versionId/lastUpdated, hash, last OperationOutcome).
  * @route GET /api/patients/:id
  * @param {Request} req - Express request object, expecting `req.params.id`.
  * @param {Response} res - Express response object.
@@ -78,9 +272,10 @@ export const getPatientById = async (
         // Delegate fetching to the service.
         const patient = await patientService.findById(id);
         // Service handles the NotFoundError throwing.
+        const fhirSync = await fhirSyncService.getSyncStatus(patient);
 
         // If service call succeeds, send 200 OK.
-        res.status(200).json(patient);
+        res.status(200).json({ ...patient, fhirSync });
     } catch (error: any) {
         console.error(`[Controller] Error in getPatientById for id ${req.params.id}:`, error);
         // Handle specific errors thrown by the service.
@@ -97,17 +292,18 @@ export const getPatientById = async (
 /**
  * @function createPatient
  * @description Creates a new patient record based on data in the request body.
- * After successful local creation, it triggers an *asynchronous* push to the FHIR server.
+ * The FHIR push is queued in the same database transaction (outbox) and performed by the background worker.
  * @route POST /api/patients
+ * @query {string} [allowDuplicates] - When 'true', saves the record even if probable duplicates exist.
  * @param {Request} req - Express request object, expecting patient data in `req.body`.
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Express next middleware function.
  * @returns {Promise<void>} Sends a 201 Created response with the new patient data or an error status.
  * @design
  * - Separation of Concerns: Core patient creation is handled by `patientService`.
- * - Asynchronous FHIR Push: The push to the FHIR server is initiated *after* the local record is successfully created but the API responds immediately with 201 Created. This improves API response time and decouples the core operation from the potentially slower/fallible external FHIR interaction.
+ * - Durable FHIR Push: `patientService.create` writes an outbox row in the same transaction as the patient, and `FhirOutboxWorker` pushes it with retries. The API responds immediately with 201 Created, and a FHIR outage can no longer lose the change.
+ * - Duplicate Warning: Before saving, `PatientMatchService` looks for probable or certain matches (a typo in the name or phone still matches). If any, responds 409 Conflict with `{ message, matches }` (best first) and saves nothing; the clerk re-submits with `?allowDuplicates=true` once the record is confirmed to be a different person. A record with the same PID is answered with the plain PID conflict instead, which cannot be overridden.
  * - Error Handling: Catches specific errors (like `ConflictError` for duplicate PID from the service) and maps them to appropriate HTTP status codes (409 Conflict). Other errors are passed on.
- * - Logging: Logs the background FHIR push attempt result (success/failure) for monitoring but doesn't let FHIR push failures block the primary API response.
  */
 export const createPatient = async (
     req: Request,
@@ -122,42 +318,40 @@ export const createPatient = async (
             return;
         }
 
-        // 1. Create the patient record locally via the service.
-        const savedPatient = await patientService.create(req.body);
-        console.log(`[Controller] Patient created locally with ID: ${savedPatient.id}`);
-
-        // 2. Trigger asynchronous FHIR push - *Fire and Forget* style from the controller's perspective.
-        // We don't `await` this block because the primary operation (local creation) is complete.
-        // The main API response should not depend on the FHIR push succeeding immediately.
-        fhirService
-            .convertDbPatientToFhir(savedPatient.id) // Convert the newly saved patient data
-            .then((fhirPatient) => {
-                // Check if conversion was successful and resource exists
-                if (fhirPatient) {
-                    return fhirService.pushFhirPatientToServer(fhirPatient); // Push the converted resource
-                }
-                return false; // Indicate push didn't happen if conversion failed
-            })
-            .then((pushed) => {
-                // Log the outcome of the background push attempt.
-                if (pushed) {
-                    console.log(
-                        `[Controller][Async] FHIR push successful for new Patient ${savedPatient.id}.`
-                    );
-                } else {
-                    console.warn(
-                        `[Controller][Async] FHIR push failed or skipped for new Patient ${savedPatient.id}.`
-                    );
-                }
-            })
-            .catch((fhirError) => {
-                // Log errors from the background FHIR push process.
-                // This does not affect the client's 201 response.
-                console.error(
-                    `[Controller][Async] Error during background FHIR push for new Patient ${savedPatient.id}:`,
-                    fhirError
-                );
+        // 1. Warn about probable duplicates (the same person registered with a slightly different spelling).
+        if (req.query.allowDuplicates !== 'true') {
+            const matches = await patientMatchService.findMatches(req.body, {
+                minimumGrade: 'probable',
+                count: 5,
             });
+            // The same PID is not a possible duplicate but the existing record: no override is offered.
+            const pid = String(req.body.pid ?? '')
+                .trim()
+                .toUpperCase();
+            if (pid && matches.some(({ patient }) => patient.pid.trim().toUpperCase() === pid)) {
+                throw new ConflictError('Identity number (PID) already exists');
+            }
+            if (matches.length > 0) {
+                console.log(
+                    `[Controller] Patient not created: ${matches.length} probable duplicate(s), best ${matches[0].patient.pid} (${matches[0].score}).`
+                );
+                res.status(409).json({
+                    message: 'Possible duplicate patient: similar records are already registered.',
+                    matches,
+                });
+                return;
+            }
+        }
+
+        // 2. Create the patient record locally via the service. The FHIR push is queued in the same
+        // transaction (outbox) and performed by the background `FhirOutboxWorker`.
+        const savedPatient = await patientService.create(
+            req.body,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(
+            `[Controller] Patient created locally with ID: ${savedPatient.id} (FHIR push queued).`
+        );
 
         // 3. Respond immediately with 201 Created and the locally saved patient data.
         res.status(201).json(savedPatient);
@@ -182,13 +376,13 @@ export const createPatient = async (
 /**
  * @function updatePatient
  * @description Updates an existing patient record by ID using data from the request body.
- * Triggers an asynchronous push to the FHIR server after successful local update.
+ * The FHIR push is queued in the same transaction (outbox) and performed by the background worker.
  * @route PUT /api/patients/:id
  * @param {Request} req - Express request object with `req.params.id` and update data in `req.body`.
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Express next middleware function.
  * @returns {Promise<void>} Sends a 200 OK response with the updated patient data or an error status.
- * @design Similar to `createPatient`, the FHIR push is asynchronous to keep the API responsive.
+ * @design Similar to `createPatient`, the FHIR push goes through the outbox to keep the API responsive and the push durable.
  * Handles `NotFoundError` from the service layer for non-existent patient IDs.
  */
 export const updatePatient = async (
@@ -210,32 +404,15 @@ export const updatePatient = async (
             return;
         }
 
-        // 1. Update patient locally via service.
-        const updatedPatient = await patientService.update(id, req.body);
-        console.log(`[Controller] Patient ${id} updated locally.`);
-
-        // 2. Trigger asynchronous FHIR push.
-        fhirService
-            .convertDbPatientToFhir(updatedPatient.id)
-            .then((fhirPatient) => fhirPatient && fhirService.pushFhirPatientToServer(fhirPatient))
-            .then((pushed) => {
-                if (pushed)
-                    console.log(
-                        `[Controller][Async] FHIR push successful for updated Patient ${updatedPatient.id}.`
-                    );
-                else
-                    console.warn(
-                        `[Controller][Async] FHIR push failed or skipped for updated Patient ${updatedPatient.id}.`
-                    );
-            })
-            .catch((fhirError) => {
-                console.error(
-                    `[Controller][Async] Error during background FHIR push for updated Patient ${updatedPatient.id}:`,
-                    fhirError
-                );
-            });
+        // 1. Update patient locally via service; the FHIR push is queued in the same transaction (outbox).
+        const updatedPatient = await patientService.update(
+            id,
+            req.body,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(`[Controller] Patient ${id} updated locally (FHIR push queued).`);
 
-        // 3. Respond immediately with 200 OK.
+        // 2. Respond immediately with 200 OK.
         res.status(200).json(updatedPatient);
     } catch (error: any) {
         console.error(`[Controller] Error in updatePatient for id ${req.params.id}:`, error);
@@ -254,7 +431,7 @@ export const updatePatient = async (
 
 /**
  * @function deletePatient
- * @description Deletes a patient record by ID.
+ * @description Deletes a patient record by ID and queues the FHIR side of the deletion.
  * @route DELETE /api/patients/:id
  * @param {Request} req - Express request object with `req.params.id`.
  * @param {Response} res - Express response object.
@@ -262,7 +439,8 @@ export const updatePatient = async (
  * @returns {Promise<void>} Sends a 204 No Content response on success or an error status.
  * @design Corresponds to the HTTP DELETE method semantics. A successful deletion typically returns 204 No Content.
  * Handles `NotFoundError` from the service if the patient doesn't exist.
- * @note FHIR Deletion: This currently only deletes the local record. A corresponding FHIR delete operation (`DELETE /Patient/:id`) on the FHIR server might be needed depending on the workflow requirements. This is not implemented here.
+ * The remote Patient is deleted, deactivated or kept according to `FHIR_DELETE_POLICY`; delete and deactivate go
+ * through the outbox (see `FhirOutboxWorker`), so a failure is retried and visible in `/api/admin/fhir-outbox`.
  */
 export const deletePatient = async (
     req: Request,
@@ -277,12 +455,14 @@ export const deletePatient = async (
             return;
         }
 
-        // Delegate deletion to the service.
-        await patientService.remove(id);
-        console.log(`[Controller] Patient ${id} deleted locally.`);
-
-        // TODO: Consider triggering a DELETE request to the FHIR server here if needed.
-        // e.g., fhirService.deleteFhirPatient(patientPID).catch(err => console.error(...));
+        // Delegate deletion to the service (which also queues the FHIR delete / deactivate).
+        const operation = await patientService.remove(
+            id,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        console.log(
+            `[Controller] Patient ${id} deleted locally${operation ? ` (FHIR ${operation} queued)` : ''}.`
+        );
 
         // Send 204 No Content on successful deletion.
         res.status(204).send();
@@ -296,6 +476,28 @@ export const deletePatient = async (
     }
 };
 
+/**
+ * @function getFhirDeletePolicy
+ * @description Tells the client what deleting a patient does on the FHIR server, so it can say so before confirming.
+ * @route GET /api/patients/fhir/delete-policy
+ * @param {Request} req - Express request object.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends `{ policy }`: `delete`, `deactivate` or `keep` (`FHIR_DELETE_POLICY`).
+ */
+export const getFhirDeletePolicy = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        res.status(200).json({ policy: config.fhir.deletePolicy });
+    } catch (error: any) {
+        console.error('[Controller] Error in getFhirDeletePolicy:', error);
+        next(error);
+    }
+};
+
 // --- FHIR Specific Endpoints Handled by Patient Controller (Could be moved to a dedicated FHIR Controller) ---
 
 /**
@@ -345,10 +547,27 @@ export const getPatientAsFhir = async (
     }
 };
 
+/**
+ * @function readPushTarget
+ * @description Resolves the optional `target` of a push request (body field, or `?target=`) to a FHIR endpoint.
+ * @returns {FhirEndpoint} The named endpoint, or the primary endpoint when no target is given.
+ * @throws {BadRequestError} If `target` is not a string or names no configured endpoint.
+ * @throws {ConflictError} If the endpoint is disabled.
+ */
+const readPushTarget = (req: Request): FhirEndpoint => {
+    const target = req.body?.target ?? req.query.target;
+    if (target !== undefined && typeof target !== 'string') {
+        throw new BadRequestError("'target' must be a single FHIR endpoint name.");
+    }
+    return resolveFhirPushTarget(target);
+};
+
 /**
  * @function pushPatientToFhir
  * @description Manually triggers the process to push a specific patient's data to the configured FHIR server.
  * @route POST /api/patients/:id/push-to-fhir
+ * @query {string} [target] - Name of the FHIR endpoint to push to (also accepted as body field `target`); defaults to
+ * the primary endpoint (`FHIR_TARGET_SERVER_URL`).
  * @param {Request} req - Express request object with `req.params.id`.
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Express next middleware function.
@@ -356,6 +575,14 @@ export const getPatientAsFhir = async (
  * @design Uses POST because it initiates an action (pushing data).
  * Delegates the entire push logic (conversion + sending) to `fhirService.triggerPushForPatient`.
  * The response indicates whether the trigger was *accepted* and initiated, not necessarily the final success of the push on the remote server (which might be asynchronous). A 202 Accepted might be more appropriate if the push is truly async internally.
+ * Responds 409 when the remote copy was changed by another system since our last push (`If-Match` failed); see
+ * `GET /api/patients/:id/fhir/remote` and `POST /api/patients/:id/fhir/resolve-conflict`.
+ * Responds 400 for an unknown `target`, 409 for a disabled one, and 422 when the target's routing rules exclude the patient.
+ * Failed pushes answer with `{ message, upstreamStatusCode, issues, outcome }`, where `issues` lists severity, code,
+ * diagnostics and expression of each OperationOutcome issue:
+ * - 422 when the resource failed local validation and was not sent (see `POST /api/patients/:id/fhir/$validate`),
+ *   or when the FHIR server rejected its content (upstream 4xx).
+ * - 502 / 503 / 504 when the FHIR server failed, was unavailable or did not answer (see `toPushFailureError`).
  */
 export const pushPatientToFhir = async (
     req: Request,
@@ -369,31 +596,229 @@ export const pushPatientToFhir = async (
             res.status(400).json({ message: 'Invalid patient ID format' });
             return;
         }
+        const endpoint = readPushTarget(req);
 
         // Delegate the triggering and pushing logic to the service.
-        const success = await fhirService.triggerPushForPatient(id);
+        // The authenticated user is recorded as agent of the Provenance sent with the Patient.
+        const success = await fhirService.triggerPushForPatient(
+            id,
+            (req as AuthenticatedRequest).user,
+            endpoint
+        );
 
         if (success) {
             // Respond indicating the push was successfully initiated.
             // Consider 202 Accepted if the actual push happens async in the service.
             res.status(200).json({
-                message: `Successfully triggered push of Patient ${id} data to FHIR server.`,
+                message: `Successfully triggered push of Patient ${id} data to FHIR server '${endpoint.name}'.`,
             });
         } else {
-            // If service returns false, it might be due to patient not found or push failure.
-            // The service should ideally throw specific errors for better handling here.
-            // For now, a generic 500 or potentially 404/400 might be suitable depending on expected failure modes.
-            // Let's assume service throws NotFoundError if patient doesn't exist for conversion.
+            // The service returns false only when the record cannot be converted to FHIR (missing PID);
+            // failed pushes throw errors carrying the OperationOutcome (handled below).
             res.status(500).json({
-                message: `Failed to trigger FHIR push for Patient ${id}. See server logs for details.`,
+                message: `Failed to trigger FHIR push for Patient ${id}: the record cannot be converted to FHIR (missing PID).`,
             });
         }
     } catch (error: any) {
         console.error(`[Controller] Error in pushPatientToFhir for id ${req.params.id}:`, error);
-        if (error instanceof NotFoundError) {
+        // ConflictError: the remote copy changed since our last push (412) and was left untouched, or the target is disabled.
+        if (
+            error instanceof BadRequestError ||
+            error instanceof NotFoundError ||
+            error instanceof ConflictError
+        ) {
             res.status(error.statusCode).json({ message: error.message });
+        } else if (
+            error instanceof UnprocessableEntityError ||
+            error instanceof UpstreamServiceError
+        ) {
+            // Invalid resource or push not accepted: the OperationOutcome issues tell the clerk what to fix.
+            res.status(error.statusCode).json(buildPushErrorBody(error));
         } else {
             next(error); // Pass other errors.
         }
     }
 };
+
+/**
+ * @function pushPatientsToFhirBatch
+ * @description Pushes many patients to the FHIR server in `transaction` Bundles and reports per-patient results.
+ * @route POST /api/patients/push-to-fhir/batch
+ * @param {Request} req - Express request object. Optional body: `{ patientIds?: number[], chunkSize?: number, target?: string }`.
+ * Without `patientIds`, every patient is pushed; without `target`, to the primary endpoint. Patients the target's
+ * routing rules exclude are reported as failed.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends `{ total, bundles, succeeded, failed }`.
+ * @design Responds 200 even when some patients failed; the caller inspects `failed` (each with its OperationOutcome).
+ * Runs synchronously, so very large resyncs should be split by `patientIds` or rely on the chunking.
+ */
+export const pushPatientsToFhirBatch = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log('[Controller] Handling POST /api/patients/push-to-fhir/batch');
+        const { patientIds, chunkSize } = req.body ?? {};
+
+        if (
+            patientIds !== undefined &&
+            (!Array.isArray(patientIds) || !patientIds.every((id) => Number.isInteger(id)))
+        ) {
+            res.status(400).json({ message: 'patientIds must be an array of integer patient IDs' });
+            return;
+        }
+        if (
+            chunkSize !== undefined &&
+            (!Number.isInteger(chunkSize) ||
+                chunkSize < 1 ||
+                chunkSize > MAX_TRANSACTION_CHUNK_SIZE)
+        ) {
+            res.status(400).json({
+                message: `chunkSize must be an integer between 1 and ${MAX_TRANSACTION_CHUNK_SIZE}`,
+            });
+            return;
+        }
+        const endpoint = readPushTarget(req);
+
+        const result = await fhirService.pushPatientsInTransactionBundles(
+            patientIds ? Array.from(new Set<number>(patientIds)) : undefined,
+            chunkSize,
+            (req as AuthenticatedRequest).user,
+            endpoint
+        );
+        res.status(200).json(result);
+    } catch (error: any) {
+        console.error('[Controller] Error in pushPatientsToFhirBatch:', error);
+        if (error instanceof BadRequestError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+        } else {
+            next(error);
+        }
+    }
+};
+
+/**
+ * @function mergePatients
+ * @description Merges a confirmed duplicate (source) into the surviving (target) patient record.
+ * @route POST /api/patients/merge
+ * @param {Request} req - Express request object; body `{ sourceId, targetId, choices? }`, where `choices` maps
+ * mergeable fields (`MERGEABLE_PATIENT_FIELDS`) to the record whose value survives ('source' | 'target').
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends 200 OK with `{ entry, source, target }`: the merge log entry and both records.
+ * @design The source becomes inactive and `replacedBy` the target; both are queued for the FHIR server (outbox) in
+ * the merge transaction and pushed with `Patient.link`. 400 for invalid input, 404 for unknown patients, 409 when a
+ * record was already merged.
+ */
+export const mergePatients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(`[Controller] Handling POST /api/patients/merge with body:`, req.body);
+        const sourceId = Number(req.body?.sourceId);
+        const targetId = Number(req.body?.targetId);
+        const choices = req.body?.choices ?? {};
+        if (!Number.isInteger(sourceId) || !Number.isInteger(targetId)) {
+            res.status(400).json({ message: 'sourceId and targetId must be patient IDs.' });
+            return;
+        }
+        if (typeof choices !== 'object' || Array.isArray(choices)) {
+            res.status(400).json({
+                message: 'choices must map patient fields to source or target.',
+            });
+            return;
+        }
+
+        const result = await patientService.merge(
+            sourceId,
+            targetId,
+            choices as PatientMergeChoices,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        res.status(200).json(result);
+    } catch (error: any) {
+        console.error(`[Controller] Error in mergePatients:`, error);
+        if (
+            error instanceof BadRequestError ||
+            error instanceof NotFoundError ||
+            error instanceof ConflictError
+        ) {
+            res.status(error.statusCode).json({ message: error.message });
+        } else {
+            next(error);
+        }
+    }
+};
+
+/**
+ * @function unmergePatients
+ * @description Reverses a merge using its log entry.
+ * @route POST /api/patients/merges/:mergeId/unmerge
+ * @param {Request} req - Express request object with `req.params.mergeId`.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends 200 OK with `{ entry, source, target }`: the unmerge log entry and both records.
+ * @design See `PatientService.unmerge`: fields edited since the merge are kept (and reported in `entry.fields`).
+ * 404 for an unknown merge, 409 when it was already undone or can no longer be undone.
+ */
+export const unmergePatients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const mergeId = parseInt(req.params.mergeId, 10);
+        console.log(`[Controller] Handling POST /api/patients/merges/${mergeId}/unmerge`);
+        if (isNaN(mergeId)) {
+            res.status(400).json({ message: 'Invalid merge ID format' });
+            return;
+        }
+        const result = await patientService.unmerge(
+            mergeId,
+            (req as AuthenticatedRequest).user?.userId
+        );
+        res.status(200).json(result);
+    } catch (error: any) {
+        console.error(
+            `[Controller] Error in unmergePatients for merge ${req.params.mergeId}:`,
+            error
+        );
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+        } else {
+            next(error);
+        }
+    }
+};
+
+/**
+ * @function getPatientMergeLog
+ * @description Lists the merge log entries involving a patient (as source or target), newest first.
+ * @route GET /api/patients/:id/merges
+ * @param {Request} req - Express request object with `req.params.id`.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Express next middleware function.
+ * @returns {Promise<void>} Sends 200 OK with the entries.
+ */
+export const getPatientMergeLog = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        console.log(`[Controller] Handling GET /api/patients/${id}/merges`);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid patient ID format' });
+            return;
+        }
+        res.status(200).json(await patientService.findMergeLog(id));
+    } catch (error: any) {
+        console.error(`[Controller] Error in getPatientMergeLog for id ${req.params.id}:`, error);
+        next(error);
+    }
+};
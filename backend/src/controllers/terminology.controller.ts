@@ -0,0 +1,329 @@
+// backend/src/controllers/terminology.controller.ts
+import { NextFunction, Request, Response } from 'express';
+import { Parameters } from 'fhir/r5';
+import {
+    CONCEPT_MAP_IDS,
+    TerminologyMappingInput,
+    TerminologyService,
+    TranslateRequest,
+} from '../services/terminology.service';
+import { TerminologyConceptMapId } from '../models/entities/TerminologyMapping.entity';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/error';
+import { buildOperationOutcome } from '../utils/operationOutcome';
+import {
+    negotiateFhirFormat,
+    negotiateFhirVersion,
+    readFhirRequestBody,
+    sendFhirResource,
+    UNSUPPORTED_FHIR_VERSION_MESSAGE,
+} from '../utils/fhirRequest';
+
+const terminologyService = new TerminologyService();
+
+/**
+ * Sends an OperationOutcome for a failed FHIR terminology request: 400 / 404 for known errors, otherwise false.
+ */
+const sendKnownFhirError = (res: Response, error: unknown): boolean => {
+    if (error instanceof BadRequestError || error instanceof NotFoundError) {
+        res.status(error.statusCode)
+            .type('application/fhir+json')
+            .json(
+                buildOperationOutcome(
+                    'error',
+                    error instanceof NotFoundError ? 'not-found' : 'invalid',
+                    error.message
+                )
+            );
+        return true;
+    }
+    return false;
+};
+
+/**
+ * Sends 406 with an OperationOutcome, for requests naming an unsupported FHIR release.
+ */
+const sendUnsupportedFhirVersion = (res: Response): void => {
+    res.status(406)
+        .type('application/fhir+json')
+        .json(buildOperationOutcome('error', 'not-supported', UNSUPPORTED_FHIR_VERSION_MESSAGE));
+};
+
+/**
+ * Lists terminology mappings.
+ * @route GET /api/admin/terminology/mappings
+ * @query {string} [conceptMap] - One of gender | language | relationship.
+ */
+export const listTerminologyMappings = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] GET ${req.originalUrl} - Listing terminology mappings.`
+        );
+        const { conceptMap } = req.query;
+        if (
+            conceptMap !== undefined &&
+            !CONCEPT_MAP_IDS.includes(conceptMap as TerminologyConceptMapId)
+        ) {
+            res.status(400).json({
+                message: `Invalid conceptMap '${conceptMap}'. Expected one of: ${CONCEPT_MAP_IDS.join(', ')}.`,
+            });
+            return;
+        }
+        const items = await terminologyService.list(
+            conceptMap as TerminologyConceptMapId | undefined
+        );
+        res.status(200).json({ items, total: items.length });
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET ${req.originalUrl} - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * Adds a terminology mapping. Takes effect immediately for every FHIR conversion.
+ * @route POST /api/admin/terminology/mappings
+ * @body {TerminologyMappingInput} - `{ conceptMap, localValue, targetCode, targetSystem?, targetDisplay?, reverseDefault? }`.
+ * @design 201 with the mapping; 400 on invalid input, 409 if the local value is already mapped in that concept map.
+ */
+export const createTerminologyMapping = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const mapping = await terminologyService.create(req.body as TerminologyMappingInput);
+        res.status(201).json(mapping);
+    } catch (error: any) {
+        if (error instanceof BadRequestError || error instanceof ConflictError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error('[Controller] Error in createTerminologyMapping:', error);
+        next(error);
+    }
+};
+
+/**
+ * Changes a terminology mapping. Omitted fields keep their value.
+ * @route PUT /api/admin/terminology/mappings/:id
+ * @design 404 if the mapping does not exist, 400 on invalid input, 409 on a duplicate local value.
+ */
+export const updateTerminologyMapping = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid terminology mapping ID format' });
+            return;
+        }
+        const mapping = await terminologyService.update(
+            id,
+            req.body as Partial<TerminologyMappingInput>
+        );
+        res.status(200).json(mapping);
+    } catch (error: any) {
+        if (
+            error instanceof BadRequestError ||
+            error instanceof ConflictError ||
+            error instanceof NotFoundError
+        ) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(
+            `[Controller] Error in updateTerminologyMapping for id ${req.params.id}:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Deletes a terminology mapping; the local value is sent as unmapped from then on.
+ * @route DELETE /api/admin/terminology/mappings/:id
+ * @design 204 on success, 404 if the mapping does not exist.
+ */
+export const deleteTerminologyMapping = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+            res.status(400).json({ message: 'Invalid terminology mapping ID format' });
+            return;
+        }
+        await terminologyService.remove(id);
+        res.status(204).send();
+    } catch (error: any) {
+        if (error instanceof NotFoundError) {
+            res.status(error.statusCode).json({ message: error.message });
+            return;
+        }
+        console.error(
+            `[Controller] Error in deleteTerminologyMapping for id ${req.params.id}:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * FHIR search on ConceptMap: returns every concept map (search parameters are not supported).
+ * @route GET /fhir/ConceptMap
+ */
+export const searchFhirConceptMaps = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        const conceptMaps = terminologyService.listConceptMaps();
+        sendFhirResource(
+            res,
+            200,
+            {
+                resourceType: 'Bundle',
+                type: 'searchset',
+                total: conceptMaps.length,
+                entry: conceptMaps.map((resource) => ({
+                    resource,
+                    search: { mode: 'match' },
+                })),
+            },
+            version,
+            negotiateFhirFormat(req)
+        );
+    } catch (error: any) {
+        console.error(`[API][${new Date().toISOString()}] GET /fhir/ConceptMap - Error:`, error);
+        next(error);
+    }
+};
+
+/**
+ * FHIR read of a ConceptMap ('gender', 'language' or 'relationship').
+ * @route GET /fhir/ConceptMap/:id
+ */
+export const readFhirConceptMap = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        sendFhirResource(
+            res,
+            200,
+            terminologyService.getConceptMap(req.params.id),
+            version,
+            negotiateFhirFormat(req)
+        );
+    } catch (error: any) {
+        if (sendKnownFhirError(res, error)) {
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] GET /fhir/ConceptMap/${req.params.id} - Error:`,
+            error
+        );
+        next(error);
+    }
+};
+
+/**
+ * Extracts the `$translate` input from the query string (GET) or a Parameters body (POST, FHIR JSON or XML).
+ * Accepts the R5 parameter names (`sourceCode`, `sourceCoding`, `targetCode`, `targetCoding`, `targetSystem`)
+ * and the R4 ones (`code`, `coding`, `targetsystem`, `reverse`).
+ */
+const readTranslateRequest = (req: Request): TranslateRequest => {
+    const values: Record<string, string | undefined> = {};
+    const codings: Record<string, { system?: string; code?: string } | undefined> = {};
+    if (req.method === 'POST') {
+        const body = readFhirRequestBody(req) as Parameters | undefined;
+        if (body?.resourceType !== 'Parameters') {
+            throw new BadRequestError('The request body must be a Parameters resource.');
+        }
+        for (const parameter of body.parameter ?? []) {
+            values[parameter.name] =
+                parameter.valueUri ??
+                parameter.valueCanonical ??
+                parameter.valueCode ??
+                parameter.valueString ??
+                (parameter.valueBoolean === undefined ? undefined : String(parameter.valueBoolean));
+            codings[parameter.name] = parameter.valueCoding;
+        }
+    } else {
+        for (const [name, value] of Object.entries(req.query)) {
+            values[name] = typeof value === 'string' ? value : undefined;
+        }
+    }
+    const sourceCoding = codings.sourceCoding ?? codings.coding;
+    const code = values.sourceCode ?? values.code ?? sourceCoding?.code;
+    const system = values.system ?? sourceCoding?.system;
+    const targetSystem = values.targetSystem ?? values.targetsystem;
+    if (values.reverse === 'true') {
+        // R4 reverse translation: `code` / `system` name the target concept.
+        return { url: values.url, targetCode: code, targetSystem: system ?? targetSystem };
+    }
+    return {
+        url: values.url,
+        sourceCode: code,
+        system,
+        targetCode: values.targetCode ?? codings.targetCoding?.code,
+        targetSystem: targetSystem ?? codings.targetCoding?.system,
+    };
+};
+
+/**
+ * `$translate` on the local concept maps: local value -> FHIR code (`sourceCode`), or back (`targetCode`).
+ * @route GET|POST /fhir/ConceptMap/$translate
+ * @route GET|POST /fhir/ConceptMap/:id/$translate
+ * @design Returns Parameters with `result` and one `match` per translation (see `TerminologyService.translate`);
+ * 400 / 404 are returned as OperationOutcome.
+ */
+export const translateConcept = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        console.log(
+            `[API][${new Date().toISOString()}] ${req.method} ${req.originalUrl} - $translate.`
+        );
+        const version = negotiateFhirVersion(req);
+        if (!version) {
+            sendUnsupportedFhirVersion(res);
+            return;
+        }
+        const parameters = terminologyService.translate({
+            ...readTranslateRequest(req),
+            conceptMapId: req.params.id,
+        });
+        sendFhirResource(res, 200, parameters, version, negotiateFhirFormat(req));
+    } catch (error: any) {
+        if (sendKnownFhirError(res, error)) {
+            return;
+        }
+        console.error(
+            `[API][${new Date().toISOString()}] ${req.method} ${req.originalUrl} - Error:`,
+            error
+        );
+        next(error);
+    }
+};
@@ -15,7 +15,7 @@ import { UnauthorizedError } from '../utils/error'
  * making user information readily available in subsequent middleware and route handlers.
  * @property {JwtPayload} [user] - Optional property to store the decoded JWT payload.
  */
-interface AuthenticatedRequest extends Request {
+export interface AuthenticatedRequest extends Request {
     user?: JwtPayload; // Use the imported JwtPayload type
 }
 
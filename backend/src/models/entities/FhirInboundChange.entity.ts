@@ -0,0 +1,121 @@
+// backend/src/models/entities/FhirInboundChange.entity.ts
+import {
+    BaseEntity,
+    Column,
+    CreateDateColumn,
+    Entity,
+    Generated,
+    PrimaryColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+import { Patient } from 'fhir/r5';
+import { bigintTransformer } from '../../utils/bigintTransformer';
+import type { FhirImportIssue } from '../../services/fhir.service';
+import type { CreatePatientDto } from '../../services/patient.service';
+
+/**
+ * Lifecycle of an inbound change:
+ * - `pending`: waiting for a reviewer to apply or reject it.
+ * - `applied`: written to the local patient (automatically, or by a reviewer).
+ * - `rejected`: a reviewer decided the local record stays as it is.
+ * - `superseded`: a newer change of the same remote Patient arrived while this one was pending.
+ */
+export type FhirInboundChangeStatus = 'pending' | 'applied' | 'rejected' | 'superseded';
+
+/**
+ * A Patient change made on the FHIR server by another system, mapped to the 'fhir_inbound_changes' table.
+ * Written when a Subscription notification is received, whether the change was applied or queued for review.
+ */
+@Entity('fhir_inbound_changes')
+export class FhirInboundChangeEntity extends BaseEntity {
+    /**
+     * The unique identifier for the inbound change, auto-incremented.
+     */
+    @PrimaryColumn({ type: 'bigint', transformer: bigintTransformer })
+    @Generated('increment')
+    id!: number;
+
+    /**
+     * Internal ID of the local patient with the same PID; null if there is none. Not a foreign key.
+     */
+    @Column({ name: 'patient_id', type: 'bigint', nullable: true, transformer: bigintTransformer })
+    patientId?: number | null;
+
+    /**
+     * The PID carried by the remote Patient (`urn:ehr:system:pid` identifier).
+     */
+    @Column({ length: 10 })
+    pid!: string;
+
+    /**
+     * Logical id of the remote Patient.
+     */
+    @Column({ name: 'remote_resource_id', length: 64 })
+    remoteResourceId!: string;
+
+    /**
+     * `meta.versionId` of the remote Patient that was read.
+     */
+    @Column({ name: 'remote_version_id', type: 'varchar', length: 64, nullable: true })
+    remoteVersionId?: string | null;
+
+    /**
+     * `meta.lastUpdated` of the remote Patient that was read.
+     */
+    @Column({ name: 'remote_last_updated', type: 'timestamptz', nullable: true })
+    remoteLastUpdated?: Date | null;
+
+    /**
+     * Current lifecycle state (see `FhirInboundChangeStatus`).
+     */
+    @Column({ type: 'varchar', length: 20, default: 'pending' })
+    status!: FhirInboundChangeStatus;
+
+    /**
+     * Why the change was queued for review instead of being applied.
+     */
+    @Column({ type: 'text', nullable: true })
+    reason?: string | null;
+
+    /**
+     * The remote Patient, in the internal (R5) model.
+     */
+    @Column({ type: 'jsonb' })
+    resource!: Patient;
+
+    /**
+     * Local patient fields mapped from the remote Patient (`FhirService.convertFhirToDbPatient`).
+     */
+    @Column({ name: 'patient_data', type: 'jsonb' })
+    patientData!: Partial<CreatePatientDto>;
+
+    /**
+     * Everything the mapping dropped or could not map.
+     */
+    @Column({ type: 'jsonb', default: () => "'[]'" })
+    report!: FhirImportIssue[];
+
+    /**
+     * ID of the user who applied or rejected the change; null when it was applied automatically.
+     */
+    @Column({ name: 'reviewed_by', type: 'bigint', nullable: true, transformer: bigintTransformer })
+    reviewedBy?: number | null;
+
+    /**
+     * When the change was applied or rejected.
+     */
+    @Column({ name: 'reviewed_at', type: 'timestamptz', nullable: true })
+    reviewedAt?: Date | null;
+
+    /**
+     * Timestamp of when the notification was received.
+     */
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt!: Date;
+
+    /**
+     * Timestamp of the last state change.
+     */
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt!: Date;
+}
@@ -0,0 +1,124 @@
+// backend/src/models/entities/FhirOutbox.entity.ts
+import {
+    BaseEntity,
+    Column,
+    CreateDateColumn,
+    Entity,
+    Generated,
+    PrimaryColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+import { bigintTransformer } from '../../utils/bigintTransformer';
+import type { FhirPushActivity } from '../../utils/provenance';
+
+/**
+ * Lifecycle of an outbox item:
+ * - `pending`: waiting to be pushed (new, or scheduled for a retry at `nextAttemptAt`).
+ * - `processing`: claimed by the worker; returns to `pending` / `done` / `dead` after the attempt.
+ * - `done`: pushed successfully.
+ * - `dead`: gave up after `maxAttempts` (or a permanent error); only an admin retry revives it.
+ * - `discarded`: an admin decided the change should not be pushed.
+ */
+export type FhirOutboxStatus = 'pending' | 'processing' | 'done' | 'dead' | 'discarded';
+
+/**
+ * What the outbox item asks the worker to do with the patient on the FHIR server:
+ * - `upsert`: push the patient's current row (after a create or update).
+ * - `delete`: `DELETE Patient/{pid}` (after a local delete, `FHIR_DELETE_POLICY=delete`).
+ * - `deactivate`: set the remote Patient's `active` to false (after a local delete, `FHIR_DELETE_POLICY=deactivate`).
+ */
+export type FhirOutboxOperation = 'upsert' | 'delete' | 'deactivate';
+
+/**
+ * Represents a pending FHIR push, mapped to the 'fhir_outbox' table.
+ * A row is written in the same database transaction as the patient change it describes,
+ * so a change can never be committed without also being queued for the FHIR server.
+ */
+@Entity('fhir_outbox')
+export class FhirOutboxEntity extends BaseEntity {
+    /**
+     * The unique identifier for the outbox item, auto-incremented.
+     */
+    @PrimaryColumn({ type: 'bigint', transformer: bigintTransformer })
+    @Generated('increment')
+    id!: number;
+
+    /**
+     * Internal ID of the patient the change belongs to. Not a foreign key, so the item survives patient deletion.
+     */
+    @Column({ name: 'patient_id', type: 'bigint', transformer: bigintTransformer })
+    patientId!: number;
+
+    /**
+     * The patient's PID at the time of the change (the FHIR resource id).
+     */
+    @Column({ length: 10 })
+    pid!: string;
+
+    /**
+     * Name of the FHIR endpoint the item is for (see `FhirEndpoint`). A change queues one item per routed endpoint.
+     */
+    @Column({ type: 'varchar', length: 50 })
+    endpoint!: string;
+
+    /**
+     * The FHIR operation to perform.
+     */
+    @Column({ type: 'varchar', length: 20, default: 'upsert' })
+    operation!: FhirOutboxOperation;
+
+    /**
+     * The local change an `upsert` item records: `create` for the patient's creation, `update` for later edits
+     * (the activity of the Provenance sent with the push). Null for `delete` / `deactivate` items.
+     */
+    @Column({ type: 'varchar', length: 20, nullable: true })
+    activity?: FhirPushActivity | null;
+
+    /**
+     * Current lifecycle state (see `FhirOutboxStatus`).
+     */
+    @Column({ type: 'varchar', length: 20, default: 'pending' })
+    status!: FhirOutboxStatus;
+
+    /**
+     * Number of push attempts made so far.
+     */
+    @Column({ type: 'int', default: 0 })
+    attempts!: number;
+
+    /**
+     * Earliest time the worker may (re)try this item. Grows exponentially with each failure.
+     */
+    @Column({ name: 'next_attempt_at', type: 'timestamptz', default: () => 'CURRENT_TIMESTAMP' })
+    nextAttemptAt!: Date;
+
+    /**
+     * When the last attempt started. Also used to reclaim items left in `processing` by a crashed worker.
+     */
+    @Column({ name: 'last_attempt_at', type: 'timestamptz', nullable: true })
+    lastAttemptAt?: Date | null;
+
+    /**
+     * Failure reason of the last attempt, if it failed.
+     */
+    @Column({ name: 'last_error', type: 'text', nullable: true })
+    lastError?: string | null;
+
+    /**
+     * ID of the user whose change created this item (from `req.user`), if known.
+     */
+    @Column({ name: 'created_by', type: 'bigint', nullable: true, transformer: bigintTransformer })
+    createdBy?: number | null;
+
+    /**
+     * Timestamp of when the item was queued.
+     */
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt!: Date;
+
+    /**
+     * Timestamp of the last state change.
+     */
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt!: Date;
+}
@@ -1,5 +1,14 @@
 // backend/src/models/entities/Patient.entity.ts
-import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+    BaseEntity,
+    Column,
+    CreateDateColumn,
+    Entity,
+    Generated,
+    PrimaryColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+import { bigintTransformer } from '../../utils/bigintTransformer';
 // Optionally import the Patient interface for reference, though the Entity defines the structure
 // import type { Patient as IPatient } from '@/types/patient';
 
@@ -12,7 +21,8 @@ export class PatientEntity extends BaseEntity {
     /**
      * The unique identifier for the patient, auto-incremented.
      */
-    @PrimaryGeneratedColumn() // Maps to id BIGSERIAL PRIMARY KEY
+    @PrimaryColumn({ type: 'bigint', transformer: bigintTransformer })
+    @Generated('increment') // Maps to id BIGSERIAL PRIMARY KEY
     id!: number;
 
     /**
@@ -104,4 +114,24 @@ export class PatientEntity extends BaseEntity {
      */
     @Column({ name: 'emergency_contact_phone', nullable: true, length: 20 })
     emergencyContactPhone?: string;
+
+    /**
+     * ID of the patient this record was merged into (the survivor); null unless merged.
+     * A replaced record is inactive; managed by `PatientService.merge` / `unmerge` only.
+     */
+    @Column({ name: 'replaced_by', type: 'bigint', nullable: true, transformer: bigintTransformer })
+    replacedBy?: number | null;
+
+    /**
+     * Timestamp of when the patient record was created. Set automatically on insert.
+     */
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt!: Date;
+
+    /**
+     * Timestamp of the last change to the patient record. Set automatically on update;
+     * used by the Bulk Data `$export` `_since` filter.
+     */
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt!: Date;
 }
@@ -0,0 +1,104 @@
+// backend/src/models/entities/PatientFhirSync.entity.ts
+import {
+    BaseEntity,
+    Column,
+    CreateDateColumn,
+    Entity,
+    PrimaryColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+import type { OperationOutcome } from 'fhir/r5';
+import { bigintTransformer } from '../../utils/bigintTransformer';
+
+/**
+ * How the last push to the FHIR server ended. `conflict` means the server answered `412 Precondition Failed`:
+ * the remote resource changed since our last push, and it was not overwritten.
+ */
+export type FhirPushOutcome = 'success' | 'failed' | 'conflict';
+
+/**
+ * Per-patient, per-endpoint FHIR synchronization metadata, mapped to the 'patient_fhir_sync' table.
+ * Holds what we know about the copy of the patient on one FHIR server after the last push there.
+ * A patient without a row for an endpoint has never been pushed to it.
+ */
+@Entity('patient_fhir_sync')
+export class PatientFhirSyncEntity extends BaseEntity {
+    /**
+     * Internal ID of the patient (part of the primary key; foreign key to `patients.id`, deleted with the patient).
+     */
+    @PrimaryColumn({ name: 'patient_id', type: 'bigint', transformer: bigintTransformer })
+    patientId!: number;
+
+    /**
+     * Name of the FHIR endpoint the row describes (see `FhirEndpoint`).
+     */
+    @PrimaryColumn({ type: 'varchar', length: 50 })
+    endpoint!: string;
+
+    /**
+     * When the last push attempt was made (successful or not).
+     */
+    @Column({ name: 'last_push_at', type: 'timestamptz' })
+    lastPushAt!: Date;
+
+    /**
+     * How the last push attempt ended.
+     */
+    @Column({ name: 'last_push_result', type: 'varchar', length: 20 })
+    lastPushResult!: FhirPushOutcome;
+
+    /**
+     * HTTP status returned by the FHIR server for the last push, if it answered.
+     */
+    @Column({ name: 'last_push_status_code', type: 'int', nullable: true })
+    lastPushStatusCode?: number | null;
+
+    /**
+     * Failure reason of the last push, if it failed.
+     */
+    @Column({ name: 'last_push_error', type: 'text', nullable: true })
+    lastPushError?: string | null;
+
+    /**
+     * `patients.updated_at` of the row version sent by the last successful push. A newer `updated_at`
+     * means the patient has local changes the FHIR server has not seen yet.
+     */
+    @Column({ name: 'synced_local_updated_at', type: 'timestamptz', nullable: true })
+    syncedLocalUpdatedAt?: Date | null;
+
+    /**
+     * `meta.versionId` of the remote resource after the last successful push. Sent as `If-Match` by the next push.
+     */
+    @Column({ name: 'remote_version_id', type: 'varchar', length: 64, nullable: true })
+    remoteVersionId?: string | null;
+
+    /**
+     * `meta.lastUpdated` of the remote resource after the last successful push.
+     */
+    @Column({ name: 'remote_last_updated', type: 'timestamptz', nullable: true })
+    remoteLastUpdated?: Date | null;
+
+    /**
+     * SHA-256 (hex) of the canonical JSON of the last successfully pushed resource.
+     */
+    @Column({ name: 'last_pushed_hash', type: 'char', length: 64, nullable: true })
+    lastPushedHash?: string | null;
+
+    /**
+     * OperationOutcome returned by the FHIR server for the last push, if any.
+     */
+    @Column({ name: 'last_operation_outcome', type: 'jsonb', nullable: true })
+    lastOperationOutcome?: OperationOutcome | null;
+
+    /**
+     * Timestamp of when the row was first written (first push of the patient).
+     */
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt!: Date;
+
+    /**
+     * Timestamp of the last change to the row.
+     */
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt!: Date;
+}
@@ -0,0 +1,112 @@
+// backend/src/models/entities/PatientMerge.entity.ts
+import { BaseEntity, Column, CreateDateColumn, Entity, Generated, PrimaryColumn } from 'typeorm';
+import { bigintTransformer } from '../../utils/bigintTransformer';
+
+/**
+ * - `merge`: the source record was merged into the target (survivor).
+ * - `unmerge`: a merge was reversed.
+ */
+export type PatientMergeAction = 'merge' | 'unmerge';
+
+/**
+ * Per-field record of a log entry, by patient field name:
+ * - merge: the record the surviving value was taken from (`source` | `target`).
+ * - unmerge: what happened to a field copied from the source (`restored`, or `kept` because it was edited since).
+ */
+export type PatientMergeFields = Record<string, 'source' | 'target' | 'restored' | 'kept'>;
+
+/**
+ * State of a patient record at the time of a merge or unmerge: the mergeable fields plus `active` and `replacedBy`.
+ */
+export type PatientMergeSnapshot = Record<string, string | number | boolean | null>;
+
+/**
+ * An entry of the append-only merge log, mapped to the 'patient_merges' table.
+ * Rows are only ever inserted (a database trigger rejects updates and deletes); an unmerge is a new row.
+ */
+@Entity('patient_merges')
+export class PatientMergeEntity extends BaseEntity {
+    /**
+     * The unique identifier for the log entry, auto-incremented.
+     */
+    @PrimaryColumn({ type: 'bigint', transformer: bigintTransformer })
+    @Generated('increment')
+    id!: number;
+
+    /**
+     * Whether this entry is a merge or its reversal.
+     */
+    @Column({ type: 'varchar', length: 10 })
+    action!: PatientMergeAction;
+
+    /**
+     * For an unmerge: ID of the merge entry it reverses. Null for merges.
+     */
+    @Column({ name: 'merge_id', type: 'bigint', nullable: true, transformer: bigintTransformer })
+    mergeId?: number | null;
+
+    /**
+     * Internal ID of the merged-away (source) patient. Not a foreign key.
+     */
+    @Column({ name: 'source_patient_id', type: 'bigint', transformer: bigintTransformer })
+    sourcePatientId!: number;
+
+    /**
+     * PID of the source patient at the time of the entry.
+     */
+    @Column({ name: 'source_pid', length: 10 })
+    sourcePid!: string;
+
+    /**
+     * Internal ID of the surviving (target) patient. Not a foreign key.
+     */
+    @Column({ name: 'target_patient_id', type: 'bigint', transformer: bigintTransformer })
+    targetPatientId!: number;
+
+    /**
+     * PID of the target patient at the time of the entry.
+     */
+    @Column({ name: 'target_pid', length: 10 })
+    targetPid!: string;
+
+    /**
+     * Per-field survivorship choices (merge) or restoration results (unmerge).
+     */
+    @Column({ type: 'jsonb', default: () => "'{}'" })
+    fields!: PatientMergeFields;
+
+    /**
+     * The source record before the entry.
+     */
+    @Column({ name: 'source_before', type: 'jsonb' })
+    sourceBefore!: PatientMergeSnapshot;
+
+    /**
+     * The target record before the entry.
+     */
+    @Column({ name: 'target_before', type: 'jsonb' })
+    targetBefore!: PatientMergeSnapshot;
+
+    /**
+     * The target record after the entry.
+     */
+    @Column({ name: 'target_after', type: 'jsonb' })
+    targetAfter!: PatientMergeSnapshot;
+
+    /**
+     * ID of the user who merged or unmerged.
+     */
+    @Column({
+        name: 'performed_by',
+        type: 'bigint',
+        nullable: true,
+        transformer: bigintTransformer,
+    })
+    performedBy?: number | null;
+
+    /**
+     * Timestamp of the merge or unmerge.
+     */
+    @CreateDateColumn({ name: 'performed_at', type: 'timestamptz' })
+    performedAt!: Date;
+}
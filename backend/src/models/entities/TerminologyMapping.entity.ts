@@ -0,0 +1,81 @@
+// backend/src/models/entities/TerminologyMapping.entity.ts
+import {
+    BaseEntity,
+    Column,
+    CreateDateColumn,
+    Entity,
+    Generated,
+    PrimaryColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+import { bigintTransformer } from '../../utils/bigintTransformer';
+
+/**
+ * Concept maps maintained as configuration, one per coded Patient element built from a local free-text value:
+ * - `gender`: `Patient.gender` (AdministrativeGender).
+ * - `language`: `Patient.communication.language` (BCP 47).
+ * - `relationship`: `Patient.contact.relationship` (v3 RoleCode / v2 Table 0131).
+ */
+export type TerminologyConceptMapId = 'gender' | 'language' | 'relationship';
+
+/**
+ * One entry of a concept map, mapped to the 'terminology_mappings' table:
+ * a local value and the FHIR code it is sent as.
+ */
+@Entity('terminology_mappings')
+export class TerminologyMappingEntity extends BaseEntity {
+    /**
+     * The unique identifier for the mapping, auto-incremented.
+     */
+    @PrimaryColumn({ type: 'bigint', transformer: bigintTransformer })
+    @Generated('increment')
+    id!: number;
+
+    /**
+     * The concept map this entry belongs to.
+     */
+    @Column({ name: 'concept_map', type: 'varchar', length: 50 })
+    conceptMap!: TerminologyConceptMapId;
+
+    /**
+     * The local value (e.g., '男', 'Mandarin', 'Spouse'). Unique per concept map, case-insensitively.
+     */
+    @Column({ name: 'local_value', length: 100 })
+    localValue!: string;
+
+    /**
+     * Code system of the FHIR code (e.g., 'urn:ietf:bcp:47').
+     */
+    @Column({ name: 'target_system', length: 255 })
+    targetSystem!: string;
+
+    /**
+     * The FHIR code the local value is sent as.
+     */
+    @Column({ name: 'target_code', length: 100 })
+    targetCode!: string;
+
+    /**
+     * Display of the FHIR code, sent in `Coding.display`.
+     */
+    @Column({ name: 'target_display', type: 'varchar', length: 255, nullable: true })
+    targetDisplay?: string | null;
+
+    /**
+     * Whether this local value is written when the FHIR code is imported (at most one per code).
+     */
+    @Column({ name: 'reverse_default', type: 'boolean', default: false })
+    reverseDefault!: boolean;
+
+    /**
+     * Timestamp of when the mapping was created.
+     */
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt!: Date;
+
+    /**
+     * Timestamp of the last change.
+     */
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt!: Date;
+}
@@ -0,0 +1,112 @@
+// backend/src/routes/admin.routes.ts
+import { Router } from 'express';
+import {
+    discardOutboxItem,
+    listOutboxItems,
+    retryOutboxItem,
+} from '../controllers/fhirOutbox.controller';
+import { listFhirEndpoints } from '../controllers/fhirEndpoints.controller';
+import {
+    getReconciliation,
+    listReconciliations,
+    startReconciliation,
+} from '../controllers/fhirReconciliation.controller';
+import {
+    createTerminologyMapping,
+    deleteTerminologyMapping,
+    listTerminologyMappings,
+    updateTerminologyMapping,
+} from '../controllers/terminology.controller';
+import {
+    applyInboundChange,
+    listInboundChanges,
+    rejectInboundChange,
+} from '../controllers/fhirSubscription.controller';
+
+const router = Router();
+
+/**
+ * Lists FHIR outbox items (optionally filtered by status).
+ * @route GET /api/admin/fhir-outbox
+ */
+router.get('/fhir-outbox', listOutboxItems);
+
+/**
+ * Re-queues an outbox item for an immediate push attempt.
+ * @route POST /api/admin/fhir-outbox/:id/retry
+ */
+router.post('/fhir-outbox/:id/retry', retryOutboxItem);
+
+/**
+ * Discards an outbox item so it is never pushed.
+ * @route POST /api/admin/fhir-outbox/:id/discard
+ */
+router.post('/fhir-outbox/:id/discard', discardOutboxItem);
+
+/**
+ * Lists the configured FHIR endpoints with per-endpoint push results.
+ * @route GET /api/admin/fhir-endpoints
+ */
+router.get('/fhir-endpoints', listFhirEndpoints);
+
+/**
+ * Starts a reconciliation run diffing local patients against the FHIR server.
+ * @route POST /api/admin/fhir-reconciliation
+ */
+router.post('/fhir-reconciliation', startReconciliation);
+
+/**
+ * Lists reconciliation runs (summaries only).
+ * @route GET /api/admin/fhir-reconciliation
+ */
+router.get('/fhir-reconciliation', listReconciliations);
+
+/**
+ * Returns a reconciliation run with its full report.
+ * @route GET /api/admin/fhir-reconciliation/:runId
+ */
+router.get('/fhir-reconciliation/:runId', getReconciliation);
+
+/**
+ * Lists terminology mappings (local value -> FHIR code), optionally of one concept map.
+ * @route GET /api/admin/terminology/mappings
+ */
+router.get('/terminology/mappings', listTerminologyMappings);
+
+/**
+ * Adds a terminology mapping.
+ * @route POST /api/admin/terminology/mappings
+ */
+router.post('/terminology/mappings', createTerminologyMapping);
+
+/**
+ * Changes a terminology mapping.
+ * @route PUT /api/admin/terminology/mappings/:id
+ */
+router.put('/terminology/mappings/:id', updateTerminologyMapping);
+
+/**
+ * Deletes a terminology mapping.
+ * @route DELETE /api/admin/terminology/mappings/:id
+ */
+router.delete('/terminology/mappings/:id', deleteTerminologyMapping);
+
+/**
+ * Lists Patient changes received from the FHIR server (optionally filtered by status, e.g. pending review).
+ * @route GET /api/admin/fhir-inbound
+ */
+router.get('/fhir-inbound', listInboundChanges);
+
+/**
+ * Applies a pending inbound change to the local patient.
+ * @route POST /api/admin/fhir-inbound/:id/apply
+ */
+router.post('/fhir-inbound/:id/apply', applyInboundChange);
+
+/**
+ * Rejects a pending inbound change.
+ * @route POST /api/admin/fhir-inbound/:id/reject
+ */
+router.post('/fhir-inbound/:id/reject', rejectInboundChange);
+
+export default router;
@@ -0,0 +1,113 @@
+// backend/src/routes/fhir.routes.ts
+import { RequestHandler, Router } from 'express';
+import {
+    getPatientEverything,
+    matchFhirPatients,
+    readFhirPatient,
+    searchFhirPatients,
+} from '../controllers/fhir.controller';
+import {
+    cancelExport,
+    downloadExportFile,
+    getExportStatus,
+    kickOffExport,
+} from '../controllers/bulkExport.controller';
+import {
+    readFhirConceptMap,
+    searchFhirConceptMaps,
+    translateConcept,
+} from '../controllers/terminology.controller';
+import { FhirRoute } from '../services/fhirCapability.service';
+
+/**
+ * A route of the FHIR facade with its handler.
+ * @property {RequestHandler} handler - The controller serving the route.
+ */
+export interface FhirRouteHandler extends FhirRoute {
+    handler: RequestHandler;
+}
+
+/**
+ * The routes of the FHIR facade, in registration order (Express tries them in this order).
+ * Registered on the router below and described by `GET /fhir/metadata` (see `FhirCapabilityService`), so a route
+ * added here is served and advertised alike.
+ */
+export const FHIR_ROUTES: readonly FhirRouteHandler[] = [
+    /**
+     * FHIR RESTful search on Patient, returning a searchset Bundle.
+     * @route GET /fhir/Patient
+     */
+    { method: 'get', path: '/Patient', handler: searchFhirPatients },
+
+    /**
+     * Bulk Data export kick-off (system level and Patient level both export all patients).
+     * Registered before `/Patient/:id`.
+     * @route GET /fhir/$export
+     * @route GET /fhir/Patient/$export
+     */
+    { method: 'get', path: '/$export', handler: kickOffExport },
+    { method: 'get', path: '/Patient/$export', handler: kickOffExport },
+
+    /**
+     * Bulk Data export job status (GET) and cancellation (DELETE).
+     * @route GET /fhir/bulkstatus/:jobId
+     * @route DELETE /fhir/bulkstatus/:jobId
+     */
+    { method: 'get', path: '/bulkstatus/:jobId', handler: getExportStatus },
+    { method: 'delete', path: '/bulkstatus/:jobId', handler: cancelExport },
+
+    /**
+     * Download of a Bulk Data export output file (NDJSON).
+     * @route GET /fhir/bulkfiles/:jobId/:fileName
+     */
+    { method: 'get', path: '/bulkfiles/:jobId/:fileName', handler: downloadExportFile },
+
+    /**
+     * `$match` on Patient: probable duplicates of the Patient in the Parameters body, scored and graded.
+     * @route POST /fhir/Patient/$match
+     */
+    { method: 'post', path: '/Patient/$match', handler: matchFhirPatients },
+
+    /**
+     * FHIR RESTful read of a Patient by logical id (PID).
+     * @route GET /fhir/Patient/:id
+     */
+    { method: 'get', path: '/Patient/:id', handler: readFhirPatient },
+
+    /**
+     * `$everything` on one Patient: the Patient plus its RelatedPerson and Provenance resources.
+     * @route GET /fhir/Patient/:id/$everything
+     */
+    { method: 'get', path: '/Patient/:id/$everything', handler: getPatientEverything },
+
+    /**
+     * The terminology concept maps (local gender / language / relationship values -> FHIR codes).
+     * @route GET /fhir/ConceptMap
+     */
+    { method: 'get', path: '/ConceptMap', handler: searchFhirConceptMaps },
+
+    /**
+     * `$translate` across or on one of the concept maps. Registered before `/ConceptMap/:id`.
+     * @route GET|POST /fhir/ConceptMap/$translate
+     * @route GET|POST /fhir/ConceptMap/:id/$translate
+     */
+    { method: 'get', path: '/ConceptMap/$translate', handler: translateConcept },
+    { method: 'post', path: '/ConceptMap/$translate', handler: translateConcept },
+    { method: 'get', path: '/ConceptMap/:id/$translate', handler: translateConcept },
+    { method: 'post', path: '/ConceptMap/:id/$translate', handler: translateConcept },
+
+    /**
+     * FHIR read of a ConceptMap by id.
+     * @route GET /fhir/ConceptMap/:id
+     */
+    { method: 'get', path: '/ConceptMap/:id', handler: readFhirConceptMap },
+];
+
+const router = Router();
+
+for (const { method, path, handler } of FHIR_ROUTES) {
+    // `$` must be escaped for Express' path matcher.
+    router[method](path.replace(/\$/g, '\\$'), handler);
+}
+
+export default router;
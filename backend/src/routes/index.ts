@@ -8,6 +8,10 @@ import {
     updatePatient,
 } from '../controllers/patient.controller'; // 引入所有需要的 controller 函數
 import authRouter from './auth.routes'; // <--- 引入 Auth 路由
+import fhirRouter, { FHIR_ROUTES } from './fhir.routes'; // FHIR RESTful 介面 (search / read)
+import { getCapabilityStatement } from '../controllers/fhir.controller';
+import adminRouter from './admin.routes'; // 管理介面 (FHIR outbox)
+import subscriptionRouter from './subscription.routes'; // FHIR Subscription 通知 (rest-hook)
 import authMiddleware from '../middleware/auth.middleware'; // <--- 引入 Auth Middleware
 
 const router = Router();
@@ -25,6 +29,10 @@ router.use('/api/auth', authRouter); // <--- 掛載 Auth 路由
 // --- 在此掛載其他特定功能的路由 ---
 // 例如： import patientRouter from './patient.routes';
 router.use('/api/patients', authMiddleware, patientRouter); // <--- 掛載
+router.get('/fhir/metadata', getCapabilityStatement(FHIR_ROUTES)); // FHIR CapabilityStatement，依 FHIR 路由表產生 (不經 authMiddleware，客戶端驗證前讀取)
+router.use('/fhir', authMiddleware, fhirRouter); // FHIR RESTful 介面，例如 GET /fhir/Patient?family=...
+router.use('/api/admin', authMiddleware, adminRouter); // 管理介面，例如 GET /api/admin/fhir-outbox?status=dead
+router.use('/fhir-subscription', subscriptionRouter); // FHIR 伺服器的 Subscription 通知，以共用密鑰驗證 (不經 authMiddleware)
 router.get('/', getAllPatients); // GET /api/patients
 router.post('/', createPatient); // POST /api/patients
 router.get('/:id', getPatientById); // GET /api/patients/:id
@@ -4,16 +4,28 @@ import {
     createPatient,
     deletePatient,
     getAllPatients,
+    getFhirDeletePolicy,
     getPatientById,
+    getPatientMergeLog,
+    mergePatients,
     pushPatientToFhir,
+    pushPatientsToFhirBatch,
+    searchPatients,
+    unmergePatients,
     updatePatient,
 } from '../controllers/patient.controller';
-import { getPatientAsFhir } from '../controllers/fhir.controller'; // Import FHIR Controller function
+import {
+    getPatientAsFhir,
+    getRemotePatientCopy,
+    importPatientFromFhir,
+    resolveFhirConflict,
+    validatePatientFhir,
+} from '../controllers/fhir.controller'; // Import FHIR Controller functions
 
 const router = Router();
 
 /**
- * Retrieves a list of all patients.
+ * Retrieves one page of patients, sorted and filtered by the query parameters.
  * @route GET /api/patients
  */
 router.get('/', getAllPatients); // GET /api/patients
@@ -24,6 +36,44 @@ router.get('/', getAllPatients); // GET /api/patients
  */
 router.post('/', createPatient); // POST /api/patients
 
+/**
+ * Imports a patient from an inbound FHIR Patient resource and reports unmapped fields.
+ * @route POST /api/patients/import/fhir
+ * @description Registered before the `/:id` routes so 'import' is never parsed as an ID.
+ */
+router.post('/import/fhir', importPatientFromFhir);
+
+/**
+ * Pushes many patients (or all) to the FHIR server as transaction Bundles.
+ * @route POST /api/patients/push-to-fhir/batch
+ */
+router.post('/push-to-fhir/batch', pushPatientsToFhirBatch);
+
+/**
+ * Merges a duplicate patient into the surviving record, with per-field survivorship choices.
+ * @route POST /api/patients/merge
+ */
+router.post('/merge', mergePatients);
+
+/**
+ * Reverses a merge using its log entry.
+ * @route POST /api/patients/merges/:mergeId/unmerge
+ */
+router.post('/merges/:mergeId/unmerge', unmergePatients);
+
+/**
+ * Ranked free-text search over patients (type-ahead of the patient list).
+ * @route GET /api/patients/search
+ * @description Registered before the `/:id` routes so 'search' is never parsed as an ID.
+ */
+router.get('/search', searchPatients);
+
+/**
+ * Tells the client what deleting a patient does on the FHIR server (`FHIR_DELETE_POLICY`).
+ * @route GET /api/patients/fhir/delete-policy
+ */
+router.get('/fhir/delete-policy', getFhirDeletePolicy);
+
 /**
  * Retrieves a patient by ID.
  * @route GET /api/patients/:id
@@ -42,12 +92,36 @@ router.put('/:id', updatePatient);
  */
 router.delete('/:id', deletePatient);
 
+/**
+ * Lists the merge log entries involving a patient.
+ * @route GET /api/patients/:id/merges
+ */
+router.get('/:id/merges', getPatientMergeLog);
+
 /**
  * Retrieves a patient in FHIR format by ID.
  * @route GET /api/patients/:id/fhir
  */
 router.get('/:id/fhir', getPatientAsFhir); // GET /api/patients/:id/fhir
 
+/**
+ * Retrieves the local FHIR representation next to the copy on the FHIR server (for conflict resolution).
+ * @route GET /api/patients/:id/fhir/remote
+ */
+router.get('/:id/fhir/remote', getRemotePatientCopy);
+
+/**
+ * Validates the patient's FHIR resource against the base definitions and the local profiles.
+ * @route POST /api/patients/:id/fhir/$validate
+ */
+router.post('/:id/fhir/\\$validate', validatePatientFhir);
+
+/**
+ * Pushes the local patient over a reviewed remote version after a FHIR version conflict.
+ * @route POST /api/patients/:id/fhir/resolve-conflict
+ */
+router.post('/:id/fhir/resolve-conflict', resolveFhirConflict);
+
 /**
  * Pushes a patient's data to an FHIR server by ID.
  * @route POST /api/patients/:id/push-to-fhir
@@ -0,0 +1,20 @@
+// backend/src/routes/subscription.routes.ts
+import { Router } from 'express';
+import { receiveSubscriptionNotification } from '../controllers/fhirSubscription.controller';
+
+// Mounted without the JWT middleware: the FHIR server authenticates with the shared subscription secret.
+const router = Router();
+
+/**
+ * Subscription rest-hook endpoint (notification Bundle, or Patient resource).
+ * @route POST /fhir-subscription
+ */
+router.post('/', receiveSubscriptionNotification);
+
+/**
+ * Full-resource rest-hook of an R4 Subscription: the FHIR server `PUT`s the resource to `<endpoint>/Patient/{id}`.
+ * @route PUT /fhir-subscription/Patient/:id
+ */
+router.put('/Patient/:id', receiveSubscriptionNotification);
+
+export default router;
@@ -7,6 +7,12 @@ import 'reflect-metadata'
 import app from './app' // Import the configured Express application instance.
 import config from './config' // Import application configuration (ports, env variables, etc.).
 import { AppDataSource, dataSourceOptions } from './config/dataSource' // Import the TypeORM DataSource instance and its options.
+import { PatientService } from './services/patient.service'
+import { FhirService } from './services/fhir.service'
+import { FhirOutboxService } from './services/fhirOutbox.service'
+import { FhirOutboxWorker } from './services/fhirOutboxWorker.service'
+import { TerminologyService } from './services/terminology.service'
+import { assertFhirEndpointsValid } from './services/fhirEndpoints'
 
 // Retrieve the port number from the configuration.
 const PORT = config.port;
@@ -15,8 +21,11 @@ const PORT = config.port;
  * @function startServer
  * @description Asynchronously initializes the application:
  * 1. Initializes the TypeORM database connection (AppDataSource).
- * 2. Starts the Express server, making it listen on the configured PORT.
- * 3. Sets up signal handlers for graceful shutdown (SIGINT, SIGTERM).
+ * 2. Loads the terminology mappings used by the FHIR conversions, and keeps them refreshed, and the FHIR endpoints
+ *    (`FHIR_ENDPOINTS_FILE`).
+ * 3. Starts the Express server, making it listen on the configured PORT.
+ * 4. Starts the FHIR outbox worker (unless disabled via `FHIR_OUTBOX_WORKER_ENABLED=false`).
+ * 5. Sets up signal handlers for graceful shutdown (SIGINT, SIGTERM).
  * @returns {Promise<void>} Resolves when the server is successfully started, or rejects/exits on critical errors.
  * @design Uses an async function to handle the asynchronous nature of database initialization.
  * Separates concerns: database init, server listening, and shutdown logic.
@@ -44,7 +53,17 @@ async function startServer(): Promise<void> {
             );
         }
 
-        // --- Step 2: Start Express Server Listener ---
+        // --- Step 2: Load Terminology Mappings and FHIR Endpoints ---
+        // Every FHIR conversion reads the cached concept maps; without them all coded values would go out as unmapped.
+        // A missing `terminology_mappings` table (database/terminology_mappings.sql) is a startup error like a missing database.
+        const terminologyService = new TerminologyService();
+        const mappingCount = await terminologyService.load();
+        console.log(`[Terminology] Loaded ${mappingCount} terminology mappings.`);
+        terminologyService.startPeriodicRefresh(config.fhir.terminologyRefreshIntervalMs);
+        // An unreadable or invalid endpoints file would otherwise only surface when the first push is routed.
+        assertFhirEndpointsValid();
+
+        // --- Step 3: Start Express Server Listener ---
         console.log(`[Server Startup] Attempting to start Express server on port ${PORT}...`);
         // `app.listen` starts the HTTP server.
         const server = app
@@ -72,7 +91,23 @@ async function startServer(): Promise<void> {
             });
         console.log(`[Server Startup] Express server instance created, listening initiated.`);
 
-        // --- Step 3: Implement Graceful Shutdown ---
+        // --- Step 4: Start the FHIR Outbox Worker ---
+        // Pushes the patient changes queued in `fhir_outbox` to the FHIR server, with retries.
+        // Can be disabled (e.g., on all but one replica, or when no FHIR server is configured).
+        let outboxWorker: FhirOutboxWorker | null = null;
+        if (config.fhir.outbox.workerEnabled) {
+            const patientService = new PatientService();
+            outboxWorker = new FhirOutboxWorker(
+                new FhirOutboxService(),
+                patientService,
+                new FhirService(patientService)
+            );
+            outboxWorker.start();
+        } else {
+            console.warn('[Server Startup] FHIR outbox worker is disabled (FHIR_OUTBOX_WORKER_ENABLED=false).');
+        }
+
+        // --- Step 5: Implement Graceful Shutdown ---
         // Handles process termination signals (like Ctrl+C or signals from orchestrators like Docker/Kubernetes).
         // Rationale: Allows ongoing requests to finish and cleans up resources (like DB connections) before exiting.
         // Prevents abrupt termination which can lead to data corruption or orphaned connections.
@@ -90,7 +125,12 @@ async function startServer(): Promise<void> {
                         '[Server Shutdown] HTTP server closed. No longer accepting new requests.'
                     );
                     try {
-                        // 2. Close the database connection pool.
+                        // 2. Stop the outbox worker, letting an in-flight drain finish before the DB goes away.
+                        if (outboxWorker) {
+                            await outboxWorker.stop();
+                        }
+                        terminologyService.stopPeriodicRefresh();
+                        // 3. Close the database connection pool.
                         if (AppDataSource.isInitialized) {
                             await AppDataSource.destroy();
                             console.log('[Database] Database connection pool closed.');
@@ -106,7 +146,7 @@ async function startServer(): Promise<void> {
                     }
                 });
 
-                // 3. Force exit after a timeout if graceful shutdown takes too long.
+                // 4. Force exit after a timeout if graceful shutdown takes too long.
                 // Prevents the process from hanging indefinitely if connections don't close.
                 setTimeout(() => {
                     console.error(
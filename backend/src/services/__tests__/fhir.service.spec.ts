@@ -0,0 +1,178 @@
+// backend/src/services/__tests__/fhir.service.spec.ts
+// Inbound mapping of a FHIR Patient onto the local patient: what is kept, and what the report says about the rest.
+
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { Patient } from 'fhir/r5';
+import { TerminologyMappingEntity } from '../../models/entities/TerminologyMapping.entity';
+import { FhirService } from '../fhir.service';
+import { PatientService } from '../patient.service';
+import { ADMINISTRATIVE_GENDER_SYSTEM, TerminologyService } from '../terminology.service';
+
+const fhirService = new FhirService({} as PatientService);
+
+beforeAll(async () => {
+    // The gender concept map, so the inbound gender maps back instead of being reported as unmapped.
+    const terminologyService = new TerminologyService();
+    jest.spyOn(terminologyService['mappingRepository'], 'find').mockResolvedValue([
+        Object.assign(new TerminologyMappingEntity(), {
+            id: 1,
+            conceptMap: 'gender',
+            localValue: 'Male',
+            targetSystem: ADMINISTRATIVE_GENDER_SYSTEM,
+            targetCode: 'male',
+            reverseDefault: true,
+        }),
+    ]);
+    await terminologyService.load();
+});
+
+const inboundPatient = (overrides: Partial<Patient> = {}): Patient => ({
+    resourceType: 'Patient',
+    id: 'A123456789',
+    identifier: [{ system: 'urn:ehr:system:pid', value: 'A123456789' }],
+    name: [{ use: 'official', family: 'Wang', given: ['Xiaoming'] }],
+    telecom: [{ system: 'phone', value: '0912345678', use: 'mobile' }],
+    gender: 'male',
+    birthDate: '1980-03-04',
+    address: [{ use: 'home', text: 'No. 122, Sec. 1, Chongqing S. Rd., Taipei' }],
+    ...overrides,
+});
+
+describe('FhirService.convertFhirToDbPatient', () => {
+    const droppedFields = (patient: Patient): string[] =>
+        fhirService
+            .convertFhirToDbPatient(patient)
+            .report.filter((issue) => issue.status === 'dropped')
+            .map((issue) => issue.field);
+
+    it('reports the parts of the chosen name that are not stored', () => {
+        const dropped = droppedFields(
+            inboundPatient({
+                name: [
+                    {
+                        use: 'official',
+                        text: 'Dr. Wang Xiaoming Jr.',
+                        family: 'Wang',
+                        given: ['Xiaoming'],
+                        prefix: ['Dr.'],
+                        suffix: ['Jr.'],
+                        period: { start: '2001-01-01' },
+                    },
+                ],
+            })
+        );
+
+        expect(dropped).toEqual([
+            'Patient.name[0].prefix',
+            'Patient.name[0].suffix',
+            'Patient.name[0].period',
+            'Patient.name[0].text',
+        ]);
+    });
+
+    it('reports the structured address parts when the address text is stored', () => {
+        const address = {
+            use: 'home' as const,
+            text: 'No. 122, Sec. 1, Chongqing S. Rd., Taipei',
+            line: ['No. 122, Sec. 1, Chongqing S. Rd.'],
+            city: 'Taipei',
+            district: 'Zhongzheng',
+            state: 'Taiwan',
+            postalCode: '100',
+        };
+
+        const { patientData, report } = fhirService.convertFhirToDbPatient(
+            inboundPatient({ address: [address] })
+        );
+
+        expect(patientData).toMatchObject({ address: address.text, postalCode: '100' });
+        expect(report.map((issue) => issue.field)).toEqual([
+            'Patient.address[0].line',
+            'Patient.address[0].city',
+            'Patient.address[0].district',
+            'Patient.address[0].state',
+        ]);
+    });
+
+    it('keeps the structured address parts when there is no address text', () => {
+        const { patientData, report } = fhirService.convertFhirToDbPatient(
+            inboundPatient({ address: [{ line: ['No. 122'], city: 'Taipei' }] })
+        );
+
+        expect(patientData.address).toBe('No. 122, Taipei');
+        expect(report).toEqual([]);
+    });
+
+    it('reports what the emergency contact holds beyond name, one phone and relationship', () => {
+        const dropped = droppedFields(
+            inboundPatient({
+                contact: [
+                    {
+                        name: {
+                            family: 'Wang',
+                            given: ['Damei'],
+                            prefix: ['Mrs.'],
+                            suffix: ['Sr.'],
+                        },
+                        telecom: [
+                            { system: 'email', value: 'damei@example.com' },
+                            { system: 'phone', value: '0922333444' },
+                            { system: 'phone', value: '0223456789' },
+                        ],
+                        address: { text: 'Taipei' },
+                        gender: 'female',
+                        organization: { display: 'Taipei City Hospital' },
+                    },
+                ],
+            })
+        );
+
+        expect(dropped).toEqual([
+            'Patient.contact[0].name.prefix',
+            'Patient.contact[0].name.suffix',
+            'Patient.contact[0].telecom[0]',
+            'Patient.contact[0].telecom[2]',
+            'Patient.contact[0].address',
+            'Patient.contact[0].gender',
+            'Patient.contact[0].organization',
+        ]);
+    });
+
+    it('reports phone numbers too long for their column as invalid instead of truncating them', () => {
+        const longPhone = '+886 2 2345 6789 ext. 1234';
+
+        const { patientData, report, importable } = fhirService.convertFhirToDbPatient(
+            inboundPatient({
+                telecom: [{ system: 'phone', value: longPhone }],
+                contact: [{ telecom: [{ system: 'phone', value: longPhone }] }],
+            })
+        );
+
+        expect(patientData.telecom).toBeUndefined();
+        expect(patientData.emergencyContactPhone).toBeUndefined();
+        expect(report).toEqual([
+            expect.objectContaining({
+                field: 'Patient.telecom[0].value',
+                status: 'invalid',
+                value: longPhone,
+            }),
+            expect.objectContaining({
+                field: 'Patient.contact[0].telecom[0].value',
+                status: 'invalid',
+                value: longPhone,
+            }),
+        ]);
+        expect(importable).toBe(false);
+    });
+
+    it('still truncates other text that does not fit its column', () => {
+        const { patientData, report } = fhirService.convertFhirToDbPatient(
+            inboundPatient({ name: [{ family: 'W'.repeat(60), given: ['Xiaoming'] }] })
+        );
+
+        expect(patientData.familyName).toHaveLength(50);
+        expect(report).toEqual([
+            expect.objectContaining({ field: 'Patient.name[0].family', status: 'truncated' }),
+        ]);
+    });
+});
@@ -0,0 +1,249 @@
+// backend/src/services/__tests__/fhirAuth.service.spec.ts
+// OAuth2 client credentials against a mock token endpoint: client authentication, token caching and error mapping.
+
+import { generateKeyPairSync, KeyPairKeyObjectResult } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    afterAll,
+    afterEach,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    jest,
+} from '@jest/globals';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { FhirAuthService, TOKEN_REFRESH_MARGIN_MS } from '../fhirAuth.service';
+import { FhirAuthSettings } from '../fhirEndpoints';
+import { UpstreamServiceError } from '../../utils/error';
+
+interface TokenRequest {
+    authorization?: string;
+    form: URLSearchParams;
+}
+
+/** The mock token endpoint answers `POST /token` with `tokenResponse` and records every request. */
+let tokenRequests: TokenRequest[];
+let tokenResponse: (request: TokenRequest) => { status: number; body: unknown };
+const tokenServer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+        const request = {
+            authorization: req.headers.authorization,
+            form: new URLSearchParams(body),
+        };
+        tokenRequests.push(request);
+        const { status, body: responseBody } = tokenResponse(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(responseBody));
+    });
+});
+let tokenUrl: string;
+
+/** Issues `token-1`, `token-2`, ... valid for an hour. */
+const issueTokens = (): { status: number; body: unknown } => ({
+    status: 200,
+    body: { access_token: `token-${tokenRequests.length}`, token_type: 'Bearer', expires_in: 3600 },
+});
+
+const clientCredentials = (overrides: Partial<FhirAuthSettings> = {}): FhirAuthSettings => ({
+    type: 'client_credentials',
+    username: undefined,
+    password: undefined,
+    bearerToken: undefined,
+    tokenUrl,
+    clientId: 'ehr-backend',
+    clientSecret: 's3cr3t:&',
+    privateKey: undefined,
+    keyId: undefined,
+    signingAlgorithm: 'RS384',
+    scope: 'system/Patient.cruds',
+    ...overrides,
+});
+
+beforeAll(async () => {
+    await new Promise<void>((resolve) => tokenServer.listen(0, '127.0.0.1', resolve));
+    tokenUrl = `http://127.0.0.1:${(tokenServer.address() as AddressInfo).port}/token`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => tokenServer.close(resolve));
+});
+
+beforeEach(() => {
+    tokenRequests = [];
+    tokenResponse = issueTokens;
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('FhirAuthService client authentication', () => {
+    it('sends client_secret_basic with the form-encoded client ID and secret', async () => {
+        const header = await new FhirAuthService(clientCredentials()).getAuthorizationHeader();
+
+        expect(header).toBe('Bearer token-1');
+        const [request] = tokenRequests;
+        expect(request.authorization).toBe(
+            `Basic ${Buffer.from('ehr-backend:s3cr3t%3A%26').toString('base64')}`
+        );
+        expect(request.form.get('grant_type')).toBe('client_credentials');
+        expect(request.form.get('scope')).toBe('system/Patient.cruds');
+        expect(request.form.has('client_assertion')).toBe(false);
+    });
+
+    const signingKeys: {
+        algorithm: FhirAuthSettings['signingAlgorithm'];
+        keys: KeyPairKeyObjectResult;
+    }[] = [
+        { algorithm: 'RS384', keys: generateKeyPairSync('rsa', { modulusLength: 2048 }) },
+        { algorithm: 'ES384', keys: generateKeyPairSync('ec', { namedCurve: 'secp384r1' }) },
+    ];
+    it.each(signingKeys)(
+        'signs a private_key_jwt assertion with $algorithm',
+        async ({ algorithm, keys }) => {
+            const privateKey = keys.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+            const auth = clientCredentials({
+                clientSecret: undefined,
+                privateKey,
+                keyId: 'ehr-key-1',
+                signingAlgorithm: algorithm,
+            });
+
+            await new FhirAuthService(auth).getAuthorizationHeader();
+
+            const [request] = tokenRequests;
+            expect(request.authorization).toBeUndefined();
+            expect(request.form.get('client_assertion_type')).toBe(
+                'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+            );
+            const assertion = request.form.get('client_assertion')!;
+            const { header, payload } = jwt.verify(assertion, keys.publicKey, {
+                algorithms: [algorithm],
+                complete: true,
+            }) as { header: jwt.JwtHeader; payload: JwtPayload };
+            expect(header).toMatchObject({ alg: algorithm, kid: 'ehr-key-1' });
+            expect(payload).toMatchObject({
+                iss: 'ehr-backend',
+                sub: 'ehr-backend',
+                aud: tokenUrl,
+            });
+            expect(payload.jti).toEqual(expect.any(String));
+            // SMART Backend Services: the assertion expires within five minutes.
+            expect(payload.exp! - payload.iat!).toBeLessThanOrEqual(300);
+        }
+    );
+
+    it('uses a new jti for every assertion and omits kid without a key ID', async () => {
+        const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+        const service = new FhirAuthService(
+            clientCredentials({
+                clientSecret: undefined,
+                privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+                signingAlgorithm: 'ES384',
+            })
+        );
+
+        await service.getAuthorizationHeader();
+        service.invalidate();
+        await service.getAuthorizationHeader();
+
+        const [first, second] = tokenRequests.map(
+            (request) => jwt.decode(request.form.get('client_assertion')!, { complete: true })!
+        );
+        expect((first.payload as JwtPayload).jti).not.toBe((second.payload as JwtPayload).jti);
+        expect(first.header.kid).toBeUndefined();
+    });
+});
+
+describe('FhirAuthService token cache', () => {
+    it('reuses the token until the refresh margin before it expires, then renews it', async () => {
+        const start = Date.now();
+        const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+        const service = new FhirAuthService(clientCredentials());
+
+        expect(await service.getAuthorizationHeader()).toBe('Bearer token-1');
+        now.mockReturnValue(start + 3600 * 1000 - TOKEN_REFRESH_MARGIN_MS - 1);
+        expect(await service.getAuthorizationHeader()).toBe('Bearer token-1');
+        now.mockReturnValue(start + 3600 * 1000 - TOKEN_REFRESH_MARGIN_MS);
+        expect(await service.getAuthorizationHeader()).toBe('Bearer token-2');
+        expect(tokenRequests).toHaveLength(2);
+    });
+
+    it('requests one token for concurrent callers', async () => {
+        const service = new FhirAuthService(clientCredentials());
+
+        const headers = await Promise.all([
+            service.getAuthorizationHeader(),
+            service.getAuthorizationHeader(),
+            service.getAuthorizationHeader(),
+        ]);
+
+        expect(headers).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+        expect(tokenRequests).toHaveLength(1);
+    });
+
+    it('requests a new token after invalidate', async () => {
+        const service = new FhirAuthService(clientCredentials());
+
+        await service.getAuthorizationHeader();
+        service.invalidate();
+
+        expect(await service.getAuthorizationHeader()).toBe('Bearer token-2');
+    });
+});
+
+describe('FhirAuthService token endpoint errors', () => {
+    const tokenError = async (auth = clientCredentials()): Promise<UpstreamServiceError> => {
+        const error = await new FhirAuthService(auth).getAuthorizationHeader().catch((e) => e);
+        expect(error).toBeInstanceOf(UpstreamServiceError);
+        return error as UpstreamServiceError;
+    };
+
+    it('maps an OAuth error body to 502 with the upstream status', async () => {
+        tokenResponse = () => ({
+            status: 401,
+            body: { error: 'invalid_client', error_description: 'Unknown client ehr-backend' },
+        });
+
+        const error = await tokenError();
+
+        expect(error.statusCode).toBe(502);
+        expect(error.upstreamStatusCode).toBe(401);
+        expect(error.message).toBe(
+            `Failed to obtain an access token from ${tokenUrl}: invalid_client: Unknown client ehr-backend`
+        );
+    });
+
+    it('answers 502 when the response holds no bearer token', async () => {
+        tokenResponse = () => ({ status: 200, body: { access_token: 'abc', token_type: 'mac' } });
+
+        const error = await tokenError();
+
+        expect(error.statusCode).toBe(502);
+        expect(error.upstreamStatusCode).toBe(200);
+        expect(error.message).toBe(`Token endpoint ${tokenUrl} returned no bearer access token.`);
+    });
+
+    it('answers 504 when the token endpoint does not answer', async () => {
+        // Nothing listens on port 9 (discard) of the loopback interface.
+        const error = await tokenError(clientCredentials({ tokenUrl: 'http://127.0.0.1:9/token' }));
+
+        expect(error.statusCode).toBe(504);
+        expect(error.upstreamStatusCode).toBeUndefined();
+    });
+
+    it('does not cache a failed request', async () => {
+        tokenResponse = () => ({ status: 503, body: {} });
+        const service = new FhirAuthService(clientCredentials());
+        await expect(service.getAuthorizationHeader()).rejects.toThrow(UpstreamServiceError);
+
+        tokenResponse = issueTokens;
+
+        expect(await service.getAuthorizationHeader()).toBe('Bearer token-2');
+    });
+});
@@ -0,0 +1,62 @@
+// backend/src/services/__tests__/fhirCapability.service.spec.ts
+// The CapabilityStatement describes the route table the FHIR router is registered from.
+
+import { describe, expect, it } from '@jest/globals';
+import { FHIR_ROUTES } from '../../routes/fhir.routes';
+import { FhirCapabilityService } from '../fhirCapability.service';
+
+const service = new FhirCapabilityService();
+const baseUrl = 'https://ehr.example.org/fhir';
+
+describe('FhirCapabilityService.buildCapabilityStatement', () => {
+    const [rest] = service.buildCapabilityStatement(FHIR_ROUTES, 'R5', baseUrl).rest!;
+    const resource = (type: string) => rest.resource!.find((entry) => entry.type === type);
+
+    it('lists the resource types of the routes, without the Bulk Data status and file URLs', () => {
+        expect(rest.resource!.map((entry) => entry.type)).toEqual(['Patient', 'ConceptMap']);
+    });
+
+    it('maps type and instance routes to interactions, with the search parameters', () => {
+        expect(resource('Patient')!.interaction).toEqual([
+            { code: 'search-type' },
+            { code: 'read' },
+        ]);
+        expect(resource('Patient')!.searchParam).toEqual(
+            expect.arrayContaining([expect.objectContaining({ name: 'family' })])
+        );
+    });
+
+    it('advertises every operation once, at the level it is registered', () => {
+        expect(resource('Patient')!.operation!.map((operation) => operation.name)).toEqual([
+            'export',
+            'match',
+            'everything',
+        ]);
+        expect(resource('ConceptMap')!.operation).toEqual([
+            {
+                name: 'translate',
+                definition: 'http://hl7.org/fhir/OperationDefinition/ConceptMap-translate',
+            },
+        ]);
+        expect(rest.operation).toEqual([
+            {
+                name: 'export',
+                definition: 'http://hl7.org/fhir/uv/bulkdata/OperationDefinition/export',
+            },
+        ]);
+    });
+
+    it('describes exactly the routes it is given', () => {
+        const statement = service.buildCapabilityStatement(
+            [{ method: 'get', path: '/Patient/:id' }],
+            'R4',
+            baseUrl
+        );
+
+        expect(statement.fhirVersion).toBe('4.0.1');
+        expect(statement.instantiates).toBeUndefined();
+        expect(statement.rest![0].resource).toEqual([
+            expect.objectContaining({ type: 'Patient', interaction: [{ code: 'read' }] }),
+        ]);
+    });
+});
@@ -0,0 +1,129 @@
+// backend/src/services/__tests__/fhirHttpClient.spec.ts
+// Authorization of FHIR requests: the endpoint's credentials on every request, and one retry after a 401.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import axios from 'axios';
+import { FhirEndpoint } from '../fhirEndpoints';
+import { getFhirHttpClient } from '../fhirHttpClient';
+
+/**
+ * One local server plays both parts: `POST /token` issues `token-1`, `token-2`, ...; `GET /fhir/Patient/1` answers
+ * 200 only to the tokens in `acceptedTokens`, 401 otherwise.
+ */
+let tokensIssued: number;
+let acceptedTokens: string[];
+let fhirAuthorizations: (string | undefined)[];
+const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+        if (req.url === '/token') {
+            tokensIssued += 1;
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(
+                JSON.stringify({
+                    access_token: `token-${tokensIssued}`,
+                    token_type: 'Bearer',
+                    expires_in: 3600,
+                })
+            );
+            return;
+        }
+        fhirAuthorizations.push(req.headers.authorization);
+        const accepted = acceptedTokens.some(
+            (token) => req.headers.authorization === `Bearer ${token}`
+        );
+        res.writeHead(accepted ? 200 : 401, { 'Content-Type': 'application/fhir+json' });
+        res.end(JSON.stringify(accepted ? { resourceType: 'Patient', id: '1' } : {}));
+    });
+});
+let baseUrl: string;
+
+/** A client_credentials endpoint; each test uses its own name, hence its own client and token cache. */
+const endpoint = (name: string): FhirEndpoint => ({
+    name,
+    url: `${baseUrl}/fhir`,
+    version: 'R5',
+    auth: {
+        type: 'client_credentials',
+        username: undefined,
+        password: undefined,
+        bearerToken: undefined,
+        tokenUrl: `${baseUrl}/token`,
+        clientId: 'ehr-backend',
+        clientSecret: 's3cr3t',
+        privateKey: undefined,
+        keyId: undefined,
+        signingAlgorithm: 'RS384',
+        scope: 'system/Patient.cruds',
+    },
+    timeoutMs: 5000,
+    enabled: true,
+    primary: false,
+    routing: {},
+});
+
+beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    tokensIssued = 0;
+    fhirAuthorizations = [];
+});
+
+describe('getFhirHttpClient', () => {
+    it('sends the access token and keeps using it', async () => {
+        acceptedTokens = ['token-1'];
+        const client = getFhirHttpClient(endpoint('cached'));
+
+        await client.get(`${baseUrl}/fhir/Patient/1`);
+        await client.get(`${baseUrl}/fhir/Patient/1`);
+
+        expect(fhirAuthorizations).toEqual(['Bearer token-1', 'Bearer token-1']);
+        expect(tokensIssued).toBe(1);
+    });
+
+    it('retries a 401 once with a new token', async () => {
+        acceptedTokens = ['token-2'];
+        const client = getFhirHttpClient(endpoint('revoked'));
+
+        const response = await client.get(`${baseUrl}/fhir/Patient/1`);
+
+        expect(response.status).toBe(200);
+        expect(fhirAuthorizations).toEqual(['Bearer token-1', 'Bearer token-2']);
+        expect(response.config).toMatchObject({ authRetried: true });
+    });
+
+    it('gives up after the retry is rejected too', async () => {
+        acceptedTokens = [];
+        const client = getFhirHttpClient(endpoint('rejected'));
+
+        const error = await client.get(`${baseUrl}/fhir/Patient/1`).catch((e) => e);
+
+        expect(axios.isAxiosError(error) && error.response?.status).toBe(401);
+        expect(fhirAuthorizations).toEqual(['Bearer token-1', 'Bearer token-2']);
+        expect(tokensIssued).toBe(2);
+    });
+
+    it('does not retry a 401 when the credentials cannot be renewed', async () => {
+        acceptedTokens = [];
+        const staticToken: FhirEndpoint = {
+            ...endpoint('static'),
+            auth: { ...endpoint('static').auth, type: 'bearer', bearerToken: 'static-token' },
+        };
+
+        const error = await getFhirHttpClient(staticToken)
+            .get(`${baseUrl}/fhir/Patient/1`)
+            .catch((e) => e);
+
+        expect(axios.isAxiosError(error) && error.response?.status).toBe(401);
+        expect(fhirAuthorizations).toEqual(['Bearer static-token']);
+    });
+});
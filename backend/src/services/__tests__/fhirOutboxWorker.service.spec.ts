@@ -0,0 +1,64 @@
+// backend/src/services/__tests__/fhirOutboxWorker.service.spec.ts
+// The push of an outbox item carries the change the item recorded: its agent and its activity.
+
+import { describe, expect, it, jest } from '@jest/globals';
+import config from '../../config';
+import { FhirOutboxEntity } from '../../models/entities/FhirOutbox.entity';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { FhirPushResult, FhirService } from '../fhir.service';
+import { FhirOutboxService } from '../fhirOutbox.service';
+import { FhirOutboxWorker } from '../fhirOutboxWorker.service';
+import { PatientService } from '../patient.service';
+
+const patient = Object.assign(new PatientEntity(), { id: 7, pid: 'A123456789' });
+
+const outboxItem = (overrides: Partial<FhirOutboxEntity>): FhirOutboxEntity =>
+    Object.assign(new FhirOutboxEntity(), {
+        id: 1,
+        patientId: 7,
+        pid: 'A123456789',
+        endpoint: config.fhir.targetServerName,
+        operation: 'upsert',
+        attempts: 1,
+        createdBy: 3,
+        ...overrides,
+    });
+
+/** Drains one item through the worker and returns the options of the push it made. */
+const pushOptionsOf = async (item: FhirOutboxEntity): Promise<unknown> => {
+    const pushPatientEntity = jest.fn(
+        async (): Promise<FhirPushResult> => ({ success: true, statusCode: 200 })
+    );
+    const worker = new FhirOutboxWorker(
+        {
+            claimDue: async () => [item],
+            markSucceeded: async () => undefined,
+        } as unknown as FhirOutboxService,
+        { findById: async () => patient } as unknown as PatientService,
+        { pushPatientEntity } as unknown as FhirService
+    );
+
+    await worker.drainOnce();
+
+    expect(pushPatientEntity).toHaveBeenCalledTimes(1);
+    return pushPatientEntity.mock.calls[0];
+};
+
+describe('FhirOutboxWorker', () => {
+    it.each(['create', 'update'] as const)(
+        'pushes an item recording a %s with that Provenance activity',
+        async (activity) => {
+            expect(await pushOptionsOf(outboxItem({ activity }))).toEqual([
+                patient,
+                expect.objectContaining({ activity, agent: { userId: 3 } }),
+            ]);
+        }
+    );
+
+    it('leaves the activity to the push when the item recorded none', async () => {
+        expect(await pushOptionsOf(outboxItem({ activity: null }))).toEqual([
+            patient,
+            expect.objectContaining({ activity: undefined }),
+        ]);
+    });
+});
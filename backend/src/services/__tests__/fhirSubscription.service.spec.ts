@@ -0,0 +1,345 @@
+// backend/src/services/__tests__/fhirSubscription.service.spec.ts
+// Subscription notifications: which Patients a payload names, and what happens to each of them. The FHIR server is
+// a local HTTP stand-in; the database-backed collaborators are replaced by in-memory fakes.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Patient } from 'fhir/r5';
+import config from '../../config';
+import { FhirInboundChangeEntity } from '../../models/entities/FhirInboundChange.entity';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { FhirService } from '../fhir.service';
+import { FhirSyncState } from '../fhirSync.service';
+import { extractNotifiedPatientIds, FhirSubscriptionService } from '../fhirSubscription.service';
+import { PatientService, UpdatePatientDto } from '../patient.service';
+import { NotFoundError } from '../../utils/error';
+
+const PID_SYSTEM = 'urn:ehr:system:pid';
+
+/** The stand-in FHIR server: `GET /fhir/Patient/{id}` answers from `remotePatients`, 404 otherwise. */
+const remotePatients = new Map<string, Patient>();
+const fhirServer = http.createServer((req, res) => {
+    const id = /^\/fhir\/Patient\/([^/?]+)$/.exec(req.url ?? '')?.[1];
+    const resource = id && req.method === 'GET' ? remotePatients.get(id) : undefined;
+    if (!resource) {
+        res.writeHead(404, { 'Content-Type': 'application/fhir+json' });
+        res.end(JSON.stringify({ resourceType: 'OperationOutcome', issue: [] }));
+        return;
+    }
+    res.writeHead(200, {
+        'Content-Type': 'application/fhir+json',
+        ETag: `W/"${resource.meta?.versionId}"`,
+    });
+    res.end(JSON.stringify(resource));
+});
+
+const remotePatient = (versionId: string, overrides: Partial<Patient> = {}): Patient => ({
+    resourceType: 'Patient',
+    id: 'A123456789',
+    meta: { versionId, lastUpdated: '2025-03-01T08:00:00Z' },
+    identifier: [{ system: PID_SYSTEM, value: 'A123456789' }],
+    active: true,
+    name: [{ use: 'official', family: '王', given: ['小明'] }],
+    telecom: [{ system: 'phone', value: '0912345678', use: 'mobile' }],
+    gender: 'male',
+    birthDate: '1980-01-02',
+    address: [{ use: 'home', text: '台北市中正區重慶南路一段122號' }],
+    ...overrides,
+});
+
+const localPatient = (): PatientEntity =>
+    Object.assign(new PatientEntity(), {
+        id: 7,
+        pid: 'A123456789',
+        active: true,
+        familyName: '王',
+        givenName: '小明',
+        telecom: '0912345678',
+        gender: 'Male',
+        birthday: '1980-01-02',
+        address: '台北市中正區重慶南路一段122號',
+    });
+
+describe('extractNotifiedPatientIds', () => {
+    it('reads the focus of each event of an R5 notification Bundle', () => {
+        const ids = extractNotifiedPatientIds({
+            resourceType: 'Bundle',
+            type: 'subscription-notification',
+            entry: [
+                {
+                    fullUrl: 'urn:uuid:3c2f0a1e-5d1b-4c1a-9e39-6f0c2f1a7b10',
+                    resource: {
+                        resourceType: 'SubscriptionStatus',
+                        type: 'event-notification',
+                        notificationEvent: [
+                            { eventNumber: '4', focus: { reference: 'Patient/A123456789' } },
+                            {
+                                eventNumber: '5',
+                                focus: { reference: 'http://fhir.example/fhir/Patient/B2' },
+                            },
+                        ],
+                    },
+                },
+                { fullUrl: 'http://fhir.example/fhir/Patient/B2/_history/3' },
+            ],
+        });
+        expect(ids).toEqual(['A123456789', 'B2']);
+    });
+
+    it('reads the notification-event parameters and Patient entries of an R4 backport Bundle', () => {
+        const ids = extractNotifiedPatientIds({
+            resourceType: 'Bundle',
+            type: 'history',
+            entry: [
+                {
+                    resource: {
+                        resourceType: 'Parameters',
+                        parameter: [
+                            { name: 'type', valueCode: 'event-notification' },
+                            {
+                                name: 'notification-event',
+                                part: [
+                                    { name: 'event-number', valueString: '2' },
+                                    {
+                                        name: 'focus',
+                                        valueReference: {
+                                            reference: 'Patient/A123456789/_history/2',
+                                        },
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+                {
+                    fullUrl: 'http://fhir.example/fhir/Patient/A123456789',
+                    resource: { resourceType: 'Patient', id: 'A123456789' },
+                },
+                {
+                    fullUrl: 'http://fhir.example/fhir/Patient/C3',
+                    request: { method: 'PUT', url: 'Patient/C3' },
+                },
+                { fullUrl: 'http://fhir.example/fhir/Observation/9' },
+            ],
+        });
+        expect(ids).toEqual(['A123456789', 'C3']);
+    });
+
+    it('reads the id of a bare Patient (full-resource payload)', () => {
+        expect(extractNotifiedPatientIds(remotePatient('1'))).toEqual(['A123456789']);
+    });
+
+    it('finds no Patient in handshake and heartbeat notifications', () => {
+        const handshake = {
+            resourceType: 'Bundle',
+            type: 'subscription-notification',
+            entry: [
+                {
+                    resource: {
+                        resourceType: 'SubscriptionStatus',
+                        type: 'handshake',
+                        subscription: { reference: 'Subscription/ehr-patients' },
+                    },
+                },
+            ],
+        };
+        const heartbeat = {
+            resourceType: 'Bundle',
+            type: 'history',
+            entry: [
+                {
+                    resource: {
+                        resourceType: 'Parameters',
+                        parameter: [
+                            {
+                                name: 'subscription',
+                                valueReference: { reference: 'Subscription/1' },
+                            },
+                            { name: 'type', valueCode: 'heartbeat' },
+                        ],
+                    },
+                },
+            ],
+        };
+        expect(extractNotifiedPatientIds(handshake)).toEqual([]);
+        expect(extractNotifiedPatientIds(heartbeat)).toEqual([]);
+        expect(extractNotifiedPatientIds(undefined)).toEqual([]);
+    });
+});
+
+describe('FhirSubscriptionService.handleNotification', () => {
+    let local: PatientEntity | null;
+    let pushedVersions: Map<number, string>;
+    let syncState: FhirSyncState;
+    let savedChanges: FhirInboundChangeEntity[];
+    let service: FhirSubscriptionService;
+
+    const patientService = {
+        findByPid: jest.fn(async (pid: string): Promise<PatientEntity> => {
+            if (!local || local.pid !== pid) {
+                throw new NotFoundError(`Patient with PID ${pid} not found`);
+            }
+            return local;
+        }),
+        saveFromFhirServer: jest.fn(
+            async (data: UpdatePatientDto, id?: number): Promise<PatientEntity> =>
+                Object.assign(new PatientEntity(), local, data, { id })
+        ),
+        findMergeLinks: jest.fn(async () => new Map()),
+    };
+    const fhirSyncService = {
+        getRemoteVersionIds: jest.fn(async () => pushedVersions),
+        getSyncStatus: jest.fn(async () => ({ state: syncState })),
+        recordPush: jest.fn(async () => undefined),
+    };
+    const inboundRepository = {
+        update: jest.fn(async () => ({ affected: 0 })),
+        create: jest.fn((values: Partial<FhirInboundChangeEntity>) =>
+            Object.assign(new FhirInboundChangeEntity(), values)
+        ),
+        save: jest.fn(async (change: FhirInboundChangeEntity) => {
+            change.id = change.id ?? savedChanges.length + 1;
+            savedChanges.push(change);
+            return change;
+        }),
+    };
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => fhirServer.listen(0, '127.0.0.1', resolve));
+        const { port } = fhirServer.address() as AddressInfo;
+        config.fhir.targetServerUrl = `http://127.0.0.1:${port}/fhir`;
+        config.fhir.targetServerVersion = 'R5';
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => fhirServer.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        remotePatients.clear();
+        local = localPatient();
+        pushedVersions = new Map([[7, '2']]);
+        syncState = 'in-sync';
+        savedChanges = [];
+        config.fhir.subscription.autoApply = true;
+
+        const patients = patientService as unknown as PatientService;
+        service = new FhirSubscriptionService(patients, new FhirService(patients));
+        Object.assign(service, { inboundRepository, fhirSyncService });
+    });
+
+    it('applies a change to an in-sync local patient', async () => {
+        remotePatients.set(
+            'A123456789',
+            remotePatient('3', { telecom: [{ system: 'phone', value: '0922333444' }] })
+        );
+
+        const [result] = await service.handleNotification(['A123456789']);
+
+        expect(result).toMatchObject({ resourceId: 'A123456789', outcome: 'applied', changeId: 1 });
+        expect(patientService.saveFromFhirServer).toHaveBeenCalledWith(
+            expect.objectContaining({ telecom: '0922333444' }),
+            7
+        );
+        // The applied version is recorded as if we had pushed it.
+        expect(fhirSyncService.recordPush).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 7 }),
+            expect.objectContaining({ id: 'A123456789' }),
+            expect.objectContaining({ success: true, versionId: '3' })
+        );
+        expect(savedChanges[0]).toMatchObject({
+            status: 'applied',
+            patientId: 7,
+            remoteVersionId: '3',
+        });
+    });
+
+    describe('queues the change for review', () => {
+        beforeEach(() => {
+            remotePatients.set(
+                'A123456789',
+                remotePatient('3', { telecom: [{ system: 'phone', value: '0922333444' }] })
+            );
+        });
+
+        const expectQueued = async (message: string): Promise<void> => {
+            const [result] = await service.handleNotification(['A123456789']);
+            expect(result).toMatchObject({ outcome: 'queued', message, changeId: 1 });
+            expect(savedChanges[0]).toMatchObject({ status: 'pending', reason: message });
+            expect(patientService.saveFromFhirServer).not.toHaveBeenCalled();
+            // Older pending changes of the same Patient are superseded.
+            expect(inboundRepository.update).toHaveBeenCalledWith(
+                { remoteResourceId: 'A123456789', status: 'pending' },
+                { status: 'superseded' }
+            );
+        };
+
+        it('when no local patient has the PID', async () => {
+            local = null;
+            await expectQueued('No local patient has PID A123456789.');
+            expect(savedChanges[0].patientId).toBeNull();
+        });
+
+        it('when the local patient is not in sync', async () => {
+            syncState = 'modified';
+            await expectQueued(
+                "The local patient is not in sync with the FHIR server (state 'modified')."
+            );
+        });
+
+        it('when the remote Patient cannot be mapped', async () => {
+            remotePatients.set('A123456789', remotePatient('3', { birthDate: undefined }));
+            await expectQueued(
+                'The remote Patient cannot be mapped: required fields are missing or invalid.'
+            );
+        });
+
+        it('when automatic application is disabled', async () => {
+            config.fhir.subscription.autoApply = false;
+            await expectQueued('Automatic application of remote changes is disabled.');
+            expect(fhirSyncService.getSyncStatus).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('ignores the notification', () => {
+        const expectIgnored = async (message: string): Promise<void> => {
+            const [result] = await service.handleNotification(['A123456789']);
+            expect(result).toEqual({ resourceId: 'A123456789', outcome: 'ignored', message });
+            expect(savedChanges).toEqual([]);
+            expect(patientService.saveFromFhirServer).not.toHaveBeenCalled();
+        };
+
+        it('when the remote version is the one we pushed', async () => {
+            remotePatients.set(
+                'A123456789',
+                remotePatient('2', { telecom: [{ system: 'phone', value: '0922333444' }] })
+            );
+            await expectIgnored('Version 2 is the one we pushed.');
+        });
+
+        it('when the Patient has no PID identifier', async () => {
+            remotePatients.set(
+                'A123456789',
+                remotePatient('3', { identifier: [{ system: 'urn:other:mrn', value: '42' }] })
+            );
+            await expectIgnored(
+                `The Patient has no ${PID_SYSTEM} identifier; it is not an EHR patient.`
+            );
+            expect(patientService.findByPid).not.toHaveBeenCalled();
+        });
+
+        it('when no stored field changed', async () => {
+            remotePatients.set(
+                'A123456789',
+                remotePatient('3', { maritalStatus: { text: 'Married' } })
+            );
+            await expectIgnored('Version 3 changes none of the fields stored locally.');
+        });
+
+        it('when the Patient no longer exists on the FHIR server', async () => {
+            await expectIgnored('The Patient no longer exists on the FHIR server.');
+        });
+    });
+});
@@ -0,0 +1,204 @@
+// backend/src/services/__tests__/patientMatch.service.spec.ts
+// Duplicate scoring: string similarity, field comparisons, grades, and the SQL that picks the candidates.
+
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { AppDataSource } from '../../config/dataSource';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { jaroWinkler, PatientMatchService } from '../patientMatch.service';
+
+const candidate = (overrides: Partial<PatientEntity> = {}): PatientEntity =>
+    Object.assign(new PatientEntity(), {
+        id: 1,
+        pid: 'A123456789',
+        familyName: 'Wang',
+        givenName: 'Xiaoming',
+        birthday: '1980-03-04',
+        gender: 'Male',
+        telecom: '0912-345-678',
+        email: 'wang@example.com',
+        address: 'No. 122, Sec. 1, Chongqing S. Rd., Taipei',
+        ...overrides,
+    });
+
+const service = new PatientMatchService();
+
+describe('jaroWinkler', () => {
+    it.each([
+        ['martha', 'marhta', 0.961],
+        ['dwayne', 'duane', 0.84],
+        ['dixon', 'dicksonx', 0.813],
+        ['wang', 'wang', 1],
+        ['wang', 'zhou', 0],
+    ])('%s / %s = %d', (a, b, similarity) => {
+        expect(jaroWinkler(a, b)).toBeCloseTo(similarity, 3);
+        expect(jaroWinkler(b, a)).toBeCloseTo(similarity, 3);
+    });
+
+    it('is 0 for empty strings', () => {
+        expect(jaroWinkler('', '')).toBe(0);
+        expect(jaroWinkler('wang', '')).toBe(0);
+    });
+});
+
+describe('compareBirthdays', () => {
+    const compare = (a: string, b: string | null): number => service['compareBirthdays'](a, b);
+
+    it.each([
+        ['1980-03-04', '1980-03-04', 1],
+        ['1980-03-04', '1980-04-03', 0.8], // day and month swapped
+        ['1980-03-04', '1980-03-05', 0.6], // one wrong digit
+        ['1980-03-04', '1981-04-03', 0],
+        ['1980-03-04', null, 0],
+        ['1980-03', '1980-03-04', 0], // not a full date
+    ])('%s / %s = %d', (a, b, similarity) => {
+        expect(compare(a, b)).toBe(similarity);
+    });
+});
+
+describe('comparePhones', () => {
+    const compare = (a: string, b: string | null): number => service['comparePhones'](a, b);
+
+    it.each([
+        ['+886 912 345 678', '0912-345-678', 1], // international and national forms agree
+        ['0912345678', '0912345679', 0.7],
+        ['0912345678', '0912345600', 0.4],
+        ['0912345678', '0912340000', 0],
+        ['0912345678', null, 0],
+    ])('%s / %s = %d', (a, b, similarity) => {
+        expect(compare(a, b)).toBe(similarity);
+    });
+});
+
+describe('scoreMatch', () => {
+    it('scores an identical record 1', () => {
+        expect(service.scoreMatch({ ...candidate(), pid: 'B987654321' }, candidate())).toBe(1);
+    });
+
+    it('scores an identical PID 1 whatever the other fields say', () => {
+        expect(service.scoreMatch({ pid: ' a123456789 ', familyName: 'Chen' }, candidate())).toBe(
+            1
+        );
+    });
+
+    it('compares only the fields the input has', () => {
+        expect(service.scoreMatch({ birthday: '1980-03-04' }, candidate())).toBe(1);
+        // Names equal (0.2 + 0.15), birthday equal (0.25), email at another mailbox (0 of 0.1).
+        expect(
+            service.scoreMatch(
+                {
+                    familyName: 'Wang',
+                    givenName: 'Xiaoming',
+                    birthday: '1980-03-04',
+                    email: 'xm@example.org',
+                },
+                candidate()
+            )
+        ).toBe(0.857);
+    });
+
+    it('penalizes a candidate lacking a field the input has', () => {
+        expect(
+            service.scoreMatch(
+                { birthday: '1980-03-04', email: 'wang@example.com' },
+                candidate({ email: undefined })
+            )
+        ).toBe(0.714);
+    });
+
+    it('recognizes family and given name entered in each other’s field', () => {
+        expect(service.scoreMatch({ familyName: 'Xiaoming', givenName: 'Wang' }, candidate())).toBe(
+            0.9
+        );
+    });
+
+    it('ignores case, spaces and diacritics in names', () => {
+        expect(
+            service.scoreMatch({ familyName: 'WÁNG', givenName: 'Xiao Ming' }, candidate())
+        ).toBe(1);
+    });
+
+    it('scores 0 when the input has no comparable field', () => {
+        expect(service.scoreMatch({ postalCode: '100' }, candidate())).toBe(0);
+    });
+});
+
+describe('grades', () => {
+    const gradeOf = (score: number): string => service['gradeOf'](score);
+
+    it.each([
+        [1, 'certain'],
+        [0.95, 'certain'],
+        [0.949, 'probable'],
+        [0.8, 'probable'],
+        [0.799, 'possible'],
+        [0.6, 'possible'],
+        [0.599, 'certainly-not'],
+        [0, 'certainly-not'],
+    ])('%d is %s', (score, grade) => {
+        expect(gradeOf(score)).toBe(grade);
+    });
+
+    it('returns the matches at or above the minimum grade, best first', async () => {
+        const matcher = new PatientMatchService();
+        const candidates = [
+            candidate({ id: 1, birthday: '1975-11-30' }), // names and phone only
+            candidate({ id: 2 }),
+            candidate({
+                id: 3,
+                familyName: 'Chen',
+                givenName: 'Meiling',
+                birthday: '1990-12-25',
+                telecom: '0223456789',
+            }),
+        ];
+        Object.assign(matcher, { findCandidates: async () => candidates });
+        const input = {
+            familyName: 'Wang',
+            givenName: 'Xiaoming',
+            birthday: '1980-03-04',
+            telecom: '0912345678',
+        };
+
+        const possible = await matcher.findMatches(input);
+        const probable = await matcher.findMatches(input, { minimumGrade: 'probable' });
+
+        expect(possible.map(({ patient, grade }) => [patient.id, grade])).toEqual([
+            [2, 'certain'],
+            [1, 'possible'],
+        ]);
+        expect(probable.map(({ patient }) => patient.id)).toEqual([2]);
+    });
+});
+
+describe('findCandidates', () => {
+    beforeAll(async () => {
+        // Entity metadata without a database connection, enough to build the SQL.
+        await AppDataSource['buildMetadatas']();
+    });
+
+    it('ranks the candidates by shared traits (PID first) before the cap', async () => {
+        const matcher = new PatientMatchService();
+        const repository = matcher['patientRepository'];
+        const createQueryBuilder = repository.createQueryBuilder.bind(repository);
+        let sql = '';
+        jest.spyOn(repository, 'createQueryBuilder').mockImplementation((alias) => {
+            const query = createQueryBuilder(alias);
+            jest.spyOn(query, 'getMany').mockImplementation(async () => {
+                sql = query.getSql();
+                return [];
+            });
+            return query;
+        });
+
+        await matcher.findMatches({
+            pid: 'A123456789',
+            familyName: 'Wang',
+            birthday: '1980-03-04',
+        });
+
+        expect(sql).toContain(
+            '(CASE WHEN UPPER("patient"."pid") = $1 THEN 10 ELSE 0 END) + (CASE WHEN "patient"."birthday" = $2 THEN 1 ELSE 0 END)'
+        );
+        expect(sql).toMatch(/ORDER BY shared_traits DESC, "patient"\."id" ASC LIMIT 200$/);
+    });
+});
@@ -0,0 +1,82 @@
+// backend/src/services/__tests__/patientSearch.service.spec.ts
+// Highlights of a search hit: where the query lies in the returned field values.
+
+import { describe, expect, it } from '@jest/globals';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { PatientSearchHighlight, PatientSearchService } from '../patientSearch.service';
+
+const service = new PatientSearchService();
+
+const patient = (overrides: Partial<PatientEntity> = {}): PatientEntity =>
+    Object.assign(new PatientEntity(), {
+        id: 1,
+        pid: 'A123456789',
+        familyName: 'Wang',
+        givenName: 'Xiao Ming',
+        telecom: '0912-345-678',
+        email: 'wang@example.com',
+        ...overrides,
+    });
+
+const noScores = { pid: 0, familyName: 0, givenName: 0, fullName: 0, email: 0, telecom: 0 };
+
+/** The highlights of a hit, with the field scores the SQL computed and the query normalized as `search` does. */
+const highlights = (
+    hit: PatientEntity,
+    scores: Partial<typeof noScores>,
+    text: string
+): PatientSearchHighlight[] => {
+    const q = text.trim().toLowerCase();
+    return service['buildHighlights'](
+        hit,
+        { ...noScores, ...scores },
+        q,
+        q.replace(/\s+/g, ''),
+        q.replace(/\D/g, '')
+    );
+};
+
+describe('PatientSearchService.buildHighlights', () => {
+    it('splits a full-name match over the family and given name it spans', () => {
+        expect(highlights(patient(), { fullName: 0.9 }, 'wangxiao m')).toEqual([
+            { field: 'familyName', ranges: [[0, 4]] },
+            // The space inside the given name is not part of the full name, but lies inside the span.
+            { field: 'givenName', ranges: [[0, 6]] },
+        ]);
+    });
+
+    it('splits a full-name match in Chinese characters', () => {
+        expect(
+            highlights(patient({ familyName: '王', givenName: '小明' }), { fullName: 0.9 }, '王小')
+        ).toEqual([
+            { field: 'familyName', ranges: [[0, 1]] },
+            { field: 'givenName', ranges: [[0, 1]] },
+        ]);
+    });
+
+    it('does not highlight a name the full-name match does not reach', () => {
+        expect(highlights(patient(), { fullName: 0.75 }, 'ming')).toEqual([
+            { field: 'givenName', ranges: [[5, 9]] },
+        ]);
+    });
+
+    it('maps phone digit offsets back to the formatted number', () => {
+        const [highlight] = highlights(patient(), { telecom: 0.75 }, '1234');
+
+        expect(highlight).toEqual({ field: 'telecom', ranges: [[2, 7]] });
+        expect(patient().telecom.slice(2, 7)).toBe('12-34');
+    });
+
+    it('finds the phone digits whatever the query separators are', () => {
+        expect(
+            highlights(patient({ telecom: '(02) 2345 6789' }), { telecom: 0.75 }, '345-67')
+        ).toEqual([{ field: 'telecom', ranges: [[6, 12]] }]);
+    });
+
+    it('lists the matched fields best first; a fuzzy match has no range', () => {
+        expect(highlights(patient(), { givenName: 0.5, pid: 0.9 }, 'a12')).toEqual([
+            { field: 'pid', ranges: [[0, 3]] },
+            { field: 'givenName', ranges: [] },
+        ]);
+    });
+});
@@ -0,0 +1,294 @@
+// backend/src/services/bulkExport.service.ts
+// Service implementing the asynchronous FHIR Bulk Data `$export` pattern, writing NDJSON files to local disk.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config';
+import { PatientService } from './patient.service';
+import { FhirService } from './fhir.service';
+import { FhirVersion, getFhirConverter } from './fhirVersions';
+import { NotFoundError } from '../utils/error';
+
+/** Number of patients loaded and written per page while exporting. */
+const EXPORT_PAGE_SIZE = 500;
+/** Job IDs are UUIDs; anything else is rejected before touching the file system. */
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+/** Name of the per-job state file stored next to the NDJSON output. */
+const JOB_FILE = 'job.json';
+
+/**
+ * @interface BulkExportOutputFile
+ * @description One NDJSON file produced by an export job.
+ * @property {string} type - Resource type contained in the file (e.g., 'Patient').
+ * @property {string} fileName - File name inside the job directory (e.g., 'Patient.ndjson').
+ * @property {number} count - Number of resources (lines) in the file.
+ */
+export interface BulkExportOutputFile {
+    type: string;
+    fileName: string;
+    count: number;
+}
+
+/**
+ * @interface BulkExportJob
+ * @description State of a `$export` job, persisted as `job.json` in the job directory.
+ * @property {string} id - Job ID (UUID), also the directory name.
+ * @property {'in-progress' | 'completed' | 'failed'} status - Current job state.
+ * @property {string} request - The kick-off request URL, echoed in the manifest.
+ * @property {string} transactionTime - Instant the export started; resources changed later may be missing.
+ * @property {string} [since] - The `_since` filter, if any (ISO instant).
+ * @property {FhirVersion} fhirVersion - FHIR release of the exported resources (negotiated at kick-off).
+ * @property {number} processed - Patients written so far.
+ * @property {number} total - Patients matched by the export (known after the first query).
+ * @property {BulkExportOutputFile[]} output - Files produced (complete only once `status` is 'completed').
+ * @property {string} [completedAt] - When the job finished (successfully or not).
+ * @property {string} [error] - Failure reason when `status` is 'failed'.
+ */
+export interface BulkExportJob {
+    id: string;
+    status: 'in-progress' | 'completed' | 'failed';
+    request: string;
+    transactionTime: string;
+    since?: string;
+    fhirVersion: FhirVersion;
+    processed: number;
+    total: number;
+    output: BulkExportOutputFile[];
+    completedAt?: string;
+    error?: string;
+}
+
+/**
+ * @class BulkExportService
+ * @description Runs Bulk Data `$export` jobs in the background and exposes their state and output files.
+ * @design
+ * - Local storage only: each job gets `<config.fhir.bulkExportDir>/<jobId>/` containing `job.json` and `Patient.ndjson`.
+ * - Jobs run in-process (fire and forget after kick-off); state is kept in memory and mirrored to `job.json`
+ *   so status and downloads keep working after a restart. Jobs interrupted by a restart are reported as failed.
+ * - Patients are read in pages ordered by ID and converted with the same mapping as `convertDbPatientToFhir`
+ *   (`FhirService.buildFhirPatient`), so the export never diverges from the single-patient endpoint.
+ * - Finished jobs older than `config.fhir.bulkExportRetentionHours` are purged when a new export is started.
+ */
+export class BulkExportService {
+    private readonly jobs = new Map<string, BulkExportJob>();
+    private readonly cancelled = new Set<string>();
+
+    constructor(
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {}
+
+    /**
+     * @method startExport
+     * @description Creates an export job and starts it in the background.
+     * @param {string} requestUrl - The kick-off request URL (echoed in the manifest).
+     * @param {Date} [since] - Only export patients changed at or after this instant.
+     * @param {FhirVersion} [fhirVersion=config.fhir.defaultVersion] - FHIR release of the exported resources.
+     * @returns {Promise<BulkExportJob>} The newly created job (status 'in-progress').
+     */
+    async startExport(
+        requestUrl: string,
+        since?: Date,
+        fhirVersion: FhirVersion = config.fhir.defaultVersion
+    ): Promise<BulkExportJob> {
+        await this.purgeExpiredJobs();
+
+        const job: BulkExportJob = {
+            id: randomUUID(),
+            status: 'in-progress',
+            request: requestUrl,
+            transactionTime: new Date().toISOString(),
+            since: since?.toISOString(),
+            fhirVersion,
+            processed: 0,
+            total: 0,
+            output: [],
+        };
+        await fs.mkdir(this.jobDir(job.id), { recursive: true });
+        this.jobs.set(job.id, job);
+        await this.saveJob(job);
+        console.log(`[Bulk Export] Job ${job.id} created (since: ${job.since ?? 'beginning'}).`);
+
+        // Fire and forget: the caller polls the status endpoint.
+        setImmediate(() => {
+            this.runExport(job).catch((error) => {
+                console.error(`[Bulk Export] Job ${job.id} crashed:`, error);
+            });
+        });
+        return job;
+    }
+
+    /**
+     * @method getJob
+     * @description Returns the current state of a job, from memory or from its `job.json`.
+     * @param {string} jobId - The job ID.
+     * @returns {Promise<BulkExportJob>} The job.
+     * @throws {NotFoundError} If the job does not exist (or was cancelled / purged).
+     */
+    async getJob(jobId: string): Promise<BulkExportJob> {
+        const inMemory = this.jobs.get(jobId);
+        if (inMemory) {
+            return inMemory;
+        }
+        if (!JOB_ID_PATTERN.test(jobId)) {
+            throw new NotFoundError(`Export job ${jobId} not found`);
+        }
+        let job: BulkExportJob;
+        try {
+            job = JSON.parse(await fs.readFile(path.join(this.jobDir(jobId), JOB_FILE), 'utf8'));
+        } catch {
+            throw new NotFoundError(`Export job ${jobId} not found`);
+        }
+        if (job.status === 'in-progress') {
+            // Not running in this process, so the server restarted while the job was running.
+            job.status = 'failed';
+            job.error = 'The export was interrupted by a server restart.';
+            job.completedAt = new Date().toISOString();
+            await this.saveJob(job);
+        }
+        this.jobs.set(jobId, job);
+        return job;
+    }
+
+    /**
+     * @method cancelJob
+     * @description Cancels a running job or deletes a finished one, removing its files.
+     * @param {string} jobId - The job ID.
+     * @returns {Promise<void>}
+     * @throws {NotFoundError} If the job does not exist.
+     */
+    async cancelJob(jobId: string): Promise<void> {
+        const job = await this.getJob(jobId);
+        if (job.status === 'in-progress') {
+            this.cancelled.add(jobId); // `runExport` stops at the next page.
+        }
+        this.jobs.delete(jobId);
+        await fs.rm(this.jobDir(jobId), { recursive: true, force: true });
+        console.log(`[Bulk Export] Job ${jobId} cancelled/deleted.`);
+    }
+
+    /**
+     * @method getOutputFilePath
+     * @description Resolves the absolute path of an output file of a completed job.
+     * @param {string} jobId - The job ID.
+     * @param {string} fileName - File name as listed in the job's output.
+     * @returns {Promise<string>} Absolute path of the NDJSON file.
+     * @throws {NotFoundError} If the job is unknown, not completed, or did not produce that file.
+     */
+    async getOutputFilePath(jobId: string, fileName: string): Promise<string> {
+        const job = await this.getJob(jobId);
+        // Only files recorded in the job's output can be served, which also rules out path traversal.
+        if (job.status !== 'completed' || !job.output.some((file) => file.fileName === fileName)) {
+            throw new NotFoundError(`File ${fileName} not found for export job ${jobId}`);
+        }
+        return path.join(this.jobDir(jobId), fileName);
+    }
+
+    /**
+     * @private
+     * @method runExport
+     * @description Writes all matching patients to `Patient.ndjson`, one resource per line, updating progress per page.
+     */
+    private async runExport(job: BulkExportJob): Promise<void> {
+        const fileName = 'Patient.ndjson';
+        const since = job.since ? new Date(job.since) : undefined;
+        // Jobs persisted before the version option existed were R5.
+        const converter = getFhirConverter(job.fhirVersion ?? 'R5');
+        const file = await fs.open(path.join(this.jobDir(job.id), fileName), 'w');
+        let count = 0;
+        try {
+            for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+                if (this.cancelled.has(job.id)) {
+                    this.cancelled.delete(job.id);
+                    console.log(`[Bulk Export] Job ${job.id} stopped after cancellation.`);
+                    return;
+                }
+                const { patients, total } = await this.patientService.search({
+                    offset,
+                    count: EXPORT_PAGE_SIZE,
+                    updatedSince: since,
+                    sort: [{ field: 'id', direction: 'ASC' }],
+                });
+                job.total = total;
+                if (patients.length === 0) {
+                    break;
+                }
+
+                const lines: string[] = [];
+                for (const patientEntity of patients) {
+                    const resource = this.fhirService.buildFhirPatient(patientEntity);
+                    if (resource) {
+                        lines.push(JSON.stringify(converter.fromInternal(resource)));
+                    } else {
+                        console.warn(
+                            `[Bulk Export] Job ${job.id}: skipping patient ${patientEntity.id} (cannot be converted to FHIR).`
+                        );
+                    }
+                }
+                if (lines.length > 0) {
+                    await file.write(lines.join('\n') + '\n');
+                }
+                count += lines.length;
+                job.processed += patients.length;
+                await this.saveJob(job);
+
+                if (patients.length < EXPORT_PAGE_SIZE) {
+                    break;
+                }
+            }
+
+            job.output = [{ type: 'Patient', fileName, count }];
+            job.status = 'completed';
+            job.completedAt = new Date().toISOString();
+            console.log(`[Bulk Export] Job ${job.id} completed: ${count} Patient resource(s).`);
+        } catch (error: any) {
+            job.status = 'failed';
+            job.error = error?.message ?? 'Unexpected error during export.';
+            job.completedAt = new Date().toISOString();
+            console.error(`[Bulk Export] Job ${job.id} failed:`, error);
+        } finally {
+            await file.close();
+        }
+        if (this.jobs.has(job.id)) {
+            await this.saveJob(job);
+        }
+    }
+
+    /**
+     * @private
+     * @method purgeExpiredJobs
+     * @description Deletes finished jobs (and their files) older than the configured retention period.
+     */
+    private async purgeExpiredJobs(): Promise<void> {
+        const cutoff = Date.now() - config.fhir.bulkExportRetentionHours * 60 * 60 * 1000;
+        let jobIds: string[];
+        try {
+            jobIds = await fs.readdir(config.fhir.bulkExportDir);
+        } catch {
+            return; // Directory does not exist yet.
+        }
+        for (const jobId of jobIds.filter((name) => JOB_ID_PATTERN.test(name))) {
+            try {
+                const job = await this.getJob(jobId);
+                if (job.completedAt && Date.parse(job.completedAt) < cutoff) {
+                    this.jobs.delete(jobId);
+                    await fs.rm(this.jobDir(jobId), { recursive: true, force: true });
+                    console.log(`[Bulk Export] Purged expired job ${jobId}.`);
+                }
+            } catch (error) {
+                console.warn(`[Bulk Export] Could not inspect job ${jobId} for purging:`, error);
+            }
+        }
+    }
+
+    /** Directory holding a job's state and output. */
+    private jobDir(jobId: string): string {
+        return path.join(config.fhir.bulkExportDir, jobId);
+    }
+
+    /** Persists the job state next to its output. */
+    private async saveJob(job: BulkExportJob): Promise<void> {
+        await fs.writeFile(path.join(this.jobDir(job.id), JOB_FILE), JSON.stringify(job, null, 2));
+    }
+}
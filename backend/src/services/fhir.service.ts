@@ -3,18 +3,329 @@
 
 import {
     Address,
+    Bundle,
+    BundleEntry,
     CodeableConcept,
     ContactPoint,
     HumanName,
     Identifier,
+    OperationOutcome,
     Patient,
     PatientCommunication,
-    PatientContact
-} from 'fhir/r5' // Assuming R5 version based on common usage; adjust if using R4 ('fhir/r4').
-import { PatientService } from './patient.service' // Dependency: Needs PatientService to fetch internal patient data.
-import config from '../config' // Access FHIR target server URL and potentially other FHIR configs.
-import axios, { AxiosError } from 'axios' // HTTP client for interacting with the external FHIR server.
-import { InternalServerError, NotFoundError } from '../utils/error' // Custom error types for better error handling.
+    PatientContact,
+    Provenance,
+    RelatedPerson,
+} from 'fhir/r5'; // R5 is the internal model; other releases are converted at the edges (see `./fhirVersions`).
+import { CreatePatientDto, PatientMergeLink, PatientService } from './patient.service'; // Dependency: Needs PatientService to fetch internal patient data.
+import { PatientEntity } from '../models/entities/Patient.entity';
+import config from '../config'; // Access FHIR target server URL and potentially other FHIR configs.
+import axios, { AxiosError, AxiosResponse } from 'axios'; // HTTP client for interacting with the external FHIR server.
+import { randomUUID } from 'crypto';
+import { getFhirHttpClient } from './fhirHttpClient';
+import { FhirEndpoint, getPrimaryFhirEndpoint, isRoutedToFhirEndpoint } from './fhirEndpoints';
+import {
+    ConflictError,
+    InternalServerError,
+    NotFoundError,
+    UnprocessableEntityError,
+    UpstreamServiceError,
+} from '../utils/error'; // Custom error types for better error handling.
+import { FhirPushRecord, FhirSyncService } from './fhirSync.service';
+import { FhirValidationService, hasValidationErrors } from './fhirValidation.service';
+import { parseOperationOutcome } from '../utils/operationOutcome';
+import { buildPushProvenance, FhirPushActivity, FhirPushAgent } from '../utils/provenance';
+import { fhirJsonContentType, getFhirConverter } from './fhirVersions';
+import { applyFhirProfile } from './fhirProfiles';
+import { TWCORE_IDENTIFIERS } from './fhirProfiles/twcore.profile';
+import {
+    ADMINISTRATIVE_GENDER_SYSTEM,
+    BCP47_SYSTEM,
+    CONCEPT_MAPS,
+    TerminologyService,
+} from './terminology.service';
+
+/**
+ * @interface FhirImportIssue
+ * @description A single entry of the per-field report produced when mapping an inbound FHIR Patient back into a PatientEntity.
+ * @property {string} field - FHIRPath-style location of the element in the inbound resource (e.g., 'Patient.telecom[2]').
+ * @property {'dropped' | 'unmapped' | 'truncated' | 'missing' | 'invalid'} status - What happened to the element:
+ * - `dropped`: The element is valid FHIR but has no home in the local model, so it was discarded.
+ * - `unmapped`: A coded value could not be translated back to a local value; the original text was kept (or a default used).
+ * - `truncated`: The value was longer than the database column and was shortened.
+ * - `missing`: A field required by the local model is absent in the inbound resource. Blocks the import.
+ * - `invalid`: The value is present but cannot be stored (e.g., a partial birth date, an oversized PID or phone number). Blocks the import.
+ * @property {string} message - Human-readable explanation for the clerk.
+ * @property {unknown} [value] - The original inbound value, when useful for manual re-keying.
+ */
+export interface FhirImportIssue {
+    field: string;
+    status: 'dropped' | 'unmapped' | 'truncated' | 'missing' | 'invalid';
+    message: string;
+    value?: unknown;
+}
+
+/**
+ * @interface FhirImportResult
+ * @description Outcome of `FhirService.convertFhirToDbPatient`.
+ * @property {Partial<CreatePatientDto>} patientData - Local patient fields that could be mapped.
+ * @property {FhirImportIssue[]} report - Everything that was dropped or could not be mapped.
+ * @property {boolean} importable - `false` if any issue blocks saving the record (`missing` or `invalid`).
+ */
+export interface FhirImportResult {
+    patientData: Partial<CreatePatientDto>;
+    report: FhirImportIssue[];
+    importable: boolean;
+}
+
+/**
+ * @interface FhirBatchPushEntryResult
+ * @description Result for one patient of a batch push (`FhirService.pushPatientsInTransactionBundles`).
+ * @property {number} patientId - Internal database ID of the patient.
+ * @property {string} [pid] - The patient's PID (FHIR resource id), when the patient could be loaded.
+ * @property {string} [status] - `response.status` of the transaction-response entry (e.g., '200 OK', '201 Created').
+ * @property {string} [location] - `response.location` reported by the server (usually includes the new version).
+ * @property {string} [versionId] - Remote version after the push, from `response.etag`.
+ * @property {string} [lastUpdated] - Remote `meta.lastUpdated` after the push, from `response.lastModified`.
+ * @property {OperationOutcome} [outcome] - OperationOutcome returned for a failed entry or a rejected transaction.
+ * @property {string} [error] - Human-readable failure reason when no OperationOutcome is available.
+ * @property {string} [provenanceLocation] - Location of the Provenance created with the patient's entry.
+ */
+export interface FhirBatchPushEntryResult {
+    patientId: number;
+    pid?: string;
+    status?: string;
+    location?: string;
+    versionId?: string;
+    lastUpdated?: string;
+    outcome?: OperationOutcome;
+    error?: string;
+    provenanceLocation?: string;
+}
+
+/**
+ * @interface FhirBatchPushResult
+ * @description Summary of a batch push.
+ * @property {number} total - Number of patients considered.
+ * @property {number} bundles - Number of transaction Bundles sent to the FHIR server.
+ * @property {FhirBatchPushEntryResult[]} succeeded - Patients the server accepted.
+ * @property {FhirBatchPushEntryResult[]} failed - Patients that were not converted, not found, or rejected by the server.
+ */
+export interface FhirBatchPushResult {
+    total: number;
+    bundles: number;
+    succeeded: FhirBatchPushEntryResult[];
+    failed: FhirBatchPushEntryResult[];
+}
+
+/**
+ * @interface FhirPushResult
+ * @description Detailed result of pushing one Patient (`FhirService.pushFhirPatient`).
+ * @property {boolean} success - `true` if the server answered 200 or 201.
+ * @property {number} [statusCode] - HTTP status returned by the server, if it answered at all.
+ * @property {string} [error] - Human-readable failure reason.
+ * @property {OperationOutcome} [outcome] - OperationOutcome returned by the server for a rejected push, or by local validation.
+ * @property {boolean} [validationFailed] - `true` if the resource failed local validation and was not sent at all.
+ * @property {boolean} [timedOut] - `true` if the FHIR server did not answer in time.
+ * @property {string} [versionId] - Remote `meta.versionId` after a successful push (from the body or the `ETag` header).
+ * @property {string} [lastUpdated] - Remote `meta.lastUpdated` after a successful push (from the body or `Last-Modified`).
+ * @property {string} [provenanceLocation] - Location of the Provenance created with the push (e.g., 'Provenance/42/_history/1').
+ */
+export interface FhirPushResult {
+    success: boolean;
+    statusCode?: number;
+    error?: string;
+    outcome?: OperationOutcome;
+    validationFailed?: boolean;
+    timedOut?: boolean;
+    versionId?: string;
+    lastUpdated?: string;
+    provenanceLocation?: string;
+}
+
+/**
+ * Builds the error reported to API callers for a push the FHIR server did not accept, keeping the upstream status class:
+ * - 422 when the server rejected the data (4xx other than authentication, timeout and rate limiting): the clerk can fix
+ *   the fields named in the OperationOutcome.
+ * - 504 when the server did not answer in time (no response, or 408).
+ * - 503 when the server asked us to slow down (429) or is unavailable (503).
+ * - 502 for anything else: server errors, rejected credentials, unreachable server, unexpected responses.
+ * @param {number} patientId - Internal ID of the patient, for the message.
+ * @param {FhirPushResult} result - The failed push result.
+ * @returns {UpstreamServiceError} The error, carrying the upstream status and OperationOutcome.
+ */
+export const toPushFailureError = (
+    patientId: number,
+    result: FhirPushResult
+): UpstreamServiceError => {
+    const upstream = result.statusCode;
+    let statusCode = 502;
+    if (result.timedOut || upstream === 408) {
+        statusCode = 504;
+    } else if (upstream === 429 || upstream === 503) {
+        statusCode = 503;
+    } else if (
+        upstream &&
+        upstream >= 400 &&
+        upstream < 500 &&
+        ![401, 403, 407].includes(upstream)
+    ) {
+        statusCode = 422;
+    }
+    return new UpstreamServiceError(
+        statusCode,
+        `FHIR push of Patient ${patientId} failed: ${result.error ?? 'unknown error'}`,
+        upstream,
+        result.outcome
+    );
+};
+
+/**
+ * Describes a failed request to the FHIR server as a `FhirPushResult`, logging what the server answered.
+ * @param {unknown} error - What the request threw.
+ * @param {string} [conflictMessage] - Error message for a 412 Precondition Failed (a failed `If-Match`).
+ * @returns {FhirPushResult} The failed result: the upstream status and OperationOutcome when the server answered,
+ * `timedOut` when it did not answer in time.
+ */
+const toFailedPushResult = (error: any, conflictMessage?: string): FhirPushResult => {
+    if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError;
+        console.error(`  Axios Error Message: ${axiosError.message}`);
+        if (axiosError.response) {
+            // The request was made and the server responded with a status code outside the 2xx range.
+            console.error(`  Target Server Status: ${axiosError.response.status}`);
+            console.error(`  Target Server Response Data:`, axiosError.response.data); // Often contains FHIR OperationOutcome
+            return {
+                success: false,
+                statusCode: axiosError.response.status,
+                error:
+                    axiosError.response.status === 412 && conflictMessage
+                        ? conflictMessage
+                        : `FHIR server responded with status ${axiosError.response.status}.`,
+                outcome: parseOperationOutcome(axiosError.response.data),
+            };
+        } else if (axiosError.request) {
+            // The request was made but no response was received (e.g., network error, timeout).
+            console.error('  No response received from the target server.');
+            return {
+                success: false,
+                error: `No response from the FHIR server: ${axiosError.message}`,
+                timedOut: ['ECONNABORTED', 'ETIMEDOUT'].includes(axiosError.code ?? ''),
+            };
+        } else {
+            // Something happened in setting up the request that triggered an Error.
+            console.error('  Error setting up the request:', axiosError.message);
+        }
+        return { success: false, error: axiosError.message };
+    }
+    // Non-Axios error.
+    console.error('  Non-Axios error occurred:', error);
+    return {
+        success: false,
+        error: error?.message ?? 'Unexpected error during FHIR push.',
+    };
+};
+
+/**
+ * Extracts the version from a FHIR weak ETag (`W/"3"` -> `3`).
+ * @param {string} [etag] - `ETag` header or `Bundle.entry.response.etag`.
+ * @returns {string | undefined} The version, or undefined if there is no ETag.
+ */
+const parseETagVersion = (etag?: string): string | undefined => {
+    const match = etag?.match(/^(?:W\/)?"?([^"]*)"?$/);
+    return match?.[1] || undefined;
+};
+
+/**
+ * Converts an HTTP date (`Last-Modified`) to a FHIR instant.
+ * @param {string} [httpDate] - The header value.
+ * @returns {string | undefined} ISO instant, or undefined if absent or unparsable.
+ */
+const httpDateToInstant = (httpDate?: string): string | undefined => {
+    const date = httpDate ? new Date(httpDate) : undefined;
+    return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+/**
+ * @interface FhirPushOptions
+ * @description Concurrency control and audit information for `FhirService.pushPatientEntity`.
+ * @property {string} [ifMatchVersionId] - Remote version the update must apply to. Defaults to the version known from the
+ * patient's last successful push (`patient_fhir_sync.remote_version_id`).
+ * @property {boolean} [force] - Send no `If-Match` at all and overwrite whatever is on the server (explicit conflict resolution only).
+ * @property {FhirPushAgent} [agent] - The user responsible for the change, named in the Provenance sent with the push.
+ * @property {FhirPushActivity} [activity] - The local change the push records (the outbox item's `activity`), named as
+ * the Provenance activity. Without it (manual and batch pushes): create for the patient's first successful push to the
+ * endpoint, update afterwards.
+ * @property {FhirEndpoint} [endpoint] - The FHIR server to push to (default: the primary endpoint).
+ */
+export interface FhirPushOptions {
+    ifMatchVersionId?: string;
+    force?: boolean;
+    agent?: FhirPushAgent;
+    activity?: FhirPushActivity;
+    endpoint?: FhirEndpoint;
+}
+
+/** A Patient of a transaction Bundle, with the Provenance sent alongside it. */
+interface FhirTransactionEntry {
+    patientId: number;
+    resource: Patient;
+    ifMatchVersionId?: string;
+    provenance?: Provenance;
+}
+
+/**
+ * @interface FhirRemotePatient
+ * @description The copy of a patient currently stored on the FHIR server (`FhirService.fetchRemotePatient`).
+ * @property {Patient} resource - The remote Patient resource.
+ * @property {string} [versionId] - Its `meta.versionId` (or ETag), to be passed back when resolving a conflict.
+ * @property {string} [lastUpdated] - Its `meta.lastUpdated`.
+ */
+export interface FhirRemotePatient {
+    resource: Patient;
+    versionId?: string;
+    lastUpdated?: string;
+}
+
+/** Default number of patients per transaction Bundle. */
+export const DEFAULT_TRANSACTION_CHUNK_SIZE = 100;
+/** Upper bound for the chunk size, to keep each transaction within typical server request limits. */
+export const MAX_TRANSACTION_CHUNK_SIZE = 500;
+
+/** Maximum column lengths of the `patients` table (see database/patients.sql). */
+const PATIENT_COLUMN_LENGTHS: Partial<Record<keyof CreatePatientDto, number>> = {
+    pid: 10,
+    familyName: 50,
+    givenName: 50,
+    telecom: 20,
+    gender: 10,
+    address: 100,
+    email: 100,
+    postalCode: 10,
+    country: 50,
+    preferredLanguage: 50,
+    emergencyContactName: 50,
+    emergencyContactRelationship: 50,
+    emergencyContactPhone: 20,
+};
+/** Columns whose inbound values are never truncated: a shortened phone number reaches someone else. */
+const UNTRUNCATABLE_COLUMNS: (keyof CreatePatientDto)[] = ['telecom', 'emergencyContactPhone'];
+
+/** Top-level Patient elements handled by the reverse mapper. Any other element present is reported as dropped. */
+const IMPORTED_PATIENT_ELEMENTS = new Set([
+    'resourceType',
+    'id',
+    'meta',
+    'text',
+    'active',
+    'identifier',
+    'name',
+    'telecom',
+    'gender',
+    'birthDate',
+    'address',
+    'communication',
+    'contact',
+]);
 
 /**
  * @class FhirService
@@ -28,6 +339,9 @@ import { InternalServerError, NotFoundError } from '../utils/error' // Custom er
 export class FhirService {
     // Store the injected PatientService instance.
     private readonly patientService: PatientService;
+    private readonly fhirSyncService: FhirSyncService;
+    private readonly fhirValidationService: FhirValidationService;
+    private readonly terminologyService: TerminologyService;
 
     /**
      * @constructor
@@ -35,6 +349,9 @@ export class FhirService {
      */
     constructor(patientService: PatientService) {
         this.patientService = patientService;
+        this.fhirSyncService = new FhirSyncService();
+        this.fhirValidationService = new FhirValidationService();
+        this.terminologyService = new TerminologyService();
         console.log('[FHIR Service] Initialized with PatientService dependency.');
     }
 
@@ -43,29 +360,59 @@ export class FhirService {
      * @description High-level method called by controllers to initiate the FHIR push process for a given internal patient ID.
      * It orchestrates the conversion and the actual push operation.
      * @param {number} patientId - The internal database ID of the patient to push.
-     * @returns {Promise<boolean>} `true` if the FHIR resource was successfully sent and the target server responded positively (e.g., 200 OK or 201 Created), `false` otherwise (e.g., patient not found, conversion failed, push failed).
+     * @param {FhirPushAgent} [agent] - The authenticated user (`req.user`), recorded as agent of the push's Provenance.
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to push to (default: the primary endpoint).
+     * @returns {Promise<boolean>} `true` if the FHIR resource was successfully sent and the target server responded positively (e.g., 200 OK or 201 Created), `false` if the patient cannot be converted (missing PID).
      * @throws {NotFoundError} If the patient with the given internal ID cannot be found by PatientService.
+     * @throws {ConflictError} If the remote resource changed since our last push (412 on `If-Match`); it was not overwritten.
+     * @throws {UnprocessableEntityError} If the resource failed local validation (the error carries the OperationOutcome),
+     * or the endpoint's routing rules exclude the patient.
+     * @throws {UpstreamServiceError} If the FHIR server did not accept the push; carries its status and OperationOutcome
+     * (see `toPushFailureError` for the status answered).
      * @throws {InternalServerError} For configuration issues (like missing FHIR server URL) or unexpected errors during the push.
      */
-    async triggerPushForPatient(patientId: number): Promise<boolean> {
-        console.log(`[FHIR Service] Triggering FHIR push for internal patient ID: ${patientId}`);
+    async triggerPushForPatient(
+        patientId: number,
+        agent?: FhirPushAgent,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<boolean> {
+        console.log(
+            `[FHIR Service] Triggering FHIR push for internal patient ID: ${patientId} (endpoint ${endpoint.name})`
+        );
         try {
-            // 1. Convert the internal patient data to an FHIR Patient resource.
-            const fhirPatient = await this.convertDbPatientToFhir(patientId);
+            // 1. Load the patient (throws NotFoundError if it doesn't exist).
+            const patientEntity = await this.patientService.findById(patientId);
+            if (!isRoutedToFhirEndpoint(endpoint, patientEntity)) {
+                throw new UnprocessableEntityError(
+                    `Patient ${patientId} is not routed to FHIR endpoint '${endpoint.name}' (see its routing rules).`
+                );
+            }
 
-            // Handle case where patient doesn't exist or conversion fails.
-            if (!fhirPatient) {
+            // 2. Convert, push (with its Provenance) and record the result in the patient's sync metadata.
+            const result = await this.pushPatientEntity(patientEntity, { agent, endpoint });
+
+            // Handle case where conversion fails.
+            if (!result) {
                 console.warn(
-                    `[FHIR Service] Cannot push patient ID ${patientId}: Failed to convert to FHIR resource (Patient likely not found).`
+                    `[FHIR Service] Cannot push patient ID ${patientId}: Failed to convert to FHIR resource (missing PID).`
                 );
                 // Returning false indicates the operation didn't complete successfully.
-                // Alternatively, could re-throw the NotFoundError caught during conversion if preferred.
                 return false;
             }
-
-            // 2. Push the generated FHIR resource to the target server.
-            // The actual push logic is encapsulated in `pushFhirPatientToServer`.
-            return await this.pushFhirPatientToServer(fhirPatient);
+            if (result.statusCode === 412) {
+                throw new ConflictError(
+                    endpoint.primary
+                        ? `Patient ${patientId} was changed on the FHIR server since our last push and was not overwritten. Fetch the remote copy to resolve the conflict.`
+                        : `Patient ${patientId} was changed on FHIR endpoint '${endpoint.name}' since our last push and was not overwritten.`
+                );
+            }
+            if (result.validationFailed) {
+                throw new UnprocessableEntityError(result.error, result.outcome);
+            }
+            if (!result.success) {
+                throw toPushFailureError(patientId, result);
+            }
+            return true;
         } catch (error: any) {
             // Catch errors specifically from the conversion step (like NotFoundError from patientService.findById)
             if (error instanceof NotFoundError) {
@@ -74,6 +421,13 @@ export class FhirService {
                 );
                 throw error; // Re-throw NotFoundError for the controller to handle appropriately (e.g., return 404).
             }
+            if (
+                error instanceof ConflictError ||
+                error instanceof UnprocessableEntityError ||
+                error instanceof UpstreamServiceError
+            ) {
+                throw error; // Remote conflict, invalid resource or rejected push: the controller answers with the status.
+            }
             // Handle other unexpected errors during the trigger process.
             console.error(
                 `[FHIR Service] Unexpected error during triggerPushForPatient for ID ${patientId}:`,
@@ -83,21 +437,126 @@ export class FhirService {
         }
     }
 
+    /**
+     * @method pushPatientEntity
+     * @description Converts a loaded patient, pushes it to the FHIR server and records the result in its sync metadata
+     * (`patient_fhir_sync`). Used by every single-patient push path (manual push and outbox worker).
+     * @param {PatientEntity} patientEntity - The patient to push.
+     * @param {FhirPushOptions} [options] - Which endpoint to push to, which remote version the update must apply to,
+     * and who made the change.
+     * @returns {Promise<FhirPushResult | null>} The push result, or null if the patient cannot be converted (no PID).
+     * A `statusCode` of 412 means the remote copy changed since our last push; it is recorded as a conflict.
+     * `validationFailed` means the resource failed local validation and was not sent; it is recorded as a failed push.
+     * @throws {InternalServerError} If the FHIR target server URL is not configured.
+     * @design
+     * - Local validation: the resource is checked by `FhirValidationService` first and never sent with errors,
+     *   so the caller gets the OperationOutcome right away instead of a rejection from the FHIR server.
+     * - Optimistic concurrency: unless `force` is set, the update carries `If-Match` with the version we last pushed,
+     *   so edits made on the FHIR server by other systems are never silently overwritten. The first push of a patient
+     *   has no known version and is a plain create-or-update.
+     * - Provenance (unless `FHIR_PROVENANCE_ENABLED=false`): a Provenance naming the agent, the activity (`activity`,
+     *   else create for the patient's first successful push and update afterwards) and the time is sent with the Patient
+     *   in one transaction, so the FHIR server never stores a Patient version without its audit record.
+     */
+    async pushPatientEntity(
+        patientEntity: PatientEntity,
+        options: FhirPushOptions = {}
+    ): Promise<FhirPushResult | null> {
+        const endpoint = options.endpoint ?? getPrimaryFhirEndpoint();
+        const fhirPatient = await this.buildLinkedFhirPatient(patientEntity);
+        if (!fhirPatient) {
+            return null;
+        }
+        const validationResult = await this.validateBeforePush(fhirPatient);
+        if (validationResult) {
+            await this.recordSync(
+                patientEntity,
+                fhirPatient,
+                validationResult,
+                new Date(),
+                endpoint
+            );
+            return validationResult;
+        }
+        let ifMatchVersionId: string | undefined;
+        if (!options.force) {
+            ifMatchVersionId =
+                options.ifMatchVersionId ??
+                (
+                    await this.fhirSyncService.getRemoteVersionIds(
+                        [patientEntity.id],
+                        endpoint.name
+                    )
+                ).get(patientEntity.id);
+        }
+        const pushedAt = new Date();
+        let provenance: Provenance | undefined;
+        if (config.fhir.provenanceEnabled) {
+            let activity = options.activity;
+            if (!activity) {
+                const pushedBefore = await this.fhirSyncService.getPushedPatientIds(
+                    [patientEntity.id],
+                    endpoint.name
+                );
+                activity = pushedBefore.has(patientEntity.id) ? 'update' : 'create';
+            }
+            provenance = buildPushProvenance(
+                fhirPatient.id!,
+                activity,
+                options.agent,
+                pushedAt,
+                patientEntity.updatedAt
+            );
+        }
+        const result = await this.pushFhirPatient(
+            fhirPatient,
+            ifMatchVersionId,
+            provenance,
+            endpoint
+        );
+        await this.recordSync(patientEntity, fhirPatient, result, pushedAt, endpoint);
+        return result;
+    }
+
     /**
      * @method pushFhirPatientToServer
      * @description Sends the provided FHIR Patient resource to the configured FHIR server endpoint using an HTTP PUT request.
+     * Thin wrapper over `pushFhirPatient` for callers that only need a yes/no answer.
      * @param {Patient} fhirPatient - The FHIR Patient resource object to send.
      * @returns {Promise<boolean>} `true` if the request was successful (200 or 201 status), `false` otherwise.
      * @throws {InternalServerError} If the FHIR target server URL is not configured or if the FHIR Patient resource is missing its ID (which should be the PID).
+     */
+    async pushFhirPatientToServer(fhirPatient: Patient): Promise<boolean> {
+        return (await this.pushFhirPatient(fhirPatient)).success;
+    }
+
+    /**
+     * @method pushFhirPatient
+     * @description Sends the provided FHIR Patient resource to the configured FHIR server endpoint using an HTTP PUT request
+     * and reports the outcome in detail.
+     * @param {Patient} fhirPatient - The FHIR Patient resource object to send.
+     * @param {string} [ifMatchVersionId] - When given, sent as `If-Match: W/"<versionId>"`; the server answers 412 if the
+     * remote resource is at another version.
+     * @param {Provenance} [provenance] - When given, the Patient `PUT` and a `POST` of this Provenance are sent together
+     * as a transaction Bundle instead of a plain `PUT`.
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to push to (default: the primary endpoint).
+     * @returns {Promise<FhirPushResult>} Whether the push succeeded, with the HTTP status and failure details.
+     * @throws {InternalServerError} If the FHIR target server URL is not configured or if the FHIR Patient resource is missing its ID (which should be the PID).
      * @design
      * - RESTful Interaction: Uses HTTP PUT to `/Patient/[id]` which is the standard FHIR way to create or update a resource with a known ID. The `id` used here is the `patientEntity.pid`.
-     * - Configuration Driven: Relies on `config.fhir.targetServerUrl` from the environment configuration.
-     * - Robust Error Handling: Explicitly checks for missing configuration and missing patient ID. Catches Axios errors (network issues, non-2xx responses) and logs details.
-     * - Content Type: Sets the correct `Content-Type` header (`application/fhir+json`).
-     * - Authentication: Placeholder comment for adding `Authorization` header if the target FHIR server requires it.
+     * - Configuration Driven: Relies on the endpoint's URL, release, credentials and timeout (`config.fhir.targetServerUrl` etc. for the primary endpoint).
+     * - Robust Error Handling: Explicitly checks for missing configuration and missing patient ID. Catches Axios errors (network issues, non-2xx responses), logs details and returns them instead of throwing.
+     * - Content Type: Sets the correct `Content-Type` header (`application/fhir+json; fhirVersion=...`).
+     * - FHIR Version: The resource is converted to the endpoint's release before sending.
+     * - Authentication: Requests go through the endpoint's `fhirHttpClient`, which adds the `Authorization` header of its configured credentials (basic, bearer or an OAuth2 client credentials token) and retries once with a new token after a 401.
      */
-    async pushFhirPatientToServer(fhirPatient: Patient): Promise<boolean> {
-        const targetUrl = config.fhir.targetServerUrl; // Get target FHIR server base URL.
+    async pushFhirPatient(
+        fhirPatient: Patient,
+        ifMatchVersionId?: string,
+        provenance?: Provenance,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<FhirPushResult> {
+        const targetUrl = endpoint.url; // Get target FHIR server base URL.
 
         // Configuration Check: Ensure the target URL is actually set.
         if (!targetUrl) {
@@ -118,22 +577,33 @@ export class FhirService {
         // Construct the specific resource URL (e.g., https://fhir.example.com/Patient/A123456789)
         const url = `${targetUrl.replace(/\/$/, '')}/Patient/${fhirPatient.id}`; // Ensure no double slashes.
         console.log(
-            `[FHIR Service] Pushing FHIR Patient (ID: ${fhirPatient.id}) to endpoint: ${url}`
+            `[FHIR Service] Pushing FHIR Patient (ID: ${fhirPatient.id}) to endpoint: ${url}${ifMatchVersionId ? ` (If-Match version ${ifMatchVersionId})` : ''}`
         );
 
         try {
+            if (provenance) {
+                return await this.pushFhirPatientWithProvenance(
+                    fhirPatient,
+                    ifMatchVersionId,
+                    provenance,
+                    endpoint
+                );
+            }
             // Perform the HTTP PUT request using Axios.
-            const response = await axios.put(
+            const response = await getFhirHttpClient(endpoint).put(
                 url,
-                fhirPatient, // The FHIR Patient resource is the request body.
+                // The FHIR Patient resource is the request body, in the release the target server speaks.
+                getFhirConverter(endpoint.version).fromInternal(fhirPatient),
                 {
                     headers: {
-                        // Standard FHIR JSON content type.
-                        'Content-Type': 'application/fhir+json; charset=utf-8',
-                        // Add Authorization header if needed:
-                        // 'Authorization': `Bearer ${your_token_here}`
+                        // FHIR JSON content type, naming the release.
+                        'Content-Type': `${fhirJsonContentType(endpoint.version)}; charset=utf-8`,
+                        Accept: fhirJsonContentType(endpoint.version),
+                        // Version-aware update: only apply if the server still has the version we last pushed.
+                        ...(ifMatchVersionId ? { 'If-Match': `W/"${ifMatchVersionId}"` } : {}),
+                        // Authorization is added by the endpoint's client (its auth settings).
                     },
-                    timeout: 15000, // Set a reasonable timeout (e.g., 15 seconds).
+                    timeout: endpoint.timeoutMs,
                 }
             );
 
@@ -142,38 +612,712 @@ export class FhirService {
                 console.log(
                     `[FHIR Service] Successfully pushed/updated FHIR Patient ID: ${fhirPatient.id}. Target server responded with Status: ${response.status}`
                 );
-                return true; // Indicate success.
+                // The remote version comes from the returned resource, or from the headers with `Prefer: return=minimal`.
+                const stored = response.data as Patient | undefined;
+                return {
+                    success: true,
+                    statusCode: response.status,
+                    versionId: stored?.meta?.versionId ?? parseETagVersion(response.headers.etag),
+                    lastUpdated:
+                        stored?.meta?.lastUpdated ??
+                        httpDateToInstant(response.headers['last-modified']),
+                }; // Indicate success.
             } else {
                 // Handle unexpected successful status codes (e.g., 204 No Content might be possible depending on server).
                 console.warn(
                     `[FHIR Service] FHIR server responded with unexpected success status ${response.status} for Patient ID: ${fhirPatient.id}. Treating as potentially unsuccessful push.`
                 );
-                return false; // Indicate potential issue.
+                return {
+                    success: false,
+                    statusCode: response.status,
+                    error: `Unexpected response status ${response.status}.`,
+                }; // Indicate potential issue.
             }
         } catch (error: any) {
             // Handle errors during the Axios request (network errors, non-2xx responses).
             console.error(
                 `[FHIR Service] Error pushing FHIR Patient ID: ${fhirPatient.id} to ${url}.`
             );
+            return toFailedPushResult(
+                error,
+                `Version conflict: the FHIR server no longer has version ${ifMatchVersionId} of Patient ${fhirPatient.id} (412 Precondition Failed).`
+            );
+        }
+    }
+
+    /**
+     * @private
+     * @method pushFhirPatientWithProvenance
+     * @description Sends a Patient and its Provenance as one `transaction` Bundle, so both are stored or neither is.
+     * @param {Patient} fhirPatient - The Patient to store (`PUT Patient/{pid}`).
+     * @param {string | undefined} ifMatchVersionId - Sent as the Patient entry's `request.ifMatch` when given.
+     * @param {Provenance} provenance - The Provenance to create (`POST Provenance`).
+     * @param {FhirEndpoint} endpoint - The FHIR server to send it to.
+     * @returns {Promise<FhirPushResult>} The Patient entry's result, with the Provenance location.
+     * @throws {AxiosError} If the server rejects the transaction; `pushFhirPatient` reports it like a failed `PUT`
+     * (a 412 is a version conflict).
+     */
+    private async pushFhirPatientWithProvenance(
+        fhirPatient: Patient,
+        ifMatchVersionId: string | undefined,
+        provenance: Provenance,
+        endpoint: FhirEndpoint
+    ): Promise<FhirPushResult> {
+        const baseUrl = endpoint.url!.replace(/\/$/, '');
+        const converter = getFhirConverter(endpoint.version);
+        const { bundle, patientEntryIndexes } = this.buildTransactionBundle(
+            [{ patientId: 0, resource: fhirPatient, ifMatchVersionId, provenance }],
+            baseUrl
+        );
+        const response = await getFhirHttpClient(endpoint).post(
+            baseUrl,
+            converter.fromInternal(bundle),
+            {
+                headers: {
+                    'Content-Type': `${fhirJsonContentType(endpoint.version)}; charset=utf-8`,
+                    Accept: fhirJsonContentType(endpoint.version),
+                },
+                timeout: endpoint.timeoutMs,
+            }
+        );
+        const responseBundle =
+            response.data?.resourceType === 'Bundle'
+                ? (converter.toInternal(response.data) as Bundle)
+                : undefined;
+        if (responseBundle?.type !== 'transaction-response') {
+            console.warn(
+                `[FHIR Service] Unexpected transaction response (status ${response.status}) for Patient ID: ${fhirPatient.id}. Treating as unsuccessful push.`
+            );
+            return {
+                success: false,
+                statusCode: response.status,
+                error: 'FHIR server did not return a transaction-response Bundle.',
+            };
+        }
+        const patientResponse = responseBundle.entry?.[patientEntryIndexes[0]]?.response;
+        const provenanceResponse = responseBundle.entry?.[patientEntryIndexes[0] + 1]?.response;
+        const statusCode = parseInt(patientResponse?.status ?? '', 10);
+        if (!(statusCode >= 200 && statusCode < 300)) {
+            return {
+                success: false,
+                statusCode: statusCode || response.status,
+                error: patientResponse?.status
+                    ? `FHIR server responded with status '${patientResponse.status}'.`
+                    : 'No entry for the Patient in the transaction-response.',
+                outcome: parseOperationOutcome(patientResponse?.outcome),
+            };
+        }
+        console.log(
+            `[FHIR Service] Successfully pushed/updated FHIR Patient ID: ${fhirPatient.id} with Provenance ${provenanceResponse?.location ?? '(no location)'}. Patient entry status: ${patientResponse!.status}`
+        );
+        return {
+            success: true,
+            statusCode,
+            versionId: parseETagVersion(patientResponse!.etag),
+            lastUpdated: patientResponse!.lastModified,
+            provenanceLocation: provenanceResponse?.location,
+        };
+    }
+
+    /**
+     * @private
+     * @method buildTransactionBundle
+     * @description Builds a `transaction` Bundle with a `PUT Patient/{pid}` entry per patient, each followed by a
+     * `POST Provenance` entry when the patient has one.
+     * @param {FhirTransactionEntry[]} entries - Patients to include, in order.
+     * @param {string} baseUrl - Base URL of the receiving server (for the entries' `fullUrl`).
+     * @returns The Bundle, and the index of each patient's entry (the server answers in request order).
+     */
+    private buildTransactionBundle(
+        entries: FhirTransactionEntry[],
+        baseUrl: string
+    ): {
+        bundle: Bundle;
+        patientEntryIndexes: number[];
+    } {
+        const bundleEntries: BundleEntry[] = [];
+        const patientEntryIndexes: number[] = [];
+        for (const { resource, ifMatchVersionId, provenance } of entries) {
+            patientEntryIndexes.push(bundleEntries.length);
+            bundleEntries.push({
+                fullUrl: `${baseUrl}/Patient/${resource.id}`,
+                resource,
+                request: {
+                    method: 'PUT',
+                    url: `Patient/${resource.id}`,
+                    ifMatch: ifMatchVersionId ? `W/"${ifMatchVersionId}"` : undefined,
+                },
+            });
+            if (provenance) {
+                bundleEntries.push({
+                    fullUrl: `urn:uuid:${randomUUID()}`,
+                    resource: provenance,
+                    request: { method: 'POST', url: 'Provenance' },
+                });
+            }
+        }
+        return {
+            bundle: { resourceType: 'Bundle', type: 'transaction', entry: bundleEntries },
+            patientEntryIndexes,
+        };
+    }
+
+    /**
+     * @method pushPatientsInTransactionBundles
+     * @description Pushes many patients to the FHIR server using `transaction` Bundles (one `PUT Patient/{pid}` entry per patient)
+     * instead of one HTTP call per patient. Used to resynchronize the registry after an outage.
+     * @param {number[]} [patientIds] - Internal IDs to push. When omitted, every patient is pushed (paged by ID).
+     * @param {number} [chunkSize=DEFAULT_TRANSACTION_CHUNK_SIZE] - Number of patients per transaction Bundle.
+     * @param {FhirPushAgent} [agent] - The user who started the batch, named in each patient's Provenance.
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to push to (default: the primary endpoint).
+     * @returns {Promise<FhirBatchPushResult>} Which patients succeeded and which failed (with the OperationOutcome where available).
+     * @throws {InternalServerError} If the FHIR target server URL is not configured.
+     * @design
+     * - Chunks are sent sequentially so a large resync does not flood the target server.
+     * - A transaction is atomic: if the server rejects it, every patient in that chunk is reported as failed with the
+     *   server's OperationOutcome, and later chunks are still attempted.
+     * - Patients that are missing, cannot be converted (e.g., no PID), fail local validation or are excluded by the
+     *   endpoint's routing rules are reported as failed without being sent; they do not abort the transaction of their chunk.
+     * - Each Patient entry is followed by its Provenance (see `pushPatientEntity`) in the same transaction.
+     */
+    async pushPatientsInTransactionBundles(
+        patientIds?: number[],
+        chunkSize = DEFAULT_TRANSACTION_CHUNK_SIZE,
+        agent?: FhirPushAgent,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<FhirBatchPushResult> {
+        if (!endpoint.url) {
+            console.error(
+                '[FHIR Service] Cannot push to FHIR server: FHIR_TARGET_SERVER_URL is not configured.'
+            );
+            throw new InternalServerError('FHIR target server URL is not configured.');
+        }
+        const size = Math.max(1, Math.min(chunkSize, MAX_TRANSACTION_CHUNK_SIZE));
+        const result: FhirBatchPushResult = { total: 0, bundles: 0, succeeded: [], failed: [] };
+        console.log(
+            `[FHIR Service] Starting batch push of ${patientIds ? patientIds.length : 'all'} patient(s) to endpoint ${endpoint.name} in chunks of ${size}.`
+        );
+
+        // Walk the requested patients (or the whole table) one chunk at a time.
+        for (let offset = 0; ; offset += size) {
+            let chunk: PatientEntity[];
+            if (patientIds) {
+                const ids = patientIds.slice(offset, offset + size);
+                if (ids.length === 0) break;
+                chunk = await this.patientService.findByIds(ids);
+                const found = new Set(chunk.map((patient) => patient.id));
+                ids.filter((id) => !found.has(id)).forEach((patientId) => {
+                    result.total++;
+                    result.failed.push({
+                        patientId,
+                        error: `Patient with ID ${patientId} not found`,
+                    });
+                });
+            } else {
+                chunk = (
+                    await this.patientService.search({
+                        offset,
+                        count: size,
+                        sort: [{ field: 'id', direction: 'ASC' }],
+                    })
+                ).patients;
+                if (chunk.length === 0) break;
+            }
+
+            const entries: FhirTransactionEntry[] = [];
+            const knownVersions = await this.fhirSyncService.getRemoteVersionIds(
+                chunk.map((patient) => patient.id),
+                endpoint.name
+            );
+            const pushedBefore = config.fhir.provenanceEnabled
+                ? await this.fhirSyncService.getPushedPatientIds(
+                      chunk.map((patient) => patient.id),
+                      endpoint.name
+                  )
+                : undefined;
+            const mergeLinks = await this.patientService.findMergeLinks(chunk);
+            const pushedAt = new Date();
+            for (const patientEntity of chunk) {
+                result.total++;
+                if (!isRoutedToFhirEndpoint(endpoint, patientEntity)) {
+                    result.failed.push({
+                        patientId: patientEntity.id,
+                        pid: patientEntity.pid,
+                        error: `Patient is not routed to FHIR endpoint '${endpoint.name}' (see its routing rules).`,
+                    });
+                    continue;
+                }
+                const resource = this.buildFhirPatient(
+                    patientEntity,
+                    mergeLinks.get(patientEntity.id)
+                );
+                const validationResult = resource && (await this.validateBeforePush(resource));
+                if (resource && validationResult) {
+                    result.failed.push({
+                        patientId: patientEntity.id,
+                        pid: patientEntity.pid,
+                        error: validationResult.error,
+                        outcome: validationResult.outcome,
+                    });
+                    await this.recordSync(
+                        patientEntity,
+                        resource,
+                        validationResult,
+                        new Date(),
+                        endpoint
+                    );
+                } else if (resource) {
+                    entries.push({
+                        patientId: patientEntity.id,
+                        resource,
+                        ifMatchVersionId: knownVersions.get(patientEntity.id),
+                        provenance:
+                            pushedBefore &&
+                            buildPushProvenance(
+                                resource.id!,
+                                pushedBefore.has(patientEntity.id) ? 'update' : 'create',
+                                agent,
+                                pushedAt,
+                                patientEntity.updatedAt
+                            ),
+                    });
+                } else {
+                    result.failed.push({
+                        patientId: patientEntity.id,
+                        error: 'Patient could not be converted to a FHIR resource (missing PID).',
+                    });
+                }
+            }
+            if (entries.length === 0) continue;
+
+            result.bundles++;
+            const entryResults = await this.sendTransactionBundle(entries, endpoint);
+            for (const [index, entryResult] of entryResults.entries()) {
+                const failed = Boolean(entryResult.error || entryResult.outcome);
+                (failed ? result.failed : result.succeeded).push(entryResult);
+                await this.recordSync(
+                    chunk.find((patient) => patient.id === entries[index].patientId)!,
+                    entries[index].resource,
+                    {
+                        success: !failed,
+                        statusCode: entryResult.status
+                            ? parseInt(entryResult.status, 10) || undefined
+                            : undefined,
+                        error: entryResult.error,
+                        outcome: entryResult.outcome,
+                        versionId: entryResult.versionId,
+                        lastUpdated: entryResult.lastUpdated,
+                    },
+                    pushedAt,
+                    endpoint
+                );
+            }
+            if (!patientIds && chunk.length < size) break;
+        }
+
+        console.log(
+            `[FHIR Service] Batch push finished: ${result.succeeded.length} succeeded, ${result.failed.length} failed, ${result.bundles} Bundle(s) sent.`
+        );
+        return result;
+    }
+
+    /**
+     * @private
+     * @method sendTransactionBundle
+     * @description POSTs one `transaction` Bundle to the server base URL and maps the `transaction-response` entries
+     * (which are returned in request order) back to the patients.
+     * @param {FhirTransactionEntry[]} entries - Patients to include (with their Provenance), in order.
+     * @param {FhirEndpoint} endpoint - The FHIR server to send the Bundle to.
+     * @returns {Promise<FhirBatchPushEntryResult[]>} One result per input entry. Successful entries carry no `outcome`/`error`.
+     * @design Each entry carries `request.ifMatch` with the last pushed version, like single pushes. A version conflict
+     * makes the server reject the whole transaction (412), and the entries are reported as failed, not conflicted,
+     * because the response does not say which patient caused it; pushing that chunk one patient at a time pinpoints it.
+     */
+    private async sendTransactionBundle(
+        entries: FhirTransactionEntry[],
+        endpoint: FhirEndpoint
+    ): Promise<FhirBatchPushEntryResult[]> {
+        const baseUrl = endpoint.url!.replace(/\/$/, '');
+        const { bundle, patientEntryIndexes } = this.buildTransactionBundle(entries, baseUrl);
+
+        const failAll = (outcome?: OperationOutcome, error?: string): FhirBatchPushEntryResult[] =>
+            entries.map(({ patientId, resource }) => ({
+                patientId,
+                pid: resource.id,
+                outcome,
+                error,
+            }));
+
+        const converter = getFhirConverter(endpoint.version);
+        try {
+            const response = await getFhirHttpClient(endpoint).post(
+                baseUrl,
+                converter.fromInternal(bundle),
+                {
+                    headers: {
+                        'Content-Type': `${fhirJsonContentType(endpoint.version)}; charset=utf-8`,
+                        Accept: fhirJsonContentType(endpoint.version),
+                    },
+                    timeout: endpoint.timeoutMs * 4, // Transactions take longer than single PUTs.
+                }
+            );
+            const responseBundle =
+                response.data?.resourceType === 'Bundle'
+                    ? (converter.toInternal(response.data) as Bundle)
+                    : undefined;
+            if (
+                responseBundle?.resourceType !== 'Bundle' ||
+                responseBundle.type !== 'transaction-response'
+            ) {
+                console.warn(
+                    `[FHIR Service] Unexpected transaction response (status ${response.status}); treating the whole chunk as failed.`
+                );
+                return failAll(
+                    undefined,
+                    'FHIR server did not return a transaction-response Bundle.'
+                );
+            }
+
+            return entries.map(({ patientId, resource, provenance }, index) => {
+                const responseEntry: BundleEntry | undefined =
+                    responseBundle.entry?.[patientEntryIndexes[index]];
+                const status = responseEntry?.response?.status;
+                const statusCode = status ? parseInt(status, 10) : NaN;
+                const succeeded = statusCode >= 200 && statusCode < 300;
+                return {
+                    patientId,
+                    pid: resource.id,
+                    status,
+                    location: responseEntry?.response?.location,
+                    versionId: parseETagVersion(responseEntry?.response?.etag),
+                    lastUpdated: responseEntry?.response?.lastModified,
+                    provenanceLocation: provenance
+                        ? responseBundle.entry?.[patientEntryIndexes[index] + 1]?.response?.location
+                        : undefined,
+                    outcome: succeeded
+                        ? undefined
+                        : parseOperationOutcome(responseEntry?.response?.outcome),
+                    error: succeeded
+                        ? undefined
+                        : statusCode === 412
+                          ? 'Version conflict: the remote resource changed since our last push (412 Precondition Failed).'
+                          : status
+                            ? `FHIR server responded with status '${status}'.`
+                            : 'No entry for this patient in the transaction-response.',
+                };
+            });
+        } catch (error: any) {
+            console.error(`[FHIR Service] Error sending transaction Bundle to ${baseUrl}.`);
             if (axios.isAxiosError(error)) {
                 const axiosError = error as AxiosError;
                 console.error(`  Axios Error Message: ${axiosError.message}`);
                 if (axiosError.response) {
-                    // The request was made and the server responded with a status code outside the 2xx range.
+                    // The server rejected the transaction as a whole; it usually explains why in an OperationOutcome.
                     console.error(`  Target Server Status: ${axiosError.response.status}`);
-                    console.error(`  Target Server Response Data:`, axiosError.response.data); // Often contains FHIR OperationOutcome
-                } else if (axiosError.request) {
-                    // The request was made but no response was received (e.g., network error, timeout).
-                    console.error('  No response received from the target server.');
-                } else {
-                    // Something happened in setting up the request that triggered an Error.
-                    console.error('  Error setting up the request:', axiosError.message);
+                    return failAll(
+                        parseOperationOutcome(axiosError.response.data),
+                        `FHIR server rejected the transaction with status ${axiosError.response.status}.`
+                    );
                 }
-            } else {
-                // Non-Axios error.
-                console.error('  Non-Axios error occurred:', error);
+                return failAll(
+                    undefined,
+                    `No response from the FHIR server: ${axiosError.message}`
+                );
+            }
+            // E.g., no access token could be obtained (`UpstreamServiceError` from the endpoint's client).
+            console.error('  Non-Axios error occurred:', error);
+            return failAll(
+                undefined,
+                error?.message ?? 'Unexpected error while sending the transaction Bundle.'
+            );
+        }
+    }
+
+    /**
+     * @method fetchRemotePatient
+     * @description Reads the copy of a patient currently stored on the FHIR server, e.g. to resolve a version conflict by hand.
+     * @param {string} pid - The patient's PID (FHIR resource id).
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to read from (default: the primary endpoint).
+     * @returns {Promise<FhirRemotePatient | null>} The remote resource (converted to the internal R5 model) and its version, or null if the server has no such
+     * Patient (404 or 410 Gone).
+     * @throws {InternalServerError} If the FHIR target server URL is not configured or the server cannot be read.
+     */
+    async fetchRemotePatient(
+        pid: string,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<FhirRemotePatient | null> {
+        const targetUrl = endpoint.url;
+        if (!targetUrl) {
+            throw new InternalServerError('FHIR target server URL is not configured.');
+        }
+        const url = `${targetUrl.replace(/\/$/, '')}/Patient/${encodeURIComponent(pid)}`;
+        try {
+            const response = await getFhirHttpClient(endpoint).get(url, {
+                headers: { Accept: fhirJsonContentType(endpoint.version) },
+                timeout: endpoint.timeoutMs,
+            });
+            const resource = getFhirConverter(endpoint.version).toInternal(
+                response.data
+            ) as Patient;
+            return {
+                resource,
+                versionId: resource.meta?.versionId ?? parseETagVersion(response.headers.etag),
+                lastUpdated:
+                    resource.meta?.lastUpdated ??
+                    httpDateToInstant(response.headers['last-modified']),
+            };
+        } catch (error: any) {
+            if (axios.isAxiosError(error) && [404, 410].includes(error.response?.status ?? 0)) {
+                return null;
+            }
+            console.error(`[FHIR Service] Error reading remote Patient ${pid} from ${url}:`, error);
+            throw new InternalServerError(
+                `Failed to read Patient ${pid} from the FHIR server: ${error?.message ?? 'unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * @method deleteRemotePatient
+     * @description Deletes a patient's Patient resource from the FHIR server (`DELETE Patient/{pid}`), after the local
+     * record was deleted (`FHIR_DELETE_POLICY=delete`).
+     * @param {string} pid - The deleted patient's PID (FHIR resource id).
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to delete it from (default: the primary endpoint).
+     * @returns {Promise<FhirPushResult>} Success also when the server has no such Patient (404 / 410): there is nothing left to delete.
+     * @throws {InternalServerError} If the FHIR target server URL is not configured.
+     * @design Servers that enforce referential integrity on delete (HAPI's default) answer 409 while other resources,
+     * such as the Provenances sent with every push, still reference the Patient; see `hapi.application.yaml`.
+     */
+    async deleteRemotePatient(
+        pid: string,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<FhirPushResult> {
+        const targetUrl = endpoint.url;
+        if (!targetUrl) {
+            throw new InternalServerError('FHIR target server URL is not configured.');
+        }
+        const url = `${targetUrl.replace(/\/$/, '')}/Patient/${encodeURIComponent(pid)}`;
+        console.log(`[FHIR Service] Deleting FHIR Patient (ID: ${pid}) at ${url}`);
+        try {
+            const response = await getFhirHttpClient(endpoint).delete(url, {
+                headers: { Accept: fhirJsonContentType(endpoint.version) },
+                timeout: endpoint.timeoutMs,
+            });
+            return { success: true, statusCode: response.status };
+        } catch (error: any) {
+            if (axios.isAxiosError(error) && [404, 410].includes(error.response?.status ?? 0)) {
+                console.log(`[FHIR Service] FHIR Patient ${pid} is already gone from the server.`);
+                return { success: true, statusCode: error.response!.status };
             }
-            return false; // Indicate failure.
+            console.error(`[FHIR Service] Error deleting FHIR Patient ID: ${pid} at ${url}.`);
+            return toFailedPushResult(error);
+        }
+    }
+
+    /**
+     * @method deactivateRemotePatient
+     * @description Marks a patient's Patient resource on the FHIR server as inactive (`active=false`), after the local
+     * record was deleted (`FHIR_DELETE_POLICY=deactivate`). Everything else on the remote copy is kept.
+     * @param {string} pid - The deleted patient's PID (FHIR resource id).
+     * @param {FhirPushAgent} [agent] - The user who deleted the patient, named in the Provenance (when enabled).
+     * @param {FhirEndpoint} [endpoint] - The FHIR server holding the Patient (default: the primary endpoint).
+     * @returns {Promise<FhirPushResult>} Success also when the server has no such Patient or it is already inactive.
+     * @throws {InternalServerError} If the FHIR target server URL is not configured or the remote copy cannot be read.
+     * @design The remote copy is read and written back with `If-Match` on the version that was read, so a change made
+     * elsewhere in between is not overwritten: the update fails with 412, and the next attempt reads it again.
+     */
+    async deactivateRemotePatient(
+        pid: string,
+        agent?: FhirPushAgent,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<FhirPushResult> {
+        const remote = await this.fetchRemotePatient(pid, endpoint);
+        if (!remote) {
+            console.log(
+                `[FHIR Service] FHIR Patient ${pid} does not exist on the server; nothing to deactivate.`
+            );
+            return { success: true, statusCode: 404 };
+        }
+        if (remote.resource.active === false) {
+            return { success: true, versionId: remote.versionId, lastUpdated: remote.lastUpdated };
+        }
+        const provenance = config.fhir.provenanceEnabled
+            ? buildPushProvenance(pid, 'update', agent, new Date())
+            : undefined;
+        return this.pushFhirPatient(
+            { ...remote.resource, active: false },
+            remote.versionId,
+            provenance,
+            endpoint
+        );
+    }
+
+    /**
+     * @method searchRemotePatientsByIdentifierSystem
+     * @description Lists every Patient on the FHIR server carrying an identifier of the given system
+     * (`GET [base]/Patient?identifier=<system>|`), following the Bundle's `next` links until the last page.
+     * @param {string} system - The identifier system (e.g., `urn:ehr:system:pid`).
+     * @param {FhirEndpoint} [endpoint] - The FHIR server to search (default: the primary endpoint).
+     * @returns {Promise<Patient[]>} The matching resources, converted to the internal R5 model. Only `id`, `meta` and `identifier` are guaranteed to be present
+     * (the search asks for `_elements=identifier`).
+     * @throws {InternalServerError} If the FHIR target server URL is not configured or a page cannot be read.
+     */
+    async searchRemotePatientsByIdentifierSystem(
+        system: string,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<Patient[]> {
+        const targetUrl = endpoint.url;
+        if (!targetUrl) {
+            throw new InternalServerError('FHIR target server URL is not configured.');
+        }
+        const params = new URLSearchParams({
+            identifier: `${system}|`,
+            _elements: 'identifier',
+            _count: '100',
+        });
+        let url: string | undefined = `${targetUrl.replace(/\/$/, '')}/Patient?${params}`;
+        const visited = new Set<string>();
+        const patients: Patient[] = [];
+        // A server returning a `next` link we already followed would otherwise loop forever.
+        while (url && !visited.has(url)) {
+            visited.add(url);
+            try {
+                const response: AxiosResponse = await getFhirHttpClient(endpoint).get(url, {
+                    headers: { Accept: fhirJsonContentType(endpoint.version) },
+                    timeout: endpoint.timeoutMs,
+                });
+                const bundle = getFhirConverter(endpoint.version).toInternal(
+                    response.data
+                ) as Bundle;
+                for (const entry of bundle.entry ?? []) {
+                    if (entry.resource?.resourceType === 'Patient') {
+                        patients.push(entry.resource as Patient);
+                    }
+                }
+                url = bundle.link?.find((link) => link.relation === 'next')?.url;
+            } catch (error: any) {
+                console.error(`[FHIR Service] Error searching remote Patients at ${url}:`, error);
+                throw new InternalServerError(
+                    `Failed to search Patients on the FHIR server: ${error?.message ?? 'unknown error'}`
+                );
+            }
+        }
+        return patients;
+    }
+
+    /**
+     * @method resolveConflict
+     * @description Pushes the local patient over a remote copy the user has reviewed (after `fetchRemotePatient`).
+     * @param {number} patientId - Internal patient ID.
+     * @param {string} [reviewedVersionId] - Version of the remote copy the user reviewed. The push applies only to that
+     * version (`If-Match`), so a remote change made during the review causes another conflict. When omitted
+     * (e.g., the remote copy was deleted), the push overwrites unconditionally.
+     * @param {FhirPushAgent} [agent] - The user resolving the conflict, named in the push's Provenance.
+     * @returns {Promise<FhirPushResult>} The result of the successful push.
+     * @throws {NotFoundError} If the patient does not exist.
+     * @throws {ConflictError} If the remote copy changed again since the review (412).
+     * @throws {UnprocessableEntityError} If the resource failed local validation.
+     * @throws {UpstreamServiceError} If the FHIR server did not accept the push.
+     * @throws {InternalServerError} If the patient cannot be converted or the FHIR server URL is not configured.
+     */
+    async resolveConflict(
+        patientId: number,
+        reviewedVersionId?: string,
+        agent?: FhirPushAgent
+    ): Promise<FhirPushResult> {
+        const patientEntity = await this.patientService.findById(patientId);
+        const result = await this.pushPatientEntity(patientEntity, {
+            ...(reviewedVersionId ? { ifMatchVersionId: reviewedVersionId } : { force: true }),
+            agent,
+        });
+        if (!result) {
+            throw new InternalServerError('Patient cannot be converted to FHIR (missing PID).');
+        }
+        if (result.statusCode === 412) {
+            throw new ConflictError(
+                `Patient ${patientId} changed again on the FHIR server (now past version ${reviewedVersionId}). Fetch the remote copy again.`
+            );
+        }
+        if (result.validationFailed) {
+            throw new UnprocessableEntityError(result.error, result.outcome);
+        }
+        if (!result.success) {
+            throw toPushFailureError(patientId, result);
+        }
+        return result;
+    }
+
+    /**
+     * @method validatePatient
+     * @description Validates the FHIR Patient built from a local patient, as `POST /api/patients/:id/fhir/$validate` does.
+     * @param {number} patientDbId - The internal database ID of the patient.
+     * @returns {Promise<OperationOutcome>} The validation outcome (see `FhirValidationService.validate`).
+     * @throws {NotFoundError} If the patient does not exist.
+     * @throws {InternalServerError} If the patient cannot be converted to FHIR (missing PID).
+     */
+    async validatePatient(patientDbId: number): Promise<OperationOutcome> {
+        const fhirPatient = await this.convertDbPatientToFhir(patientDbId);
+        if (!fhirPatient) {
+            throw new InternalServerError(
+                `Patient ${patientDbId} cannot be converted to a FHIR resource (missing PID).`
+            );
+        }
+        return this.fhirValidationService.validate(fhirPatient);
+    }
+
+    /**
+     * @private
+     * @method validateBeforePush
+     * @description Runs local validation on a resource about to be pushed.
+     * @returns {Promise<FhirPushResult | null>} A failed push result carrying the OperationOutcome if the resource has
+     * errors, or null if it may be sent (warnings do not block).
+     */
+    private async validateBeforePush(fhirPatient: Patient): Promise<FhirPushResult | null> {
+        const outcome = await this.fhirValidationService.validate(fhirPatient);
+        if (!hasValidationErrors(outcome)) {
+            return null;
+        }
+        console.warn(
+            `[FHIR Service] Patient ${fhirPatient.id} failed local validation and was not pushed:`,
+            outcome.issue
+                .filter((issue) => issue.severity === 'error' || issue.severity === 'fatal')
+                .map((issue) => issue.diagnostics)
+                .join('; ')
+        );
+        return {
+            success: false,
+            validationFailed: true,
+            error: 'The FHIR resource failed local validation and was not sent to the FHIR server.',
+            outcome,
+        };
+    }
+
+    /**
+     * @private
+     * @method recordSync
+     * @description Records a push result in the patient's sync metadata for the endpoint. Failures are logged, never
+     * thrown: the push itself already happened and must be reported to the caller.
+     */
+    private async recordSync(
+        patientEntity: PatientEntity,
+        resource: Patient,
+        result: FhirPushRecord,
+        pushedAt: Date,
+        endpoint: FhirEndpoint = getPrimaryFhirEndpoint()
+    ): Promise<void> {
+        try {
+            await this.fhirSyncService.recordPush(
+                patientEntity,
+                resource,
+                result,
+                pushedAt,
+                endpoint.name
+            );
+        } catch (error) {
+            console.error(
+                `[FHIR Service] Failed to record sync metadata for patient ${patientEntity.id}:`,
+                error
+            );
         }
     }
 
@@ -201,6 +1345,30 @@ export class FhirService {
             return null; // Should ideally not be reached if findById throws NotFoundError.
         }
 
+        const fhirPatientResource = await this.buildLinkedFhirPatient(patientEntity);
+        if (fhirPatientResource) {
+            console.log(
+                `[FHIR Service] Conversion complete for internal patient ID: ${patientDbId} to FHIR ID: ${fhirPatientResource.id}`
+            );
+        }
+        return fhirPatientResource;
+    }
+
+    /**
+     * @method buildFhirPatient
+     * @description Maps an already-loaded PatientEntity to a FHIR R5 Patient resource without touching the database.
+     * R5 is the internal model; callers convert the result with `getFhirConverter` when another release is needed.
+     * @param {PatientEntity} patientEntity - The patient row to convert.
+     * @param {PatientMergeLink[]} [mergeLinks] - The patient's merge links (`PatientService.findMergeLinks`), emitted as
+     * `Patient.link`. Pushes and single-patient reads pass them; searches and exports of many rows do not.
+     * @returns {Patient | null} The FHIR Patient resource, or null if the entity has no PID to use as the resource id.
+     * @design Split out of `convertDbPatientToFhir` so callers that already hold a page of entities
+     * (e.g., the `/fhir/Patient` search facade) can convert them without one extra query per row.
+     */
+    buildFhirPatient(
+        patientEntity: PatientEntity,
+        mergeLinks: PatientMergeLink[] = []
+    ): Patient | null {
         // --- FHIR Resource Construction ---
         // Design Principle: Map each relevant field from PatientEntity to the FHIR Patient structure.
         // Use helper functions for complex mappings (like gender, language, relationships).
@@ -218,7 +1386,7 @@ export class FhirService {
         } else {
             // This case should ideally be prevented by DB constraints or validation.
             console.error(
-                `[FHIR Service] Patient with DB ID ${patientDbId} is missing the required PID for FHIR ID mapping. Aborting conversion.`
+                `[FHIR Service] Patient with DB ID ${patientEntity.id} is missing the required PID for FHIR ID mapping. Aborting conversion.`
             );
             // throw new InternalServerError(`Patient DB ID ${patientDbId} is missing PID.`);
             return null; // Cannot create a valid FHIR resource without an ID.
@@ -336,13 +1504,467 @@ export class FhirService {
             // photo: [], // Map if available (Attachment type)
             // generalPractitioner: [], // Map if available (Reference type)
             // managingOrganization: undefined, // Map if available (Reference type)
-            // link: [], // Map if patient records are linked
+            // **Link**: Merged duplicates: the merged-away record is `replaced-by` its survivor, which `replaces` it.
+            link:
+                mergeLinks.length > 0
+                    ? mergeLinks.map((link) => ({
+                          other: { reference: `Patient/${link.pid}` },
+                          type: link.type,
+                      }))
+                    : undefined,
         };
 
+        // Optional implementation guide (e.g., TW Core): typed identifiers, structured address, meta.profile.
+        return applyFhirProfile(config.fhir.profile, fhirPatientResource, patientEntity);
+    }
+
+    /**
+     * @method buildLinkedFhirPatient
+     * @description `buildFhirPatient` with the patient's merge links loaded (one query), for single-patient paths.
+     * @param {PatientEntity} patientEntity - The patient row to convert.
+     * @returns {Promise<Patient | null>} The FHIR Patient resource, or null if the entity has no PID.
+     */
+    async buildLinkedFhirPatient(patientEntity: PatientEntity): Promise<Patient | null> {
+        const mergeLinks = await this.patientService.findMergeLinks([patientEntity]);
+        return this.buildFhirPatient(patientEntity, mergeLinks.get(patientEntity.id));
+    }
+
+    /**
+     * @method buildFhirRelatedPerson
+     * @description Maps a patient's emergency contact to a FHIR R5 RelatedPerson: the same person as `Patient.contact[0]`,
+     * as a resource of its own for clients that work with RelatedPerson (e.g., `Patient/$everything`).
+     * @param {PatientEntity} patientEntity - The patient row.
+     * @returns {RelatedPerson | null} The RelatedPerson, or null if the patient has no emergency contact or no PID.
+     * @design The EHR holds at most one contact per patient and has no key for it, so the resource id is
+     * `<pid>-emergency-contact`. Besides the mapped relationship, the contact is coded as v2-0131 `C` (Emergency Contact).
+     */
+    buildFhirRelatedPerson(patientEntity: PatientEntity): RelatedPerson | null {
+        if (
+            !patientEntity.pid ||
+            !(
+                patientEntity.emergencyContactName ||
+                patientEntity.emergencyContactPhone ||
+                patientEntity.emergencyContactRelationship
+            )
+        ) {
+            return null;
+        }
+        const relationships: CodeableConcept[] = [
+            {
+                coding: [
+                    {
+                        system: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+                        code: 'C',
+                        display: 'Emergency Contact',
+                    },
+                ],
+            },
+        ];
+        if (patientEntity.emergencyContactRelationship) {
+            relationships.push(
+                this.mapRelationshipToFhirCodeableConcept(
+                    patientEntity.emergencyContactRelationship
+                )
+            );
+        }
+        return {
+            resourceType: 'RelatedPerson',
+            id: `${patientEntity.pid}-emergency-contact`,
+            active: patientEntity.active,
+            patient: { reference: `Patient/${patientEntity.pid}` },
+            relationship: relationships,
+            name: patientEntity.emergencyContactName
+                ? [{ use: 'official', text: patientEntity.emergencyContactName }]
+                : undefined,
+            telecom: patientEntity.emergencyContactPhone
+                ? [{ system: 'phone', value: patientEntity.emergencyContactPhone, use: 'mobile' }]
+                : undefined,
+        };
+    }
+
+    /**
+     * @method convertFhirToDbPatient
+     * @description Reverse of `convertDbPatientToFhir`: maps an inbound FHIR Patient resource (e.g., sent by a partner clinic)
+     * onto the local PatientEntity fields, and reports every element that was dropped or could not be mapped.
+     * @param {Patient} fhirPatient - The inbound FHIR Patient resource (already parsed from JSON).
+     * @returns {FhirImportResult} The mappable patient data, the per-field report, and whether the record can be saved.
+     * @design
+     * - Lossy by nature: The local model holds one identifier, one name, one phone, one email, one address, one language and one contact.
+     *   The mapper picks the best candidate for each (official/home/preferred first) and reports the rest as `dropped`.
+     * - Terminology: Reverses the gender, language and relationship concept maps (`TerminologyService`). Unknown codes fall back to the original text and are reported as `unmapped`.
+     * - No side effects: Does not touch the database. The caller decides whether to save based on `importable`.
+     */
+    convertFhirToDbPatient(fhirPatient: Patient): FhirImportResult {
+        const report: FhirImportIssue[] = [];
+        const patientData: Partial<CreatePatientDto> = {};
+
+        // **Unsupported elements**: Anything outside the local model is reported once, at the top level.
+        Object.keys(fhirPatient).forEach((key) => {
+            if (!IMPORTED_PATIENT_ELEMENTS.has(key)) {
+                report.push({
+                    field: `Patient.${key}`,
+                    status: 'dropped',
+                    message: 'Element is not stored in the local patient model.',
+                    value: (fhirPatient as unknown as Record<string, unknown>)[key],
+                });
+            }
+        });
+
+        // **Identifier -> pid**: Prefer our own PID system, then TW Core national ID / resident certificate,
+        // then the official identifier, then the first one.
+        const identifiers = fhirPatient.identifier || [];
+        const pidIndex = this.pickIndex(identifiers, [
+            (i) => i.system === 'urn:ehr:system:pid',
+            (i) => i.system === TWCORE_IDENTIFIERS['national-id'].system,
+            (i) => i.system === TWCORE_IDENTIFIERS['resident-certificate'].system,
+            (i) => i.use === 'official',
+            (i) => !!i.value,
+        ]);
+        if (pidIndex >= 0 && identifiers[pidIndex].value) {
+            const pid = identifiers[pidIndex].value!.trim();
+            if (pid.length > PATIENT_COLUMN_LENGTHS.pid!) {
+                // Never truncate an identifier; a shortened PID would silently point to another person.
+                report.push({
+                    field: `Patient.identifier[${pidIndex}].value`,
+                    status: 'invalid',
+                    message: `Identifier is longer than ${PATIENT_COLUMN_LENGTHS.pid} characters and cannot be used as PID.`,
+                    value: pid,
+                });
+            } else {
+                patientData.pid = pid;
+            }
+        } else {
+            report.push({
+                field: 'Patient.identifier',
+                status: 'missing',
+                message: 'No identifier with a value was found; a PID is required.',
+            });
+        }
+        this.reportDroppedSiblings(report, 'Patient.identifier', identifiers, pidIndex);
+
+        // **Active**: Defaults to true like the database column.
+        patientData.active = fhirPatient.active ?? true;
+
+        // **Name -> familyName / givenName**: Prefer the official name.
+        const names = fhirPatient.name || [];
+        const nameIndex = this.pickIndex(names, [
+            (n) => n.use === 'official',
+            (n) => !!n.family || !!n.given?.length,
+        ]);
+        const name = nameIndex >= 0 ? names[nameIndex] : undefined;
+        if (name?.family) {
+            patientData.familyName = this.fitToColumn(
+                report,
+                `Patient.name[${nameIndex}].family`,
+                'familyName',
+                name.family
+            );
+        } else {
+            report.push({
+                field: 'Patient.name.family',
+                status: 'missing',
+                message: 'A family name is required.',
+                value: name?.text,
+            });
+        }
+        if (name?.given?.length) {
+            // The local model has a single given-name column; multiple given names are joined with a space.
+            patientData.givenName = this.fitToColumn(
+                report,
+                `Patient.name[${nameIndex}].given`,
+                'givenName',
+                name.given.join(' ')
+            );
+        } else {
+            report.push({
+                field: 'Patient.name.given',
+                status: 'missing',
+                message: 'A given name is required.',
+                value: name?.text,
+            });
+        }
+        if (name) {
+            const namePath = `Patient.name[${nameIndex}]`;
+            this.reportDroppedElements(
+                report,
+                namePath,
+                name,
+                ['prefix', 'suffix', 'period'],
+                'Name prefixes, suffixes and validity periods are not stored.'
+            );
+            this.reportDroppedElements(
+                report,
+                namePath,
+                name,
+                ['text'],
+                'Only the family and given name are stored, not the text form.'
+            );
+        }
+        this.reportDroppedSiblings(report, 'Patient.name', names, nameIndex);
+
+        // **Telecom -> telecom / email**: First phone (mobile preferred) and first email; the rest is dropped.
+        const telecoms = fhirPatient.telecom || [];
+        const phoneIndex = this.pickIndex(telecoms, [
+            (t) => t.system === 'phone' && t.use === 'mobile',
+            (t) => t.system === 'phone',
+        ]);
+        const emailIndex = this.pickIndex(telecoms, [(t) => t.system === 'email']);
+        if (phoneIndex >= 0 && telecoms[phoneIndex].value) {
+            patientData.telecom = this.fitToColumn(
+                report,
+                `Patient.telecom[${phoneIndex}].value`,
+                'telecom',
+                telecoms[phoneIndex].value!
+            );
+        } else {
+            report.push({
+                field: 'Patient.telecom',
+                status: 'missing',
+                message: 'A phone number is required.',
+            });
+        }
+        if (emailIndex >= 0 && telecoms[emailIndex].value) {
+            patientData.email = this.fitToColumn(
+                report,
+                `Patient.telecom[${emailIndex}].value`,
+                'email',
+                telecoms[emailIndex].value!
+            );
+        }
+        telecoms.forEach((telecom, index) => {
+            if (index !== phoneIndex && index !== emailIndex) {
+                report.push({
+                    field: `Patient.telecom[${index}]`,
+                    status: 'dropped',
+                    message: 'Only one phone number and one email address are stored.',
+                    value: telecom,
+                });
+            }
+        });
+
+        // **Gender**: Reverse of `mapGenderToFhir`.
+        const localGender = fhirPatient.gender
+            ? this.terminologyService.translateToLocal(
+                  'gender',
+                  ADMINISTRATIVE_GENDER_SYSTEM,
+                  fhirPatient.gender
+              )
+            : undefined;
+        if (localGender) {
+            patientData.gender = localGender;
+        } else {
+            report.push({
+                field: 'Patient.gender',
+                status: fhirPatient.gender ? 'unmapped' : 'missing',
+                message: fhirPatient.gender
+                    ? `Gender '${fhirPatient.gender}' has no local equivalent; a gender must be selected manually.`
+                    : 'A gender is required.',
+                value: fhirPatient.gender,
+            });
+        }
+
+        // **Birth date**: The column is a full DATE, so partial dates (YYYY or YYYY-MM) cannot be stored.
+        if (fhirPatient.birthDate && /^\d{4}-\d{2}-\d{2}$/.test(fhirPatient.birthDate)) {
+            patientData.birthday = fhirPatient.birthDate;
+        } else {
+            report.push({
+                field: 'Patient.birthDate',
+                status: fhirPatient.birthDate ? 'invalid' : 'missing',
+                message: fhirPatient.birthDate
+                    ? 'Only full dates (YYYY-MM-DD) can be stored.'
+                    : 'A birth date is required.',
+                value: fhirPatient.birthDate,
+            });
+        }
+
+        // **Address -> address / postalCode / country**: Prefer the home address.
+        const addresses = fhirPatient.address || [];
+        const addressIndex = this.pickIndex(addresses, [(a) => a.use === 'home', () => true]);
+        const address = addressIndex >= 0 ? addresses[addressIndex] : undefined;
+        const addressText =
+            address?.text ||
+            [...(address?.line || []), address?.city, address?.district, address?.state]
+                .filter(Boolean)
+                .join(', ');
+        if (address && addressText) {
+            patientData.address = this.fitToColumn(
+                report,
+                `Patient.address[${addressIndex}]`,
+                'address',
+                addressText
+            );
+            if (address.text) {
+                this.reportDroppedElements(
+                    report,
+                    `Patient.address[${addressIndex}]`,
+                    address,
+                    ['line', 'city', 'district', 'state'],
+                    'The address text is stored; its structured parts are not.'
+                );
+            }
+        } else {
+            report.push({
+                field: 'Patient.address',
+                status: 'missing',
+                message: 'An address is required.',
+            });
+        }
+        if (address?.postalCode) {
+            patientData.postalCode = this.fitToColumn(
+                report,
+                `Patient.address[${addressIndex}].postalCode`,
+                'postalCode',
+                address.postalCode
+            );
+        }
+        if (address?.country) {
+            patientData.country = this.fitToColumn(
+                report,
+                `Patient.address[${addressIndex}].country`,
+                'country',
+                address.country
+            );
+        }
+        this.reportDroppedSiblings(report, 'Patient.address', addresses, addressIndex);
+
+        // **Communication -> preferredLanguage**: Reverse of `mapLanguageToFhirCodeableConcept`.
+        const communications = fhirPatient.communication || [];
+        const communicationIndex = this.pickIndex(communications, [
+            (c) => !!c.preferred,
+            () => true,
+        ]);
+        if (communicationIndex >= 0) {
+            const language = this.mapFhirLanguageToLocal(
+                report,
+                `Patient.communication[${communicationIndex}].language`,
+                communications[communicationIndex].language
+            );
+            if (language) {
+                patientData.preferredLanguage = this.fitToColumn(
+                    report,
+                    `Patient.communication[${communicationIndex}].language`,
+                    'preferredLanguage',
+                    language
+                );
+            }
+        }
+        this.reportDroppedSiblings(
+            report,
+            'Patient.communication',
+            communications,
+            communicationIndex
+        );
+
+        // **Contact -> emergency contact**: The first contact becomes the emergency contact.
+        const contacts = fhirPatient.contact || [];
+        if (contacts.length > 0) {
+            const contact = contacts[0];
+            const contactName =
+                contact.name?.text ||
+                [contact.name?.family, ...(contact.name?.given || [])].filter(Boolean).join(' ');
+            if (contactName) {
+                patientData.emergencyContactName = this.fitToColumn(
+                    report,
+                    'Patient.contact[0].name',
+                    'emergencyContactName',
+                    contactName
+                );
+            }
+            this.reportDroppedElements(
+                report,
+                'Patient.contact[0].name',
+                contact.name,
+                ['prefix', 'suffix'],
+                'Name prefixes and suffixes are not stored.'
+            );
+            const contactTelecoms = contact.telecom || [];
+            const contactPhoneIndex = contactTelecoms.findIndex(
+                (t) => t.system === 'phone' && !!t.value
+            );
+            if (contactPhoneIndex >= 0) {
+                patientData.emergencyContactPhone = this.fitToColumn(
+                    report,
+                    `Patient.contact[0].telecom[${contactPhoneIndex}].value`,
+                    'emergencyContactPhone',
+                    contactTelecoms[contactPhoneIndex].value!
+                );
+            }
+            contactTelecoms.forEach((telecom, index) => {
+                if (index !== contactPhoneIndex) {
+                    report.push({
+                        field: `Patient.contact[0].telecom[${index}]`,
+                        status: 'dropped',
+                        message: 'Only one phone number of the emergency contact is stored.',
+                        value: telecom,
+                    });
+                }
+            });
+            this.reportDroppedElements(
+                report,
+                'Patient.contact[0]',
+                contact,
+                ['address', 'gender', 'organization'],
+                'Only the name, phone number and relationship of the emergency contact are stored.'
+            );
+            if (contact.relationship?.length) {
+                const relationship = this.mapFhirRelationshipToLocal(
+                    report,
+                    'Patient.contact[0].relationship[0]',
+                    contact.relationship[0]
+                );
+                if (relationship) {
+                    patientData.emergencyContactRelationship = this.fitToColumn(
+                        report,
+                        'Patient.contact[0].relationship[0]',
+                        'emergencyContactRelationship',
+                        relationship
+                    );
+                }
+                this.reportDroppedSiblings(
+                    report,
+                    'Patient.contact[0].relationship',
+                    contact.relationship,
+                    0
+                );
+            }
+        }
+        this.reportDroppedSiblings(report, 'Patient.contact', contacts, 0);
+
+        const importable = !report.some(
+            (issue) => issue.status === 'missing' || issue.status === 'invalid'
+        );
         console.log(
-            `[FHIR Service] Conversion complete for internal patient ID: ${patientDbId} to FHIR ID: ${fhirPatientResource.id}`
+            `[FHIR Service] Reverse conversion finished for inbound Patient '${fhirPatient.id ?? '(no id)'}': ${report.length} report entries, importable=${importable}.`
         );
-        return fhirPatientResource;
+        return { patientData, report, importable };
+    }
+
+    /**
+     * @method mapFhirGenderToSearchCriterion
+     * @description Translates a FHIR administrative gender code from a search parameter into the local values
+     * that produce it on read (per the `gender` concept map), so searching and reading stay consistent.
+     * @param {string} code - 'male', 'female', 'other' or 'unknown'.
+     * @returns {{ values: string[]; otherThan?: string[] } | null} The gender criterion for `PatientService.search`, or null for an unrecognized code.
+     */
+    mapFhirGenderToSearchCriterion(
+        code: string
+    ): { values: string[]; otherThan?: string[] } | null {
+        if (code === 'unknown') {
+            // Unmapped local values are sent as 'unknown' too.
+            return {
+                values: this.terminologyService.localValuesFor('gender', 'unknown'),
+                otherThan: this.terminologyService
+                    .localValuesFor('gender')
+                    .filter(
+                        (value) =>
+                            this.terminologyService.translateToFhir('gender', value)?.code !==
+                            'unknown'
+                    ),
+            };
+        }
+        return ['male', 'female', 'other'].includes(code)
+            ? { values: this.terminologyService.localValuesFor('gender', code) }
+            : null;
     }
 
     // --- Private Helper Mapping Functions ---
@@ -351,67 +1973,39 @@ export class FhirService {
     /**
      * @private
      * @method mapGenderToFhir
-     * @description Maps internal gender representation to standard FHIR administrative gender codes.
+     * @description Maps internal gender representation to standard FHIR administrative gender codes, using the `gender` concept map.
      * @param {string} gender - The gender string from the internal database (e.g., '男', 'Female', 'Others').
      * @returns {Patient['gender']} FHIR administrative gender code ('male', 'female', 'other', 'unknown').
      * @reference See FHIR AdministrativeGender value set: http://hl7.org/fhir/valueset-administrative-gender.html
      */
     private mapGenderToFhir(gender: string): Patient['gender'] {
-        const lowerGender = gender?.toLowerCase() || 'unknown'; // Handle null/undefined, default to unknown.
-        switch (lowerGender) {
-            case 'Male': // Handle specific local representations first
-            case 'm':
-            case 'male':
-                return 'male';
-            case 'Female':
-            case 'f':
-            case 'female':
-                return 'female';
-            case 'Others':
-            case 'o':
-            case 'other':
-                return 'other';
-            default:
-                console.warn(
-                    `[FHIR Service] Unmapped gender value: '${gender}'. Mapping to 'unknown'.`
-                );
-                return 'unknown'; // Default FHIR code for unknown/unmapped gender.
+        const coding = this.terminologyService.translateToFhir('gender', gender);
+        if (!coding) {
+            const fallback = CONCEPT_MAPS.gender.unmapped!.code;
+            console.warn(
+                `[FHIR Service] Unmapped gender value: '${gender}'. Mapping to '${fallback}'.`
+            );
+            return fallback as Patient['gender'];
         }
+        return coding.code as Patient['gender'];
     }
 
     /**
      * @private
      * @method mapLanguageToFhirCodeableConcept
-     * @description Converts an internal language string into a FHIR CodeableConcept structure, using standard language codes.
+     * @description Converts an internal language string into a FHIR CodeableConcept, using the `language` concept map.
      * @param {string} lang - The language string (e.g., 'English', 'Mandarin').
      * @returns {CodeableConcept} A FHIR CodeableConcept representing the language.
      * @reference Uses BCP 47 language codes: https://www.rfc-editor.org/info/bcp47
-     * @design Maps common input strings to standard codes. Includes original text. Uses the correct system URL for language codes.
-     * @todo Expand with more language mappings as needed.
+     * @design Unmapped languages are sent as 'und' (undetermined). The original text is always included.
      */
     private mapLanguageToFhirCodeableConcept(lang: string): CodeableConcept {
-        let code = 'und'; // Default: Undetermined language code.
-        let display = lang; // Default display is the original input.
-
-        const lowerLang = lang.toLowerCase();
-        if (lowerLang === 'english') {
-            code = 'en';
-            display = 'English';
-        } else if (lowerLang === 'mandarin' || lowerLang === '繁體中文' || lowerLang === '中文') {
-            code = 'zh-TW'; // More specific for Traditional Chinese used in Taiwan. Could also use 'zh'.
-            display = 'Mandarin Chinese (Traditional)';
-        }
-        // Add more mappings here...
-        // else if (lowerLang === 'spanish') { code = 'es'; display = 'Spanish'; }
-
+        const coding = this.terminologyService.translateToFhir('language', lang) ?? {
+            system: BCP47_SYSTEM,
+            ...CONCEPT_MAPS.language.unmapped!,
+        };
         return {
-            coding: [
-                {
-                    system: 'urn:ietf:bcp:47', // Standard system URI for BCP 47 language codes.
-                    code: code,
-                    display: display, // Standard display name for the code.
-                },
-            ],
+            coding: [coding],
             text: lang, // Include the original text representation as provided.
         };
     }
@@ -419,69 +2013,208 @@ export class FhirService {
     /**
      * @private
      * @method mapRelationshipToFhirCodeableConcept
-     * @description Converts an internal relationship string into a FHIR CodeableConcept for patient contacts.
+     * @description Converts an internal relationship string into a FHIR CodeableConcept for patient contacts,
+     * using the `relationship` concept map.
      * @param {string} relationship - The relationship string (e.g., 'Spouse', 'Mother').
      * @returns {CodeableConcept} A FHIR CodeableConcept representing the relationship.
-     * @reference Uses codes from the v2 Contact Role code system (or potentially PatientContactRelationship value set).
-     * http://terminology.hl7.org/CodeSystem/v2-0131
-     * http://hl7.org/fhir/valueset-patient-contact-relationship.html (provides more roles)
-     * @design Maps common relationship terms to standard codes. Includes original text.
-     * @todo Review and expand mappings based on expected input values and FHIR standards. Consider using the more comprehensive PatientContactRelationship value set if needed.
+     * @reference http://hl7.org/fhir/valueset-patient-contactrelationship.html (v3 RoleCode personal relationships and v2-0131 contact roles)
+     * @design Unmapped relationships are sent as text only. The original text is always included.
      */
     private mapRelationshipToFhirCodeableConcept(relationship: string): CodeableConcept {
-        let code: string | undefined = undefined; // Code from the chosen value set/code system.
-        let system: string | undefined = undefined; // The URI of the code system.
-
-        const lowerRelationship = relationship?.toLowerCase();
-
-        // Example mappings using v2-0131 (Contact Role) - This is commonly used but might be limited.
-        system = 'http://terminology.hl7.org/CodeSystem/v2-0131';
-        switch (lowerRelationship) {
-            case 'spouse':
-                code = 'SPS';
-                break; // Spouse
-            case 'mother':
-                code = 'MTH';
-                break; // Mother
-            case 'father':
-                code = 'FTH';
-                break; // Father
-            case 'brother':
-                code = 'BRO';
-                break; // Brother
-            case 'sister':
-                code = 'SIS';
-                break; // Sister
-            case 'child':
-                code = 'CHD';
-                break; // Child
-            case 'friend':
-                code = 'FND';
-                break; // Friend
-            case 'emergency contact': // Example, might map to 'Emergency Contact Person'
-            case 'emergency':
-                code = 'E';
-                break; // Emergency Contact
-            case 'next of kin':
-                code = 'N';
-                break; // Next-of-Kin (often default)
-            case 'partner':
-                code = 'PRN';
-                break; // Partner
-            // ... add more mappings from v2-0131 or PatientContactRelationship as needed
-            default:
-                console.warn(
-                    `[FHIR Service] Unmapped relationship value: '${relationship}'. Omitting standard code.`
-                );
-                system = undefined; // Don't include system/code if unmapped.
-                break;
+        const coding = this.terminologyService.translateToFhir('relationship', relationship);
+        if (!coding) {
+            console.warn(
+                `[FHIR Service] Unmapped relationship value: '${relationship}'. Omitting standard code.`
+            );
         }
-
-        const coding = system && code ? [{ system: system, code: code }] : undefined;
-
         return {
-            coding: coding,
+            coding: coding ? [coding] : undefined,
             text: relationship, // Always include the original text.
         };
     }
+
+    // --- Private Helper Functions for Reverse Mapping (FHIR -> local) ---
+
+    /**
+     * @private
+     * @method mapFhirLanguageToLocal
+     * @description Reverse of `mapLanguageToFhirCodeableConcept`. Resolves a BCP 47 coding to the local language value
+     * via the `language` concept map.
+     * @param {FhirImportIssue[]} report - The import report to append to.
+     * @param {string} field - Location of the CodeableConcept, for the report.
+     * @param {CodeableConcept} language - The inbound `communication.language`.
+     * @returns {string | undefined} The local language value, the original text as fallback, or undefined if nothing usable exists.
+     */
+    private mapFhirLanguageToLocal(
+        report: FhirImportIssue[],
+        field: string,
+        language: CodeableConcept
+    ): string | undefined {
+        const coding = language?.coding?.find((c) => c.system === BCP47_SYSTEM);
+        const mapped = coding?.code
+            ? this.terminologyService.translateToLocal('language', BCP47_SYSTEM, coding.code)
+            : undefined;
+        if (mapped) {
+            return mapped;
+        }
+        const fallback = language?.text || coding?.display || language?.coding?.[0]?.display;
+        report.push({
+            field,
+            status: 'unmapped',
+            message: fallback
+                ? `Language has no local equivalent; kept original text '${fallback}'.`
+                : 'Language has no local equivalent and no text; it was not imported.',
+            value: language,
+        });
+        return fallback;
+    }
+
+    /**
+     * @private
+     * @method mapFhirRelationshipToLocal
+     * @description Reverse of `mapRelationshipToFhirCodeableConcept`. Resolves the first coding known to the `relationship`
+     * concept map to the local relationship value.
+     * @param {FhirImportIssue[]} report - The import report to append to.
+     * @param {string} field - Location of the CodeableConcept, for the report.
+     * @param {CodeableConcept} relationship - The inbound `contact.relationship` entry.
+     * @returns {string | undefined} The local relationship value, the original text as fallback, or undefined.
+     */
+    private mapFhirRelationshipToLocal(
+        report: FhirImportIssue[],
+        field: string,
+        relationship: CodeableConcept
+    ): string | undefined {
+        const coding = relationship?.coding?.find((c) =>
+            CONCEPT_MAPS.relationship.targetSystems.includes(c.system ?? '')
+        );
+        const mapped = relationship?.coding
+            ?.map((c) =>
+                c.system && c.code
+                    ? this.terminologyService.translateToLocal('relationship', c.system, c.code)
+                    : undefined
+            )
+            .find(Boolean);
+        if (mapped) {
+            return mapped;
+        }
+        const fallback =
+            relationship?.text || coding?.display || relationship?.coding?.[0]?.display;
+        report.push({
+            field,
+            status: 'unmapped',
+            message: fallback
+                ? `Relationship has no local equivalent; kept original text '${fallback}'.`
+                : 'Relationship has no local equivalent and no text; it was not imported.',
+            value: relationship,
+        });
+        return fallback;
+    }
+
+    /**
+     * @private
+     * @method pickIndex
+     * @description Returns the index of the first element matching the highest-priority predicate.
+     * @param {T[]} items - Candidate elements (e.g., all `Patient.name` entries).
+     * @param {((item: T) => boolean)[]} predicates - Predicates in priority order.
+     * @returns {number} The chosen index, or -1 if no element matches any predicate.
+     */
+    private pickIndex<T>(items: T[], predicates: ((item: T) => boolean)[]): number {
+        for (const predicate of predicates) {
+            const index = items.findIndex(predicate);
+            if (index >= 0) return index;
+        }
+        return -1;
+    }
+
+    /**
+     * @private
+     * @method reportDroppedSiblings
+     * @description Reports every element of a repeating FHIR element except the one that was imported.
+     * @param {FhirImportIssue[]} report - The import report to append to.
+     * @param {string} field - Path of the repeating element (e.g., 'Patient.address').
+     * @param {unknown[]} items - All inbound entries.
+     * @param {number} keptIndex - Index of the imported entry (-1 if none).
+     */
+    private reportDroppedSiblings(
+        report: FhirImportIssue[],
+        field: string,
+        items: unknown[],
+        keptIndex: number
+    ): void {
+        items.forEach((item, index) => {
+            if (index !== keptIndex) {
+                report.push({
+                    field: `${field}[${index}]`,
+                    status: 'dropped',
+                    message: 'The local model stores only one entry for this element.',
+                    value: item,
+                });
+            }
+        });
+    }
+
+    /**
+     * @private
+     * @method reportDroppedElements
+     * @description Reports the elements of an imported entry that the local model has no column for.
+     * @param {FhirImportIssue[]} report - The import report to append to.
+     * @param {string} field - Path of the entry (e.g., 'Patient.name[0]').
+     * @param {object | undefined} item - The imported entry.
+     * @param {string[]} elements - Names of the elements to report when present.
+     * @param {string} message - Why they were dropped.
+     */
+    private reportDroppedElements(
+        report: FhirImportIssue[],
+        field: string,
+        item: object | undefined,
+        elements: string[],
+        message: string
+    ): void {
+        for (const element of elements) {
+            const value = (item as Record<string, unknown> | undefined)?.[element];
+            if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+                report.push({ field: `${field}.${element}`, status: 'dropped', message, value });
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @method fitToColumn
+     * @description Trims a value and truncates it to the column length of the `patients` table, reporting truncation.
+     * Phone numbers are never truncated (see `UNTRUNCATABLE_COLUMNS`): one that does not fit is reported as `invalid`.
+     * @param {FhirImportIssue[]} report - The import report to append to.
+     * @param {string} field - Location of the inbound element, for the report.
+     * @param {keyof CreatePatientDto} column - Target entity property.
+     * @param {string} value - The inbound value.
+     * @returns {string | undefined} The value as it will be stored, or undefined if it cannot be stored.
+     */
+    private fitToColumn(
+        report: FhirImportIssue[],
+        field: string,
+        column: keyof CreatePatientDto,
+        value: string
+    ): string | undefined {
+        const trimmed = value.trim();
+        const maxLength = PATIENT_COLUMN_LENGTHS[column];
+        if (maxLength && trimmed.length > maxLength && UNTRUNCATABLE_COLUMNS.includes(column)) {
+            report.push({
+                field,
+                status: 'invalid',
+                message: `Phone number is longer than ${maxLength} characters and cannot be stored.`,
+                value: trimmed,
+            });
+            return undefined;
+        }
+        if (maxLength && trimmed.length > maxLength) {
+            report.push({
+                field,
+                status: 'truncated',
+                message: `Value exceeds ${maxLength} characters and was truncated.`,
+                value: trimmed,
+            });
+            return trimmed.slice(0, maxLength);
+        }
+        return trimmed;
+    }
 }
@@ -0,0 +1,191 @@
+// backend/src/services/fhirAuth.service.ts
+// Credentials for outbound requests to a FHIR endpoint: basic, static bearer, or OAuth2 client credentials
+// (SMART Backend Services, private_key_jwt) with a cached access token.
+
+import { randomUUID } from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+import { UpstreamServiceError } from '../utils/error';
+import type { FhirAuthSettings } from './fhirEndpoints';
+
+/** A token is renewed this long before it expires, so it never expires in flight. */
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+/** Lifetime of the client assertion; SMART Backend Services allows at most five minutes. */
+const CLIENT_ASSERTION_LIFETIME_SECONDS = 5 * 60;
+/** Lifetime assumed when the token response has no `expires_in`. */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+interface CachedToken {
+    accessToken: string;
+    expiresAt: number;
+}
+
+/**
+ * @class FhirAuthService
+ * @description Provides the `Authorization` header for requests to one FHIR endpoint, as configured by its auth
+ * settings (`FHIR_AUTH_*` for the primary endpoint, see `config.fhir.auth`).
+ * @design
+ * - One instance per endpoint (see `getFhirHttpClient`), so the process holds one token per endpoint.
+ * - `client_credentials` requests a token from `FHIR_AUTH_TOKEN_URL` with `grant_type=client_credentials`. The client
+ *   authenticates with a signed JWT assertion (`private_key_jwt`, as required by SMART Backend Services) when a private
+ *   key is configured, otherwise with its secret (`client_secret_basic`).
+ * - The token is cached until shortly before `expires_in` and then requested again; a 401 from the FHIR server
+ *   drops it early (see `fhirHttpClient`), e.g. after the authorization server revoked it.
+ * - Token endpoint failures are reported as `UpstreamServiceError`, so a failed push says why it was not sent.
+ */
+export class FhirAuthService {
+    private cachedToken: CachedToken | undefined;
+    // Token request in flight, so concurrent pushes wait for it instead of requesting their own.
+    private pendingToken: Promise<CachedToken> | undefined;
+
+    /**
+     * @constructor
+     * @param {FhirAuthSettings} [auth=config.fhir.auth] - The endpoint's auth settings.
+     */
+    constructor(private readonly auth: FhirAuthSettings = config.fhir.auth) {}
+
+    /**
+     * @method getAuthorizationHeader
+     * @description Returns the `Authorization` header value for the next request, fetching a token if needed.
+     * @returns {Promise<string | undefined>} The header value, or undefined when `FHIR_AUTH_TYPE=none`.
+     * @throws {UpstreamServiceError} If no token can be obtained from the token endpoint.
+     */
+    async getAuthorizationHeader(): Promise<string | undefined> {
+        const auth = this.auth;
+        switch (auth.type) {
+            case 'basic':
+                return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+            case 'bearer':
+                return `Bearer ${auth.bearerToken}`;
+            case 'client_credentials':
+                return `Bearer ${(await this.getToken()).accessToken}`;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * @method canRenewCredentials
+     * @description Whether a rejected request is worth retrying with new credentials (only tokens can be renewed).
+     * @returns {boolean} `true` for `client_credentials`.
+     */
+    canRenewCredentials(): boolean {
+        return this.auth.type === 'client_credentials';
+    }
+
+    /**
+     * @method invalidate
+     * @description Drops the cached token; the next request fetches a new one.
+     * @returns {void}
+     */
+    invalidate(): void {
+        this.cachedToken = undefined;
+    }
+
+    /**
+     * @private
+     * @method getToken
+     * @description Returns the cached token while it is valid, otherwise requests a new one (once for all callers).
+     */
+    private async getToken(): Promise<CachedToken> {
+        if (this.cachedToken && this.cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+            return this.cachedToken;
+        }
+        if (!this.pendingToken) {
+            this.pendingToken = this.requestToken()
+                .then((token) => {
+                    this.cachedToken = token;
+                    return token;
+                })
+                .finally(() => {
+                    this.pendingToken = undefined;
+                });
+        }
+        return this.pendingToken;
+    }
+
+    /**
+     * @private
+     * @method requestToken
+     * @description POSTs the client credentials grant to the token endpoint.
+     * @throws {UpstreamServiceError} If the token endpoint fails, does not answer, or returns no bearer token.
+     */
+    private async requestToken(): Promise<CachedToken> {
+        const { tokenUrl, clientId, clientSecret, privateKey, scope } = this.auth;
+        const form = new URLSearchParams({ grant_type: 'client_credentials', scope });
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+        };
+        if (privateKey) {
+            form.set(
+                'client_assertion_type',
+                'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+            );
+            form.set('client_assertion', this.buildClientAssertion());
+        } else {
+            headers.Authorization = `Basic ${Buffer.from(
+                `${encodeURIComponent(clientId!)}:${encodeURIComponent(clientSecret!)}`
+            ).toString('base64')}`;
+        }
+
+        console.log(`[FHIR Auth] Requesting an access token from ${tokenUrl} (scope '${scope}').`);
+        const requestedAt = Date.now();
+        try {
+            const response = await axios.post(tokenUrl!, form.toString(), {
+                headers,
+                timeout: 10000,
+            });
+            const { access_token, token_type, expires_in } = response.data ?? {};
+            if (typeof access_token !== 'string' || String(token_type).toLowerCase() !== 'bearer') {
+                throw new UpstreamServiceError(
+                    502,
+                    `Token endpoint ${tokenUrl} returned no bearer access token.`,
+                    response.status
+                );
+            }
+            const lifetime =
+                Number(expires_in) > 0 ? Number(expires_in) : DEFAULT_TOKEN_LIFETIME_SECONDS;
+            return { accessToken: access_token, expiresAt: requestedAt + lifetime * 1000 };
+        } catch (error: any) {
+            if (error instanceof UpstreamServiceError) throw error;
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            // OAuth2 errors carry `error` / `error_description` (e.g., invalid_client, invalid_scope).
+            const oauthError = axios.isAxiosError(error)
+                ? [error.response?.data?.error, error.response?.data?.error_description]
+                      .filter(Boolean)
+                      .join(': ')
+                : '';
+            console.error(
+                `[FHIR Auth] Token request to ${tokenUrl} failed:`,
+                oauthError || error?.message
+            );
+            throw new UpstreamServiceError(
+                status ? 502 : 504,
+                `Failed to obtain an access token from ${tokenUrl}: ${oauthError || error?.message || 'unknown error'}`,
+                status
+            );
+        }
+    }
+
+    /**
+     * @private
+     * @method buildClientAssertion
+     * @description Signs the `private_key_jwt` client assertion: issuer and subject are the client ID, the audience is
+     * the token endpoint, and `jti` is unique so the assertion cannot be replayed. The `kid` header is only set when a
+     * key ID is configured (jsonwebtoken rejects an undefined one).
+     */
+    private buildClientAssertion(): string {
+        const { tokenUrl, clientId, privateKey, keyId, signingAlgorithm } = this.auth;
+        return jwt.sign({}, privateKey!, {
+            algorithm: signingAlgorithm,
+            issuer: clientId,
+            subject: clientId,
+            audience: tokenUrl,
+            expiresIn: CLIENT_ASSERTION_LIFETIME_SECONDS,
+            jwtid: randomUUID(),
+            ...(keyId ? { keyid: keyId } : {}),
+        });
+    }
+}
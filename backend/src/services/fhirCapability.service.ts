@@ -0,0 +1,212 @@
+// backend/src/services/fhirCapability.service.ts
+// Service generating the CapabilityStatement of the FHIR facade (`GET /fhir/metadata`) from its route table.
+
+import {
+    CapabilityStatement,
+    CapabilityStatementRestResource,
+    CapabilityStatementRestResourceInteraction,
+    CapabilityStatementRestResourceOperation,
+    CapabilityStatementRestResourceSearchParam,
+} from 'fhir/r5';
+import config from '../config';
+import { FHIR_VERSION_INFO, FhirVersion } from './fhirVersions';
+import { PATIENT_SEARCH_PARAMETERS } from './fhirSearch.service';
+import { TWCORE_PATIENT_PROFILE } from './fhirProfiles/twcore.profile';
+
+/** Time the statement's content was fixed: it only changes when the server is redeployed. */
+const STARTED_AT = new Date().toISOString();
+
+/**
+ * A route of the FHIR facade (see `FHIR_ROUTES` in `routes/fhir.routes.ts`).
+ * @property {string} method - HTTP method, lower case (the name of the Express router method).
+ * @property {string} path - Path relative to the FHIR base, without Express escapes (e.g., `/Patient/:id/$everything`).
+ */
+export interface FhirRoute {
+    method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+    path: string;
+}
+
+/** Resource-level interactions per HTTP method, on `/{type}` and on `/{type}/:id`. */
+const TYPE_INTERACTIONS: Record<string, CapabilityStatementRestResourceInteraction['code']> = {
+    get: 'search-type',
+    post: 'create',
+};
+const INSTANCE_INTERACTIONS: Record<string, CapabilityStatementRestResourceInteraction['code']> = {
+    get: 'read',
+    put: 'update',
+    patch: 'patch',
+    delete: 'delete',
+};
+
+/** Search parameters per resource type (types without an entry accept none). */
+const SEARCH_PARAMETERS: Record<string, CapabilityStatementRestResourceSearchParam[]> = {
+    Patient: PATIENT_SEARCH_PARAMETERS,
+};
+
+/**
+ * Canonical OperationDefinitions of the operations the facade implements, by `[type]/$name` (no type: system level).
+ * An operation without an entry is advertised with a local definition URL.
+ */
+const OPERATION_DEFINITIONS: Record<string, string> = {
+    '/$export': 'http://hl7.org/fhir/uv/bulkdata/OperationDefinition/export',
+    'Patient/$export': 'http://hl7.org/fhir/uv/bulkdata/OperationDefinition/patient-export',
+    'Patient/$everything': 'http://hl7.org/fhir/OperationDefinition/Patient-everything',
+    'Patient/$match': 'http://hl7.org/fhir/OperationDefinition/Patient-match',
+    'ConceptMap/$translate': 'http://hl7.org/fhir/OperationDefinition/ConceptMap-translate',
+};
+
+/** CapabilityStatement of the Bulk Data IG, instantiated when `$export` is registered. */
+const BULK_DATA_CAPABILITY = 'http://hl7.org/fhir/uv/bulkdata/CapabilityStatement/bulk-data';
+
+const RESOURCE_TYPE_PATTERN = /^[A-Z][A-Za-z]+$/;
+
+/**
+ * @class FhirCapabilityService
+ * @description Describes the FHIR facade as a CapabilityStatement.
+ * @design
+ * - Resource types, interactions and operations are derived from the route table the FHIR router is registered from
+ *   (`FHIR_ROUTES`), so the statement cannot drift from what is served: adding a route is enough to advertise it.
+ *   `/{type}` and `/{type}/:id` map to interactions by HTTP method, `$name` segments to operations; other paths
+ *   (e.g., Bulk Data status and file URLs) are not part of the REST API of a resource.
+ * - Search parameters cannot be seen in a route, so they come from the search service that parses them.
+ * - The statement is served in the negotiated release; only `fhirVersion` differs between R4 and R5.
+ */
+export class FhirCapabilityService {
+    /**
+     * @method buildCapabilityStatement
+     * @description Generates the CapabilityStatement of the FHIR facade's routes.
+     * @param {FhirRoute[]} routes - The routes of the facade (`FHIR_ROUTES`).
+     * @param {FhirVersion} version - The release the statement is served in.
+     * @param {string} baseUrl - Public base URL of the FHIR facade (`implementation.url`).
+     * @returns {CapabilityStatement} The statement (R5 model).
+     */
+    buildCapabilityStatement(
+        routes: readonly FhirRoute[],
+        version: FhirVersion,
+        baseUrl: string
+    ): CapabilityStatement {
+        const resources = new Map<string, CapabilityStatementRestResource>();
+        const systemOperations: CapabilityStatementRestResourceOperation[] = [];
+
+        for (const { method, path } of routes) {
+            const [type, second, third, ...rest] = path.split('/').slice(1);
+            if (type?.startsWith('$') && second === undefined) {
+                this.addOperation(systemOperations, '', type);
+                continue;
+            }
+            if (!type || !RESOURCE_TYPE_PATTERN.test(type) || rest.length > 0) {
+                continue;
+            }
+            const resource = this.getResource(resources, type);
+            if (second === undefined) {
+                this.addInteraction(resource, TYPE_INTERACTIONS[method]);
+            } else if (second.startsWith('$') && third === undefined) {
+                this.addOperation((resource.operation ??= []), type, second);
+            } else if (second.startsWith(':') && third === undefined) {
+                this.addInteraction(resource, INSTANCE_INTERACTIONS[method]);
+            } else if (second.startsWith(':') && third.startsWith('$')) {
+                this.addOperation((resource.operation ??= []), type, third);
+            }
+        }
+
+        const exportRegistered = systemOperations.some((operation) => operation.name === 'export');
+        return {
+            resourceType: 'CapabilityStatement',
+            status: 'active',
+            date: STARTED_AT,
+            name: 'EhrFhirFacade',
+            title: 'EHR FHIR facade',
+            kind: 'instance',
+            instantiates: exportRegistered ? [BULK_DATA_CAPABILITY] : undefined,
+            software: { name: 'EHR FHIR Backend' },
+            implementation: {
+                description: 'FHIR facade of the EHR patient registry',
+                url: baseUrl,
+            },
+            fhirVersion: FHIR_VERSION_INFO[version]
+                .fhirVersion as CapabilityStatement['fhirVersion'],
+            format: ['application/fhir+json', 'application/fhir+xml'],
+            rest: [
+                {
+                    mode: 'server',
+                    documentation:
+                        'R4 and R5 are both served: name the release with the fhirVersion parameter of Accept ' +
+                        `(e.g., application/fhir+json; fhirVersion=4.0); default ${config.fhir.defaultVersion}.`,
+                    security: {
+                        cors: true,
+                        service: [{ text: 'JWT access token (HttpOnly cookie)' }],
+                        description:
+                            'Every request except GET /metadata needs the JWT access token set as HttpOnly cookie by ' +
+                            'POST /api/auth/login (renewed through POST /api/auth/refresh).',
+                    },
+                    resource: [...resources.values()],
+                    operation: systemOperations.length > 0 ? systemOperations : undefined,
+                },
+            ],
+        };
+    }
+
+    /**
+     * @private
+     * @method getResource
+     * @description The statement entry of a resource type, created with its profile and search parameters on first use.
+     */
+    private getResource(
+        resources: Map<string, CapabilityStatementRestResource>,
+        type: string
+    ): CapabilityStatementRestResource {
+        let resource = resources.get(type);
+        if (!resource) {
+            resource = {
+                type,
+                supportedProfile:
+                    type === 'Patient' && config.fhir.profile === 'twcore'
+                        ? [TWCORE_PATIENT_PROFILE]
+                        : undefined,
+                interaction: [],
+            };
+            resources.set(type, resource);
+        }
+        return resource;
+    }
+
+    /**
+     * @private
+     * @method addInteraction
+     * @description Adds an interaction once; `search-type` also brings the type's search parameters.
+     */
+    private addInteraction(
+        resource: CapabilityStatementRestResource,
+        code: CapabilityStatementRestResourceInteraction['code'] | undefined
+    ): void {
+        if (!code || resource.interaction!.some((interaction) => interaction.code === code)) {
+            return;
+        }
+        resource.interaction!.push({ code });
+        if (code === 'search-type' && SEARCH_PARAMETERS[resource.type]) {
+            resource.searchParam = SEARCH_PARAMETERS[resource.type];
+        }
+    }
+
+    /**
+     * @private
+     * @method addOperation
+     * @description Adds an operation once (it may be registered for several methods or levels).
+     */
+    private addOperation(
+        operations: CapabilityStatementRestResourceOperation[],
+        type: string,
+        segment: string
+    ): void {
+        const name = segment.slice(1);
+        if (operations.some((operation) => operation.name === name)) {
+            return;
+        }
+        operations.push({
+            name,
+            definition:
+                OPERATION_DEFINITIONS[`${type}/${segment}`] ??
+                `urn:ehr:fhir:OperationDefinition:${type || 'system'}-${name}`,
+        });
+    }
+}
@@ -0,0 +1,332 @@
+// backend/src/services/fhirEndpoints.ts
+// Registry of the named FHIR servers patients are pushed to, and the routing rules deciding which patients go where.
+
+import fs from 'fs';
+import config from '../config';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { BadRequestError, ConflictError } from '../utils/error';
+import { FhirVersion } from './fhirVersions';
+
+/** Credentials of one FHIR endpoint; same settings as `config.fhir.auth` (`FHIR_AUTH_*`). */
+export type FhirAuthSettings = typeof config.fhir.auth;
+
+/** Patient fields routing rules can test. */
+export const FHIR_ROUTING_FIELDS = [
+    'country',
+    'active',
+    'gender',
+    'preferredLanguage',
+    'postalCode',
+] as const;
+export type FhirRoutingField = (typeof FHIR_ROUTING_FIELDS)[number];
+
+/**
+ * Routing rules of an endpoint: field -> accepted values. A patient is routed to the endpoint when every listed field
+ * has one of its values (strings compare case-insensitively, `null` accepts an empty field). No rules: every patient.
+ */
+export type FhirRoutingRules = Partial<Record<FhirRoutingField, (string | boolean | null)[]>>;
+
+/**
+ * @interface FhirEndpoint
+ * @description One FHIR server of the registry.
+ * @property {string} name - Unique name; stored with outbox items and push results, and accepted as push `target`.
+ * @property {string | undefined} url - Base URL (undefined only for an unconfigured primary endpoint).
+ * @property {FhirVersion} version - FHIR release the server speaks; resources are converted to it.
+ * @property {FhirAuthSettings} auth - How requests to the server authenticate.
+ * @property {number} timeoutMs - Timeout of each request (transaction Bundles of a batch push get four times as long).
+ * @property {boolean} enabled - Disabled endpoints receive nothing; their queued items fail until re-enabled.
+ * @property {boolean} primary - Whether this is the target server of `FHIR_TARGET_SERVER_URL`, the one remote copies,
+ * conflicts, reconciliation and Subscription notifications refer to.
+ * @property {FhirRoutingRules} routing - Which patients are pushed to the server.
+ */
+export interface FhirEndpoint {
+    name: string;
+    url: string | undefined;
+    version: FhirVersion;
+    auth: FhirAuthSettings;
+    timeoutMs: number;
+    enabled: boolean;
+    primary: boolean;
+    routing: FhirRoutingRules;
+}
+
+/** What `GET /api/admin/fhir-endpoints` shows of an endpoint: everything but the credentials. */
+export type FhirEndpointSummary = Omit<FhirEndpoint, 'auth'> & {
+    authType: FhirAuthSettings['type'];
+};
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+const AUTH_TYPES: FhirAuthSettings['type'][] = ['none', 'basic', 'bearer', 'client_credentials'];
+
+// Loaded on first use; `assertFhirEndpointsValid` loads it at startup so a broken file stops the server.
+let endpoints: FhirEndpoint[] | undefined;
+
+/**
+ * Replaces `${NAME}` in the file's string values with the environment variable, so secrets need not be in the file.
+ */
+const expandEnv = (value: unknown, label: string): unknown => {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+            if (process.env[name] === undefined) {
+                throw new Error(`${label} references the unset environment variable ${name}`);
+            }
+            return process.env[name]!;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => expandEnv(item, label));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, expandEnv(item, label)])
+        );
+    }
+    return value;
+};
+
+/**
+ * Validates one entry of `FHIR_ENDPOINTS_FILE` and fills in the defaults.
+ * @throws {Error} If the entry is incomplete or invalid.
+ */
+const parseEndpoint = (raw: any, index: number): FhirEndpoint => {
+    const label = `FHIR_ENDPOINTS_FILE entry ${index}${raw?.name ? ` (${raw.name})` : ''}`;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${label} must be an object`);
+    }
+    const entry = expandEnv(raw, label) as Record<string, any>;
+    if (typeof entry.name !== 'string' || !NAME_PATTERN.test(entry.name)) {
+        throw new Error(`${label}: 'name' must be 1-50 letters, digits, dashes or underscores`);
+    }
+    if (typeof entry.url !== 'string' || !/^https?:\/\//.test(entry.url)) {
+        throw new Error(`${label}: 'url' must be an http(s) URL`);
+    }
+    const version = String(entry.version ?? 'R4').toUpperCase();
+    if (version !== 'R4' && version !== 'R5') {
+        throw new Error(`${label}: 'version' must be R4 or R5`);
+    }
+    const timeoutMs = entry.timeoutMs ?? 15000;
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+        throw new Error(`${label}: 'timeoutMs' must be a positive integer`);
+    }
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+        throw new Error(`${label}: 'enabled' must be true or false`);
+    }
+
+    const rawAuth = entry.auth ?? {};
+    const auth: FhirAuthSettings = {
+        type: String(rawAuth.type ?? 'none').toLowerCase() as FhirAuthSettings['type'],
+        username: rawAuth.username,
+        password: rawAuth.password,
+        bearerToken: rawAuth.bearerToken,
+        tokenUrl: rawAuth.tokenUrl,
+        clientId: rawAuth.clientId,
+        clientSecret: rawAuth.clientSecret,
+        privateKey: rawAuth.privateKey,
+        keyId: rawAuth.keyId,
+        signingAlgorithm: String(
+            rawAuth.signingAlgorithm ?? 'RS384'
+        ).toUpperCase() as FhirAuthSettings['signingAlgorithm'],
+        scope: rawAuth.scope ?? 'system/Patient.cruds system/Provenance.c',
+    };
+    if (!AUTH_TYPES.includes(auth.type)) {
+        throw new Error(`${label}: 'auth.type' must be one of ${AUTH_TYPES.join(', ')}`);
+    }
+    if (auth.type === 'basic' && (!auth.username || !auth.password)) {
+        throw new Error(`${label}: basic auth requires 'auth.username' and 'auth.password'`);
+    }
+    if (auth.type === 'bearer' && !auth.bearerToken) {
+        throw new Error(`${label}: bearer auth requires 'auth.bearerToken'`);
+    }
+    if (
+        auth.type === 'client_credentials' &&
+        (!auth.tokenUrl || !auth.clientId || !(auth.privateKey || auth.clientSecret))
+    ) {
+        throw new Error(
+            `${label}: client_credentials auth requires 'auth.tokenUrl', 'auth.clientId' and 'auth.privateKey' (or 'auth.clientSecret')`
+        );
+    }
+    if (!['RS384', 'ES384'].includes(auth.signingAlgorithm)) {
+        throw new Error(`${label}: 'auth.signingAlgorithm' must be RS384 or ES384`);
+    }
+
+    const routing = entry.routing ?? {};
+    if (typeof routing !== 'object' || Array.isArray(routing)) {
+        throw new Error(`${label}: 'routing' must be an object of field -> accepted values`);
+    }
+    for (const [field, values] of Object.entries(routing)) {
+        if (!FHIR_ROUTING_FIELDS.includes(field as FhirRoutingField)) {
+            throw new Error(
+                `${label}: cannot route by '${field}'. Expected one of: ${FHIR_ROUTING_FIELDS.join(', ')}`
+            );
+        }
+        if (
+            !Array.isArray(values) ||
+            !values.every((value) => value === null || ['string', 'boolean'].includes(typeof value))
+        ) {
+            throw new Error(
+                `${label}: 'routing.${field}' must be an array of strings, booleans or null`
+            );
+        }
+    }
+
+    return {
+        name: entry.name,
+        url: entry.url,
+        version,
+        auth,
+        timeoutMs,
+        enabled: entry.enabled ?? true,
+        primary: false,
+        routing: routing as FhirRoutingRules,
+    };
+};
+
+/**
+ * Reads `FHIR_ENDPOINTS_FILE` (a JSON array of endpoints).
+ * @throws {Error} If the file cannot be read or holds an invalid endpoint.
+ */
+const loadEndpointsFile = (file: string): FhirEndpoint[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Cannot read FHIR_ENDPOINTS_FILE ${file}: ${error?.message}`);
+    }
+    if (!Array.isArray(parsed)) {
+        throw new Error(`FHIR_ENDPOINTS_FILE ${file} must contain a JSON array of endpoints`);
+    }
+    return parsed.map(parseEndpoint);
+};
+
+/**
+ * Returns the primary endpoint: the target server of `FHIR_TARGET_SERVER_URL` and `FHIR_AUTH_*`.
+ * Every patient is routed to it, so it keeps the sync state shown in the UI.
+ * @returns {FhirEndpoint} The primary endpoint (its `url` is undefined while `FHIR_TARGET_SERVER_URL` is not set).
+ */
+export const getPrimaryFhirEndpoint = (): FhirEndpoint => ({
+    name: config.fhir.targetServerName,
+    url: config.fhir.targetServerUrl,
+    version: config.fhir.targetServerVersion,
+    auth: config.fhir.auth,
+    timeoutMs: config.fhir.targetServerTimeoutMs,
+    enabled: true,
+    primary: true,
+    routing: {},
+});
+
+/**
+ * Returns every registered endpoint, the primary one first.
+ * @returns {FhirEndpoint[]} The registry.
+ * @throws {Error} If `FHIR_ENDPOINTS_FILE` is invalid or repeats a name.
+ */
+export const getFhirEndpoints = (): FhirEndpoint[] => {
+    if (!endpoints) {
+        const registry = [
+            getPrimaryFhirEndpoint(),
+            ...(config.fhir.endpointsFile ? loadEndpointsFile(config.fhir.endpointsFile) : []),
+        ];
+        const names = new Set<string>();
+        for (const { name } of registry) {
+            if (names.has(name)) {
+                throw new Error(
+                    `FHIR endpoint name '${name}' is used twice (FHIR_TARGET_SERVER_NAME / FHIR_ENDPOINTS_FILE)`
+                );
+            }
+            names.add(name);
+        }
+        endpoints = registry;
+    }
+    return endpoints;
+};
+
+/**
+ * Loads the registry and logs it; called at startup so a broken `FHIR_ENDPOINTS_FILE` stops the server.
+ * @throws {Error} If the registry is invalid.
+ */
+export const assertFhirEndpointsValid = (): void => {
+    for (const endpoint of getFhirEndpoints()) {
+        console.log(
+            `[FHIR Endpoints] ${endpoint.name}${endpoint.primary ? ' (primary)' : ''}: ${endpoint.url ?? 'not configured'} ` +
+                `(${endpoint.version}, auth ${endpoint.auth.type}${endpoint.enabled ? '' : ', disabled'})`
+        );
+    }
+};
+
+/**
+ * Finds an endpoint by name.
+ * @param {string} name - The endpoint name.
+ * @returns {FhirEndpoint | undefined} The endpoint, or undefined if none has that name.
+ */
+export const findFhirEndpoint = (name: string): FhirEndpoint | undefined =>
+    getFhirEndpoints().find((endpoint) => endpoint.name === name);
+
+/**
+ * Resolves the `target` of a manual push: the named endpoint, or the primary one when no name is given.
+ * @param {string} [name] - The endpoint name.
+ * @returns {FhirEndpoint} The endpoint to push to.
+ * @throws {BadRequestError} If no endpoint has that name.
+ * @throws {ConflictError} If the endpoint is disabled.
+ */
+export const resolveFhirPushTarget = (name?: string): FhirEndpoint => {
+    if (name === undefined) {
+        return getFhirEndpoints()[0];
+    }
+    const endpoint = findFhirEndpoint(name);
+    if (!endpoint) {
+        throw new BadRequestError(
+            `Unknown FHIR endpoint '${name}'. Expected one of: ${getFhirEndpoints()
+                .map((candidate) => candidate.name)
+                .join(', ')}.`
+        );
+    }
+    if (!endpoint.enabled) {
+        throw new ConflictError(`FHIR endpoint '${name}' is disabled.`);
+    }
+    return endpoint;
+};
+
+/**
+ * Tells whether a patient satisfies an endpoint's routing rules (the `enabled` flag is not considered).
+ * @param {FhirEndpoint} endpoint - The endpoint.
+ * @param {PatientEntity} patient - The patient row.
+ * @returns {boolean} Whether the patient belongs on that server.
+ */
+export const isRoutedToFhirEndpoint = (endpoint: FhirEndpoint, patient: PatientEntity): boolean =>
+    Object.entries(endpoint.routing).every(([field, accepted]) => {
+        const value = patient[field as FhirRoutingField];
+        return accepted!.some((candidate) => {
+            if (candidate === null) {
+                return value === null || value === undefined || value === '';
+            }
+            if (typeof candidate === 'boolean' || typeof value === 'boolean') {
+                return candidate === value;
+            }
+            return (
+                typeof value === 'string' &&
+                value.trim().toLowerCase() === candidate.trim().toLowerCase()
+            );
+        });
+    });
+
+/**
+ * Returns the enabled endpoints a patient's changes are pushed to (always including the primary endpoint).
+ * @param {PatientEntity} patient - The patient row.
+ * @returns {FhirEndpoint[]} The endpoints, the primary one first.
+ */
+export const routeToFhirEndpoints = (patient: PatientEntity): FhirEndpoint[] =>
+    getFhirEndpoints().filter(
+        (endpoint) => endpoint.enabled && isRoutedToFhirEndpoint(endpoint, patient)
+    );
+
+/**
+ * Describes an endpoint without its credentials.
+ * @param {FhirEndpoint} endpoint - The endpoint.
+ * @returns {FhirEndpointSummary} The endpoint settings, with the auth type only.
+ */
+export const summarizeFhirEndpoint = ({
+    auth,
+    ...endpoint
+}: FhirEndpoint): FhirEndpointSummary => ({
+    ...endpoint,
+    authType: auth.type,
+});
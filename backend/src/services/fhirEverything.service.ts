@@ -0,0 +1,263 @@
+// backend/src/services/fhirEverything.service.ts
+// Service implementing the FHIR `Patient/$everything` operation: the Patient and every related resource the EHR holds.
+
+import { IsNull, MoreThanOrEqual, Not, Repository } from 'typeorm';
+import { Bundle, BundleEntry, FhirResource, Provenance } from 'fhir/r5';
+import { AppDataSource } from '../config/dataSource';
+import config from '../config';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { FhirOutboxEntity } from '../models/entities/FhirOutbox.entity';
+import { FhirInboundChangeEntity } from '../models/entities/FhirInboundChange.entity';
+import { PatientService } from './patient.service';
+import { FhirService } from './fhir.service';
+import { BadRequestError } from '../utils/error';
+import { buildOperationOutcome } from '../utils/operationOutcome';
+import { buildRecordedChangeProvenance } from '../utils/provenance';
+
+/**
+ * @interface EverythingSource
+ * @description One resource type of the patient compartment that the EHR holds.
+ * @property {string} resourceType - The FHIR resource type, as named by `_type`.
+ * @property {'match' | 'include'} mode - `search.mode` of its Bundle entries (only the Patient itself is a match).
+ * @property {boolean} readable - Whether the facade serves a read of its resources; only those entries get a `fullUrl`.
+ * @property {Function} collect - Returns the patient's resources of this type changed at or after `since`.
+ */
+interface EverythingSource {
+    resourceType: string;
+    mode: 'match' | 'include';
+    readable: boolean;
+    collect(patient: PatientEntity, since?: Date): Promise<FhirResource[]>;
+}
+
+/**
+ * @interface EverythingOptions
+ * @description The `$everything` parameters.
+ * @property {Date} [since] - `_since`: only resources changed at or after this instant.
+ * @property {string[]} [types] - `_type`: only these resource types.
+ */
+export interface EverythingOptions {
+    since?: Date;
+    types?: string[];
+}
+
+/**
+ * @class FhirEverythingService
+ * @description Assembles the `searchset` Bundle of `GET /fhir/Patient/:id/$everything`.
+ * @design
+ * - Each resource type is an `EverythingSource` in `sources`; supporting a new type means adding one source.
+ *   Held today: the Patient, its emergency contact as RelatedPerson, and one Provenance per recorded change
+ *   (local edits from `fhir_outbox`, changes applied from the FHIR server from `fhir_inbound_changes`).
+ * - Patient and RelatedPerson are derived from the patient row, so they carry its `updated_at` as `meta.lastUpdated`
+ *   and `_since` compares it; Provenances compare their `recorded` time.
+ * - Only the Patient can be read back from this facade; the other entries are generated for the Bundle and have no
+ *   `fullUrl` (see `EverythingSource.readable`).
+ * - `_type` names this server does not hold are not an error (the patient simply has none of them); they are reported
+ *   in an OperationOutcome entry, like unsupported search parameters.
+ */
+export class FhirEverythingService {
+    private readonly outboxRepository: Repository<FhirOutboxEntity>;
+    private readonly inboundRepository: Repository<FhirInboundChangeEntity>;
+    private readonly sources: EverythingSource[];
+
+    constructor(
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {
+        this.outboxRepository = AppDataSource.getRepository(FhirOutboxEntity);
+        this.inboundRepository = AppDataSource.getRepository(FhirInboundChangeEntity);
+        this.sources = [
+            {
+                resourceType: 'Patient',
+                mode: 'match',
+                readable: true,
+                collect: (patient, since) => this.collectPatient(patient, since),
+            },
+            {
+                resourceType: 'RelatedPerson',
+                mode: 'include',
+                readable: false,
+                collect: (patient, since) => this.collectRelatedPersons(patient, since),
+            },
+            {
+                resourceType: 'Provenance',
+                mode: 'include',
+                readable: false,
+                collect: (patient, since) => this.collectProvenances(patient, since),
+            },
+        ];
+    }
+
+    /**
+     * @method getEverything
+     * @description Returns the Patient with the given PID and every related resource, filtered by `_since` / `_type`.
+     * @param {string} pid - The Patient's logical id (the local PID).
+     * @param {EverythingOptions} options - The `_since` and `_type` filters.
+     * @param {string} baseUrl - Base URL of the FHIR facade, used for the Patient's `fullUrl` and the `self` link.
+     * @returns {Promise<Bundle>} The searchset Bundle (R5).
+     * @throws {NotFoundError} If no patient has that PID.
+     * @throws {BadRequestError} If a `_type` value is not a resource type name.
+     */
+    async getEverything(pid: string, options: EverythingOptions, baseUrl: string): Promise<Bundle> {
+        const invalidTypes = (options.types ?? []).filter((type) => !/^[A-Z][A-Za-z]+$/.test(type));
+        if (invalidTypes.length > 0) {
+            throw new BadRequestError(`Invalid _type value(s): ${invalidTypes.join(', ')}`);
+        }
+        const patient = await this.patientService.findByPid(pid);
+
+        const sources = options.types
+            ? this.sources.filter((source) => options.types!.includes(source.resourceType))
+            : this.sources;
+        const entry: BundleEntry[] = [];
+        for (const source of sources) {
+            for (const resource of await source.collect(patient, options.since)) {
+                entry.push({
+                    ...(source.readable && {
+                        fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+                    }),
+                    resource,
+                    search: { mode: source.mode },
+                });
+            }
+        }
+        const total = entry.length;
+
+        const notHeld = (options.types ?? []).filter(
+            (type) => !this.sources.some((source) => source.resourceType === type)
+        );
+        if (notHeld.length > 0) {
+            entry.push({
+                resource: buildOperationOutcome(
+                    'information',
+                    'not-supported',
+                    `This server holds no resources of type(s): ${notHeld.join(', ')}`,
+                    ['_type']
+                ),
+                search: { mode: 'outcome' },
+            });
+        }
+        console.log(
+            `[FHIR Everything] Patient/${pid}/$everything returned ${total} resource(s) (since: ${options.since?.toISOString() ?? 'beginning'}).`
+        );
+
+        const params = new URLSearchParams();
+        if (options.since) {
+            params.set('_since', options.since.toISOString());
+        }
+        if (options.types) {
+            params.set('_type', options.types.join(','));
+        }
+        const query = params.toString();
+        return {
+            resourceType: 'Bundle',
+            type: 'searchset',
+            timestamp: new Date().toISOString(),
+            total,
+            link: [
+                {
+                    relation: 'self',
+                    url: `${baseUrl}/Patient/${pid}/$everything${query ? `?${query}` : ''}`,
+                },
+            ],
+            entry: entry.length > 0 ? entry : undefined,
+        };
+    }
+
+    /**
+     * @private
+     * @method collectPatient
+     * @description The Patient itself, unless it has not changed since `since`.
+     */
+    private async collectPatient(patient: PatientEntity, since?: Date): Promise<FhirResource[]> {
+        const resource = this.fhirService.buildFhirPatient(patient);
+        if (!resource || (since && patient.updatedAt < since)) {
+            return [];
+        }
+        return [
+            {
+                ...resource,
+                meta: { ...resource.meta, lastUpdated: patient.updatedAt.toISOString() },
+            },
+        ];
+    }
+
+    /**
+     * @private
+     * @method collectRelatedPersons
+     * @description The emergency contact, unless the patient row has not changed since `since`.
+     */
+    private async collectRelatedPersons(
+        patient: PatientEntity,
+        since?: Date
+    ): Promise<FhirResource[]> {
+        const resource = this.fhirService.buildFhirRelatedPerson(patient);
+        if (!resource || (since && patient.updatedAt < since)) {
+            return [];
+        }
+        return [{ ...resource, meta: { lastUpdated: patient.updatedAt.toISOString() } }];
+    }
+
+    /**
+     * @private
+     * @method collectProvenances
+     * @description One Provenance per recorded change of the patient, oldest first. The Provenances are generated
+     * from the rows that record the changes and are not stored: their ids (`outbox-{id}`, `inbound-{id}`) name those
+     * rows and cannot be read back.
+     * - Local edits: every create / update queues an outbox item in the same transaction (one per routed endpoint; the
+     *   primary endpoint's item stands for the change), which records whether the change created the patient. The
+     *   outbox worker pushes the item with the same activity and agent (`FhirPushOptions.activity`), so this entry and
+     *   the Provenance stored on the FHIR server with the Patient describe the change alike.
+     * - Changes applied from the FHIR server: an applied inbound change created the patient if the patient did not
+     *   exist yet when the notification arrived. Its source is the remote Patient version that was read.
+     */
+    private async collectProvenances(
+        patient: PatientEntity,
+        since?: Date
+    ): Promise<FhirResource[]> {
+        const [outboxItems, inboundChanges] = await Promise.all([
+            this.outboxRepository.find({
+                where: {
+                    patientId: patient.id,
+                    endpoint: config.fhir.targetServerName,
+                    activity: Not(IsNull()),
+                    ...(since && { createdAt: MoreThanOrEqual(since) }),
+                },
+                order: { id: 'ASC' },
+            }),
+            this.inboundRepository.find({
+                where: { patientId: patient.id, status: 'applied' },
+                order: { id: 'ASC' },
+            }),
+        ]);
+
+        const provenances: Provenance[] = outboxItems.map((item) =>
+            buildRecordedChangeProvenance(
+                `outbox-${item.id}`,
+                patient.pid,
+                item.activity!,
+                item.createdBy ? { userId: item.createdBy } : undefined,
+                item.createdAt
+            )
+        );
+        for (const change of inboundChanges) {
+            // Auto-applied changes have no reviewer and were applied when received.
+            const recorded = change.reviewedAt ?? change.createdAt;
+            if (since && recorded < since) {
+                continue;
+            }
+            const remoteUrl = `${config.fhir.targetServerUrl?.replace(/\/+$/, '')}/Patient/${change.remoteResourceId}`;
+            provenances.push(
+                buildRecordedChangeProvenance(
+                    `inbound-${change.id}`,
+                    patient.pid,
+                    patient.createdAt >= change.createdAt ? 'create' : 'update',
+                    change.reviewedBy ? { userId: change.reviewedBy } : undefined,
+                    recorded,
+                    change.remoteVersionId
+                        ? `${remoteUrl}/_history/${change.remoteVersionId}`
+                        : remoteUrl
+                )
+            );
+        }
+        return provenances.sort((a, b) => a.recorded!.localeCompare(b.recorded!));
+    }
+}
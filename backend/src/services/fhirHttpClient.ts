@@ -0,0 +1,70 @@
+// backend/src/services/fhirHttpClient.ts
+// HTTP clients for the requests to the FHIR endpoints, each carrying its endpoint's credentials.
+
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { FhirAuthService } from './fhirAuth.service';
+import { FhirEndpoint, getPrimaryFhirEndpoint } from './fhirEndpoints';
+
+// One client (and token cache) per endpoint name.
+const clients = new Map<string, AxiosInstance>();
+
+/**
+ * Creates the Axios instance of an endpoint.
+ * - Adds the `Authorization` header of the endpoint's auth settings to every request (see `FhirAuthService`).
+ * - On a 401, drops the cached token and retries the request once with a new one.
+ * Errors are the usual `AxiosError`s, except token endpoint failures (`UpstreamServiceError`).
+ */
+const createFhirHttpClient = (endpoint: FhirEndpoint): AxiosInstance => {
+    const fhirAuthService = new FhirAuthService(endpoint.auth);
+    const client = axios.create();
+
+    client.interceptors.request.use(async (request) => {
+        const authorization = await fhirAuthService.getAuthorizationHeader();
+        if (authorization) {
+            request.headers.set('Authorization', authorization);
+        }
+        return request;
+    });
+
+    client.interceptors.response.use(undefined, async (error) => {
+        const request = error?.config as
+            | (InternalAxiosRequestConfig & { authRetried?: boolean })
+            | undefined;
+        if (
+            axios.isAxiosError(error) &&
+            error.response?.status === 401 &&
+            request &&
+            !request.authRetried &&
+            fhirAuthService.canRenewCredentials()
+        ) {
+            console.warn(
+                `[FHIR Auth] FHIR endpoint ${endpoint.name} answered 401; retrying once with a new access token.`
+            );
+            fhirAuthService.invalidate();
+            request.authRetried = true;
+            return client.request(request);
+        }
+        throw error;
+    });
+
+    return client;
+};
+
+/**
+ * Returns the Axios instance to use for an endpoint instead of the global `axios`.
+ * @param {FhirEndpoint} endpoint - The endpoint the requests go to.
+ * @returns {AxiosInstance} The endpoint's client (created on first use).
+ */
+export const getFhirHttpClient = (endpoint: FhirEndpoint): AxiosInstance => {
+    let client = clients.get(endpoint.name);
+    if (!client) {
+        client = createFhirHttpClient(endpoint);
+        clients.set(endpoint.name, client);
+    }
+    return client;
+};
+
+/** Client of the primary endpoint (`FHIR_TARGET_SERVER_URL`, `FHIR_AUTH_*`). */
+const fhirHttpClient = getFhirHttpClient(getPrimaryFhirEndpoint());
+
+export default fhirHttpClient;
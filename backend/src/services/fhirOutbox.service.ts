@@ -0,0 +1,253 @@
+// backend/src/services/fhirOutbox.service.ts
+// Durable outbox for FHIR pushes: queueing (inside the caller's transaction), claiming, result bookkeeping and admin actions.
+
+import { EntityManager, In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import config from '../config';
+import {
+    FhirOutboxEntity,
+    FhirOutboxOperation,
+    FhirOutboxStatus,
+} from '../models/entities/FhirOutbox.entity';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { ConflictError, NotFoundError } from '../utils/error';
+import { FhirPushActivity } from '../utils/provenance';
+import { routeToFhirEndpoints } from './fhirEndpoints';
+
+/** Items left in `processing` longer than this are assumed to belong to a crashed worker and are reclaimed. */
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * @class FhirOutboxService
+ * @description Data access and state transitions for the `fhir_outbox` table.
+ * @design
+ * - `enqueue` takes the caller's `EntityManager`, so the outbox row commits or rolls back together with the patient change.
+ * - A change is queued once per FHIR endpoint the patient is routed to (see `routeToFhirEndpoints`), so each endpoint
+ *   is retried and dead-lettered on its own.
+ * - `claimDue` locks rows with `FOR UPDATE SKIP LOCKED`, so several backend replicas can drain the same outbox safely.
+ * - Retry delays grow exponentially (`baseDelayMs * 2^(attempts - 1)`, capped at `maxDelayMs`); after `maxAttempts`
+ *   failures, or on a permanent error, the item is moved to the `dead` state and only an admin retry revives it.
+ */
+export class FhirOutboxService {
+    private readonly outboxRepository: Repository<FhirOutboxEntity>;
+
+    constructor() {
+        this.outboxRepository = AppDataSource.getRepository(FhirOutboxEntity);
+    }
+
+    /**
+     * @method enqueue
+     * @description Queues a FHIR push for a patient on every endpoint it is routed to. Must be called inside the
+     * transaction that changed the patient.
+     * @param {EntityManager} manager - The transaction's entity manager.
+     * @param {PatientEntity} patient - The changed patient (as saved, or as it was before a delete); routing rules are
+     * evaluated on it.
+     * @param {FhirOutboxOperation} operation - What to do on the FHIR servers.
+     * @param {number} [createdBy] - ID of the user who made the change.
+     * @param {FhirPushActivity} [activity] - For an `upsert`, whether the change created or updated the patient.
+     * @returns {Promise<void>}
+     */
+    async enqueue(
+        manager: EntityManager,
+        patient: PatientEntity,
+        operation: FhirOutboxOperation,
+        createdBy?: number,
+        activity?: FhirPushActivity
+    ): Promise<void> {
+        await manager.insert(
+            FhirOutboxEntity,
+            routeToFhirEndpoints(patient).map((endpoint) => ({
+                patientId: patient.id,
+                pid: patient.pid,
+                endpoint: endpoint.name,
+                operation,
+                activity: activity ?? null,
+                status: 'pending' as const,
+                createdBy: createdBy ?? null,
+            }))
+        );
+    }
+
+    /**
+     * @method discardPending
+     * @description Discards a patient's items that are still waiting to be pushed. Must be called inside the transaction
+     * that deleted the patient: their pushes could only fail now.
+     * @param {EntityManager} manager - The transaction's entity manager.
+     * @param {number} patientId - Internal ID of the deleted patient.
+     * @param {string} reason - Recorded as the items' `last_error`.
+     * @returns {Promise<number>} Number of discarded items.
+     */
+    async discardPending(
+        manager: EntityManager,
+        patientId: number,
+        reason: string
+    ): Promise<number> {
+        const result = await manager.update(
+            FhirOutboxEntity,
+            { patientId, status: 'pending' },
+            { status: 'discarded', lastError: reason }
+        );
+        return result.affected ?? 0;
+    }
+
+    /**
+     * @method claimDue
+     * @description Atomically claims up to `limit` due items (pending and due, or stuck in processing) and marks them as processing.
+     * @param {number} limit - Maximum number of items to claim.
+     * @returns {Promise<FhirOutboxEntity[]>} The claimed items, oldest first, with `attempts` already incremented.
+     */
+    async claimDue(limit: number): Promise<FhirOutboxEntity[]> {
+        return AppDataSource.transaction(async (manager) => {
+            const now = new Date();
+            const due = await manager
+                .getRepository(FhirOutboxEntity)
+                .createQueryBuilder('item')
+                .select('item.id')
+                .where('item.status = :pending AND item.nextAttemptAt <= :now', {
+                    pending: 'pending',
+                    now,
+                })
+                .orWhere('item.status = :processing AND item.lastAttemptAt < :leaseExpiry', {
+                    processing: 'processing',
+                    leaseExpiry: new Date(now.getTime() - PROCESSING_LEASE_MS),
+                })
+                .orderBy('item.id', 'ASC')
+                .limit(limit)
+                .setLock('pessimistic_write')
+                .setOnLocked('skip_locked')
+                .getMany();
+            if (due.length === 0) {
+                return [];
+            }
+
+            const ids = due.map((item) => item.id);
+            await manager
+                .createQueryBuilder()
+                .update(FhirOutboxEntity)
+                .set({
+                    status: 'processing',
+                    lastAttemptAt: now,
+                    attempts: () => 'attempts + 1',
+                })
+                .whereInIds(ids)
+                .execute();
+            return manager
+                .getRepository(FhirOutboxEntity)
+                .find({ where: { id: In(ids) }, order: { id: 'ASC' } });
+        });
+    }
+
+    /**
+     * @method markSucceeded
+     * @description Marks a claimed item as pushed.
+     * @param {FhirOutboxEntity} item - The claimed item.
+     * @returns {Promise<void>}
+     */
+    async markSucceeded(item: FhirOutboxEntity): Promise<void> {
+        await this.outboxRepository.update(item.id, { status: 'done', lastError: null });
+    }
+
+    /**
+     * @method markFailed
+     * @description Records a failed attempt and either schedules a retry with exponential backoff or dead-letters the item.
+     * @param {FhirOutboxEntity} item - The claimed item (with `attempts` including the failed attempt).
+     * @param {string} error - Failure reason.
+     * @param {boolean} [permanent=false] - Whether retrying cannot help (e.g., the patient was deleted).
+     * @returns {Promise<FhirOutboxStatus>} The new status ('pending' or 'dead').
+     */
+    async markFailed(
+        item: FhirOutboxEntity,
+        error: string,
+        permanent = false
+    ): Promise<FhirOutboxStatus> {
+        const { maxAttempts, baseDelayMs, maxDelayMs } = config.fhir.outbox;
+        if (permanent || item.attempts >= maxAttempts) {
+            await this.outboxRepository.update(item.id, { status: 'dead', lastError: error });
+            return 'dead';
+        }
+        const delay = Math.min(baseDelayMs * 2 ** Math.max(item.attempts - 1, 0), maxDelayMs);
+        await this.outboxRepository.update(item.id, {
+            status: 'pending',
+            lastError: error,
+            nextAttemptAt: new Date(Date.now() + delay),
+        });
+        return 'pending';
+    }
+
+    /**
+     * @method list
+     * @description Lists outbox items, newest first, optionally filtered by status and endpoint.
+     * @param {{ status?: FhirOutboxStatus; endpoint?: string; limit: number; offset: number }} options - Filters and paging.
+     * @returns {Promise<{ items: FhirOutboxEntity[]; total: number; counts: Record<string, number> }>} The page, the total for
+     * the filter, and the number of items per status (for dashboards).
+     */
+    async list(options: {
+        status?: FhirOutboxStatus;
+        endpoint?: string;
+        limit: number;
+        offset: number;
+    }): Promise<{ items: FhirOutboxEntity[]; total: number; counts: Record<string, number> }> {
+        const [items, total] = await this.outboxRepository.findAndCount({
+            where: {
+                ...(options.status && { status: options.status }),
+                ...(options.endpoint && { endpoint: options.endpoint }),
+            },
+            order: { id: 'DESC' },
+            take: options.limit,
+            skip: options.offset,
+        });
+        const rows: { status: string; count: string }[] = await this.outboxRepository
+            .createQueryBuilder('item')
+            .select('item.status', 'status')
+            .addSelect('COUNT(*)', 'count')
+            .groupBy('item.status')
+            .getRawMany();
+        const counts = Object.fromEntries(rows.map((row) => [row.status, Number(row.count)]));
+        return { items, total, counts };
+    }
+
+    /**
+     * @method retry
+     * @description Puts an item back in the queue for an immediate attempt, resetting its attempt counter.
+     * @param {number} id - Outbox item ID.
+     * @returns {Promise<FhirOutboxEntity>} The updated item.
+     * @throws {NotFoundError} If the item does not exist.
+     * @throws {ConflictError} If the item is currently being processed.
+     */
+    async retry(id: number): Promise<FhirOutboxEntity> {
+        const item = await this.findById(id);
+        if (item.status === 'processing') {
+            throw new ConflictError(`Outbox item ${id} is currently being processed`);
+        }
+        item.status = 'pending';
+        item.attempts = 0;
+        item.nextAttemptAt = new Date();
+        return this.outboxRepository.save(item);
+    }
+
+    /**
+     * @method discard
+     * @description Marks an item as discarded so it is never pushed. The row is kept for auditing.
+     * @param {number} id - Outbox item ID.
+     * @returns {Promise<FhirOutboxEntity>} The updated item.
+     * @throws {NotFoundError} If the item does not exist.
+     * @throws {ConflictError} If the item is being processed or was already pushed.
+     */
+    async discard(id: number): Promise<FhirOutboxEntity> {
+        const item = await this.findById(id);
+        if (item.status === 'processing' || item.status === 'done') {
+            throw new ConflictError(`Outbox item ${id} is ${item.status} and cannot be discarded`);
+        }
+        item.status = 'discarded';
+        return this.outboxRepository.save(item);
+    }
+
+    /** Loads one item or throws `NotFoundError`. */
+    private async findById(id: number): Promise<FhirOutboxEntity> {
+        const item = await this.outboxRepository.findOneBy({ id });
+        if (!item) {
+            throw new NotFoundError(`Outbox item ${id} not found`);
+        }
+        return item;
+    }
+}
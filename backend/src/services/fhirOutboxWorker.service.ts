@@ -0,0 +1,195 @@
+// backend/src/services/fhirOutboxWorker.service.ts
+// Background worker that drains the FHIR outbox.
+
+import config from '../config';
+import { FhirOutboxEntity } from '../models/entities/FhirOutbox.entity';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { FhirOutboxService } from './fhirOutbox.service';
+import { FhirPushResult, FhirService } from './fhir.service';
+import { PatientService } from './patient.service';
+import { findFhirEndpoint } from './fhirEndpoints';
+import { NotFoundError } from '../utils/error';
+
+/**
+ * @class FhirOutboxWorker
+ * @description Polls the outbox every `config.fhir.outbox.pollIntervalMs`, pushes each due patient to the item's FHIR
+ * endpoint (or deletes / deactivates the Patient of a deleted one) and records the result (done, retry with backoff, or
+ * dead-letter).
+ * @design
+ * - The pushed resource is built from the patient's *current* row, so a retry never sends stale data.
+ * - Items are processed one at a time; a slow or unavailable FHIR server therefore only delays the queue.
+ * - 4xx responses other than 408/429 are treated as permanent (retrying the same payload cannot succeed),
+ *   everything else (5xx, timeouts, network errors) is retried.
+ * - A 412 on `If-Match` (the remote copy was edited elsewhere) marks the patient as conflicted and dead-letters the item;
+ *   the conflict is resolved by hand (`POST /api/patients/:id/fhir/resolve-conflict`), never by retrying.
+ * - Items of an endpoint that was removed from the configuration or disabled are dead-lettered; they can be retried
+ *   once it is back.
+ */
+export class FhirOutboxWorker {
+    private timer?: NodeJS.Timeout;
+    private draining?: Promise<void>;
+
+    constructor(
+        private readonly outboxService: FhirOutboxService,
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {}
+
+    /**
+     * @method start
+     * @description Starts polling. Calling it twice has no effect.
+     * @returns {void}
+     */
+    start(): void {
+        if (this.timer) return;
+        console.log(
+            `[Outbox Worker] Started (poll every ${config.fhir.outbox.pollIntervalMs} ms, batch ${config.fhir.outbox.batchSize}).`
+        );
+        this.timer = setInterval(() => {
+            // Skip the tick if the previous drain is still running.
+            if (!this.draining) {
+                this.draining = this.drainOnce()
+                    .then(() => undefined)
+                    .catch((error) => console.error('[Outbox Worker] Drain failed:', error))
+                    .finally(() => {
+                        this.draining = undefined;
+                    });
+            }
+        }, config.fhir.outbox.pollIntervalMs);
+    }
+
+    /**
+     * @method stop
+     * @description Stops polling and waits for the current drain (if any) to finish. Used during graceful shutdown.
+     * @returns {Promise<void>}
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        await this.draining;
+        console.log('[Outbox Worker] Stopped.');
+    }
+
+    /**
+     * @method drainOnce
+     * @description Claims one batch of due items and processes them.
+     * @returns {Promise<number>} Number of items processed.
+     */
+    async drainOnce(): Promise<number> {
+        const items = await this.outboxService.claimDue(config.fhir.outbox.batchSize);
+        for (const item of items) {
+            await this.processItem(item);
+        }
+        return items.length;
+    }
+
+    /**
+     * @private
+     * @method processItem
+     * @description Carries out one outbox item (push, remote delete or remote deactivation) and records the outcome.
+     */
+    private async processItem(item: FhirOutboxEntity): Promise<void> {
+        const label = `outbox item ${item.id} (${item.operation} of patient ${item.patientId} to ${item.endpoint}, attempt ${item.attempts})`;
+        // The user who queued the change is the Provenance agent.
+        const agent = item.createdBy ? { userId: item.createdBy } : undefined;
+        const endpoint = findFhirEndpoint(item.endpoint);
+        if (!endpoint?.enabled) {
+            await this.outboxService.markFailed(
+                item,
+                endpoint
+                    ? `FHIR endpoint '${item.endpoint}' is disabled.`
+                    : `FHIR endpoint '${item.endpoint}' is not configured.`,
+                true
+            );
+            console.warn(`[Outbox Worker] Skipped ${label}: endpoint unavailable.`);
+            return;
+        }
+        try {
+            let result: FhirPushResult | null;
+            if (item.operation === 'upsert') {
+                const patientEntity = await this.patientService.findById(item.patientId);
+                // Also records the result in the patient's sync metadata.
+                // The Provenance records the change the item was queued for.
+                result = await this.fhirService.pushPatientEntity(patientEntity, {
+                    agent,
+                    activity: item.activity ?? undefined,
+                    endpoint,
+                });
+            } else {
+                const owner = await this.findPatientWithPid(item.pid);
+                if (owner) {
+                    await this.outboxService.markFailed(
+                        item,
+                        `PID ${item.pid} now belongs to patient ${owner.id}; its FHIR Patient is left as it is.`,
+                        true
+                    );
+                    return;
+                }
+                result =
+                    item.operation === 'delete'
+                        ? await this.fhirService.deleteRemotePatient(item.pid, endpoint)
+                        : await this.fhirService.deactivateRemotePatient(item.pid, agent, endpoint);
+            }
+            if (!result) {
+                await this.outboxService.markFailed(
+                    item,
+                    'Patient cannot be converted to FHIR (missing PID).',
+                    true
+                );
+                return;
+            }
+            if (result.success) {
+                await this.outboxService.markSucceeded(item);
+                console.log(`[Outbox Worker] Completed ${label}.`);
+                return;
+            }
+
+            // An invalid resource stays invalid until the patient is edited, which enqueues a new item anyway.
+            // A deactivation re-reads the remote copy on every attempt, so its 412 (changed in between) is worth retrying.
+            const permanent =
+                result.validationFailed ||
+                (result.statusCode !== undefined &&
+                    result.statusCode >= 400 &&
+                    result.statusCode < 500 &&
+                    ![408, 429].includes(result.statusCode) &&
+                    !(item.operation === 'deactivate' && result.statusCode === 412));
+            const diagnostics = result.outcome?.issue
+                ?.map((issue) => issue.diagnostics)
+                .filter(Boolean)
+                .join('; ');
+            const status = await this.outboxService.markFailed(
+                item,
+                diagnostics ? `${result.error} ${diagnostics}` : (result.error ?? 'Push failed.'),
+                permanent
+            );
+            console.warn(`[Outbox Worker] Failed ${label}; item is now ${status}.`);
+        } catch (error: any) {
+            if (error instanceof NotFoundError) {
+                await this.outboxService.markFailed(item, 'Patient no longer exists.', true);
+                return;
+            }
+            // E.g., FHIR server URL not configured: keep retrying until it is fixed.
+            console.error(`[Outbox Worker] Error while processing ${label}:`, error);
+            await this.outboxService.markFailed(item, error?.message ?? 'Unexpected error.');
+        }
+    }
+
+    /**
+     * @private
+     * @method findPatientWithPid
+     * @description The local patient currently holding a PID, if any. A deleted patient's PID may have been given to a
+     * new patient since; its remote Patient then belongs to the new one and must not be deleted or deactivated.
+     */
+    private async findPatientWithPid(pid: string): Promise<PatientEntity | null> {
+        try {
+            return await this.patientService.findByPid(pid);
+        } catch (error: any) {
+            if (error instanceof NotFoundError) {
+                return null;
+            }
+            throw error;
+        }
+    }
+}
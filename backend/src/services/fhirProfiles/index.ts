@@ -0,0 +1,28 @@
+// backend/src/services/fhirProfiles/index.ts
+// Output profiles: optional rewrites of the base Patient resource to conform to an implementation guide.
+
+import { Patient } from 'fhir/r5';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { applyTwCoreProfile } from './twcore.profile';
+
+/**
+ * Profile mode of the Patient output:
+ * - `base`: plain FHIR Patient, no `meta.profile`.
+ * - `twcore`: Taiwan Core IG Patient (`Patient-twcore`).
+ */
+export type FhirProfileMode = 'base' | 'twcore';
+
+export const FHIR_PROFILE_MODES: FhirProfileMode[] = ['base', 'twcore'];
+
+/**
+ * Applies a profile mode to a base Patient built from a patient row.
+ * @param {FhirProfileMode} mode - The profile mode.
+ * @param {Patient} patient - The base resource; modified in place.
+ * @param {PatientEntity} patientEntity - The patient row it was built from.
+ * @returns {Patient} The same resource.
+ */
+export const applyFhirProfile = (
+    mode: FhirProfileMode,
+    patient: Patient,
+    patientEntity: PatientEntity
+): Patient => (mode === 'twcore' ? applyTwCoreProfile(patient, patientEntity) : patient);
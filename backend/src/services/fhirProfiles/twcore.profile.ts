@@ -0,0 +1,215 @@
+// backend/src/services/fhirProfiles/twcore.profile.ts
+// Taiwan Core (TW Core IG) Patient profile: identifier classification and structured Taiwanese addresses.
+
+import { Address, Extension, Identifier, Patient } from 'fhir/r5';
+import { PatientEntity } from '../../models/entities/Patient.entity';
+import { PID_IDENTIFIER_SYSTEM } from '../fhirSearch.service';
+
+/** Canonical base URL of the TW Core IG. */
+const TWCORE_BASE = 'https://twcore.mohw.gov.tw/ig/twcore';
+/** Canonical URL of the TW Core Patient profile, set in `meta.profile`. */
+export const TWCORE_PATIENT_PROFILE = `${TWCORE_BASE}/StructureDefinition/Patient-twcore`;
+/** HL7 v2 Table 0203 (Identifier Type), used by TW Core for `identifier.type`. */
+const V2_0203_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+
+/** Kinds of identifiers TW Core defines slices for. */
+export type TwCoreIdentifierKind = 'national-id' | 'resident-certificate' | 'passport' | 'mrn';
+
+/**
+ * Identifier system and type of each TW Core identifier slice. The medical record number uses our PID system,
+ * since the PID is the hospital's own record number when it is not a government-issued ID.
+ */
+export const TWCORE_IDENTIFIERS: Record<
+    TwCoreIdentifierKind,
+    { system: string; typeCode: string; display: string }
+> = {
+    'national-id': {
+        system: 'http://www.moi.gov.tw',
+        typeCode: 'NI',
+        display: 'National unique individual identifier',
+    },
+    'resident-certificate': {
+        system: 'http://www.immigration.gov.tw',
+        typeCode: 'PRC',
+        display: 'Permanent Resident Card Number',
+    },
+    passport: {
+        system: 'http://www.boca.gov.tw',
+        typeCode: 'PPN',
+        display: 'Passport number',
+    },
+    mrn: {
+        system: PID_IDENTIFIER_SYSTEM,
+        typeCode: 'MR',
+        display: 'Medical record number',
+    },
+};
+
+/**
+ * Taiwanese address components emitted as TW Core extensions on `Address.line`, in writing order
+ * (the part of the line after city and district). Each maps to `<TWCORE_BASE>/StructureDefinition/tw-<part>`.
+ */
+const ADDRESS_LINE_PARTS = [
+    'village',
+    'neighborhood',
+    'road',
+    'section',
+    'lane',
+    'alley',
+    'number',
+    'floor',
+    'room',
+] as const;
+type AddressLinePart = (typeof ADDRESS_LINE_PARTS)[number];
+
+/**
+ * Pattern of a Taiwanese address written from largest to smallest unit, e.g.
+ * `100臺北市中正區忠孝西路一段66號5樓之1`. Every part after city and district is optional.
+ */
+const TAIWAN_ADDRESS_PATTERN = new RegExp(
+    '^(?<postalCode>\\d{3}(?:\\d{2,3})?)?\\s*' +
+        '(?<city>[^\\s\\d]{2}[縣市])' +
+        '(?<district>[^\\s\\d]{1,3}?[鄉鎮市區])' +
+        '(?<village>[^\\s\\d]{1,3}?[村里])?' +
+        '(?<neighborhood>\\d+鄰)?' +
+        '(?<road>[^\\s\\d]+?(?:大道|路|街))?' +
+        '(?<section>[0-9一二三四五六七八九十]+段)?' +
+        '(?<lane>[0-9]+巷)?' +
+        '(?<alley>[0-9]+弄)?' +
+        '(?<number>[0-9]+(?:之[0-9]+)?號)?' +
+        '(?<floor>[0-9]+樓(?:之[0-9]+)?)?' +
+        '(?<room>[0-9]+室)?$'
+);
+
+/** Country values meaning Taiwan, mapped to the ISO 3166 code expected by TW Core. */
+const TAIWAN_COUNTRY_NAMES = ['tw', 'twn', 'taiwan', 'roc', '台灣', '臺灣', '中華民國'];
+
+/** Letter values of Taiwanese ID numbers (A=10 ... Z=33, with I, O, W, Z out of alphabetical order). */
+const ID_LETTERS = 'ABCDEFGHJKLMNPQRSTUVXYWZIO';
+
+/**
+ * Verifies the checksum of a 10-character Taiwanese ID number once the second character is a digit.
+ */
+const hasValidIdChecksum = (letter: string, digits: string): boolean => {
+    const letterValue = ID_LETTERS.indexOf(letter) + 10;
+    const weights = [8, 7, 6, 5, 4, 3, 2, 1];
+    const sum =
+        Math.floor(letterValue / 10) +
+        (letterValue % 10) * 9 +
+        weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0) +
+        Number(digits[8]);
+    return sum % 10 === 0;
+};
+
+/**
+ * Classifies a PID by its format:
+ * - National ID (身分證統一編號): a letter, 1 or 2, then 8 digits, with a valid checksum.
+ * - Resident certificate (居留證統一證號): a letter, then A-D (old format) or 8-9 (format since 2021), with a valid checksum.
+ * - Anything else is the hospital's own medical record number.
+ * @param {string} pid - The local PID.
+ * @returns {TwCoreIdentifierKind} The identifier kind.
+ */
+export const classifyPid = (pid: string): TwCoreIdentifierKind => {
+    const value = pid.trim().toUpperCase();
+    const match = /^([A-Z])([0-9A-D])(\d{8})$/.exec(value);
+    if (!match) {
+        return 'mrn';
+    }
+    const [, letter, second, rest] = match;
+    // Old resident certificates use a letter as second character; its value's last digit enters the checksum.
+    const secondDigit = /\d/.test(second) ? second : String((ID_LETTERS.indexOf(second) + 10) % 10);
+    if (!hasValidIdChecksum(letter, secondDigit + rest)) {
+        return 'mrn';
+    }
+    if (second === '1' || second === '2') {
+        return 'national-id';
+    }
+    return /[89A-D]/.test(second) ? 'resident-certificate' : 'mrn';
+};
+
+/**
+ * Builds a TW Core identifier of the given kind.
+ */
+export const buildTwCoreIdentifier = (kind: TwCoreIdentifierKind, value: string): Identifier => {
+    const { system, typeCode, display } = TWCORE_IDENTIFIERS[kind];
+    return {
+        use: 'official',
+        type: { coding: [{ system: V2_0203_SYSTEM, code: typeCode, display }] },
+        system,
+        value: kind === 'mrn' ? value : value.toUpperCase(),
+    };
+};
+
+/**
+ * Splits a free-text Taiwanese address into TW Core Address elements.
+ * @param {string} text - The address as entered (e.g., '臺北市中正區忠孝西路一段66號5樓').
+ * @returns {Partial<Address> | null} `postalCode`, `city`, `district` and `line` with the TW Core part extensions,
+ * or null if the text does not follow the Taiwanese address format (the caller keeps it as `text` only).
+ */
+export const parseTaiwanAddress = (text: string): Partial<Address> | null => {
+    const groups = TAIWAN_ADDRESS_PATTERN.exec(
+        text.replace(/\s+/g, '').replace(/台/g, '臺')
+    )?.groups;
+    if (!groups) {
+        return null;
+    }
+    const parts = ADDRESS_LINE_PARTS.filter((part) => groups[part]);
+    const line = parts.map((part) => groups[part]).join('');
+    const extension: Extension[] = parts.map((part: AddressLinePart) => ({
+        url: `${TWCORE_BASE}/StructureDefinition/tw-${part}`,
+        valueString: groups[part],
+    }));
+    return {
+        postalCode: groups.postalCode,
+        city: groups.city,
+        district: groups.district,
+        line: line ? [line] : undefined,
+        _line: line && extension.length > 0 ? [{ extension }] : undefined,
+    };
+};
+
+/**
+ * Rewrites a base Patient (as built by `FhirService.buildFhirPatient`) to conform to the TW Core Patient profile.
+ * @param {Patient} patient - The base resource; modified in place.
+ * @param {PatientEntity} patientEntity - The patient row it was built from.
+ * @returns {Patient} The same resource.
+ * @design
+ * - `meta.profile` declares TW Core, so validators check the resource against it.
+ * - The PID becomes a typed identifier of its kind (`classifyPid`). For government-issued IDs the
+ *   `urn:ehr:system:pid` identifier is kept next to it (use 'usual'), because searches, imports and reconciliation
+ *   match patients on that system.
+ * - Home addresses in Taiwanese format get city, district, postal code and the TW Core line-part extensions;
+ *   the original text is always kept in `Address.text`.
+ */
+export const applyTwCoreProfile = (patient: Patient, patientEntity: PatientEntity): Patient => {
+    patient.meta = {
+        ...patient.meta,
+        profile: [...(patient.meta?.profile ?? []), TWCORE_PATIENT_PROFILE],
+    };
+
+    const kind = classifyPid(patientEntity.pid);
+    patient.identifier = [
+        buildTwCoreIdentifier(kind, patientEntity.pid),
+        ...(kind === 'mrn'
+            ? []
+            : [{ use: 'usual' as const, system: PID_IDENTIFIER_SYSTEM, value: patientEntity.pid }]),
+    ];
+
+    for (const address of patient.address ?? []) {
+        const parsed = address.text ? parseTaiwanAddress(address.text) : null;
+        if (parsed) {
+            Object.assign(address, {
+                ...parsed,
+                // An explicitly stored postal code wins over one typed in front of the address.
+                postalCode: address.postalCode || parsed.postalCode,
+            });
+        }
+        if (
+            address.country &&
+            TAIWAN_COUNTRY_NAMES.includes(address.country.trim().toLowerCase())
+        ) {
+            address.country = 'TW';
+        }
+    }
+    return patient;
+};
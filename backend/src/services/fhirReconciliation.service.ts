@@ -0,0 +1,381 @@
+// backend/src/services/fhirReconciliation.service.ts
+// Reconciliation runs comparing local patients with the copies stored on the FHIR server, persisted as JSON reports.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Patient } from 'fhir/r5';
+import config from '../config';
+import { PatientService } from './patient.service';
+import { FhirService } from './fhir.service';
+import { PID_IDENTIFIER_SYSTEM } from './fhirSearch.service';
+import { ConflictError, InternalServerError, NotFoundError } from '../utils/error';
+
+/** Number of remote reads in flight at once, to stay polite with the FHIR server. */
+const RECONCILIATION_CONCURRENCY = 5;
+/** Run IDs are UUIDs; anything else is rejected before touching the file system. */
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+/**
+ * Paths that the FHIR server maintains itself and that never match the locally built resource.
+ * A path is ignored when it equals one of these or lies below it.
+ */
+const IGNORED_PATHS = ['meta.versionId', 'meta.lastUpdated', 'meta.source', 'text'];
+
+/**
+ * @interface FhirFieldDifference
+ * @description One element whose value differs between the local and the remote resource.
+ * @property {string} path - FHIRPath-style location, without the resource type (e.g., 'name[0].given[1]').
+ * @property {string | number | boolean | null} local - Value in the resource built from the local patient (null if absent).
+ * @property {string | number | boolean | null} remote - Value in the resource stored on the FHIR server (null if absent).
+ */
+export interface FhirFieldDifference {
+    path: string;
+    local: string | number | boolean | null;
+    remote: string | number | boolean | null;
+}
+
+/**
+ * @interface FhirReconciliationRun
+ * @description A reconciliation run and its report, persisted as `<config.fhir.reconciliationReportDir>/<id>.json`.
+ * @property {string} id - Run ID (UUID).
+ * @property {'in-progress' | 'completed' | 'failed'} status - Current run state.
+ * @property {string} startedAt - When the run started.
+ * @property {string} [completedAt] - When the run finished (successfully or not).
+ * @property {number | null} requestedBy - ID of the user who started the run.
+ * @property {string} targetServerUrl - The FHIR server compared against.
+ * @property {number} processed - Local patients compared so far.
+ * @property {number} total - Local patients to compare.
+ * @property {Object} summary - Counts per category; `inSync` patients are not listed individually.
+ * @property {Array} missingRemote - Local patients the FHIR server does not have (404 or 410).
+ * @property {Array} remoteOnly - Remote Patients carrying our PID identifier whose PID does not exist locally.
+ * @property {Array} changed - Patients present on both sides with at least one differing element.
+ * @property {Array} errors - Patients that could not be compared (not convertible, or the read failed).
+ * @property {string} [error] - Failure reason when `status` is 'failed'.
+ */
+export interface FhirReconciliationRun {
+    id: string;
+    status: 'in-progress' | 'completed' | 'failed';
+    startedAt: string;
+    completedAt?: string;
+    requestedBy: number | null;
+    targetServerUrl: string;
+    processed: number;
+    total: number;
+    summary: {
+        localPatients: number;
+        inSync: number;
+        changed: number;
+        missingRemote: number;
+        remoteOnly: number;
+        errors: number;
+    };
+    missingRemote: { patientId: number; pid: string }[];
+    remoteOnly: { resourceId: string | null; pid: string; versionId: string | null }[];
+    changed: {
+        patientId: number;
+        pid: string;
+        remoteVersionId: string | null;
+        remoteLastUpdated: string | null;
+        differences: FhirFieldDifference[];
+    }[];
+    errors: { patientId: number; pid: string | null; error: string }[];
+    error?: string;
+}
+
+/**
+ * Flattens a resource into `path -> primitive value`, e.g. `{ name: [{ given: ['A'] }] }` -> `{ 'name[0].given[0]': 'A' }`.
+ * Empty objects and arrays produce no entries, so they compare equal to absent elements.
+ */
+const flattenResource = (
+    value: unknown,
+    prefix = '',
+    out: Map<string, string | number | boolean> = new Map()
+): Map<string, string | number | boolean> => {
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => flattenResource(item, `${prefix}[${index}]`, out));
+    } else if (value && typeof value === 'object') {
+        for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+            flattenResource(item, prefix ? `${prefix}.${key}` : key, out);
+        }
+    } else if (value !== undefined && value !== null) {
+        if (
+            !IGNORED_PATHS.some((ignored) => prefix === ignored || prefix.startsWith(`${ignored}.`))
+        ) {
+            out.set(prefix, value as string | number | boolean);
+        }
+    }
+    return out;
+};
+
+/**
+ * Compares two resources element by element.
+ * @returns {FhirFieldDifference[]} The differing elements, ordered by path.
+ */
+export const diffFhirResources = (local: Patient, remote: Patient): FhirFieldDifference[] => {
+    const localValues = flattenResource(local);
+    const remoteValues = flattenResource(remote);
+    const paths = [...new Set([...localValues.keys(), ...remoteValues.keys()])].sort();
+    return paths
+        .filter((key) => localValues.get(key) !== remoteValues.get(key))
+        .map((key) => ({
+            path: key,
+            local: localValues.get(key) ?? null,
+            remote: remoteValues.get(key) ?? null,
+        }));
+};
+
+/**
+ * @class FhirReconciliationService
+ * @description Compares every local patient with its copy on the FHIR server and keeps the reports for auditing.
+ * @design
+ * - Local patients come from `PatientService.findAll()` and are converted with `FhirService.buildFhirPatient`, i.e.
+ *   exactly what a push would send; each is compared with `GET [base]/Patient/{pid}`.
+ * - Remote-only patients are found with one paged search on our PID identifier system, so Patients created on the
+ *   FHIR server by other systems (without our identifier) are out of scope.
+ * - Runs execute in the background; one run at a time. Each report is written to its own JSON file and kept
+ *   until removed by hand, so auditors can be shown past runs. Runs interrupted by a restart are reported as failed.
+ * - The comparison is read-only: it does not touch the sync metadata or queue pushes.
+ */
+export class FhirReconciliationService {
+    private readonly runs = new Map<string, FhirReconciliationRun>();
+
+    constructor(
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {}
+
+    /**
+     * @method startRun
+     * @description Creates a reconciliation run and starts it in the background.
+     * @param {number} [requestedBy] - ID of the user starting the run.
+     * @returns {Promise<FhirReconciliationRun>} The newly created run (status 'in-progress').
+     * @throws {InternalServerError} If the FHIR target server URL is not configured.
+     * @throws {ConflictError} If another run is still in progress.
+     */
+    async startRun(requestedBy?: number): Promise<FhirReconciliationRun> {
+        const targetServerUrl = config.fhir.targetServerUrl;
+        if (!targetServerUrl) {
+            throw new InternalServerError('FHIR target server URL is not configured.');
+        }
+        const running = [...this.runs.values()].find((run) => run.status === 'in-progress');
+        if (running) {
+            throw new ConflictError(`Reconciliation run ${running.id} is still in progress`);
+        }
+
+        const run: FhirReconciliationRun = {
+            id: randomUUID(),
+            status: 'in-progress',
+            startedAt: new Date().toISOString(),
+            requestedBy: requestedBy ?? null,
+            targetServerUrl,
+            processed: 0,
+            total: 0,
+            summary: {
+                localPatients: 0,
+                inSync: 0,
+                changed: 0,
+                missingRemote: 0,
+                remoteOnly: 0,
+                errors: 0,
+            },
+            missingRemote: [],
+            remoteOnly: [],
+            changed: [],
+            errors: [],
+        };
+        await fs.mkdir(config.fhir.reconciliationReportDir, { recursive: true });
+        this.runs.set(run.id, run);
+        await this.saveRun(run);
+        console.log(`[Reconciliation] Run ${run.id} started against ${targetServerUrl}.`);
+
+        // Fire and forget: the caller polls `getRun`.
+        setImmediate(() => {
+            this.executeRun(run).catch((error) => {
+                console.error(`[Reconciliation] Run ${run.id} crashed:`, error);
+            });
+        });
+        return run;
+    }
+
+    /**
+     * @method getRun
+     * @description Returns a run with its full report, from memory or from its JSON file.
+     * @param {string} runId - The run ID.
+     * @returns {Promise<FhirReconciliationRun>} The run.
+     * @throws {NotFoundError} If the run does not exist.
+     */
+    async getRun(runId: string): Promise<FhirReconciliationRun> {
+        const inMemory = this.runs.get(runId);
+        if (inMemory) {
+            return inMemory;
+        }
+        if (!RUN_ID_PATTERN.test(runId)) {
+            throw new NotFoundError(`Reconciliation run ${runId} not found`);
+        }
+        let run: FhirReconciliationRun;
+        try {
+            run = JSON.parse(await fs.readFile(this.runFile(runId), 'utf8'));
+        } catch {
+            throw new NotFoundError(`Reconciliation run ${runId} not found`);
+        }
+        if (run.status === 'in-progress') {
+            // Not running in this process, so the server restarted while the run was in progress.
+            run.status = 'failed';
+            run.error = 'The reconciliation was interrupted by a server restart.';
+            run.completedAt = new Date().toISOString();
+            await this.saveRun(run);
+        }
+        this.runs.set(runId, run);
+        return run;
+    }
+
+    /**
+     * @method listRuns
+     * @description Lists the stored runs, newest first, without their per-patient details.
+     * @returns {Promise<Omit<FhirReconciliationRun, 'missingRemote' | 'remoteOnly' | 'changed' | 'errors'>[]>} Run summaries.
+     */
+    async listRuns(): Promise<
+        Omit<FhirReconciliationRun, 'missingRemote' | 'remoteOnly' | 'changed' | 'errors'>[]
+    > {
+        let fileNames: string[];
+        try {
+            fileNames = await fs.readdir(config.fhir.reconciliationReportDir);
+        } catch {
+            return []; // Directory does not exist yet.
+        }
+        const runs: FhirReconciliationRun[] = [];
+        for (const fileName of fileNames) {
+            const runId = fileName.replace(/\.json$/, '');
+            if (fileName.endsWith('.json') && RUN_ID_PATTERN.test(runId)) {
+                try {
+                    runs.push(await this.getRun(runId));
+                } catch (error) {
+                    console.warn(`[Reconciliation] Could not read run ${runId}:`, error);
+                }
+            }
+        }
+        return runs
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+            .map(
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                ({ missingRemote, remoteOnly, changed, errors, ...summary }) => summary
+            );
+    }
+
+    /**
+     * @private
+     * @method executeRun
+     * @description Compares all local patients, then looks for remote-only patients, and stores the report.
+     */
+    private async executeRun(run: FhirReconciliationRun): Promise<void> {
+        try {
+            const patients = await this.patientService.findAll();
+            const mergeLinks = await this.patientService.findMergeLinks(patients);
+            run.total = patients.length;
+            run.summary.localPatients = patients.length;
+
+            // Simple worker pool: each worker takes the next patient until none is left.
+            let next = 0;
+            const worker = async (): Promise<void> => {
+                while (next < patients.length) {
+                    const patientEntity = patients[next++];
+                    const patientId = patientEntity.id;
+                    const local = this.fhirService.buildFhirPatient(
+                        patientEntity,
+                        mergeLinks.get(patientId)
+                    );
+                    if (!local) {
+                        run.errors.push({
+                            patientId,
+                            pid: patientEntity.pid || null,
+                            error: 'The patient cannot be converted to FHIR (missing PID).',
+                        });
+                    } else {
+                        try {
+                            const remote = await this.fhirService.fetchRemotePatient(
+                                patientEntity.pid
+                            );
+                            if (!remote) {
+                                run.missingRemote.push({ patientId, pid: patientEntity.pid });
+                            } else {
+                                const differences = diffFhirResources(local, remote.resource);
+                                if (differences.length > 0) {
+                                    run.changed.push({
+                                        patientId,
+                                        pid: patientEntity.pid,
+                                        remoteVersionId: remote.versionId ?? null,
+                                        remoteLastUpdated: remote.lastUpdated ?? null,
+                                        differences,
+                                    });
+                                } else {
+                                    run.summary.inSync++;
+                                }
+                            }
+                        } catch (error: any) {
+                            run.errors.push({
+                                patientId,
+                                pid: patientEntity.pid,
+                                error:
+                                    error?.message ??
+                                    'Unexpected error while reading the remote copy.',
+                            });
+                        }
+                    }
+                    run.processed++;
+                }
+            };
+            await Promise.all(Array.from({ length: RECONCILIATION_CONCURRENCY }, () => worker()));
+
+            const localPids = new Set(patients.map((patientEntity) => patientEntity.pid));
+            const remotePatients =
+                await this.fhirService.searchRemotePatientsByIdentifierSystem(
+                    PID_IDENTIFIER_SYSTEM
+                );
+            for (const remotePatient of remotePatients) {
+                const pid = remotePatient.identifier?.find(
+                    (identifier) => identifier.system === PID_IDENTIFIER_SYSTEM
+                )?.value;
+                if (pid && !localPids.has(pid)) {
+                    run.remoteOnly.push({
+                        resourceId: remotePatient.id ?? null,
+                        pid,
+                        versionId: remotePatient.meta?.versionId ?? null,
+                    });
+                }
+            }
+
+            // Workers finish in any order; sort so two reports of the same data are identical.
+            run.missingRemote.sort((a, b) => a.patientId - b.patientId);
+            run.changed.sort((a, b) => a.patientId - b.patientId);
+            run.errors.sort((a, b) => a.patientId - b.patientId);
+            run.remoteOnly.sort((a, b) => a.pid.localeCompare(b.pid));
+            Object.assign(run.summary, {
+                changed: run.changed.length,
+                missingRemote: run.missingRemote.length,
+                remoteOnly: run.remoteOnly.length,
+                errors: run.errors.length,
+            });
+            run.status = 'completed';
+            console.log(
+                `[Reconciliation] Run ${run.id} completed: ${run.summary.inSync} in sync, ${run.summary.changed} changed, ` +
+                    `${run.summary.missingRemote} missing remotely, ${run.summary.remoteOnly} remote-only, ${run.summary.errors} error(s).`
+            );
+        } catch (error: any) {
+            run.status = 'failed';
+            run.error = error?.message ?? 'Unexpected error during reconciliation.';
+            console.error(`[Reconciliation] Run ${run.id} failed:`, error);
+        }
+        run.completedAt = new Date().toISOString();
+        await this.saveRun(run);
+    }
+
+    /** File holding a run's state and report. */
+    private runFile(runId: string): string {
+        return path.join(config.fhir.reconciliationReportDir, `${runId}.json`);
+    }
+
+    /** Persists the run. */
+    private async saveRun(run: FhirReconciliationRun): Promise<void> {
+        await fs.writeFile(this.runFile(run.id), JSON.stringify(run, null, 2));
+    }
+}
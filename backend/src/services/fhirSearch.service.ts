@@ -0,0 +1,428 @@
+// backend/src/services/fhirSearch.service.ts
+// Service implementing the FHIR RESTful search facade (`GET /fhir/Patient`) on top of PatientService.
+
+import {
+    Bundle,
+    BundleEntry,
+    BundleLink,
+    CapabilityStatementRestResourceSearchParam,
+} from 'fhir/r5';
+import {
+    PatientDateCriterion,
+    PatientSearchCriteria,
+    PatientService,
+    PatientSortField,
+    PatientStringCriterion,
+} from './patient.service';
+import { FhirService } from './fhir.service';
+import { BadRequestError } from '../utils/error';
+import { buildOperationOutcome } from '../utils/operationOutcome';
+
+/** Query parameter value as produced by Express' query parser (string, array or nested object). */
+type QueryValue = unknown;
+
+/** Default page size when `_count` is not given. */
+const DEFAULT_PAGE_SIZE = 20;
+/** Upper bound for `_count`, so a single request cannot load the whole table. */
+const MAX_PAGE_SIZE = 100;
+/** Identifier system of the local PID, as emitted by `FhirService.convertDbPatientToFhir`. */
+export const PID_IDENTIFIER_SYSTEM = 'urn:ehr:system:pid';
+
+/** Supported string parameters and the local column(s) they search. */
+const STRING_PARAMETERS: Record<string, 'familyName' | 'givenName' | 'name'> = {
+    family: 'familyName',
+    given: 'givenName',
+    name: 'name',
+};
+
+/** Supported `_sort` keys -> local sort fields. */
+const SORT_PARAMETERS: Record<string, PatientSortField> = {
+    _id: 'pid',
+    identifier: 'pid',
+    family: 'familyName',
+    given: 'givenName',
+    birthdate: 'birthday',
+    gender: 'gender',
+    active: 'active',
+};
+
+/**
+ * The Patient search parameters `searchPatients` handles, as advertised in the CapabilityStatement (`GET /fhir/metadata`).
+ * Keep in step with the parameter branches of `searchPatients`.
+ */
+export const PATIENT_SEARCH_PARAMETERS: CapabilityStatementRestResourceSearchParam[] = [
+    {
+        name: '_id',
+        definition: 'http://hl7.org/fhir/SearchParameter/Resource-id',
+        type: 'token',
+        documentation: 'The PID.',
+    },
+    {
+        name: 'identifier',
+        definition: 'http://hl7.org/fhir/SearchParameter/Patient-identifier',
+        type: 'token',
+        documentation: `PID, as \`[system]|[value]\`, \`|[value]\` or \`[value]\` (system ${PID_IDENTIFIER_SYSTEM}).`,
+    },
+    ...Object.keys(STRING_PARAMETERS).map(
+        (name): CapabilityStatementRestResourceSearchParam => ({
+            name,
+            definition: `http://hl7.org/fhir/SearchParameter/${name === 'given' ? 'individual' : 'Patient'}-${name}`,
+            type: 'string',
+            documentation: 'Starts-with match by default; supports :exact and :contains.',
+        })
+    ),
+    {
+        name: 'birthdate',
+        definition: 'http://hl7.org/fhir/SearchParameter/individual-birthdate',
+        type: 'date',
+        documentation:
+            'Prefixes eq, ne, gt, lt, ge, le, sa and eb at year, month or day precision.',
+    },
+    {
+        name: 'gender',
+        definition: 'http://hl7.org/fhir/SearchParameter/individual-gender',
+        type: 'token',
+    },
+    {
+        name: 'active',
+        definition: 'http://hl7.org/fhir/SearchParameter/Patient-active',
+        type: 'token',
+    },
+];
+
+/** Parameters that control the result set rather than filter it. */
+const RESULT_PARAMETERS = ['_count', '_sort', '_offset'];
+
+/**
+ * @class FhirSearchService
+ * @description Translates FHIR Patient search parameters into `PatientSearchCriteria`, runs the search
+ * through PatientService and wraps the page of results in a `searchset` Bundle with paging links.
+ * @design
+ * - Supported parameters: `_id`, `identifier`, `family`, `given`, `name` (with `:exact` / `:contains`),
+ *   `birthdate` (with `eq|ne|gt|lt|ge|le|sa|eb` prefixes at year, month or day precision), `gender`, `active`,
+ *   plus `_count`, `_sort` and `_offset` for paging.
+ * - Comma-separated values are ORed; repeated parameters are ANDed, as in the FHIR search specification.
+ * - Unknown parameters are ignored and reported in an OperationOutcome entry, unless the client sends
+ *   `Prefer: handling=strict`, in which case they are rejected.
+ * - Paging is offset-based; `link.next` / `link.previous` carry `_offset` and the normalized query.
+ */
+export class FhirSearchService {
+    constructor(
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {}
+
+    /**
+     * @method searchPatients
+     * @description Executes a FHIR Patient search and returns the results as a `searchset` Bundle.
+     * @param {Record<string, QueryValue>} query - The parsed query string (e.g., `req.query`).
+     * @param {string} baseUrl - Base URL of the FHIR facade (e.g., `https://ehr.example.org/fhir`), used for `fullUrl` and links.
+     * @param {boolean} [strict=false] - Whether unknown parameters should be rejected instead of ignored.
+     * @returns {Promise<Bundle>} The searchset Bundle.
+     * @throws {BadRequestError} If a parameter value is malformed or, in strict mode, a parameter is not supported.
+     */
+    async searchPatients(
+        query: Record<string, QueryValue>,
+        baseUrl: string,
+        strict = false
+    ): Promise<Bundle> {
+        const criteria: PatientSearchCriteria = { offset: 0, count: DEFAULT_PAGE_SIZE };
+        const appliedParams = new URLSearchParams();
+        const unsupported: string[] = [];
+        let matchesNothing = false;
+
+        for (const [key, rawValue] of Object.entries(query)) {
+            // Empty parameters (e.g., `family=`) are ignored, as the FHIR search specification requires.
+            const values = this.toStringValues(key, rawValue).filter((value) => value !== '');
+            if (values.length === 0) {
+                continue;
+            }
+            const [param, modifier] = key.split(':', 2);
+
+            if (key === '_format') {
+                // Handled by content negotiation; kept in the paging links so every page comes in the same format.
+                appliedParams.append(key, values[0]);
+                continue;
+            }
+            if (RESULT_PARAMETERS.includes(key)) {
+                continue; // Handled below.
+            }
+
+            if (
+                param in STRING_PARAMETERS &&
+                (!modifier || ['exact', 'contains'].includes(modifier))
+            ) {
+                const field = STRING_PARAMETERS[param];
+                const match = (modifier ?? 'startsWith') as PatientStringCriterion['match'];
+                criteria[field] = [
+                    ...(criteria[field] ?? []),
+                    ...values
+                        .map((value) => ({ values: this.splitOr(value), match }))
+                        .filter((criterion) => criterion.values.length > 0),
+                ];
+            } else if ((key === 'identifier' || key === '_id') && !modifier) {
+                for (const value of values) {
+                    const pids =
+                        key === '_id' ? this.splitOr(value) : this.parseIdentifierTokens(value);
+                    if (pids.length === 0) {
+                        matchesNothing = true;
+                    }
+                    criteria.pid = [...(criteria.pid ?? []), pids];
+                }
+            } else if (key === 'birthdate') {
+                criteria.birthday = [
+                    ...(criteria.birthday ?? []),
+                    ...values.map((value) => this.parseDate(key, value)),
+                ];
+            } else if (key === 'gender') {
+                criteria.gender = [
+                    ...(criteria.gender ?? []),
+                    ...values.map((value) => this.parseGender(value)),
+                ];
+            } else if (key === 'active') {
+                if (values.length !== 1 || !['true', 'false'].includes(values[0])) {
+                    throw new BadRequestError(
+                        `Invalid value for 'active': expected a single 'true' or 'false'.`
+                    );
+                }
+                criteria.active = values[0] === 'true';
+            } else {
+                unsupported.push(key);
+                continue;
+            }
+            values.forEach((value) => appliedParams.append(key, value));
+        }
+
+        if (strict && unsupported.length > 0) {
+            throw new BadRequestError(`Unsupported search parameter(s): ${unsupported.join(', ')}`);
+        }
+
+        criteria.count = this.parseInteger(query._count, '_count', DEFAULT_PAGE_SIZE);
+        criteria.count = Math.min(criteria.count, MAX_PAGE_SIZE);
+        criteria.offset = this.parseInteger(query._offset, '_offset', 0);
+        if (query._sort !== undefined) {
+            criteria.sort = this.parseSort(this.toStringValues('_sort', query._sort).join(','));
+            appliedParams.append('_sort', this.toStringValues('_sort', query._sort).join(','));
+        }
+
+        const { patients, total } = matchesNothing
+            ? { patients: [], total: 0 }
+            : await this.patientService.search(criteria);
+        console.log(
+            `[FHIR Search] Patient search matched ${total} record(s); returning ${patients.length} from offset ${criteria.offset}.`
+        );
+
+        const entry: BundleEntry[] = [];
+        for (const patientEntity of patients) {
+            const resource = this.fhirService.buildFhirPatient(patientEntity);
+            if (resource) {
+                entry.push({
+                    fullUrl: `${baseUrl}/Patient/${resource.id}`,
+                    resource,
+                    search: { mode: 'match' },
+                });
+            }
+        }
+        if (unsupported.length > 0) {
+            entry.push({
+                resource: buildOperationOutcome(
+                    'warning',
+                    'not-supported',
+                    `Ignored unsupported search parameter(s): ${unsupported.join(', ')}`,
+                    unsupported
+                ),
+                search: { mode: 'outcome' },
+            });
+        }
+
+        return {
+            resourceType: 'Bundle',
+            type: 'searchset',
+            timestamp: new Date().toISOString(),
+            total,
+            link: this.buildPagingLinks(baseUrl, appliedParams, criteria, total),
+            entry: entry.length > 0 ? entry : undefined,
+        };
+    }
+
+    /**
+     * @private
+     * @method buildPagingLinks
+     * @description Builds `self`, `previous` and `next` links for an offset-paged searchset.
+     */
+    private buildPagingLinks(
+        baseUrl: string,
+        appliedParams: URLSearchParams,
+        criteria: PatientSearchCriteria,
+        total: number
+    ): BundleLink[] {
+        const pageUrl = (offset: number): string => {
+            const params = new URLSearchParams(appliedParams);
+            params.set('_count', String(criteria.count));
+            params.set('_offset', String(offset));
+            return `${baseUrl}/Patient?${params.toString()}`;
+        };
+
+        const links: BundleLink[] = [{ relation: 'self', url: pageUrl(criteria.offset) }];
+        if (criteria.count > 0 && criteria.offset > 0) {
+            links.push({
+                relation: 'previous',
+                url: pageUrl(Math.max(criteria.offset - criteria.count, 0)),
+            });
+        }
+        if (criteria.count > 0 && criteria.offset + criteria.count < total) {
+            links.push({ relation: 'next', url: pageUrl(criteria.offset + criteria.count) });
+        }
+        return links;
+    }
+
+    /**
+     * @private
+     * @method toStringValues
+     * @description Normalizes a query value to a list of strings (one per repeated parameter).
+     * @throws {BadRequestError} If the value is a nested object (e.g., `family[x]=...`).
+     */
+    private toStringValues(key: string, value: QueryValue): string[] {
+        const values = Array.isArray(value) ? value : [value];
+        if (!values.every((v) => typeof v === 'string')) {
+            throw new BadRequestError(`Invalid value for search parameter '${key}'.`);
+        }
+        return values as string[];
+    }
+
+    /** Splits a comma-separated OR list, honouring `\,` escapes. */
+    private splitOr(value: string): string[] {
+        return value
+            .split(/(?<!\\),/)
+            .map((part) => part.replace(/\\,/g, ',').trim())
+            .filter((part) => part.length > 0);
+    }
+
+    /**
+     * @private
+     * @method parseIdentifierTokens
+     * @description Parses `identifier` tokens (`[system]|[value]`, `|[value]` or `[value]`) into PIDs.
+     * Tokens for another identifier system can never match a local PID and are dropped.
+     */
+    private parseIdentifierTokens(value: string): string[] {
+        const pids: string[] = [];
+        for (const token of this.splitOr(value)) {
+            const separator = token.indexOf('|');
+            if (separator === -1) {
+                pids.push(token);
+                continue;
+            }
+            const system = token.slice(0, separator);
+            const code = token.slice(separator + 1);
+            if ((system === '' || system === PID_IDENTIFIER_SYSTEM) && code) {
+                pids.push(code);
+            }
+        }
+        return pids;
+    }
+
+    /**
+     * @private
+     * @method parseDate
+     * @description Parses a `birthdate` value with an optional prefix into its comparator and implicit range.
+     * @throws {BadRequestError} If the prefix or date is invalid.
+     */
+    private parseDate(key: string, value: string): PatientDateCriterion {
+        const match = /^(eq|ne|gt|lt|ge|le|sa|eb)?(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+        if (!match) {
+            throw new BadRequestError(
+                `Invalid value for '${key}': '${value}'. Expected [prefix]YYYY, [prefix]YYYY-MM or [prefix]YYYY-MM-DD.`
+            );
+        }
+        const [, prefix, yearText, monthText, dayText] = match;
+        const year = parseInt(yearText, 10);
+        const month = monthText ? parseInt(monthText, 10) - 1 : 0;
+        const day = dayText ? parseInt(dayText, 10) : 1;
+
+        const start = new Date(Date.UTC(year, month, day));
+        if (start.getUTCMonth() !== month || start.getUTCDate() !== day) {
+            throw new BadRequestError(
+                `Invalid value for '${key}': '${value}' is not a valid date.`
+            );
+        }
+        const end = new Date(start);
+        if (dayText) {
+            end.setUTCDate(end.getUTCDate() + 1);
+        } else if (monthText) {
+            end.setUTCMonth(end.getUTCMonth() + 1);
+        } else {
+            end.setUTCFullYear(end.getUTCFullYear() + 1);
+        }
+
+        return {
+            comparator: (prefix ?? 'eq') as PatientDateCriterion['comparator'],
+            start: start.toISOString().slice(0, 10),
+            end: end.toISOString().slice(0, 10),
+        };
+    }
+
+    /**
+     * @private
+     * @method parseGender
+     * @description Parses a comma-separated list of FHIR gender codes into one gender criterion.
+     * @throws {BadRequestError} If a code is not part of the AdministrativeGender value set.
+     */
+    private parseGender(value: string): NonNullable<PatientSearchCriteria['gender']>[number] {
+        const criterion: { values: string[]; otherThan?: string[] } = { values: [] };
+        const codes = this.splitOr(value);
+        for (const code of codes) {
+            const mapped = this.fhirService.mapFhirGenderToSearchCriterion(code);
+            if (!mapped) {
+                throw new BadRequestError(
+                    `Invalid value for 'gender': '${code}'. Expected male, female, other or unknown.`
+                );
+            }
+            criterion.values.push(...mapped.values);
+            if (mapped.otherThan) {
+                criterion.otherThan = mapped.otherThan;
+            }
+        }
+        if (codes.length === 0) {
+            throw new BadRequestError(`Invalid value for 'gender': '${value}'.`);
+        }
+        return criterion;
+    }
+
+    /**
+     * @private
+     * @method parseSort
+     * @description Parses `_sort` (e.g., `family,-birthdate`) into local sort fields.
+     * @throws {BadRequestError} If a sort key is not supported.
+     */
+    private parseSort(value: string): PatientSearchCriteria['sort'] {
+        return this.splitOr(value).map((key) => {
+            const descending = key.startsWith('-');
+            const field = SORT_PARAMETERS[descending ? key.slice(1) : key];
+            if (!field) {
+                throw new BadRequestError(
+                    `Unsupported _sort parameter '${key}'. Supported: ${Object.keys(SORT_PARAMETERS).join(', ')}.`
+                );
+            }
+            return { field, direction: descending ? 'DESC' : 'ASC' };
+        });
+    }
+
+    /**
+     * @private
+     * @method parseInteger
+     * @description Parses a non-negative integer result parameter such as `_count` or `_offset`.
+     * @throws {BadRequestError} If the value is not a non-negative integer.
+     */
+    private parseInteger(value: QueryValue, key: string, fallback: number): number {
+        if (value === undefined) {
+            return fallback;
+        }
+        const values = this.toStringValues(key, value);
+        if (values.length !== 1 || !/^\d+$/.test(values[0])) {
+            throw new BadRequestError(
+                `Invalid value for '${key}': expected a single non-negative integer.`
+            );
+        }
+        return parseInt(values[0], 10);
+    }
+}
@@ -0,0 +1,344 @@
+// backend/src/services/fhirSubscription.service.ts
+// Inbound side of the FHIR integration: Subscription rest-hook notifications about Patients changed on the FHIR server
+// by other systems, applied to the local patient or queued for review.
+
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import config from '../config';
+import {
+    FhirInboundChangeEntity,
+    FhirInboundChangeStatus,
+} from '../models/entities/FhirInboundChange.entity';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { PatientService, UpdatePatientDto } from './patient.service';
+import { FhirService } from './fhir.service';
+import { FhirSyncService } from './fhirSync.service';
+import { PID_IDENTIFIER_SYSTEM } from './fhirSearch.service';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/error';
+
+/** `Patient/{id}` at the end of a reference or URL, optionally followed by `/_history/{vid}`. */
+const PATIENT_REFERENCE_PATTERN = /(?:^|\/)Patient\/([A-Za-z0-9\-.]{1,64})(?:\/_history\/[^/]+)?$/;
+
+/**
+ * @interface FhirNotificationResult
+ * @description What happened to one Patient named by a notification.
+ * @property {string} resourceId - Logical id of the remote Patient.
+ * @property {'applied' | 'queued' | 'ignored'} outcome - Applied to the local patient, queued for review, or nothing to do.
+ * @property {string} message - Human-readable explanation (e.g., why it was queued or ignored).
+ * @property {number} [changeId] - ID of the `fhir_inbound_changes` row, for applied and queued changes.
+ */
+export interface FhirNotificationResult {
+    resourceId: string;
+    outcome: 'applied' | 'queued' | 'ignored';
+    message: string;
+    changeId?: number;
+}
+
+/**
+ * Returns the logical id of the Patient a reference or URL points to, or undefined if it is not a Patient.
+ */
+const toPatientId = (reference: unknown): string | undefined =>
+    typeof reference === 'string' ? PATIENT_REFERENCE_PATTERN.exec(reference)?.[1] : undefined;
+
+/**
+ * Lists the Patients a rest-hook notification is about. The body is read as sent (no release conversion), since
+ * only references are needed and they look the same in every release:
+ * - A Patient resource (full-resource payload of an R4 Subscription): its id.
+ * - A notification Bundle (R5 `subscription-notification`, or R4 backport `history`): the focus of each
+ *   `SubscriptionStatus.notificationEvent` (or R4 backport `notification-event` parameter), plus the Patient entries.
+ * Handshake and heartbeat notifications name no Patient.
+ * @param {any} body - The parsed request body.
+ * @returns {string[]} Logical ids of the notified Patients, without duplicates.
+ */
+export const extractNotifiedPatientIds = (body: any): string[] => {
+    const ids = new Set<string>();
+    const add = (id: string | undefined): void => {
+        if (id) ids.add(id);
+    };
+    if (body?.resourceType === 'Patient') {
+        add(typeof body.id === 'string' ? body.id : undefined);
+    } else if (body?.resourceType === 'Bundle') {
+        for (const entry of Array.isArray(body.entry) ? body.entry : []) {
+            const resource = entry?.resource;
+            if (resource?.resourceType === 'SubscriptionStatus') {
+                for (const event of resource.notificationEvent ?? []) {
+                    add(toPatientId(event?.focus?.reference));
+                }
+            } else if (resource?.resourceType === 'Parameters') {
+                for (const parameter of resource.parameter ?? []) {
+                    if (parameter?.name !== 'notification-event') continue;
+                    for (const part of parameter.part ?? []) {
+                        if (part?.name === 'focus') {
+                            add(toPatientId(part.valueReference?.reference));
+                        }
+                    }
+                }
+            } else if (resource?.resourceType === 'Patient' && typeof resource.id === 'string') {
+                add(resource.id);
+            } else {
+                add(toPatientId(entry?.fullUrl) ?? toPatientId(entry?.request?.url));
+            }
+        }
+    }
+    return [...ids];
+};
+
+/**
+ * @class FhirSubscriptionService
+ * @description Processes Subscription notifications from the FHIR server and maintains the review queue
+ * (`fhir_inbound_changes`).
+ * @design
+ * - Notifications are only a trigger: the Patient is always read again from the FHIR server, so the current version
+ *   is used whatever the payload (empty, id-only or full resource) and however late the notification arrives.
+ * - Patients are matched on their `urn:ehr:system:pid` identifier, not on their logical id, so Patients created by
+ *   other systems under another id are matched too. Patients without that identifier are not ours and are ignored.
+ * - Our own pushes notify us as well; a remote version equal to the one recorded by our last push is ignored.
+ * - A change is applied automatically only when it is safe: the local patient exists, is in sync (no local change
+ *   the server has not seen), and the remote Patient maps completely. Everything else is queued for review, and a
+ *   newer change of the same remote Patient supersedes the pending ones.
+ * - Applying writes the local patient without queueing a push, then records the remote version in the sync
+ *   metadata, as if that version had been pushed: the next push updates it instead of conflicting with it.
+ */
+export class FhirSubscriptionService {
+    private readonly inboundRepository: Repository<FhirInboundChangeEntity>;
+    private readonly fhirSyncService: FhirSyncService;
+
+    constructor(
+        private readonly patientService: PatientService,
+        private readonly fhirService: FhirService
+    ) {
+        this.inboundRepository = AppDataSource.getRepository(FhirInboundChangeEntity);
+        this.fhirSyncService = new FhirSyncService();
+    }
+
+    /**
+     * @method handleNotification
+     * @description Processes the Patients named by one notification, one after the other.
+     * @param {string[]} resourceIds - Logical ids of the remote Patients (see `extractNotifiedPatientIds`).
+     * @returns {Promise<FhirNotificationResult[]>} One result per Patient.
+     * @throws {InternalServerError} If the FHIR server cannot be read (the notification should then be retried).
+     */
+    async handleNotification(resourceIds: string[]): Promise<FhirNotificationResult[]> {
+        const results: FhirNotificationResult[] = [];
+        for (const resourceId of resourceIds) {
+            const result = await this.processPatient(resourceId);
+            console.log(
+                `[FHIR Subscription] Patient/${resourceId}: ${result.outcome} - ${result.message}`
+            );
+            results.push(result);
+        }
+        return results;
+    }
+
+    /**
+     * @method list
+     * @description Lists inbound changes, newest first, optionally filtered by status.
+     * @param {{ status?: FhirInboundChangeStatus; limit: number; offset: number }} options - Filter and paging.
+     * @returns {Promise<{ items: FhirInboundChangeEntity[]; total: number }>} The page and the total for the filter.
+     */
+    async list(options: {
+        status?: FhirInboundChangeStatus;
+        limit: number;
+        offset: number;
+    }): Promise<{ items: FhirInboundChangeEntity[]; total: number }> {
+        const [items, total] = await this.inboundRepository.findAndCount({
+            where: options.status ? { status: options.status } : {},
+            order: { id: 'DESC' },
+            take: options.limit,
+            skip: options.offset,
+        });
+        return { items, total };
+    }
+
+    /**
+     * @method apply
+     * @description Applies a pending change: the mapped remote fields overwrite the local patient (or create it when
+     * no local patient had the PID).
+     * @param {number} id - Inbound change ID.
+     * @param {number} [reviewerId] - ID of the user applying the change.
+     * @returns {Promise<FhirInboundChangeEntity>} The updated change.
+     * @throws {NotFoundError} If the change, or the local patient it was matched to, does not exist.
+     * @throws {ConflictError} If the change is not pending, or its PID now belongs to another local patient.
+     * @throws {UnprocessableEntityError} If the change would create a patient but required fields are missing or invalid.
+     */
+    async apply(id: number, reviewerId?: number): Promise<FhirInboundChangeEntity> {
+        const change = await this.findPending(id);
+        if (
+            !change.patientId &&
+            change.report.some((issue) => ['missing', 'invalid'].includes(issue.status))
+        ) {
+            throw new UnprocessableEntityError(
+                `Inbound change ${id} cannot create a patient: required fields are missing or invalid.`
+            );
+        }
+        await this.applyChange(change);
+        change.reviewedBy = reviewerId ?? null;
+        change.reviewedAt = new Date();
+        return this.inboundRepository.save(change);
+    }
+
+    /**
+     * @method reject
+     * @description Rejects a pending change; the local patient stays as it is. The row is kept for auditing.
+     * @param {number} id - Inbound change ID.
+     * @param {number} [reviewerId] - ID of the user rejecting the change.
+     * @returns {Promise<FhirInboundChangeEntity>} The updated change.
+     * @throws {NotFoundError} If the change does not exist.
+     * @throws {ConflictError} If the change is not pending.
+     */
+    async reject(id: number, reviewerId?: number): Promise<FhirInboundChangeEntity> {
+        const change = await this.findPending(id);
+        change.status = 'rejected';
+        change.reviewedBy = reviewerId ?? null;
+        change.reviewedAt = new Date();
+        return this.inboundRepository.save(change);
+    }
+
+    /**
+     * @private
+     * @method processPatient
+     * @description Reads one notified Patient, matches it to a local patient and applies, queues or ignores the change.
+     */
+    private async processPatient(resourceId: string): Promise<FhirNotificationResult> {
+        const remote = await this.fhirService.fetchRemotePatient(resourceId);
+        if (!remote) {
+            return {
+                resourceId,
+                outcome: 'ignored',
+                message: 'The Patient no longer exists on the FHIR server.',
+            };
+        }
+        const pid = remote.resource.identifier?.find(
+            (identifier) => identifier.system === PID_IDENTIFIER_SYSTEM
+        )?.value;
+        if (!pid) {
+            return {
+                resourceId,
+                outcome: 'ignored',
+                message: `The Patient has no ${PID_IDENTIFIER_SYSTEM} identifier; it is not an EHR patient.`,
+            };
+        }
+
+        let local: PatientEntity | null = null;
+        try {
+            local = await this.patientService.findByPid(pid);
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+        }
+        if (local && remote.versionId) {
+            const pushedVersion = (await this.fhirSyncService.getRemoteVersionIds([local.id])).get(
+                local.id
+            );
+            if (pushedVersion === remote.versionId) {
+                return {
+                    resourceId,
+                    outcome: 'ignored',
+                    message: `Version ${remote.versionId} is the one we pushed.`,
+                };
+            }
+        }
+
+        const { patientData, report, importable } = this.fhirService.convertFhirToDbPatient(
+            remote.resource
+        );
+        if (local && importable && !this.changesPatient(local, patientData)) {
+            return {
+                resourceId,
+                outcome: 'ignored',
+                message: `Version ${remote.versionId ?? '(unknown)'} changes none of the fields stored locally.`,
+            };
+        }
+
+        let reason: string | undefined;
+        if (!local) {
+            reason = `No local patient has PID ${pid}.`;
+        } else if (!importable) {
+            reason = 'The remote Patient cannot be mapped: required fields are missing or invalid.';
+        } else if (!config.fhir.subscription.autoApply) {
+            reason = 'Automatic application of remote changes is disabled.';
+        } else {
+            const { state } = await this.fhirSyncService.getSyncStatus(local);
+            if (state !== 'in-sync') {
+                reason = `The local patient is not in sync with the FHIR server (state '${state}').`;
+            }
+        }
+
+        // Only the newest remote version of a Patient is worth reviewing.
+        await this.inboundRepository.update(
+            { remoteResourceId: resourceId, status: 'pending' },
+            { status: 'superseded' }
+        );
+        const lastUpdated = remote.lastUpdated ? new Date(remote.lastUpdated) : null;
+        const change = this.inboundRepository.create({
+            patientId: local?.id ?? null,
+            pid,
+            remoteResourceId: resourceId,
+            remoteVersionId: remote.versionId ?? null,
+            remoteLastUpdated: lastUpdated && !isNaN(lastUpdated.getTime()) ? lastUpdated : null,
+            status: 'pending',
+            reason: reason ?? null,
+            resource: remote.resource,
+            patientData,
+            report,
+        });
+        if (reason) {
+            await this.inboundRepository.save(change);
+            return { resourceId, outcome: 'queued', message: reason, changeId: change.id };
+        }
+        await this.applyChange(change);
+        await this.inboundRepository.save(change);
+        return {
+            resourceId,
+            outcome: 'applied',
+            message: `Version ${remote.versionId ?? '(unknown)'} applied to local patient ${local!.id}.`,
+            changeId: change.id,
+        };
+    }
+
+    /**
+     * @private
+     * @method applyChange
+     * @description Writes the change to the local patient and records the remote version in the sync metadata.
+     * Marks the change as applied (the caller saves it).
+     */
+    private async applyChange(change: FhirInboundChangeEntity): Promise<void> {
+        const saved = await this.patientService.saveFromFhirServer(
+            change.patientData as UpdatePatientDto,
+            change.patientId ?? undefined
+        );
+        // The remote Patient is the one we push to only if its logical id is the PID.
+        const resource = await this.fhirService.buildLinkedFhirPatient(saved);
+        if (resource && resource.id === change.remoteResourceId) {
+            await this.fhirSyncService.recordPush(saved, resource, {
+                success: true,
+                versionId: change.remoteVersionId ?? undefined,
+                lastUpdated: change.remoteLastUpdated?.toISOString(),
+            });
+        }
+        change.patientId = saved.id;
+        change.status = 'applied';
+    }
+
+    /**
+     * @private
+     * @method changesPatient
+     * @description Whether any mapped field differs from the local patient (absent and empty count as equal).
+     */
+    private changesPatient(local: PatientEntity, patientData: UpdatePatientDto): boolean {
+        return (Object.keys(patientData) as (keyof UpdatePatientDto)[]).some(
+            (key) => String(patientData[key] ?? '') !== String(local[key] ?? '')
+        );
+    }
+
+    /** Loads one pending change, or throws `NotFoundError` / `ConflictError`. */
+    private async findPending(id: number): Promise<FhirInboundChangeEntity> {
+        const change = await this.inboundRepository.findOneBy({ id });
+        if (!change) {
+            throw new NotFoundError(`Inbound change ${id} not found`);
+        }
+        if (change.status !== 'pending') {
+            throw new ConflictError(`Inbound change ${id} is ${change.status}, not pending`);
+        }
+        return change;
+    }
+}
@@ -0,0 +1,339 @@
+// backend/src/services/fhirSync.service.ts
+// Per-patient, per-endpoint FHIR synchronization metadata: recording push results and deriving the sync state shown in the UI.
+
+import { createHash } from 'crypto';
+import { OperationOutcome, Patient } from 'fhir/r5';
+import { In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import config from '../config';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { FhirPushOutcome, PatientFhirSyncEntity } from '../models/entities/PatientFhirSync.entity';
+import { getFhirEndpoints, isRoutedToFhirEndpoint } from './fhirEndpoints';
+
+/**
+ * Sync state of a patient, derived from its `patient_fhir_sync` row:
+ * - `never-pushed`: no push was ever attempted.
+ * - `conflict`: the last push was rejected with 412 because the remote resource changed since our last push.
+ * - `failed`: the last push attempt failed for another reason.
+ * - `modified`: the last push succeeded, but the patient changed locally since.
+ * - `in-sync`: the FHIR server has the current local version.
+ */
+export type FhirSyncState = 'never-pushed' | 'conflict' | 'failed' | 'modified' | 'in-sync';
+
+/** Values of the `syncStatus` list filter: a sync state, or `out-of-sync` for every state but `in-sync`. */
+export type FhirSyncFilter = FhirSyncState | 'out-of-sync';
+
+export const FHIR_SYNC_FILTERS: FhirSyncFilter[] = [
+    'never-pushed',
+    'conflict',
+    'failed',
+    'modified',
+    'in-sync',
+    'out-of-sync',
+];
+
+/**
+ * SQL conditions implementing each filter, for a query joining `patients` as `patient` with the primary endpoint's
+ * `patient_fhir_sync` row as `sync` (LEFT JOIN). Must stay equivalent to `FhirSyncService.deriveState`.
+ * `patient.updated_at` is truncated to milliseconds because the value stored in `synced_local_updated_at`
+ * went through a JavaScript `Date`.
+ */
+const LOCAL_CHANGED_SQL =
+    "(sync.synced_local_updated_at IS NULL OR date_trunc('milliseconds', patient.updated_at) > sync.synced_local_updated_at)";
+export const FHIR_SYNC_FILTER_SQL: Record<FhirSyncFilter, string> = {
+    'never-pushed': 'sync.patient_id IS NULL',
+    conflict: "sync.last_push_result = 'conflict'",
+    failed: "sync.last_push_result = 'failed'",
+    modified: `sync.last_push_result = 'success' AND ${LOCAL_CHANGED_SQL}`,
+    'in-sync': `sync.last_push_result = 'success' AND NOT (${LOCAL_CHANGED_SQL})`,
+    'out-of-sync': `sync.patient_id IS NULL OR sync.last_push_result <> 'success' OR ${LOCAL_CHANGED_SQL}`,
+};
+
+/**
+ * @interface FhirEndpointSyncStatus
+ * @description Sync metadata of one patient on one FHIR endpoint.
+ * All fields but `endpoint` and `state` are null when the patient was never pushed there.
+ */
+export interface FhirEndpointSyncStatus {
+    endpoint: string;
+    state: FhirSyncState;
+    lastPushAt: Date | null;
+    lastPushResult: FhirPushOutcome | null;
+    lastPushStatusCode: number | null;
+    lastPushError: string | null;
+    syncedLocalUpdatedAt: Date | null;
+    remoteVersionId: string | null;
+    remoteLastUpdated: Date | null;
+    lastPushedHash: string | null;
+    lastOperationOutcome: OperationOutcome | null;
+}
+
+/**
+ * @interface PatientFhirSyncStatus
+ * @description Sync metadata of one patient as returned by `GET /api/patients/:id` (`fhirSync` property): the state on
+ * the primary endpoint, plus `endpoints` with the state on every endpoint the patient is routed to (primary first).
+ */
+export interface PatientFhirSyncStatus extends FhirEndpointSyncStatus {
+    endpoints: FhirEndpointSyncStatus[];
+}
+
+/**
+ * @interface FhirPushRecord
+ * @description What a push path reports to `FhirSyncService.recordPush`.
+ * @property {boolean} success - Whether the FHIR server accepted the resource.
+ * @property {number} [statusCode] - HTTP status returned by the server.
+ * @property {string} [error] - Failure reason.
+ * @property {OperationOutcome} [outcome] - OperationOutcome returned by the server.
+ * @property {string} [versionId] - Remote `meta.versionId` after a successful push.
+ * @property {string} [lastUpdated] - Remote `meta.lastUpdated` after a successful push.
+ */
+export interface FhirPushRecord {
+    success: boolean;
+    statusCode?: number;
+    error?: string;
+    outcome?: OperationOutcome;
+    versionId?: string;
+    lastUpdated?: string;
+}
+
+/**
+ * Serializes a value with object keys sorted, so equal resources always produce the same string.
+ */
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * Computes the SHA-256 (hex) of a FHIR resource's canonical JSON. Server-assigned `meta.versionId` and
+ * `meta.lastUpdated` are ignored so a resource read back from the server hashes like the one we sent.
+ * @param {Patient} resource - The resource to hash.
+ * @returns {string} 64-character hex digest.
+ */
+export const hashFhirResource = (resource: Patient): string => {
+    let hashed: Patient = resource;
+    if (resource.meta) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { versionId, lastUpdated, ...meta } = resource.meta;
+        hashed = { ...resource, meta: Object.keys(meta).length > 0 ? meta : undefined };
+    }
+    return createHash('sha256').update(canonicalJson(hashed)).digest('hex');
+};
+
+/**
+ * @class FhirSyncService
+ * @description Maintains the `patient_fhir_sync` table and derives each patient's sync state.
+ * @design
+ * - One row per patient and endpoint. The methods default to the primary endpoint (`FHIR_TARGET_SERVER_NAME`), whose
+ *   state is the patient's sync state in lists, filters and conflict handling.
+ * - Every push path (outbox worker, manual push, batch push) reports its result here through `FhirService`,
+ *   so the metadata does not depend on how the patient was pushed.
+ * - A failed push only overwrites the "last push" fields; what we know about the remote copy
+ *   (versionId, lastUpdated, hash, synced version) is kept from the last successful push.
+ * - "Modified" compares `patients.updated_at` with the version that was pushed, both taken from the database clock,
+ *   so clock skew between the database and the application cannot mark fresh pushes as stale.
+ */
+export class FhirSyncService {
+    private readonly syncRepository: Repository<PatientFhirSyncEntity>;
+
+    constructor() {
+        this.syncRepository = AppDataSource.getRepository(PatientFhirSyncEntity);
+    }
+
+    /**
+     * @method recordPush
+     * @description Stores the result of one push attempt for a patient.
+     * @param {PatientEntity} patientEntity - The patient row the pushed resource was built from.
+     * @param {Patient} resource - The resource that was sent.
+     * @param {FhirPushRecord} result - How the push ended.
+     * @param {Date} [pushedAt=new Date()] - When the push was made.
+     * @param {string} [endpoint] - Name of the endpoint pushed to (default: the primary endpoint).
+     * @returns {Promise<void>}
+     */
+    async recordPush(
+        patientEntity: PatientEntity,
+        resource: Patient,
+        result: FhirPushRecord,
+        pushedAt: Date = new Date(),
+        endpoint: string = config.fhir.targetServerName
+    ): Promise<void> {
+        const lastUpdated = result.lastUpdated ? new Date(result.lastUpdated) : undefined;
+        const row: Partial<PatientFhirSyncEntity> = {
+            patientId: patientEntity.id,
+            endpoint,
+            lastPushAt: pushedAt,
+            lastPushResult: result.success
+                ? 'success'
+                : result.statusCode === 412
+                  ? 'conflict'
+                  : 'failed',
+            lastPushStatusCode: result.statusCode ?? null,
+            lastPushError: result.success ? null : (result.error ?? 'Push failed.'),
+            lastOperationOutcome: result.outcome ?? null,
+        };
+        if (result.success) {
+            Object.assign(row, {
+                syncedLocalUpdatedAt: patientEntity.updatedAt,
+                remoteVersionId: result.versionId ?? null,
+                remoteLastUpdated:
+                    lastUpdated && !isNaN(lastUpdated.getTime()) ? lastUpdated : null,
+                lastPushedHash: hashFhirResource(resource),
+            });
+        }
+        await this.syncRepository.upsert(row, ['patientId', 'endpoint']);
+    }
+
+    /**
+     * @method getRemoteVersionIds
+     * @description Returns the remote `meta.versionId` known from the last successful push of each patient,
+     * i.e. the version the next push must match (`If-Match`).
+     * @param {number[]} patientIds - Internal patient IDs.
+     * @param {string} [endpoint] - Name of the endpoint (default: the primary endpoint).
+     * @returns {Promise<Map<number, string>>} Version per patient ID; patients never pushed successfully are absent.
+     */
+    async getRemoteVersionIds(
+        patientIds: number[],
+        endpoint: string = config.fhir.targetServerName
+    ): Promise<Map<number, string>> {
+        if (patientIds.length === 0) {
+            return new Map();
+        }
+        const rows = await this.syncRepository.find({
+            select: { patientId: true, remoteVersionId: true },
+            where: { patientId: In(patientIds), endpoint },
+        });
+        return new Map(
+            rows
+                .filter((row) => row.remoteVersionId)
+                .map((row) => [row.patientId, row.remoteVersionId!])
+        );
+    }
+
+    /**
+     * @method getPushedPatientIds
+     * @description Tells which patients were pushed successfully at least once, i.e. exist on the FHIR server
+     * as far as we know (a later failed push keeps `synced_local_updated_at` of the last successful one).
+     * @param {number[]} patientIds - Internal patient IDs.
+     * @param {string} [endpoint] - Name of the endpoint (default: the primary endpoint).
+     * @returns {Promise<Set<number>>} The IDs of the patients pushed before.
+     */
+    async getPushedPatientIds(
+        patientIds: number[],
+        endpoint: string = config.fhir.targetServerName
+    ): Promise<Set<number>> {
+        if (patientIds.length === 0) {
+            return new Set();
+        }
+        const rows = await this.syncRepository.find({
+            select: { patientId: true, syncedLocalUpdatedAt: true },
+            where: { patientId: In(patientIds), endpoint },
+        });
+        return new Set(rows.filter((row) => row.syncedLocalUpdatedAt).map((row) => row.patientId));
+    }
+
+    /**
+     * @method countPushResultsByEndpoint
+     * @description Counts the patients per last push result on each endpoint (for the endpoints dashboard).
+     * @returns {Promise<Map<string, Record<string, number>>>} Per endpoint name, the number of patients per
+     * `last_push_result`; endpoints nobody was pushed to are absent.
+     */
+    async countPushResultsByEndpoint(): Promise<Map<string, Record<string, number>>> {
+        const rows: { endpoint: string; result: string; count: string }[] =
+            await this.syncRepository
+                .createQueryBuilder('sync')
+                .select('sync.endpoint', 'endpoint')
+                .addSelect('sync.last_push_result', 'result')
+                .addSelect('COUNT(*)', 'count')
+                .groupBy('sync.endpoint')
+                .addGroupBy('sync.last_push_result')
+                .getRawMany();
+        const counts = new Map<string, Record<string, number>>();
+        for (const row of rows) {
+            counts.set(row.endpoint, {
+                ...counts.get(row.endpoint),
+                [row.result]: Number(row.count),
+            });
+        }
+        return counts;
+    }
+
+    /**
+     * @method getSyncStatus
+     * @description Returns the sync metadata and derived state of a patient, on the primary endpoint and on every
+     * endpoint it is routed to or was pushed to before.
+     * @param {PatientEntity} patientEntity - The patient.
+     * @returns {Promise<PatientFhirSyncStatus>} The sync status (state `never-pushed` with null fields if never pushed).
+     */
+    async getSyncStatus(patientEntity: PatientEntity): Promise<PatientFhirSyncStatus> {
+        const rows = await this.syncRepository.findBy({ patientId: patientEntity.id });
+        const endpoints = getFhirEndpoints()
+            .filter(
+                (endpoint) =>
+                    endpoint.primary ||
+                    (endpoint.enabled && isRoutedToFhirEndpoint(endpoint, patientEntity)) ||
+                    rows.some((row) => row.endpoint === endpoint.name)
+            )
+            .map((endpoint) =>
+                this.toEndpointStatus(
+                    patientEntity,
+                    endpoint.name,
+                    rows.find((row) => row.endpoint === endpoint.name) ?? null
+                )
+            );
+        return { ...endpoints[0], endpoints };
+    }
+
+    /**
+     * @private
+     * @method toEndpointStatus
+     * @description The sync status of a patient on one endpoint, from its row (null if never pushed there).
+     */
+    private toEndpointStatus(
+        patientEntity: PatientEntity,
+        endpoint: string,
+        sync: PatientFhirSyncEntity | null
+    ): FhirEndpointSyncStatus {
+        return {
+            endpoint,
+            state: this.deriveState(patientEntity, sync),
+            lastPushAt: sync?.lastPushAt ?? null,
+            lastPushResult: sync?.lastPushResult ?? null,
+            lastPushStatusCode: sync?.lastPushStatusCode ?? null,
+            lastPushError: sync?.lastPushError ?? null,
+            syncedLocalUpdatedAt: sync?.syncedLocalUpdatedAt ?? null,
+            remoteVersionId: sync?.remoteVersionId ?? null,
+            remoteLastUpdated: sync?.remoteLastUpdated ?? null,
+            lastPushedHash: sync?.lastPushedHash ?? null,
+            lastOperationOutcome: sync?.lastOperationOutcome ?? null,
+        };
+    }
+
+    /**
+     * @private
+     * @method deriveState
+     * @description JavaScript twin of `FHIR_SYNC_FILTER_SQL`.
+     */
+    private deriveState(
+        patientEntity: PatientEntity,
+        sync: PatientFhirSyncEntity | null
+    ): FhirSyncState {
+        if (!sync) return 'never-pushed';
+        if (sync.lastPushResult === 'conflict') return 'conflict';
+        if (sync.lastPushResult !== 'success') return 'failed';
+        if (
+            !sync.syncedLocalUpdatedAt ||
+            patientEntity.updatedAt.getTime() > sync.syncedLocalUpdatedAt.getTime()
+        ) {
+            return 'modified';
+        }
+        return 'in-sync';
+    }
+}
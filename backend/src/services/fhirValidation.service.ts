@@ -0,0 +1,599 @@
+// backend/src/services/fhirValidation.service.ts
+// In-process validation of generated FHIR resources against the base definitions and the local profiles, before they leave the server.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Fhir, ParseConformance, ValidatorMessage } from 'fhir';
+import * as fhirpath from 'fhirpath';
+import fhirpathR5Model from 'fhirpath/fhir-context/r5';
+import type { FhirResource, OperationOutcome, OperationOutcomeIssue } from 'fhir/r5';
+import config from '../config';
+import { getFhirConverter } from './fhirVersions';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * @interface ElementConstraint
+ * @description An invariant (`ElementDefinition.constraint`) evaluated with FHIRPath on every instance of its element.
+ */
+interface ElementConstraint {
+    key: string;
+    severity: 'error' | 'warning';
+    human: string;
+    expression: string;
+    source?: string;
+}
+
+/**
+ * @interface ProfileElement
+ * @description The parts of an `ElementDefinition` the validator checks.
+ * @property {string} path - Element path, e.g. 'Patient.name.family'.
+ * @property {number} [min] - Minimum cardinality, per instance of the parent element.
+ * @property {string} [max] - Maximum cardinality ('*' for unbounded).
+ * @property {string} [valueSet] - Canonical URL of the ValueSet of a `required` binding.
+ * @property {{ value: unknown; exact: boolean }} [fixedValue] - `fixed[x]` (exact) or `pattern[x]` (subset) value.
+ * @property {ElementConstraint[]} [constraint] - Invariants of the element.
+ */
+interface ProfileElement {
+    path: string;
+    min?: number;
+    max?: string;
+    valueSet?: string;
+    fixedValue?: { value: unknown; exact: boolean };
+    constraint?: ElementConstraint[];
+}
+
+/**
+ * @interface LocalProfile
+ * @description A StructureDefinition loaded from the local profile directory.
+ */
+interface LocalProfile {
+    url: string;
+    name: string;
+    type: string;
+    file: string;
+    elements: ProfileElement[];
+}
+
+/** A node of the resource being validated, with its FHIRPath-style location (e.g. 'Patient.name[0]'). */
+interface LocatedNode {
+    node: unknown;
+    location: string;
+}
+
+/**
+ * Invariants of the base specification the `fhir` package validator does not evaluate.
+ * `ele-1` (no empty elements) is checked separately, for every element.
+ */
+const BASE_CONSTRAINTS: Record<string, ProfileElement[]> = {
+    Patient: [
+        {
+            path: 'Patient.contact',
+            constraint: [
+                {
+                    key: 'pat-1',
+                    severity: 'error',
+                    human: "SHALL at least contain a contact's details or a reference to an organization",
+                    expression:
+                        'name.exists() or telecom.exists() or address.exists() or organization.exists()',
+                },
+            ],
+        },
+        ...['Patient.telecom', 'Patient.contact.telecom'].map((elementPath) => ({
+            path: elementPath,
+            constraint: [
+                {
+                    key: 'cpt-2',
+                    severity: 'error' as const,
+                    human: 'A system is required if a value is provided.',
+                    expression: 'value.empty() or system.exists()',
+                },
+            ],
+        })),
+    ],
+};
+
+/** Issue returned when a resource passes every check (the same wording as the reference validators). */
+const NO_ISSUES: OperationOutcomeIssue = {
+    severity: 'information',
+    code: 'informational',
+    diagnostics: 'No issues detected during validation',
+};
+
+/**
+ * Parsed base definitions and validator of the `fhir` package. Loading them takes a moment, so it is done once,
+ * on first use, and shared by every service instance. ValueSets and CodeSystems of the local profile
+ * directory are added to the same parser.
+ */
+let baseValidator: { parser: ParseConformance; fhir: Fhir } | undefined;
+const getBaseValidator = (): { parser: ParseConformance; fhir: Fhir } => {
+    if (!baseValidator) {
+        const parser = new ParseConformance(true);
+        baseValidator = { parser, fhir: new Fhir(parser) };
+    }
+    return baseValidator;
+};
+
+/** Local profiles by directory, loaded once per process. */
+const profileCache = new Map<string, Promise<LocalProfile[]>>();
+
+/**
+ * Returns true if an outcome contains an error or fatal issue, i.e. the resource must not be sent.
+ * @param {OperationOutcome} outcome - An outcome produced by `FhirValidationService.validate`.
+ * @returns {boolean} Whether the outcome has blocking issues.
+ */
+export const hasValidationErrors = (outcome: OperationOutcome): boolean =>
+    outcome.issue.some((issue) => issue.severity === 'error' || issue.severity === 'fatal');
+
+/** Strips the `|version` suffix of a canonical URL. */
+const canonical = (url: string): string => url.split('|')[0];
+
+const isObject = (value: unknown): value is JsonObject =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Returns the children of a node named `name`, one entry per repetition. A choice element (`value[x]`)
+ * matches whichever typed variant is present (`valueString`, `valueCoding`, ...).
+ */
+const childNodes = (parent: LocatedNode, name: string): LocatedNode[] => {
+    if (!isObject(parent.node)) {
+        return [];
+    }
+    const keys = name.endsWith('[x]')
+        ? Object.keys(parent.node).filter((key) => {
+              const prefix = name.slice(0, -3);
+              return key.startsWith(prefix) && /^[A-Z]/.test(key.slice(prefix.length));
+          })
+        : [name];
+    return keys.flatMap((key) => {
+        const value = (parent.node as JsonObject)[key];
+        if (Array.isArray(value)) {
+            return value.map((item, index) => ({
+                node: item,
+                location: `${parent.location}.${key}[${index}]`,
+            }));
+        }
+        return value === undefined || value === null
+            ? []
+            : [{ node: value, location: `${parent.location}.${key}` }];
+    });
+};
+
+/** Returns every instance of an element path ('Patient.contact.telecom') in a resource. */
+const resolvePath = (resource: JsonObject, elementPath: string): LocatedNode[] => {
+    const [root, ...segments] = elementPath.split('.');
+    let nodes: LocatedNode[] = [{ node: resource, location: root }];
+    for (const segment of segments) {
+        nodes = nodes.flatMap((node) => childNodes(node, segment));
+    }
+    return nodes;
+};
+
+/** `pattern[x]` semantics: every property and repetition of the pattern must be found in the value. */
+const matchesPattern = (value: unknown, pattern: unknown): boolean => {
+    if (Array.isArray(pattern)) {
+        return (
+            Array.isArray(value) &&
+            pattern.every((item) => value.some((candidate) => matchesPattern(candidate, item)))
+        );
+    }
+    if (isObject(pattern)) {
+        return (
+            isObject(value) &&
+            Object.entries(pattern).every(([key, item]) => matchesPattern(value[key], item))
+        );
+    }
+    return value === pattern;
+};
+
+/** Returns the `{ system, code }` pairs of a `code`, `Coding` or `CodeableConcept` value. */
+const codingsOf = (value: unknown): { system?: string; code?: string }[] => {
+    if (typeof value === 'string') {
+        return [{ code: value }];
+    }
+    if (!isObject(value)) {
+        return [];
+    }
+    if (Array.isArray(value.coding)) {
+        return value.coding.filter(isObject) as { system?: string; code?: string }[];
+    }
+    return 'code' in value ? [value as { system?: string; code?: string }] : [];
+};
+
+/** Maps a message of the `fhir` package validator to an issue type. */
+const issueCodeOf = (message: string): OperationOutcomeIssue['code'] => {
+    if (message.startsWith('Missing property')) return 'required';
+    if (message.startsWith('Unexpected property')) return 'structure';
+    if (message.includes('not found in value set')) return 'code-invalid';
+    return 'value';
+};
+
+/**
+ * @class FhirValidationService
+ * @description Validates FHIR resources in-process, so bad resources are caught before a FHIR server rejects them.
+ * @design
+ * - Base definitions: structure, cardinality, primitive formats and required bindings are checked by the `fhir`
+ *   package validator, which ships the FHIR R4 (4.0.1) definitions. The resource is validated in its R4 form
+ *   (`./fhirVersions`), since every R5-only element we produce has an R4 representation.
+ * - Base invariants the package does not evaluate (`ele-1`, `pat-1`, `cpt-2`) are checked here.
+ * - Local profiles: every StructureDefinition in `config.fhir.validationProfileDir` whose `type` matches the
+ *   resource is applied, from its snapshot (or differential when there is no snapshot): cardinality, required
+ *   bindings (ValueSets and CodeSystems of the same directory, or the base ones), `fixed[x]`/`pattern[x]` and
+ *   constraints evaluated with FHIRPath. Slices (element ids containing ':') are not checked.
+ * - Profiles are our own rules for what we send, so they apply whether or not the resource names them in
+ *   `meta.profile`. A declared profile that is not available locally is reported as information only.
+ */
+export class FhirValidationService {
+    private readonly profileDir: string;
+
+    /**
+     * @param {string} [profileDir=config.fhir.validationProfileDir] - Directory of local profile JSON files.
+     */
+    constructor(profileDir: string = config.fhir.validationProfileDir) {
+        this.profileDir = profileDir;
+    }
+
+    /**
+     * @method validate
+     * @description Validates a resource against the base definitions and the local profiles.
+     * @param {FhirResource} resource - The resource (internal R5 model); not modified.
+     * @returns {Promise<OperationOutcome>} One issue per problem, with `expression` locating it; a single
+     * information issue when there is none. Use `hasValidationErrors` to decide whether the resource may be sent.
+     * Unreadable profile files are logged and skipped rather than failing the validation.
+     */
+    async validate(resource: FhirResource): Promise<OperationOutcome> {
+        const copy = JSON.parse(JSON.stringify(resource)) as JsonObject;
+        const issues: OperationOutcomeIssue[] = [
+            ...this.checkBaseDefinition(resource),
+            ...this.checkEmptyElements(copy, String(copy.resourceType)),
+        ];
+        for (const element of BASE_CONSTRAINTS[resource.resourceType] ?? []) {
+            issues.push(...this.checkConstraints(copy, element));
+        }
+
+        const profiles = (await this.loadProfiles()).filter(
+            (profile) => profile.type === resource.resourceType
+        );
+        for (const declared of resource.meta?.profile ?? []) {
+            if (!profiles.some((profile) => profile.url === canonical(declared))) {
+                issues.push({
+                    severity: 'information',
+                    code: 'not-supported',
+                    diagnostics: `Profile ${declared} is not available locally and was not checked.`,
+                    expression: [`${resource.resourceType}.meta.profile`],
+                });
+            }
+        }
+        for (const profile of profiles) {
+            issues.push(...this.checkProfile(copy, profile));
+        }
+
+        return {
+            resourceType: 'OperationOutcome',
+            issue: issues.length > 0 ? issues : [NO_ISSUES],
+        };
+    }
+
+    /**
+     * @private
+     * @method checkBaseDefinition
+     * @description Runs the `fhir` package validator on the R4 form of the resource.
+     * Its informational messages (e.g. "Value set ... could not be found") are not reported.
+     */
+    private checkBaseDefinition(resource: FhirResource): OperationOutcomeIssue[] {
+        const r4Resource = getFhirConverter('R4').fromInternal(resource);
+        const { messages } = getBaseValidator().fhir.validate(r4Resource, {
+            errorOnUnexpected: true,
+        });
+        return messages
+            .filter((message: ValidatorMessage) => message.severity !== 'info')
+            .map((message: ValidatorMessage) => ({
+                severity:
+                    message.severity === 'fatal'
+                        ? 'fatal'
+                        : message.severity === 'warning'
+                          ? 'warning'
+                          : 'error',
+                code: issueCodeOf(message.message ?? ''),
+                diagnostics: message.message,
+                expression: message.location ? [message.location] : undefined,
+            }));
+    }
+
+    /**
+     * @private
+     * @method checkEmptyElements
+     * @description Invariant `ele-1`: every element must have a value or children, so empty strings, objects
+     * and arrays (e.g. a `name` with nothing in it) are errors.
+     */
+    private checkEmptyElements(node: unknown, location: string): OperationOutcomeIssue[] {
+        const isEmpty =
+            node === '' ||
+            (Array.isArray(node) && node.length === 0) ||
+            (isObject(node) && Object.values(node).every((value) => value === undefined));
+        if (isEmpty) {
+            return [
+                {
+                    severity: 'error',
+                    code: 'invariant',
+                    diagnostics: `ele-1: All FHIR elements must have a @value or children (${location} is empty).`,
+                    expression: [location],
+                },
+            ];
+        }
+        if (Array.isArray(node)) {
+            return node.flatMap((item, index) =>
+                this.checkEmptyElements(item, `${location}[${index}]`)
+            );
+        }
+        if (isObject(node)) {
+            return Object.entries(node)
+                .filter(([, value]) => value !== undefined && value !== null)
+                .flatMap(([key, value]) => this.checkEmptyElements(value, `${location}.${key}`));
+        }
+        return [];
+    }
+
+    /**
+     * @private
+     * @method checkProfile
+     * @description Checks every element rule of a local profile.
+     */
+    private checkProfile(resource: JsonObject, profile: LocalProfile): OperationOutcomeIssue[] {
+        const issues: OperationOutcomeIssue[] = [];
+        const label = `(profile ${profile.name})`;
+        for (const element of profile.elements) {
+            const separator = element.path.lastIndexOf('.');
+            if (separator > 0 && (element.min !== undefined || element.max !== undefined)) {
+                const parentPath = element.path.slice(0, separator);
+                const name = element.path.slice(separator + 1);
+                for (const parent of resolvePath(resource, parentPath)) {
+                    const count = childNodes(parent, name).length;
+                    if (element.min !== undefined && count < element.min) {
+                        issues.push({
+                            severity: 'error',
+                            code: 'required',
+                            diagnostics: `${element.path}: minimum required = ${element.min}, but only found ${count} ${label}`,
+                            expression: [`${parent.location}.${name}`],
+                        });
+                    }
+                    if (element.max && element.max !== '*' && count > Number(element.max)) {
+                        issues.push({
+                            severity: 'error',
+                            code: 'structure',
+                            diagnostics: `${element.path}: max allowed = ${element.max}, but found ${count} ${label}`,
+                            expression: [`${parent.location}.${name}`],
+                        });
+                    }
+                }
+            }
+
+            const instances =
+                element.valueSet || element.fixedValue ? resolvePath(resource, element.path) : [];
+            for (const instance of instances) {
+                if (element.valueSet) {
+                    const issue = this.checkRequiredBinding(instance, element.valueSet, label);
+                    if (issue) issues.push(issue);
+                }
+                if (element.fixedValue) {
+                    const { value, exact } = element.fixedValue;
+                    const matches = exact
+                        ? JSON.stringify(instance.node) === JSON.stringify(value)
+                        : matchesPattern(instance.node, value);
+                    if (!matches) {
+                        issues.push({
+                            severity: 'error',
+                            code: 'value',
+                            diagnostics: `${element.path}: value must ${exact ? 'be' : 'match'} ${JSON.stringify(value)} ${label}`,
+                            expression: [instance.location],
+                        });
+                    }
+                }
+            }
+            issues.push(...this.checkConstraints(resource, element, label));
+        }
+        return issues;
+    }
+
+    /**
+     * @private
+     * @method checkRequiredBinding
+     * @description Checks that a coded value comes from the ValueSet of a `required` binding.
+     * @returns {OperationOutcomeIssue | null} The issue, or null if the value is in the ValueSet.
+     */
+    private checkRequiredBinding(
+        instance: LocatedNode,
+        valueSetUrl: string,
+        label: string
+    ): OperationOutcomeIssue | null {
+        const valueSet = getBaseValidator().parser.parsedValueSets[canonical(valueSetUrl)];
+        if (!valueSet) {
+            return {
+                severity: 'warning',
+                code: 'not-found',
+                diagnostics: `ValueSet ${valueSetUrl} is not available locally; the binding was not checked ${label}`,
+                expression: [instance.location],
+            };
+        }
+        const inValueSet = codingsOf(instance.node).some(({ system, code }) =>
+            valueSet.systems.some(
+                (valueSetSystem) =>
+                    (!system || valueSetSystem.uri === system) &&
+                    valueSetSystem.codes.some((concept) => concept.code === code)
+            )
+        );
+        return inValueSet
+            ? null
+            : {
+                  severity: 'error',
+                  code: 'code-invalid',
+                  diagnostics: `The value provided is not in the required ValueSet ${valueSetUrl} ${label}`,
+                  expression: [instance.location],
+              };
+    }
+
+    /**
+     * @private
+     * @method checkConstraints
+     * @description Evaluates the invariants of an element on each of its instances. An invariant holds only
+     * if its expression evaluates to `true`; expressions that cannot be evaluated are reported as warnings.
+     */
+    private checkConstraints(
+        resource: JsonObject,
+        element: ProfileElement,
+        label = ''
+    ): OperationOutcomeIssue[] {
+        const issues: OperationOutcomeIssue[] = [];
+        for (const constraint of element.constraint ?? []) {
+            for (const instance of resolvePath(resource, element.path)) {
+                let result: unknown[];
+                try {
+                    result = fhirpath.evaluate(
+                        instance.node,
+                        { base: element.path, expression: constraint.expression },
+                        { resource, rootResource: resource },
+                        fhirpathR5Model
+                    ) as unknown[];
+                } catch (error: any) {
+                    issues.push({
+                        severity: 'warning',
+                        code: 'processing',
+                        diagnostics:
+                            `${constraint.key}: cannot evaluate '${constraint.expression}': ${error?.message}`.trim(),
+                        expression: [instance.location],
+                    });
+                    continue;
+                }
+                if (!(result.length === 1 && result[0] === true)) {
+                    issues.push({
+                        severity: constraint.severity,
+                        code: 'invariant',
+                        diagnostics: `${constraint.key}: ${constraint.human} ${label}`.trim(),
+                        expression: [instance.location],
+                    });
+                }
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * @private
+     * @method loadProfiles
+     * @description Reads the local profile directory once: CodeSystems and ValueSets are added to the parser,
+     * StructureDefinitions become `LocalProfile`s. A missing directory means no local profiles.
+     */
+    private loadProfiles(): Promise<LocalProfile[]> {
+        let profiles = profileCache.get(this.profileDir);
+        if (!profiles) {
+            profiles = this.readProfileDir();
+            profileCache.set(this.profileDir, profiles);
+        }
+        return profiles;
+    }
+
+    private async readProfileDir(): Promise<LocalProfile[]> {
+        let files: string[];
+        try {
+            files = (await fs.readdir(this.profileDir))
+                .filter((file) => file.endsWith('.json'))
+                .sort();
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                console.error(
+                    `[FHIR Validation] Cannot read profile directory ${this.profileDir}:`,
+                    error
+                );
+            }
+            return [];
+        }
+
+        const resources: { file: string; resource: JsonObject }[] = [];
+        for (const file of files) {
+            try {
+                const resource = JSON.parse(
+                    await fs.readFile(path.join(this.profileDir, file), 'utf8')
+                );
+                resources.push({ file, resource });
+            } catch (error) {
+                console.error(`[FHIR Validation] Skipping unreadable profile file ${file}:`, error);
+            }
+        }
+
+        // CodeSystems first, so ValueSets that include a whole local CodeSystem can be expanded.
+        const { parser } = getBaseValidator();
+        for (const type of ['CodeSystem', 'ValueSet']) {
+            for (const { file, resource } of resources.filter(
+                (item) => item.resource.resourceType === type
+            )) {
+                try {
+                    if (type === 'CodeSystem') parser.loadCodeSystem(resource);
+                    else parser.parseValueSet(resource);
+                } catch (error) {
+                    console.error(`[FHIR Validation] Skipping invalid ${type} in ${file}:`, error);
+                }
+            }
+        }
+
+        const profiles = resources
+            .filter(({ resource }) => resource.resourceType === 'StructureDefinition')
+            .map(({ file, resource }) => this.toLocalProfile(file, resource));
+        console.log(
+            `[FHIR Validation] Loaded ${profiles.length} local profile(s) from ${this.profileDir}: ${profiles.map((profile) => profile.url).join(', ') || '-'}`
+        );
+        return profiles;
+    }
+
+    /**
+     * @private
+     * @method toLocalProfile
+     * @description Extracts the checked rules from a StructureDefinition. Constraints inherited from the base
+     * specification (`constraint.source` under http://hl7.org/fhir/) are left to the base checks.
+     */
+    private toLocalProfile(file: string, structureDefinition: JsonObject): LocalProfile {
+        const snapshot = structureDefinition.snapshot as { element?: JsonObject[] } | undefined;
+        const differential = structureDefinition.differential as
+            | { element?: JsonObject[] }
+            | undefined;
+        const elements = (snapshot?.element ?? differential?.element ?? [])
+            .filter((element) => !String(element.id ?? element.path).includes(':'))
+            .map((element): ProfileElement => {
+                const binding = element.binding as
+                    | { strength?: string; valueSet?: string }
+                    | undefined;
+                const fixedKey = Object.keys(element).find(
+                    (key) => key.startsWith('fixed') || key.startsWith('pattern')
+                );
+                const constraint = (
+                    (element.constraint as ElementConstraint[] | undefined) ?? []
+                ).filter(
+                    (item) =>
+                        item.expression &&
+                        !item.source?.startsWith('http://hl7.org/fhir/StructureDefinition/')
+                );
+                return {
+                    path: String(element.path),
+                    min: typeof element.min === 'number' ? element.min : undefined,
+                    max: typeof element.max === 'string' ? element.max : undefined,
+                    valueSet:
+                        binding?.strength === 'required' && binding.valueSet
+                            ? binding.valueSet
+                            : undefined,
+                    fixedValue: fixedKey
+                        ? { value: element[fixedKey], exact: fixedKey.startsWith('fixed') }
+                        : undefined,
+                    constraint: constraint.map((item) => ({
+                        ...item,
+                        severity: item.severity === 'warning' ? 'warning' : 'error',
+                    })),
+                };
+            });
+        return {
+            url: canonical(String(structureDefinition.url)),
+            name: String(structureDefinition.name ?? structureDefinition.id ?? file),
+            type: String(structureDefinition.type),
+            file,
+            elements,
+        };
+    }
+}
@@ -0,0 +1,88 @@
+// backend/src/services/fhirVersions/index.ts
+// FHIR version registry: supported versions, parsing of version labels, and the per-version resource converters.
+
+import type { FhirResource } from 'fhir/r5';
+import { R4Converter } from './r4.converter';
+import { R5Converter } from './r5.converter';
+
+/** FHIR releases this server can produce and consume. R5 is the internal model (`fhir/r5` types). */
+export type FhirVersion = 'R4' | 'R5';
+
+export const FHIR_VERSIONS: FhirVersion[] = ['R4', 'R5'];
+
+/**
+ * Per-version identifiers:
+ * - `fhirVersion`: the full release number, as used in `CapabilityStatement.fhirVersion`.
+ * - `mimeVersion`: the `fhirVersion` MIME-type parameter (`application/fhir+json; fhirVersion=4.0`), i.e. major.minor.
+ */
+export const FHIR_VERSION_INFO: Record<FhirVersion, { fhirVersion: string; mimeVersion: string }> =
+    {
+        R4: { fhirVersion: '4.0.1', mimeVersion: '4.0' },
+        R5: { fhirVersion: '5.0.0', mimeVersion: '5.0' },
+    };
+
+/**
+ * @interface FhirVersionConverter
+ * @description Converts resources between the internal R5 model and one FHIR release.
+ * Only the resource types this server exchanges (Patient, Bundle, OperationOutcome, ConceptMap, Parameters) are rewritten;
+ * anything else passes through unchanged.
+ */
+export interface FhirVersionConverter {
+    readonly version: FhirVersion;
+    /**
+     * Converts an internal (R5) resource into this release, for responses and pushes.
+     * @param {FhirResource} resource - The R5 resource; not modified.
+     * @returns {Record<string, unknown>} A new resource valid in this release.
+     */
+    fromInternal(resource: FhirResource): Record<string, unknown>;
+    /**
+     * Converts a resource received in this release (request body, read from the FHIR server) into the internal model.
+     * @param {Record<string, unknown>} resource - The resource as parsed from JSON; not modified.
+     * @returns {FhirResource} A new R5 resource.
+     */
+    toInternal(resource: Record<string, unknown>): FhirResource;
+}
+
+const CONVERTERS: Record<FhirVersion, FhirVersionConverter> = {
+    R4: new R4Converter(),
+    R5: new R5Converter(),
+};
+
+/**
+ * Returns the converter of a FHIR release.
+ * @param {FhirVersion} version - The release.
+ * @returns {FhirVersionConverter} Its converter.
+ */
+export const getFhirConverter = (version: FhirVersion): FhirVersionConverter => CONVERTERS[version];
+
+/**
+ * Parses a FHIR version label: a release name ('R4', 'r5'), a MIME parameter value ('4.0')
+ * or a full release number ('4.0.1').
+ * @param {string} value - The label.
+ * @returns {FhirVersion | undefined} The release, or undefined if it is not supported.
+ */
+export const parseFhirVersion = (value: string): FhirVersion | undefined => {
+    const label = value.trim().replace(/^"|"$/g, '').toUpperCase();
+    return FHIR_VERSIONS.find(
+        (version) =>
+            label === version ||
+            label === FHIR_VERSION_INFO[version].mimeVersion ||
+            label.startsWith(`${FHIR_VERSION_INFO[version].mimeVersion}.`)
+    );
+};
+
+/**
+ * Builds the JSON content type of a release, e.g. `application/fhir+json; fhirVersion=4.0`.
+ * @param {FhirVersion} version - The release.
+ * @returns {string} The content type.
+ */
+export const fhirJsonContentType = (version: FhirVersion): string =>
+    `application/fhir+json; fhirVersion=${FHIR_VERSION_INFO[version].mimeVersion}`;
+
+/**
+ * Builds the XML content type of a release, e.g. `application/fhir+xml; fhirVersion=4.0`.
+ * @param {FhirVersion} version - The release.
+ * @returns {string} The content type.
+ */
+export const fhirXmlContentType = (version: FhirVersion): string =>
+    `application/fhir+xml; fhirVersion=${FHIR_VERSION_INFO[version].mimeVersion}`;
@@ -0,0 +1,190 @@
+// backend/src/services/fhirVersions/r4.converter.ts
+// R4 (4.0.1) <-> internal R5 conversion for the resource types this server exchanges.
+
+import type { FhirResource } from 'fhir/r5';
+import type { FhirVersion, FhirVersionConverter } from '.';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * R5 elements without an R4 counterpart, carried in R4 as the cross-version extensions defined by HL7
+ * (`http://hl7.org/fhir/5.0/StructureDefinition/extension-<path>`), with the value type of each element.
+ */
+const PATIENT_CONTACT_R5_ELEMENTS: { element: string; valueKey: string }[] = [
+    { element: 'additionalName', valueKey: 'valueHumanName' },
+    { element: 'additionalAddress', valueKey: 'valueAddress' },
+];
+const crossVersionExtensionUrl = (path: string): string =>
+    `http://hl7.org/fhir/5.0/StructureDefinition/extension-${path}`;
+
+/** R5 `ConceptMap` relationship -> R4 equivalence (R4 states it from the target's point of view). */
+const RELATIONSHIP_TO_EQUIVALENCE: Record<string, string> = {
+    'related-to': 'relatedto',
+    equivalent: 'equivalent',
+    'source-is-narrower-than-target': 'wider',
+    'source-is-broader-than-target': 'narrower',
+    'not-related-to': 'disjoint',
+};
+
+/** Deep copy of a JSON value. */
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const asObjects = (value: unknown): JsonObject[] =>
+    Array.isArray(value) ? value.filter((item) => item && typeof item === 'object') : [];
+
+/**
+ * @class R4Converter
+ * @description Converts Patient, Bundle, OperationOutcome, ConceptMap and Parameters resources between FHIR R4 and the internal R5 model.
+ * @design Only the differences that affect these resources are handled:
+ * - `Patient.contact.additionalName` / `additionalAddress` (new in R5) travel as cross-version extensions in R4,
+ *   so a resource round-trips through an R4 server without losing data.
+ * - `Bundle.issues` (new in R5) becomes an entry with `search.mode = 'outcome'`, the R4 way of attaching
+ *   warnings to a searchset. Other Bundle types have no place for it in R4, so it is dropped.
+ * - The `success` issue severity and issue type (new in R5) become `information` / `informational`.
+ * - Bundle entries (`resource`, `response.outcome`) are converted recursively.
+ * - ConceptMap and `$translate` output Parameters (only ever sent, never received) carry `equivalence` instead of
+ *   `relationship`, and the R4 names of the scope and `originMap` elements.
+ */
+export class R4Converter implements FhirVersionConverter {
+    readonly version: FhirVersion = 'R4';
+
+    fromInternal(resource: FhirResource): Record<string, unknown> {
+        return this.downgrade(clone(resource) as unknown as JsonObject);
+    }
+
+    toInternal(resource: Record<string, unknown>): FhirResource {
+        return this.upgrade(clone(resource)) as unknown as FhirResource;
+    }
+
+    /** R5 -> R4, in place on a copy. */
+    private downgrade(resource: JsonObject): JsonObject {
+        switch (resource.resourceType) {
+            case 'Patient':
+                for (const contact of asObjects(resource.contact)) {
+                    for (const { element, valueKey } of PATIENT_CONTACT_R5_ELEMENTS) {
+                        const values = contact[element];
+                        delete contact[element];
+                        if (Array.isArray(values) && values.length > 0) {
+                            contact.extension = [
+                                ...asObjects(contact.extension),
+                                ...values.map((value) => ({
+                                    url: crossVersionExtensionUrl(`Patient.contact.${element}`),
+                                    [valueKey]: value,
+                                })),
+                            ];
+                        }
+                    }
+                }
+                break;
+            case 'Bundle': {
+                const entries = asObjects(resource.entry);
+                entries.forEach((entry) => this.convertEntry(entry, (r) => this.downgrade(r)));
+                const issues = resource.issues as JsonObject | undefined;
+                delete resource.issues;
+                if (issues && resource.type === 'searchset') {
+                    entries.push({
+                        resource: this.downgrade(issues),
+                        search: { mode: 'outcome' },
+                    });
+                }
+                resource.entry = entries.length > 0 ? entries : undefined;
+                break;
+            }
+            case 'OperationOutcome':
+                for (const issue of asObjects(resource.issue)) {
+                    if (issue.severity === 'success') issue.severity = 'information';
+                    if (issue.code === 'success') issue.code = 'informational';
+                }
+                break;
+            case 'ConceptMap':
+                for (const [r5, r4] of [
+                    ['sourceScopeUri', 'sourceUri'],
+                    ['sourceScopeCanonical', 'sourceCanonical'],
+                    ['targetScopeUri', 'targetUri'],
+                    ['targetScopeCanonical', 'targetCanonical'],
+                ]) {
+                    if (resource[r5] !== undefined) {
+                        resource[r4] = resource[r5];
+                        delete resource[r5];
+                    }
+                }
+                for (const group of asObjects(resource.group)) {
+                    for (const element of asObjects(group.element)) {
+                        for (const target of asObjects(element.target)) {
+                            target.equivalence =
+                                RELATIONSHIP_TO_EQUIVALENCE[target.relationship as string];
+                            delete target.relationship;
+                        }
+                    }
+                    const unmapped = group.unmapped as JsonObject | undefined;
+                    if (unmapped) {
+                        delete unmapped.relationship;
+                        if (unmapped.mode === 'use-source-code') unmapped.mode = 'provided';
+                    }
+                }
+                break;
+            case 'Parameters':
+                for (const match of asObjects(resource.parameter)) {
+                    if (match.name !== 'match') continue;
+                    for (const part of asObjects(match.part)) {
+                        if (part.name === 'relationship') {
+                            part.name = 'equivalence';
+                            part.valueCode = RELATIONSHIP_TO_EQUIVALENCE[part.valueCode as string];
+                        } else if (part.name === 'originMap') {
+                            part.name = 'source';
+                            part.valueUri = part.valueCanonical;
+                            delete part.valueCanonical;
+                        }
+                    }
+                }
+                break;
+        }
+        return resource;
+    }
+
+    /** R4 -> R5, in place on a copy. */
+    private upgrade(resource: JsonObject): JsonObject {
+        switch (resource.resourceType) {
+            case 'Patient':
+                for (const contact of asObjects(resource.contact)) {
+                    const extensions = asObjects(contact.extension);
+                    for (const { element, valueKey } of PATIENT_CONTACT_R5_ELEMENTS) {
+                        const url = crossVersionExtensionUrl(`Patient.contact.${element}`);
+                        const values = extensions
+                            .filter((extension) => extension.url === url)
+                            .map((extension) => extension[valueKey]);
+                        if (values.length > 0) {
+                            contact[element] = values;
+                        }
+                    }
+                    const remaining = extensions.filter(
+                        (extension) =>
+                            !PATIENT_CONTACT_R5_ELEMENTS.some(
+                                ({ element }) =>
+                                    extension.url ===
+                                    crossVersionExtensionUrl(`Patient.contact.${element}`)
+                            )
+                    );
+                    contact.extension = remaining.length > 0 ? remaining : undefined;
+                }
+                break;
+            case 'Bundle':
+                asObjects(resource.entry).forEach((entry) =>
+                    this.convertEntry(entry, (r) => this.upgrade(r))
+                );
+                break;
+        }
+        return resource;
+    }
+
+    /** Applies a conversion to the resources nested in a Bundle entry. */
+    private convertEntry(entry: JsonObject, convert: (resource: JsonObject) => JsonObject): void {
+        if (entry.resource && typeof entry.resource === 'object') {
+            entry.resource = convert(entry.resource as JsonObject);
+        }
+        const response = entry.response as JsonObject | undefined;
+        if (response?.outcome && typeof response.outcome === 'object') {
+            response.outcome = convert(response.outcome as JsonObject);
+        }
+    }
+}
@@ -0,0 +1,23 @@
+// backend/src/services/fhirVersions/r5.converter.ts
+// R5 converter. R5 is the internal model, so resources only need to be copied.
+
+import type { FhirResource } from 'fhir/r5';
+import type { FhirVersion, FhirVersionConverter } from '.';
+
+/**
+ * @class R5Converter
+ * @description Identity conversion for FHIR R5 (5.0.0), the release of the internal model.
+ * @design Still returns copies, so callers can modify the result without touching the source,
+ * the same as with the R4 converter.
+ */
+export class R5Converter implements FhirVersionConverter {
+    readonly version: FhirVersion = 'R5';
+
+    fromInternal(resource: FhirResource): Record<string, unknown> {
+        return JSON.parse(JSON.stringify(resource));
+    }
+
+    toInternal(resource: Record<string, unknown>): FhirResource {
+        return JSON.parse(JSON.stringify(resource));
+    }
+}
@@ -1,33 +1,185 @@
 // backend/src/services/patient.service.ts
 import { AppDataSource } from '../config/dataSource';
+import config from '../config';
 import { PatientEntity } from '../models/entities/Patient.entity';
-import { Repository } from 'typeorm';
-import { NotFoundError } from '../utils/error';
+import { Brackets, EntityManager, In, Repository, WhereExpressionBuilder } from 'typeorm';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/error';
+import { FhirOutboxService } from './fhirOutbox.service';
+import { FhirOutboxOperation } from '../models/entities/FhirOutbox.entity';
+import { FHIR_SYNC_FILTER_SQL, FhirSyncFilter } from './fhirSync.service';
+import { PatientFhirSyncEntity } from '../models/entities/PatientFhirSync.entity';
+import {
+    PatientMergeEntity,
+    PatientMergeFields,
+    PatientMergeSnapshot,
+} from '../models/entities/PatientMerge.entity';
 
 // Define DTO (Data Transfer Object) types for creation and updates to enhance type safety
 // These types should correspond to fields received from req.body in the Controller
-type CreatePatientDto = Omit<
+export type CreatePatientDto = Omit<
     PatientEntity,
-    'id' | 'save' | 'remove' | 'hasId' | 'recover' | 'reload'
->; // Exclude BaseEntity methods and id from Entity
-type UpdatePatientDto = Partial<CreatePatientDto>; // Allow partial fields for updates
+    | 'id'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'replacedBy'
+    | 'save'
+    | 'remove'
+    | 'hasId'
+    | 'recover'
+    | 'reload'
+>; // Exclude BaseEntity methods, id, managed timestamps and the merge state from Entity
+export type UpdatePatientDto = Partial<CreatePatientDto>; // Allow partial fields for updates
+
+/**
+ * A string criterion: the row matches when the column matches ANY of `values` (FHIR's comma-separated OR).
+ * - `startsWith`: case-insensitive prefix match (the FHIR default for string parameters).
+ * - `contains`: case-insensitive substring match (`:contains`).
+ * - `exact`: case-sensitive equality (`:exact`).
+ */
+export interface PatientStringCriterion {
+    values: string[];
+    match: 'startsWith' | 'contains' | 'exact';
+}
+
+/**
+ * A date criterion on `birthday`. `start` (inclusive) and `end` (exclusive) describe the implicit range
+ * of the searched value at its precision, e.g. `1980-05` covers `[1980-05-01, 1980-06-01)`.
+ */
+export interface PatientDateCriterion {
+    comparator: 'eq' | 'ne' | 'gt' | 'lt' | 'ge' | 'le' | 'sa' | 'eb';
+    start: string;
+    end: string;
+}
+
+export type PatientSortField =
+    | 'id'
+    | 'pid'
+    | 'familyName'
+    | 'givenName'
+    | 'birthday'
+    | 'gender'
+    | 'active';
+
+/**
+ * Search criteria accepted by `PatientService.search`. Every array entry is ANDed with the others,
+ * mirroring repeated query parameters in a FHIR search.
+ */
+export interface PatientSearchCriteria {
+    pid?: string[][];
+    familyName?: PatientStringCriterion[];
+    givenName?: PatientStringCriterion[];
+    /** Matches either the family or the given name. */
+    name?: PatientStringCriterion[];
+    /** Free-text query: matches the PID, either name, the phone number or the email. */
+    text?: PatientStringCriterion[];
+    country?: PatientStringCriterion[];
+    birthday?: PatientDateCriterion[];
+    /**
+     * Lower-cased local gender values to match. When `otherThan` is set, rows whose gender is empty
+     * or not in that list also match (used for FHIR's `unknown`).
+     */
+    gender?: { values: string[]; otherThan?: string[] }[];
+    active?: boolean;
+    /** Only patients changed at or after this instant (`updated_at >= updatedSince`). */
+    updatedSince?: Date;
+    /** Only patients in this sync state on the primary FHIR endpoint (`out-of-sync`: anything but `in-sync`). */
+    syncStatus?: FhirSyncFilter;
+    sort?: { field: PatientSortField; direction: 'ASC' | 'DESC' }[];
+    offset: number;
+    count: number;
+}
+
+const SORT_COLUMNS: Record<PatientSortField, string> = {
+    id: 'patient.id',
+    pid: 'patient.pid',
+    familyName: 'patient.familyName',
+    givenName: 'patient.givenName',
+    birthday: 'patient.birthday',
+    gender: 'patient.gender',
+    active: 'patient.active',
+};
+export const PATIENT_SORT_FIELDS = Object.keys(SORT_COLUMNS) as PatientSortField[];
+
+/**
+ * Patient fields whose surviving value is chosen when two records are merged.
+ * The PID is not among them: the target keeps its own, the source keeps its own (PIDs are unique).
+ */
+export const MERGEABLE_PATIENT_FIELDS = [
+    'familyName',
+    'givenName',
+    'gender',
+    'birthday',
+    'telecom',
+    'email',
+    'address',
+    'postalCode',
+    'country',
+    'preferredLanguage',
+    'emergencyContactName',
+    'emergencyContactRelationship',
+    'emergencyContactPhone',
+] as const;
+export type MergeablePatientField = (typeof MERGEABLE_PATIENT_FIELDS)[number];
+
+/**
+ * Survivorship choices of a merge: the record each field's surviving value is taken from.
+ * Fields left out keep the target's value, unless only the source has one.
+ */
+export type PatientMergeChoices = Partial<Record<MergeablePatientField, 'source' | 'target'>>;
+
+/**
+ * A link between a merged-away record and its survivor, as emitted in FHIR `Patient.link`:
+ * the source is `replaced-by` the target, the target `replaces` the source.
+ */
+export interface PatientMergeLink {
+    type: 'replaced-by' | 'replaces';
+    pid: string;
+}
+
+/**
+ * Outcome of `PatientService.merge` / `unmerge`: the log entry written and both records after the change.
+ */
+export interface PatientMergeResult {
+    entry: PatientMergeEntity;
+    source: PatientEntity;
+    target: PatientEntity;
+}
+
+const isBlank = (value: unknown): boolean =>
+    value === null || value === undefined || String(value).trim() === '';
+
+/** State of a record as kept in the merge log. */
+const snapshotPatient = (patient: PatientEntity): PatientMergeSnapshot => {
+    const snapshot: PatientMergeSnapshot = {
+        pid: patient.pid,
+        active: patient.active,
+        replacedBy: patient.replacedBy ?? null,
+    };
+    for (const field of MERGEABLE_PATIENT_FIELDS) {
+        snapshot[field] = patient[field] ?? null;
+    }
+    return snapshot;
+};
 
 export class PatientService {
     private readonly patientRepository: Repository<PatientEntity>;
+    private readonly mergeRepository: Repository<PatientMergeEntity>;
+    private readonly fhirOutboxService: FhirOutboxService;
 
     constructor() {
         // Obtain Repository instance in the Service constructor
         this.patientRepository = AppDataSource.getRepository(PatientEntity);
+        this.mergeRepository = AppDataSource.getRepository(PatientMergeEntity);
+        this.fhirOutboxService = new FhirOutboxService();
     }
 
     /**
-     * Retrieves a list of all patients.
+     * Retrieves a list of all patients. The patient list of the UI is paged through `search` instead.
      * @returns {Promise<PatientEntity[]>} - An array of patient entities.
      */
     async findAll(): Promise<PatientEntity[]> {
         console.log('[Service] PatientService.findAll called');
         // Directly call the Repository's find method
-        // Additional complex query conditions or relations can be added here
         return this.patientRepository.find({
             order: { id: 'ASC' },
         });
@@ -54,76 +206,665 @@ export class PatientService {
     }
 
     /**
-     * Creates a new patient.
+     * Retrieves a single patient by PID, which is also the logical id of its FHIR Patient resource.
+     * @param {string} pid - The patient's personal identification number.
+     * @returns {Promise<PatientEntity>} - The patient entity.
+     * @throws {NotFoundError} If no patient has the specified PID.
+     */
+    async findByPid(pid: string): Promise<PatientEntity> {
+        console.log(`[Service] PatientService.findByPid called with pid: ${pid}`);
+        const patient = await this.patientRepository.findOneBy({ pid });
+        if (!patient) {
+            throw new NotFoundError(`Patient with PID ${pid} not found`);
+        }
+        return patient;
+    }
+
+    /**
+     * Retrieves the patients with the given primary key IDs. IDs without a matching row are skipped.
+     * @param {number[]} ids - The primary key IDs.
+     * @returns {Promise<PatientEntity[]>} - The patients found, ordered by ID.
+     */
+    async findByIds(ids: number[]): Promise<PatientEntity[]> {
+        console.log(`[Service] PatientService.findByIds called for ${ids.length} id(s)`);
+        if (ids.length === 0) {
+            return [];
+        }
+        return this.patientRepository.find({ where: { id: In(ids) }, order: { id: 'ASC' } });
+    }
+
+    /**
+     * Searches patients with the given criteria and returns one page of results.
+     * @param {PatientSearchCriteria} criteria - Filters, sort order and paging window.
+     * @returns {Promise<{ patients: PatientEntity[]; total: number }>} - The page of patients and the total number of matches.
+     * @design Built on the query builder so each criterion becomes one bound condition. `id ASC` is always
+     * appended as the last sort key so that offset-based paging is stable across requests.
+     */
+    async search(
+        criteria: PatientSearchCriteria
+    ): Promise<{ patients: PatientEntity[]; total: number }> {
+        console.log('[Service] PatientService.search called with criteria:', criteria);
+        const query = this.patientRepository.createQueryBuilder('patient');
+        let paramIndex = 0;
+        const param = (): string => `p${paramIndex++}`;
+
+        const applyString = (
+            qb: WhereExpressionBuilder,
+            columns: string[],
+            criterion: PatientStringCriterion
+        ): void => {
+            qb.andWhere(
+                new Brackets((alternatives) => {
+                    for (const value of criterion.values) {
+                        for (const column of columns) {
+                            const name = param();
+                            if (criterion.match === 'exact') {
+                                alternatives.orWhere(`${column} = :${name}`, { [name]: value });
+                            } else {
+                                const escaped = value.toLowerCase().replace(/[\\%_]/g, '\\$&');
+                                const pattern =
+                                    criterion.match === 'contains' ? `%${escaped}%` : `${escaped}%`;
+                                alternatives.orWhere(`LOWER(${column}) LIKE :${name}`, {
+                                    [name]: pattern,
+                                });
+                            }
+                        }
+                    }
+                })
+            );
+        };
+
+        criteria.pid?.forEach((pids) => {
+            const name = param();
+            query.andWhere(`patient.pid IN (:...${name})`, { [name]: pids });
+        });
+        criteria.familyName?.forEach((c) => applyString(query, ['patient.family_name'], c));
+        criteria.givenName?.forEach((c) => applyString(query, ['patient.given_name'], c));
+        criteria.name?.forEach((c) =>
+            applyString(query, ['patient.family_name', 'patient.given_name'], c)
+        );
+        criteria.text?.forEach((c) =>
+            applyString(
+                query,
+                [
+                    'patient.pid',
+                    'patient.family_name',
+                    'patient.given_name',
+                    'patient.telecom',
+                    'patient.email',
+                ],
+                c
+            )
+        );
+        criteria.country?.forEach((c) => applyString(query, ['patient.country'], c));
+
+        criteria.birthday?.forEach(({ comparator, start, end }) => {
+            const s = param();
+            const e = param();
+            const bounds = { [s]: start, [e]: end };
+            switch (comparator) {
+                case 'eq':
+                    query.andWhere(
+                        `patient.birthday >= :${s} AND patient.birthday < :${e}`,
+                        bounds
+                    );
+                    break;
+                case 'ne':
+                    query.andWhere(
+                        `(patient.birthday < :${s} OR patient.birthday >= :${e})`,
+                        bounds
+                    );
+                    break;
+                case 'gt':
+                case 'sa':
+                    query.andWhere(`patient.birthday >= :${e}`, bounds);
+                    break;
+                case 'lt':
+                case 'eb':
+                    query.andWhere(`patient.birthday < :${s}`, bounds);
+                    break;
+                case 'ge':
+                    query.andWhere(`patient.birthday >= :${s}`, bounds);
+                    break;
+                case 'le':
+                    query.andWhere(`patient.birthday < :${e}`, bounds);
+                    break;
+            }
+        });
+
+        criteria.gender?.forEach(({ values, otherThan }) => {
+            query.andWhere(
+                new Brackets((alternatives) => {
+                    if (values.length > 0) {
+                        const name = param();
+                        alternatives.orWhere(`LOWER(TRIM(patient.gender)) IN (:...${name})`, {
+                            [name]: values,
+                        });
+                    }
+                    if (values.length === 0 && !otherThan) {
+                        // No local value maps to the requested code.
+                        alternatives.orWhere('FALSE');
+                    }
+                    if (otherThan?.length === 0) {
+                        // Nothing maps to a known gender, so every row counts as unknown.
+                        alternatives.orWhere('TRUE');
+                    } else if (otherThan) {
+                        const name = param();
+                        alternatives.orWhere(
+                            `(patient.gender IS NULL OR LOWER(TRIM(patient.gender)) NOT IN (:...${name}))`,
+                            { [name]: otherThan }
+                        );
+                    }
+                })
+            );
+        });
+
+        if (criteria.active !== undefined) {
+            query.andWhere('patient.active = :active', { active: criteria.active });
+        }
+
+        if (criteria.updatedSince) {
+            query.andWhere('patient.updatedAt >= :updatedSince', {
+                updatedSince: criteria.updatedSince,
+            });
+        }
+
+        if (criteria.syncStatus) {
+            // The sync state lives in `patient_fhir_sync` (no row = never pushed), hence the LEFT JOIN.
+            // It is the state on the primary FHIR endpoint, like `FhirSyncService.getSyncStatus`.
+            query
+                .leftJoin(
+                    PatientFhirSyncEntity,
+                    'sync',
+                    'sync.patient_id = patient.id AND sync.endpoint = :endpoint',
+                    { endpoint: config.fhir.targetServerName }
+                )
+                .andWhere(`(${FHIR_SYNC_FILTER_SQL[criteria.syncStatus]})`);
+        }
+
+        (criteria.sort ?? []).forEach(({ field, direction }) =>
+            query.addOrderBy(SORT_COLUMNS[field], direction)
+        );
+        if (!criteria.sort?.some(({ field }) => field === 'id')) {
+            query.addOrderBy('patient.id', 'ASC');
+        }
+
+        if (criteria.count === 0) {
+            // `take(0)` would mean "no limit" to TypeORM; a zero-sized page only needs the total.
+            return { patients: [], total: await query.getCount() };
+        }
+        const [patients, total] = await query
+            .skip(criteria.offset)
+            .take(criteria.count)
+            .getManyAndCount();
+        return { patients, total };
+    }
+
+    /**
+     * Creates a new patient and queues it for the FHIR server.
      * @param {CreatePatientDto} patientData - The data object conforming to CreatePatientDto structure.
+     * @param {number} [actorUserId] - ID of the user making the change (recorded on the outbox item).
      * @returns {Promise<PatientEntity>} - The newly created patient entity.
-     * @throws {Error} If a database constraint (e.g., unique PID) is violated.
+     * @throws {ConflictError} If the PID already exists (unique constraint violation).
+     * @design The patient row and its `fhir_outbox` row are written in one transaction, so a created patient
+     * is always eventually pushed (by `FhirOutboxWorker`) even if the FHIR server is down right now.
      */
-    async create(patientData: CreatePatientDto): Promise<PatientEntity> {
+    async create(patientData: CreatePatientDto, actorUserId?: number): Promise<PatientEntity> {
         console.log('[Service] PatientService.create called with data:', patientData);
         // Additional business validation logic can be added here
         try {
-            // Use create to instantiate in memory
-            const newPatient = this.patientRepository.create(patientData);
-            const savedPatient = await this.patientRepository.save(newPatient);
-            console.log(`[Service] Patient ${savedPatient.id} created locally.`); // Use save to persist to the database
+            const savedPatient = await AppDataSource.transaction(async (manager) => {
+                const repository = manager.getRepository(PatientEntity);
+                // Use create to instantiate in memory, then save to persist to the database
+                const saved = await repository.save(repository.create(patientData));
+                await this.fhirOutboxService.enqueue(
+                    manager,
+                    saved,
+                    'upsert',
+                    actorUserId,
+                    'create'
+                );
+                return saved;
+            });
+            console.log(
+                `[Service] Patient ${savedPatient.id} created locally and queued for FHIR push.`
+            );
 
             return savedPatient;
         } catch (error: any) {
             // Catch specific database errors (e.g., unique constraint) and throw friendlier errors
             if (error.code === '23505') {
                 // PostgreSQL unique violation
-                throw new Error('Identity number (PID) already exists'); // Or a custom ConflictError
+                throw new ConflictError('Identity number (PID) already exists');
             }
             throw error; // Rethrow unhandled errors
         }
     }
 
     /**
-     * Updates patient data for the specified ID.
+     * Updates patient data for the specified ID and queues the new state for the FHIR server.
      * @param {number} id - The ID of the patient to update.
      * @param {UpdatePatientDto} updateData - The data object containing fields to update.
+     * @param {number} [actorUserId] - ID of the user making the change (recorded on the outbox item).
      * @returns {Promise<PatientEntity>} - The updated patient entity.
      * @throws {NotFoundError} If no patient is found with the specified ID.
-     * @throws {Error} If a database constraint (e.g., unique PID) is violated after update.
+     * @throws {ConflictError} If the updated PID duplicates another record.
+     * @design Same transactional outbox write as `create`.
      */
-    async update(id: number, updateData: UpdatePatientDto): Promise<PatientEntity> {
+    async update(
+        id: number,
+        updateData: UpdatePatientDto,
+        actorUserId?: number
+    ): Promise<PatientEntity> {
         console.log(`[Service] PatientService.update called for id: ${id}`);
         const patientToUpdate = await this.findById(id); // findById handles Not Found
-        Object.assign(patientToUpdate, updateData);
+        // Managed columns (the merge state included, and the read-only `fhirSync` of GET /:id) may be echoed back
+        // by clients; never let them overwrite the stored values.
+        const {
+            /* eslint-disable @typescript-eslint/no-unused-vars */
+            id: _id,
+            createdAt,
+            updatedAt,
+            replacedBy,
+            fhirSync,
+            /* eslint-enable @typescript-eslint/no-unused-vars */
+            ...changes
+        } = updateData as PatientEntity & { fhirSync?: unknown };
+        Object.assign(patientToUpdate, changes);
         try {
-            const updatedPatient = await this.patientRepository.save(patientToUpdate);
-            console.log(`[Service] Patient ${updatedPatient.id} updated locally.`);
+            const updatedPatient = await AppDataSource.transaction(async (manager) => {
+                const saved = await manager.getRepository(PatientEntity).save(patientToUpdate);
+                await this.fhirOutboxService.enqueue(
+                    manager,
+                    saved,
+                    'upsert',
+                    actorUserId,
+                    'update'
+                );
+                return saved;
+            });
+            console.log(
+                `[Service] Patient ${updatedPatient.id} updated locally and queued for FHIR push.`
+            );
 
             return updatedPatient; // Return the locally updated result immediately
         } catch (error: any) {
             if (error.code === '23505') {
                 // Check for unique constraint conflicts during update
-                throw new Error('Updated identity number (PID) duplicates another record');
+                throw new ConflictError('Updated identity number (PID) duplicates another record');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Writes patient data received from the FHIR server: updates the patient with the given ID, or creates one.
+     * @param {UpdatePatientDto} patientData - Local fields mapped from the remote Patient (must be complete when creating).
+     * @param {number} [id] - The patient to update; omitted to create a new patient.
+     * @returns {Promise<PatientEntity>} - The saved patient entity.
+     * @throws {NotFoundError} If no patient is found with the specified ID.
+     * @throws {ConflictError} If the PID already exists on another record.
+     * @design Unlike `create` / `update`, nothing is queued in the outbox: the data comes from the FHIR server, and
+     * pushing it back would only create another remote version (and another notification).
+     */
+    async saveFromFhirServer(patientData: UpdatePatientDto, id?: number): Promise<PatientEntity> {
+        console.log(`[Service] PatientService.saveFromFhirServer called for id: ${id ?? '(new)'}`);
+        const patient =
+            id === undefined
+                ? this.patientRepository.create(patientData as CreatePatientDto)
+                : Object.assign(await this.findById(id), patientData);
+        try {
+            return await this.patientRepository.save(patient);
+        } catch (error: any) {
+            if (error.code === '23505') {
+                throw new ConflictError('Identity number (PID) already exists');
             }
             throw error;
         }
     }
 
     /**
-     * Deletes a patient by the specified ID.
+     * Deletes a patient by the specified ID and queues the FHIR side of the deletion.
      * @param {number} id - The ID of the patient to delete.
-     * @returns {Promise<void>}
+     * @param {number} [actorUserId] - ID of the user making the change (recorded on the outbox item).
+     * @returns {Promise<FhirOutboxOperation | null>} The operation queued for the FHIR server (`delete` or `deactivate`),
+     * or null when `FHIR_DELETE_POLICY=keep`.
      * @throws {NotFoundError} If no patient is found with the specified ID.
      * @throws {Error} If the ID format is invalid.
+     * @design Same transactional outbox write as `create`: the row is deleted, the patient's pending pushes are
+     * discarded, and the operation of `config.fhir.deletePolicy` is queued, all or nothing. The outbox item keeps the
+     * PID, so `FhirOutboxWorker` can still reach the remote Patient (and retry) after the row is gone.
      */
-    async remove(id: number): Promise<void> {
+    async remove(id: number, actorUserId?: number): Promise<FhirOutboxOperation | null> {
         console.log(`[Service] PatientService.remove called for id: ${id}`);
         if (isNaN(id)) {
             throw new Error('Invalid ID format');
         }
-        // Use delete method to remove directly by ID
-        const deleteResult = await this.patientRepository.delete(id);
+        const policy = config.fhir.deletePolicy;
+        const operation = policy === 'keep' ? null : policy;
+        await AppDataSource.transaction(async (manager) => {
+            const patient = await manager.getRepository(PatientEntity).findOneBy({ id });
+            if (!patient) {
+                throw new NotFoundError(`Patient with ID ${id} not found for deletion`);
+            }
+            await manager.getRepository(PatientEntity).delete(id);
+            await this.fhirOutboxService.discardPending(
+                manager,
+                id,
+                'Superseded by the deletion of the patient.'
+            );
+            if (operation) {
+                await this.fhirOutboxService.enqueue(manager, patient, operation, actorUserId);
+            }
+        });
+        console.log(
+            `[Service] Patient ${id} deleted locally; FHIR delete policy '${policy}'${operation ? ' queued' : ''}.`
+        );
+        return operation;
+    }
+
+    /**
+     * Merges a duplicate (source) record into the surviving (target) record.
+     * @param {number} sourceId - The record merged away: it becomes inactive and `replacedBy` the target.
+     * @param {number} targetId - The surviving record: it receives the chosen field values.
+     * @param {PatientMergeChoices} choices - Per-field survivorship (see `PatientMergeChoices` for the defaults).
+     * @param {number} [actorUserId] - ID of the user making the change (recorded in the log and on the outbox items).
+     * @returns {Promise<PatientMergeResult>} The merge log entry and both records after the merge.
+     * @throws {BadRequestError} If the IDs are invalid or equal, or a choice names an unknown field or record.
+     * @throws {NotFoundError} If either patient does not exist.
+     * @throws {ConflictError} If the source was already merged, or the target was merged into another record.
+     * @design
+     * - One transaction: both rows are locked (in ID order), updated and logged, and both are queued for the FHIR
+     *   server, whose Patients then carry `link` `replaced-by` / `replaces` (see `FhirService.buildFhirPatient`).
+     * - The log entry keeps both records before the merge and the target after it, which is what `unmerge` restores.
+     */
+    async merge(
+        sourceId: number,
+        targetId: number,
+        choices: PatientMergeChoices,
+        actorUserId?: number
+    ): Promise<PatientMergeResult> {
+        console.log(
+            `[Service] PatientService.merge called: ${sourceId} into ${targetId}, choices:`,
+            choices
+        );
+        if (isNaN(sourceId) || isNaN(targetId)) {
+            throw new BadRequestError('Invalid ID format');
+        }
+        if (sourceId === targetId) {
+            throw new BadRequestError('A patient cannot be merged into itself.');
+        }
+        for (const [field, choice] of Object.entries(choices)) {
+            if (!(MERGEABLE_PATIENT_FIELDS as readonly string[]).includes(field)) {
+                throw new BadRequestError(`'${field}' is not a mergeable patient field.`);
+            }
+            if (choice !== 'source' && choice !== 'target') {
+                throw new BadRequestError(
+                    `The choice for '${field}' must be 'source' or 'target'.`
+                );
+            }
+        }
+
+        const result = await AppDataSource.transaction(async (manager) => {
+            const { source, target } = await this.lockMergePair(manager, sourceId, targetId);
+            if (!isBlank(source.replacedBy)) {
+                throw new ConflictError(
+                    `Patient ${source.pid} was already merged into another record.`
+                );
+            }
+            if (!isBlank(target.replacedBy)) {
+                throw new ConflictError(
+                    `Patient ${target.pid} was merged into another record; merge into that record instead.`
+                );
+            }
+            const sourceBefore = snapshotPatient(source);
+            const targetBefore = snapshotPatient(target);
+
+            const fields: PatientMergeFields = {};
+            for (const field of MERGEABLE_PATIENT_FIELDS) {
+                const choice =
+                    choices[field] ??
+                    (isBlank(target[field]) && !isBlank(source[field]) ? 'source' : 'target');
+                fields[field] = choice;
+                if (choice === 'source') {
+                    Object.assign(target, { [field]: source[field] ?? null });
+                }
+            }
+            source.active = false;
+            source.replacedBy = target.id;
 
-        // Check if any rows were affected; if not, it means the patient was not found
-        if (deleteResult.affected === 0) {
-            throw new NotFoundError(`Patient with ID ${id} not found for deletion`);
+            const repository = manager.getRepository(PatientEntity);
+            const savedTarget = await repository.save(target);
+            const savedSource = await repository.save(source);
+            const mergeRepository = manager.getRepository(PatientMergeEntity);
+            const entry = await mergeRepository.save(
+                mergeRepository.create({
+                    action: 'merge',
+                    sourcePatientId: source.id,
+                    sourcePid: source.pid,
+                    targetPatientId: target.id,
+                    targetPid: target.pid,
+                    fields,
+                    sourceBefore,
+                    targetBefore,
+                    targetAfter: snapshotPatient(savedTarget),
+                    performedBy: actorUserId ?? null,
+                })
+            );
+            await this.fhirOutboxService.enqueue(
+                manager,
+                savedTarget,
+                'upsert',
+                actorUserId,
+                'update'
+            );
+            await this.fhirOutboxService.enqueue(
+                manager,
+                savedSource,
+                'upsert',
+                actorUserId,
+                'update'
+            );
+            return { entry, source: savedSource, target: savedTarget };
+        });
+        console.log(
+            `[Service] Patient ${sourceId} merged into ${targetId} (log entry ${result.entry.id}); both queued for FHIR push.`
+        );
+        return result;
+    }
+
+    /**
+     * Reverses a merge recorded in the merge log.
+     * @param {number} mergeId - ID of the `merge` log entry.
+     * @param {number} [actorUserId] - ID of the user making the change (recorded in the log and on the outbox items).
+     * @returns {Promise<PatientMergeResult>} The unmerge log entry and both records after the reversal.
+     * @throws {NotFoundError} If there is no merge with that ID.
+     * @throws {ConflictError} If the merge was already reversed, a record was deleted, or the target has been merged
+     * into another record since (that merge must be reversed first).
+     * @design
+     * - The source gets back its `active` flag and loses `replacedBy`; its own fields were never changed.
+     * - The target gets back its pre-merge value for every field taken from the source, unless the field was edited
+     *   after the merge: later edits win and are reported as `kept` in the unmerge entry.
+     * - Same transactional outbox write as `merge`; a merge is reversed at most once (unique `merge_id`).
+     */
+    async unmerge(mergeId: number, actorUserId?: number): Promise<PatientMergeResult> {
+        console.log(`[Service] PatientService.unmerge called for merge ${mergeId}`);
+        if (isNaN(mergeId)) {
+            throw new BadRequestError('Invalid ID format');
+        }
+        const merge = await this.mergeRepository.findOneBy({ id: mergeId, action: 'merge' });
+        if (!merge) {
+            throw new NotFoundError(`Merge ${mergeId} not found`);
         }
-        // Deletion successful, no return value needed
+        try {
+            const result = await AppDataSource.transaction(async (manager) => {
+                const mergeRepository = manager.getRepository(PatientMergeEntity);
+                if (await mergeRepository.existsBy({ mergeId })) {
+                    throw new ConflictError(`Merge ${mergeId} was already undone.`);
+                }
+                const { source, target } = await this.lockMergePair(
+                    manager,
+                    merge.sourcePatientId,
+                    merge.targetPatientId,
+                    `Merge ${mergeId} cannot be undone:`
+                );
+                if (source.replacedBy !== target.id) {
+                    throw new ConflictError(
+                        `Merge ${mergeId} cannot be undone: patient ${source.pid} is no longer replaced by ${target.pid}.`
+                    );
+                }
+                if (!isBlank(target.replacedBy)) {
+                    throw new ConflictError(
+                        `Merge ${mergeId} cannot be undone: patient ${target.pid} was merged into another record since; undo that merge first.`
+                    );
+                }
+                const sourceBefore = snapshotPatient(source);
+                const targetBefore = snapshotPatient(target);
+
+                const fields: PatientMergeFields = {};
+                for (const field of MERGEABLE_PATIENT_FIELDS) {
+                    if (merge.fields[field] !== 'source') {
+                        continue;
+                    }
+                    if ((target[field] ?? null) === merge.targetAfter[field]) {
+                        Object.assign(target, { [field]: merge.targetBefore[field] });
+                        fields[field] = 'restored';
+                    } else {
+                        fields[field] = 'kept';
+                    }
+                }
+                source.active = merge.sourceBefore.active !== false;
+                source.replacedBy = null;
+
+                const repository = manager.getRepository(PatientEntity);
+                const savedTarget = await repository.save(target);
+                const savedSource = await repository.save(source);
+                const entry = await mergeRepository.save(
+                    mergeRepository.create({
+                        action: 'unmerge',
+                        mergeId,
+                        sourcePatientId: source.id,
+                        sourcePid: source.pid,
+                        targetPatientId: target.id,
+                        targetPid: target.pid,
+                        fields,
+                        sourceBefore,
+                        targetBefore,
+                        targetAfter: snapshotPatient(savedTarget),
+                        performedBy: actorUserId ?? null,
+                    })
+                );
+                await this.fhirOutboxService.enqueue(
+                    manager,
+                    savedTarget,
+                    'upsert',
+                    actorUserId,
+                    'update'
+                );
+                await this.fhirOutboxService.enqueue(
+                    manager,
+                    savedSource,
+                    'upsert',
+                    actorUserId,
+                    'update'
+                );
+                return { entry, source: savedSource, target: savedTarget };
+            });
+            console.log(
+                `[Service] Merge ${mergeId} undone (log entry ${result.entry.id}); both patients queued for FHIR push.`
+            );
+            return result;
+        } catch (error: any) {
+            if (error.code === '23505') {
+                // Another request reversed the same merge concurrently.
+                throw new ConflictError(`Merge ${mergeId} was already undone.`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the merge log entries involving a patient, as source or target.
+     * @param {number} patientId - The patient's primary key ID.
+     * @returns {Promise<PatientMergeEntity[]>} - The entries, newest first.
+     */
+    async findMergeLog(patientId: number): Promise<PatientMergeEntity[]> {
+        console.log(`[Service] PatientService.findMergeLog called for patient ${patientId}`);
+        if (isNaN(patientId)) {
+            throw new Error('Invalid ID format');
+        }
+        return this.mergeRepository.find({
+            where: [{ sourcePatientId: patientId }, { targetPatientId: patientId }],
+            order: { id: 'DESC' },
+        });
+    }
+
+    /**
+     * Retrieves the merge links of the given patients: the survivor of each merged-away record, and the records each
+     * survivor replaces.
+     * @param {PatientEntity[]} patients - The patients.
+     * @returns {Promise<Map<number, PatientMergeLink[]>>} - Links by patient ID (patients without links are absent).
+     */
+    async findMergeLinks(patients: PatientEntity[]): Promise<Map<number, PatientMergeLink[]>> {
+        const links = new Map<number, PatientMergeLink[]>();
+        if (patients.length === 0) {
+            return links;
+        }
+        const survivorIds = patients
+            .filter((patient) => !isBlank(patient.replacedBy))
+            .map((patient) => patient.replacedBy);
+        const [survivors, replaced] = await Promise.all([
+            survivorIds.length > 0
+                ? this.patientRepository.find({
+                      select: { id: true, pid: true },
+                      where: { id: In(survivorIds) },
+                  })
+                : [],
+            this.patientRepository.find({
+                select: { id: true, pid: true, replacedBy: true },
+                where: { replacedBy: In(patients.map((patient) => patient.id)) },
+                order: { id: 'ASC' },
+            }),
+        ]);
+        const add = (patientId: number, link: PatientMergeLink): void => {
+            links.set(patientId, [...(links.get(patientId) ?? []), link]);
+        };
+        for (const patient of patients) {
+            const survivor = survivors.find((candidate) => candidate.id === patient.replacedBy);
+            if (survivor) {
+                add(patient.id, { type: 'replaced-by', pid: survivor.pid });
+            }
+        }
+        for (const record of replaced) {
+            add(record.replacedBy!, { type: 'replaces', pid: record.pid });
+        }
+        return links;
+    }
+
+    /**
+     * Loads and locks the two records of a merge, in ID order so concurrent merges cannot deadlock.
+     * @throws {NotFoundError} If either patient does not exist (a ConflictError prefixed with `missingPrefix`, if given).
+     */
+    private async lockMergePair(
+        manager: EntityManager,
+        sourceId: number,
+        targetId: number,
+        missingPrefix?: string
+    ): Promise<{ source: PatientEntity; target: PatientEntity }> {
+        const rows = await manager.getRepository(PatientEntity).find({
+            where: { id: In([sourceId, targetId]) },
+            order: { id: 'ASC' },
+            lock: { mode: 'pessimistic_write' },
+        });
+        const find = (id: number): PatientEntity => {
+            const patient = rows.find((row) => row.id === id);
+            if (!patient) {
+                throw missingPrefix
+                    ? new ConflictError(`${missingPrefix} patient ${id} no longer exists.`)
+                    : new NotFoundError(`Patient with ID ${id} not found`);
+            }
+            return patient;
+        };
+        return { source: find(sourceId), target: find(targetId) };
     }
 }
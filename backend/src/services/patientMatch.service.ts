@@ -0,0 +1,398 @@
+// backend/src/services/patientMatch.service.ts
+// Probabilistic patient matching: scores existing patients against a (new) patient record to detect duplicates.
+
+import { Brackets, Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import { PatientEntity } from '../models/entities/Patient.entity';
+import { CreatePatientDto } from './patient.service';
+
+/**
+ * How likely a candidate is the same person, as the FHIR match-grade extension names it
+ * (http://hl7.org/fhir/StructureDefinition/match-grade). `certainly-not` candidates are never returned.
+ */
+export type PatientMatchGrade = 'certain' | 'probable' | 'possible' | 'certainly-not';
+
+/** Lowest score of each grade. */
+const GRADE_THRESHOLDS: { grade: Exclude<PatientMatchGrade, 'certainly-not'>; score: number }[] = [
+    { grade: 'certain', score: 0.95 },
+    { grade: 'probable', score: 0.8 },
+    { grade: 'possible', score: 0.6 },
+];
+
+/** Weight of each compared field in the score; fields missing from the input are left out of the total. */
+const FIELD_WEIGHTS = {
+    familyName: 0.2,
+    givenName: 0.15,
+    birthday: 0.25,
+    gender: 0.05,
+    telecom: 0.15,
+    email: 0.1,
+    address: 0.1,
+};
+type MatchField = keyof typeof FIELD_WEIGHTS;
+
+/** Upper bound of the candidates scored per request, those sharing the most traits first (see `findCandidates`). */
+const CANDIDATE_LIMIT = 200;
+/** Trailing digits of a phone number compared when looking for candidates (ignores country / area code forms). */
+const PHONE_TAIL_LENGTH = 7;
+
+/** The patient fields a match is computed from (a new record, or one mapped from a FHIR Patient). */
+export type PatientMatchInput = Partial<CreatePatientDto>;
+
+/**
+ * @interface PatientMatch
+ * @description An existing patient that may be the same person as the input.
+ * @property {PatientEntity} patient - The existing patient.
+ * @property {number} score - Match score between 0 and 1 (three decimals).
+ * @property {PatientMatchGrade} grade - The score's grade.
+ */
+export interface PatientMatch {
+    patient: PatientEntity;
+    score: number;
+    grade: PatientMatchGrade;
+}
+
+/**
+ * @interface PatientMatchOptions
+ * @property {PatientMatchGrade} [minimumGrade='possible'] - Lowest grade returned.
+ * @property {number} [count] - Maximum number of matches returned (best first).
+ * @property {number} [excludeId] - A patient never returned (e.g., the record being edited).
+ */
+export interface PatientMatchOptions {
+    minimumGrade?: Exclude<PatientMatchGrade, 'certainly-not'>;
+    count?: number;
+    excludeId?: number;
+}
+
+/** Lower case, compatibility-normalized, without diacritics, spaces or punctuation. */
+const normalizeText = (value: string | null | undefined): string =>
+    (value ?? '')
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[\s\p{P}\p{S}]/gu, '');
+
+const digitsOf = (value: string | null | undefined): string => (value ?? '').replace(/\D/g, '');
+
+/** Edit distance (insertions, deletions, substitutions). */
+const levenshtein = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/** Jaro-Winkler similarity (0-1), the usual measure for typos in names. */
+export const jaroWinkler = (a: string, b: string): number => {
+    if (a === b) return a ? 1 : 0;
+    if (!a || !b) return 0;
+    const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+    const aMatched = new Array<boolean>(a.length).fill(false);
+    const bMatched = new Array<boolean>(b.length).fill(false);
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+        for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+            if (!bMatched[j] && a[i] === b[j]) {
+                aMatched[i] = bMatched[j] = true;
+                matches++;
+                break;
+            }
+        }
+    }
+    if (matches === 0) return 0;
+    let transpositions = 0;
+    for (let i = 0, j = 0; i < a.length; i++) {
+        if (!aMatched[i]) continue;
+        while (!bMatched[j]) j++;
+        if (a[i] !== b[j]) transpositions++;
+        j++;
+    }
+    const jaro =
+        (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+    let prefix = 0;
+    while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+    return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/** Dice coefficient of character bigrams (0-1); works for Latin and CJK addresses alike. */
+const bigramDice = (a: string, b: string): number => {
+    if (a === b) return a ? 1 : 0;
+    if (a.length < 2 || b.length < 2) return 0;
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.slice(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.slice(i, i + 2);
+        const count = bigrams.get(bigram) ?? 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            shared++;
+        }
+    }
+    return (2 * shared) / (a.length - 1 + (b.length - 1));
+};
+
+/**
+ * @class PatientMatchService
+ * @description Finds existing patients that are probably the same person as a given record: the engine behind FHIR
+ * `Patient/$match` and the duplicate warning of `POST /api/patients`.
+ * @design
+ * - Weighted field comparison: names (Jaro-Winkler, also with family and given name swapped), birthday (exact, or
+ *   off by one digit / day and month swapped), gender, phone (digits only, edit distance), email and address
+ *   (bigram overlap). The score is the weighted similarity over the fields the input has, so a sparse `$match`
+ *   query is not penalized for what it does not ask about, but a candidate lacking a field is.
+ * - An identical PID is a certain match whatever the other fields say.
+ * - Only candidates sharing at least one exact trait (PID, birthday, family or given name, email, phone tail) are
+ *   loaded and scored; a record differing in all of them at once is not considered a duplicate.
+ * - Candidates are ranked in SQL by the number of traits they share (an identical PID first) before the cap, so a
+ *   common family name or birthday cannot crowd out the record that shares several traits.
+ */
+export class PatientMatchService {
+    private readonly patientRepository: Repository<PatientEntity>;
+
+    constructor() {
+        this.patientRepository = AppDataSource.getRepository(PatientEntity);
+    }
+
+    /**
+     * @method findMatches
+     * @description Scores the candidates for an input record and returns those at or above the minimum grade.
+     * @param {PatientMatchInput} input - The record to match.
+     * @param {PatientMatchOptions} [options] - Minimum grade, maximum count and a patient to leave out.
+     * @returns {Promise<PatientMatch[]>} The matches, best first.
+     */
+    async findMatches(
+        input: PatientMatchInput,
+        options: PatientMatchOptions = {}
+    ): Promise<PatientMatch[]> {
+        const minimumScore = GRADE_THRESHOLDS.find(
+            ({ grade }) => grade === (options.minimumGrade ?? 'possible')
+        )!.score;
+        const candidates = await this.findCandidates(input, options.excludeId);
+        const matches = candidates
+            .map((patient) => {
+                const score = this.scoreMatch(input, patient);
+                return { patient, score, grade: this.gradeOf(score) };
+            })
+            .filter((match) => match.score >= minimumScore)
+            .sort((a, b) => b.score - a.score || a.patient.id - b.patient.id);
+        console.log(
+            `[Patient Match] ${matches.length} match(es) at or above ${options.minimumGrade ?? 'possible'} among ${candidates.length} candidate(s).`
+        );
+        return options.count === undefined ? matches : matches.slice(0, options.count);
+    }
+
+    /**
+     * @method scoreMatch
+     * @description Scores how likely an existing patient is the same person as the input.
+     * @param {PatientMatchInput} input - The record to match.
+     * @param {PatientEntity} candidate - The existing patient.
+     * @returns {number} Score between 0 (nothing in common) and 1 (every compared field identical), three decimals.
+     */
+    scoreMatch(input: PatientMatchInput, candidate: PatientEntity): number {
+        if (input.pid && input.pid.trim().toUpperCase() === candidate.pid.trim().toUpperCase()) {
+            return 1;
+        }
+        const similarities: Partial<Record<MatchField, number>> = {};
+
+        const inputFamily = normalizeText(input.familyName);
+        const inputGiven = normalizeText(input.givenName);
+        if (inputFamily || inputGiven) {
+            const family = normalizeText(candidate.familyName);
+            const given = normalizeText(candidate.givenName);
+            const straight = [jaroWinkler(inputFamily, family), jaroWinkler(inputGiven, given)];
+            // Family and given name entered in each other's field (a common clerk error) count slightly less.
+            const swapped = [jaroWinkler(inputFamily, given), jaroWinkler(inputGiven, family)].map(
+                (similarity) => similarity * 0.9
+            );
+            const names = straight[0] + straight[1] >= swapped[0] + swapped[1] ? straight : swapped;
+            if (inputFamily) similarities.familyName = names[0];
+            if (inputGiven) similarities.givenName = names[1];
+        }
+        if (input.birthday) {
+            similarities.birthday = this.compareBirthdays(input.birthday, candidate.birthday);
+        }
+        if (input.gender?.trim()) {
+            similarities.gender =
+                input.gender.trim().toLowerCase() === (candidate.gender ?? '').trim().toLowerCase()
+                    ? 1
+                    : 0;
+        }
+        if (digitsOf(input.telecom)) {
+            similarities.telecom = this.comparePhones(input.telecom!, candidate.telecom);
+        }
+        if (input.email?.trim()) {
+            similarities.email = this.compareEmails(input.email, candidate.email);
+        }
+        if (normalizeText(input.address)) {
+            similarities.address = bigramDice(
+                normalizeText(input.address),
+                normalizeText(candidate.address)
+            );
+        }
+
+        const fields = Object.keys(similarities) as MatchField[];
+        const total = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+        if (total === 0) {
+            return 0;
+        }
+        const weighted = fields.reduce(
+            (sum, field) => sum + FIELD_WEIGHTS[field] * similarities[field]!,
+            0
+        );
+        return Math.round((weighted / total) * 1000) / 1000;
+    }
+
+    /**
+     * @private
+     * @method gradeOf
+     * @description The match grade of a score.
+     */
+    private gradeOf(score: number): PatientMatchGrade {
+        return (
+            GRADE_THRESHOLDS.find((threshold) => score >= threshold.score)?.grade ?? 'certainly-not'
+        );
+    }
+
+    /**
+     * @private
+     * @method findCandidates
+     * @description Loads the patients sharing at least one exact trait with the input (blocking), so only a small
+     * part of the table is scored; those sharing the most traits first when there are more than `CANDIDATE_LIMIT`.
+     */
+    private async findCandidates(
+        input: PatientMatchInput,
+        excludeId?: number
+    ): Promise<PatientEntity[]> {
+        const phoneTail = digitsOf(input.telecom).slice(-PHONE_TAIL_LENGTH);
+        const blocks: { condition: string; parameters: Record<string, string>; weight?: number }[] =
+            [];
+        if (input.pid?.trim()) {
+            // Outweighs all other traits together: the patient with the PID is always scored.
+            blocks.push({
+                condition: 'UPPER(patient.pid) = :pid',
+                parameters: { pid: input.pid.trim().toUpperCase() },
+                weight: 10,
+            });
+        }
+        if (input.birthday) {
+            blocks.push({
+                condition: 'patient.birthday = :birthday',
+                parameters: { birthday: String(input.birthday).slice(0, 10) },
+            });
+        }
+        const names: [string, string | undefined][] = [
+            ['family', input.familyName],
+            ['given', input.givenName],
+        ];
+        for (const [field, value] of names) {
+            if (value?.trim()) {
+                // Either name column, so swapped names are found too.
+                blocks.push({
+                    condition: `(LOWER(TRIM(patient.family_name)) = :${field} OR LOWER(TRIM(patient.given_name)) = :${field})`,
+                    parameters: { [field]: value.trim().toLowerCase() },
+                });
+            }
+        }
+        if (input.email?.trim()) {
+            blocks.push({
+                condition: 'LOWER(TRIM(patient.email)) = :email',
+                parameters: { email: input.email.trim().toLowerCase() },
+            });
+        }
+        if (phoneTail.length === PHONE_TAIL_LENGTH) {
+            blocks.push({
+                condition: "regexp_replace(patient.telecom, '\\D', '', 'g') LIKE :phoneTail",
+                parameters: { phoneTail: `%${phoneTail}` },
+            });
+        }
+        if (blocks.length === 0) {
+            return [];
+        }
+
+        // CASE rather than a cast, since a comparison with a NULL column is NULL and would void the sum.
+        const sharedTraits = blocks
+            .map(
+                ({ condition, weight = 1 }) => `(CASE WHEN ${condition} THEN ${weight} ELSE 0 END)`
+            )
+            .join(' + ');
+        const query = this.patientRepository
+            .createQueryBuilder('patient')
+            .addSelect(sharedTraits, 'shared_traits')
+            .where(
+                new Brackets((alternatives) => {
+                    for (const { condition, parameters } of blocks) {
+                        alternatives.orWhere(condition, parameters);
+                    }
+                })
+            );
+        // A record merged into another one is no longer a duplicate candidate.
+        query.andWhere('patient.replaced_by IS NULL');
+        if (excludeId !== undefined) {
+            query.andWhere('patient.id <> :excludeId', { excludeId });
+        }
+        return query
+            .orderBy('shared_traits', 'DESC')
+            .addOrderBy('patient.id', 'ASC')
+            .limit(CANDIDATE_LIMIT)
+            .getMany();
+    }
+
+    /**
+     * @private
+     * @method compareBirthdays
+     * @description 1 when equal; 0.8 when day and month are swapped; 0.6 for one wrong digit; otherwise 0.
+     */
+    private compareBirthdays(a: string, b: string | null | undefined): number {
+        const [x, y] = [digitsOf(String(a).slice(0, 10)), digitsOf(String(b ?? '').slice(0, 10))];
+        if (x.length !== 8 || y.length !== 8) return 0;
+        if (x === y) return 1;
+        if (
+            x.slice(0, 4) === y.slice(0, 4) &&
+            x.slice(4, 6) === y.slice(6, 8) &&
+            x.slice(6, 8) === y.slice(4, 6)
+        ) {
+            return 0.8;
+        }
+        return levenshtein(x, y) === 1 ? 0.6 : 0;
+    }
+
+    /**
+     * @private
+     * @method comparePhones
+     * @description Compares the trailing digits (so `+886 912...` and `0912...` agree): 1 when equal, 0.7 / 0.4 for one /
+     * two wrong digits, otherwise 0.
+     */
+    private comparePhones(a: string, b: string | null | undefined): number {
+        const [x, y] = [digitsOf(a).slice(-9), digitsOf(b).slice(-9)];
+        if (!y) return 0;
+        const distance = levenshtein(x, y);
+        return distance === 0 ? 1 : distance === 1 ? 0.7 : distance === 2 ? 0.4 : 0;
+    }
+
+    /**
+     * @private
+     * @method compareEmails
+     * @description 1 when equal (case-insensitive), 0.6 for a typo of up to two characters, 0.5 for the same mailbox
+     * name at another domain, otherwise 0.
+     */
+    private compareEmails(a: string, b: string | null | undefined): number {
+        const [x, y] = [a.trim().toLowerCase(), (b ?? '').trim().toLowerCase()];
+        if (!y) return 0;
+        if (x === y) return 1;
+        if (levenshtein(x, y) <= 2) return 0.6;
+        return x.split('@')[0] === y.split('@')[0] ? 0.5 : 0;
+    }
+}
@@ -0,0 +1,286 @@
+// backend/src/services/patientSearch.service.ts
+// Ranked free-text patient search (front desk look-up and type-ahead): partial names in Chinese or Latin
+// characters, phone fragments, PID prefixes and email addresses.
+
+import { Brackets, Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import { PatientEntity } from '../models/entities/Patient.entity';
+
+/** The patient fields a search query is matched against (and highlighted in). */
+export type PatientSearchField = 'pid' | 'familyName' | 'givenName' | 'telecom' | 'email';
+
+/**
+ * The part of a field a query matched.
+ * @property {PatientSearchField} field - The matched field.
+ * @property {[number, number][]} ranges - `[start, end)` character offsets of the matched text in the field's value;
+ * empty for a fuzzy (trigram similarity) match, which has no exact span to mark.
+ */
+export interface PatientSearchHighlight {
+    field: PatientSearchField;
+    ranges: [number, number][];
+}
+
+/**
+ * A search result.
+ * @property {PatientEntity} patient - The matching patient.
+ * @property {number} score - Rank between 0 and 1 (1: a field equals the query), three decimals.
+ * @property {PatientSearchHighlight[]} highlights - The matched fields, best match first.
+ */
+export interface PatientSearchHit {
+    patient: PatientEntity;
+    score: number;
+    highlights: PatientSearchHighlight[];
+}
+
+/** Score of an exact, prefix and substring match of a field; fuzzy matches rank below them. */
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.9;
+const CONTAINS_SCORE = 0.75;
+/**
+ * Weight of the trigram word similarity of a fuzzy match. Only similarities reaching
+ * `pg_trgm.word_similarity_threshold` (0.6 by default) count, so a fuzzy match scores at least 0.42.
+ */
+const FUZZY_WEIGHT = 0.7;
+/** Phone fragments shorter than this are not matched against phone numbers (too many hits to be useful). */
+const MIN_PHONE_DIGITS = 3;
+
+/** SQL expression of each searched text field (the full name has no spaces, see `idx_patients_full_name_trgm`). */
+const TEXT_COLUMNS = {
+    pid: 'patient.pid',
+    familyName: 'patient.family_name',
+    givenName: 'patient.given_name',
+    fullName: "replace(patient.family_name || patient.given_name, ' ', '')",
+    email: 'patient.email',
+};
+type TextColumn = keyof typeof TEXT_COLUMNS;
+/** Text fields also matched by trigram word similarity (typos, transliteration variants). */
+const FUZZY_COLUMNS: TextColumn[] = ['familyName', 'givenName', 'email'];
+const PHONE_DIGITS_SQL = "regexp_replace(patient.telecom, '\\D', '', 'g')";
+
+/** Escapes the LIKE wildcards of a value (Postgres' default escape character is the backslash). */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+/** `[start, end)` offsets of every (case-insensitive) occurrence of `needle` in `value`. */
+const findRanges = (value: string | null | undefined, needle: string): [number, number][] => {
+    const ranges: [number, number][] = [];
+    const haystack = (value ?? '').toLowerCase();
+    if (!needle) {
+        return ranges;
+    }
+    for (
+        let at = haystack.indexOf(needle);
+        at !== -1;
+        at = haystack.indexOf(needle, at + needle.length)
+    ) {
+        ranges.push([at, at + needle.length]);
+    }
+    return ranges;
+};
+
+/**
+ * @class PatientSearchService
+ * @description Searches patients by a free-text query and ranks the results: the engine behind
+ * `GET /api/patients/search` and the type-ahead of the patient list.
+ * @design
+ * - Candidates are found with indexable conditions only (see the trigram indexes in `database/patients.sql`): a
+ *   case-insensitive substring of the PID, family name, given name, full name (family + given, spaces ignored) or
+ *   email, the query's digits inside the phone number's digits, or a trigram word similarity (`<%`) of the query to
+ *   a name or email, which catches typos and transliteration variants.
+ * - Each field is scored in SQL (exact > prefix > substring > fuzzy) and a patient ranks by its best field, so
+ *   "A12" puts PIDs starting with A12 before those merely containing it, and the page is limited in the database.
+ * - Highlights are located in the returned values; a fuzzy match names its field without a span.
+ * - Records merged into another one are left out: the search looks for the patient, not its merged-away copies.
+ */
+export class PatientSearchService {
+    private readonly patientRepository: Repository<PatientEntity>;
+
+    constructor() {
+        this.patientRepository = AppDataSource.getRepository(PatientEntity);
+    }
+
+    /**
+     * @method search
+     * @description Finds the patients matching a query, best first.
+     * @param {string} text - The query, e.g. "王小", "wang", "0912-34", "A1234" or "gmail".
+     * @param {number} limit - Maximum number of results.
+     * @returns {Promise<PatientSearchHit[]>} The hits, by descending score (ties by ID).
+     */
+    async search(text: string, limit: number): Promise<PatientSearchHit[]> {
+        const q = text.trim().toLowerCase();
+        const compact = q.replace(/\s+/g, '');
+        const digits = q.replace(/\D/g, '');
+        if (!q) {
+            return [];
+        }
+
+        const parameters: Record<string, string> = {
+            q,
+            qPrefix: `${escapeLike(q)}%`,
+            qContains: `%${escapeLike(q)}%`,
+            compact,
+            compactPrefix: `${escapeLike(compact)}%`,
+            compactContains: `%${escapeLike(compact)}%`,
+            digits,
+            digitsPrefix: `${digits}%`,
+            digitsContains: `%${digits}%`,
+        };
+        const textScore = (column: TextColumn): string => {
+            const sql = TEXT_COLUMNS[column];
+            const [value, prefix, contains] =
+                column === 'fullName'
+                    ? [':compact', ':compactPrefix', ':compactContains']
+                    : [':q', ':qPrefix', ':qContains'];
+            return (
+                `(CASE WHEN LOWER(${sql}) = ${value} THEN ${EXACT_SCORE} ` +
+                `WHEN LOWER(${sql}) LIKE ${prefix} THEN ${PREFIX_SCORE} ` +
+                `WHEN LOWER(${sql}) LIKE ${contains} THEN ${CONTAINS_SCORE} ` +
+                (FUZZY_COLUMNS.includes(column)
+                    ? `WHEN :q <% ${sql} THEN word_similarity(:q, ${sql}) * ${FUZZY_WEIGHT} `
+                    : '') +
+                'ELSE 0 END)'
+            );
+        };
+        const phoneScore =
+            digits.length >= MIN_PHONE_DIGITS
+                ? `(CASE WHEN ${PHONE_DIGITS_SQL} = :digits THEN ${EXACT_SCORE} ` +
+                  `WHEN ${PHONE_DIGITS_SQL} LIKE :digitsPrefix THEN ${PREFIX_SCORE} ` +
+                  `WHEN ${PHONE_DIGITS_SQL} LIKE :digitsContains THEN ${CONTAINS_SCORE} ELSE 0 END)`
+                : '0';
+        const fieldScores: Record<TextColumn | 'telecom', string> = {
+            pid: textScore('pid'),
+            familyName: textScore('familyName'),
+            givenName: textScore('givenName'),
+            fullName: textScore('fullName'),
+            email: textScore('email'),
+            telecom: phoneScore,
+        };
+        const score = `GREATEST(${Object.values(fieldScores).join(', ')})`;
+
+        const query = this.patientRepository
+            .createQueryBuilder('patient')
+            .addSelect(score, 'score')
+            .where(
+                new Brackets((alternatives) => {
+                    alternatives
+                        .orWhere(`${TEXT_COLUMNS.pid} ILIKE :qContains`)
+                        .orWhere(`${TEXT_COLUMNS.familyName} ILIKE :qContains`)
+                        .orWhere(`${TEXT_COLUMNS.givenName} ILIKE :qContains`)
+                        .orWhere(`${TEXT_COLUMNS.fullName} ILIKE :compactContains`)
+                        .orWhere(`${TEXT_COLUMNS.email} ILIKE :qContains`);
+                    for (const column of FUZZY_COLUMNS) {
+                        alternatives.orWhere(`:q <% ${TEXT_COLUMNS[column]}`);
+                    }
+                    if (digits.length >= MIN_PHONE_DIGITS) {
+                        alternatives.orWhere(`${PHONE_DIGITS_SQL} LIKE :digitsContains`);
+                    }
+                })
+            )
+            .andWhere('patient.replaced_by IS NULL');
+        for (const [field, sql] of Object.entries(fieldScores)) {
+            query.addSelect(sql, `score_${field}`);
+        }
+        const { entities, raw } = await query
+            .orderBy('score', 'DESC')
+            .addOrderBy('patient.id', 'ASC')
+            .limit(limit)
+            .setParameters(parameters)
+            .getRawAndEntities();
+
+        // Entities and raw rows come back in the same order (no joins), one row per patient.
+        const hits = entities.map((patient, index) => {
+            const row = raw[index];
+            const scores: Record<TextColumn | 'telecom', number> = {
+                pid: Number(row.score_pid),
+                familyName: Number(row.score_familyName),
+                givenName: Number(row.score_givenName),
+                fullName: Number(row.score_fullName),
+                email: Number(row.score_email),
+                telecom: Number(row.score_telecom),
+            };
+            return {
+                patient,
+                score: Math.round(Number(row.score) * 1000) / 1000,
+                highlights: this.buildHighlights(patient, scores, q, compact, digits),
+            };
+        });
+        console.log(`[Patient Search] ${hits.length} hit(s) for "${text.trim()}".`);
+        return hits;
+    }
+
+    /**
+     * @private
+     * @method buildHighlights
+     * @description Locates the query in the fields that matched (score > 0), best field first.
+     * A full-name match is split over the family and given name it spans.
+     */
+    private buildHighlights(
+        patient: PatientEntity,
+        scores: Record<TextColumn | 'telecom', number>,
+        q: string,
+        compact: string,
+        digits: string
+    ): PatientSearchHighlight[] {
+        const ranges = new Map<PatientSearchField, [number, number][]>();
+        const add = (field: PatientSearchField, found: [number, number][]): void => {
+            const known = ranges.get(field) ?? [];
+            for (const range of found) {
+                if (!known.some(([start, end]) => start < range[1] && range[0] < end)) {
+                    known.push(range);
+                }
+            }
+            ranges.set(
+                field,
+                known.sort((a, b) => a[0] - b[0])
+            );
+        };
+
+        for (const field of ['pid', 'familyName', 'givenName', 'email'] as const) {
+            if (scores[field] > 0) {
+                add(field, findRanges(patient[field], q));
+            }
+        }
+        if (scores.fullName > 0) {
+            // Offsets in the spaceless full name map back to the family and given name they fall in.
+            const nameChars = (['familyName', 'givenName'] as const).flatMap((field) =>
+                (patient[field] ?? '')
+                    .split('')
+                    .map((char, index) => ({ field, char, index }))
+                    .filter(({ char }) => char !== ' ')
+            );
+            const fullName = nameChars.map(({ char }) => char).join('');
+            for (const [start, end] of findRanges(fullName, compact)) {
+                for (const field of ['familyName', 'givenName'] as const) {
+                    const chars = nameChars.slice(start, end).filter((c) => c.field === field);
+                    if (chars.length > 0) {
+                        add(field, [[chars[0].index, chars[chars.length - 1].index + 1]]);
+                    }
+                }
+            }
+        }
+        if (scores.telecom > 0) {
+            // Offsets in the phone number's digits map back to the formatted number.
+            const telecom = patient.telecom ?? '';
+            const digitOffsets = telecom
+                .split('')
+                .flatMap((char, index) => (/\d/.test(char) ? [index] : []));
+            const phoneDigits = telecom.replace(/\D/g, '');
+            add(
+                'telecom',
+                findRanges(phoneDigits, digits).map(([start, end]): [number, number] => [
+                    digitOffsets[start],
+                    digitOffsets[end - 1] + 1,
+                ])
+            );
+        }
+
+        // A full-name match counts for the name fields its span falls in.
+        const fieldScore = (field: PatientSearchField): number =>
+            (field === 'familyName' || field === 'givenName') && ranges.get(field)?.length
+                ? Math.max(scores[field], scores.fullName)
+                : scores[field];
+        return (['pid', 'familyName', 'givenName', 'telecom', 'email'] as const)
+            .filter((field) => fieldScore(field) > 0)
+            .sort((a, b) => fieldScore(b) - fieldScore(a))
+            .map((field) => ({ field, ranges: ranges.get(field) ?? [] }));
+    }
+}
@@ -0,0 +1,679 @@
+// backend/src/services/terminology.service.ts
+// Terminology mappings (local value <-> FHIR code) kept as configuration: cached lookups for the FHIR conversions,
+// admin maintenance, and their publication as FHIR ConceptMap resources with `$translate`.
+
+import { Coding, ConceptMap, ConceptMapGroup, Parameters, ParametersParameter } from 'fhir/r5';
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/dataSource';
+import {
+    TerminologyConceptMapId,
+    TerminologyMappingEntity,
+} from '../models/entities/TerminologyMapping.entity';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/error';
+
+/**
+ * @interface ConceptMapDefinition
+ * @description Fixed properties of a concept map; its entries come from the `terminology_mappings` table.
+ * @property {string} name - Computer-friendly name (`ConceptMap.name`).
+ * @property {string} title - Human-readable title.
+ * @property {string} element - The Patient element the map produces, for documentation.
+ * @property {string[]} targetSystems - Code systems a mapping may target; the first is the default.
+ * @property {string} targetScope - Value set bound to the target element.
+ * @property {{ code: string; display: string }} [unmapped] - Code sent for local values without a mapping. Without one, only the text is sent.
+ */
+export interface ConceptMapDefinition {
+    name: string;
+    title: string;
+    element: string;
+    targetSystems: string[];
+    targetScope: string;
+    unmapped?: { code: string; display: string };
+}
+
+export const ADMINISTRATIVE_GENDER_SYSTEM = 'http://hl7.org/fhir/administrative-gender';
+export const BCP47_SYSTEM = 'urn:ietf:bcp:47';
+export const V3_ROLE_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-RoleCode';
+export const V2_0131_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0131';
+
+export const CONCEPT_MAPS: Record<TerminologyConceptMapId, ConceptMapDefinition> = {
+    gender: {
+        name: 'LocalGenderToAdministrativeGender',
+        title: 'Local gender values to FHIR AdministrativeGender',
+        element: 'Patient.gender',
+        targetSystems: [ADMINISTRATIVE_GENDER_SYSTEM],
+        targetScope: 'http://hl7.org/fhir/ValueSet/administrative-gender',
+        unmapped: { code: 'unknown', display: 'Unknown' },
+    },
+    language: {
+        name: 'LocalLanguageToBcp47',
+        title: 'Local preferred languages to BCP 47 language tags',
+        element: 'Patient.communication.language',
+        targetSystems: [BCP47_SYSTEM],
+        targetScope: 'http://hl7.org/fhir/ValueSet/all-languages',
+        unmapped: { code: 'und', display: 'Undetermined' },
+    },
+    relationship: {
+        name: 'LocalRelationshipToContactRelationship',
+        title: 'Local emergency contact relationships to FHIR contact relationship codes',
+        element: 'Patient.contact.relationship',
+        targetSystems: [V3_ROLE_CODE_SYSTEM, V2_0131_SYSTEM],
+        targetScope: 'http://hl7.org/fhir/ValueSet/patient-contactrelationship',
+    },
+};
+
+export const CONCEPT_MAP_IDS = Object.keys(CONCEPT_MAPS) as TerminologyConceptMapId[];
+
+/** AdministrativeGender codes; `Patient.gender` is a code, so gender mappings cannot target anything else. */
+const ADMINISTRATIVE_GENDER_CODES = ['male', 'female', 'other', 'unknown'];
+/** Shape of a BCP 47 language tag (language, then optional script / region / variant subtags). */
+const BCP47_TAG_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+/** Canonical URL of a concept map, e.g. `urn:ehr:fhir:ConceptMap:gender`. */
+export const conceptMapUrl = (id: TerminologyConceptMapId): string =>
+    `urn:ehr:fhir:ConceptMap:${id}`;
+
+/** Code system of the local values of a concept map, e.g. `urn:ehr:system:gender`. */
+export const localValueSystem = (id: TerminologyConceptMapId): string => `urn:ehr:system:${id}`;
+
+/**
+ * @interface TerminologyMappingInput
+ * @description Body of the admin create / update endpoints.
+ * @property {TerminologyConceptMapId} conceptMap - The concept map the entry belongs to.
+ * @property {string} localValue - The local value.
+ * @property {string} [targetSystem] - Code system of the target; defaults to the map's first target system.
+ * @property {string} targetCode - The FHIR code.
+ * @property {string | null} [targetDisplay] - Display of the FHIR code.
+ * @property {boolean} [reverseDefault] - Whether imports of the code write this local value.
+ */
+export interface TerminologyMappingInput {
+    conceptMap: TerminologyConceptMapId;
+    localValue: string;
+    targetSystem?: string;
+    targetCode: string;
+    targetDisplay?: string | null;
+    reverseDefault?: boolean;
+}
+
+/**
+ * @interface TranslateRequest
+ * @description Input of `$translate`, already extracted from the query string or the Parameters body.
+ * @property {string} [conceptMapId] - Id of the map (instance-level call).
+ * @property {string} [url] - Canonical URL of the map.
+ * @property {string} [sourceCode] - Local value to translate to FHIR.
+ * @property {string} [system] - Code system of `sourceCode`.
+ * @property {string} [targetCode] - FHIR code to translate back to local values.
+ * @property {string} [targetSystem] - Code system of `targetCode`, or of the wanted result.
+ */
+export interface TranslateRequest {
+    conceptMapId?: string;
+    url?: string;
+    sourceCode?: string;
+    system?: string;
+    targetCode?: string;
+    targetSystem?: string;
+}
+
+/** The stored fields of a mapping, as validated by `TerminologyService.validateInput`. */
+type TerminologyMappingValues = Pick<
+    TerminologyMappingEntity,
+    'conceptMap' | 'localValue' | 'targetSystem' | 'targetCode' | 'targetDisplay' | 'reverseDefault'
+>;
+
+/** Lookup key of a local value: trimmed and lower-cased. */
+const normalizeLocalValue = (value: string): string => value.trim().toLowerCase();
+
+// --- Module-level cache ---
+// Design: The FHIR conversions are synchronous and run for every patient of a batch or export,
+// so they read an in-memory copy of the table. It is loaded at startup, reloaded after every
+// admin change, and refreshed periodically to pick up changes made through other replicas.
+
+/** Mappings by concept map, ordered by id. */
+let mappingsByConceptMap = new Map<TerminologyConceptMapId, TerminologyMappingEntity[]>();
+/** `<conceptMap>|<normalized local value>` -> mapping. */
+let mappingsByLocalValue = new Map<string, TerminologyMappingEntity>();
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * @class TerminologyService
+ * @description Maps local free-text values (gender, preferred language, contact relationship) to FHIR codes and back,
+ * using the concept maps stored in `terminology_mappings`.
+ * @design
+ * - Lookups (`translateToFhir`, `translateToLocal`, `localValuesFor`) read the module-level cache and never hit the database.
+ *   Until `load` has run they find nothing, so values are sent as unmapped.
+ * - A local value maps to exactly one code. Several local values may share a code (e.g., 'Male', 'm', '男');
+ *   imports then write the one flagged `reverseDefault`, or the oldest one.
+ * - Local values are matched case-insensitively and ignoring surrounding spaces; FHIR codes are matched exactly.
+ */
+export class TerminologyService {
+    private readonly mappingRepository: Repository<TerminologyMappingEntity>;
+
+    constructor() {
+        this.mappingRepository = AppDataSource.getRepository(TerminologyMappingEntity);
+    }
+
+    /**
+     * @method load
+     * @description (Re)loads every mapping into the cache.
+     * @returns {Promise<number>} The number of mappings loaded.
+     */
+    async load(): Promise<number> {
+        const rows = await this.mappingRepository.find({ order: { id: 'ASC' } });
+        const byConceptMap = new Map<TerminologyConceptMapId, TerminologyMappingEntity[]>();
+        const byLocalValue = new Map<string, TerminologyMappingEntity>();
+        for (const row of rows) {
+            if (!CONCEPT_MAP_IDS.includes(row.conceptMap)) {
+                console.warn(
+                    `[Terminology] Ignoring mapping ${row.id}: unknown concept map '${row.conceptMap}'.`
+                );
+                continue;
+            }
+            byConceptMap.set(row.conceptMap, [...(byConceptMap.get(row.conceptMap) ?? []), row]);
+            byLocalValue.set(`${row.conceptMap}|${normalizeLocalValue(row.localValue)}`, row);
+        }
+        mappingsByConceptMap = byConceptMap;
+        mappingsByLocalValue = byLocalValue;
+        return rows.length;
+    }
+
+    /**
+     * @method startPeriodicRefresh
+     * @description Reloads the cache every `intervalMs`. A failed reload is logged and the previous cache kept.
+     * @param {number} intervalMs - Refresh interval; 0 or less disables the refresh.
+     * @returns {void}
+     */
+    startPeriodicRefresh(intervalMs: number): void {
+        this.stopPeriodicRefresh();
+        if (intervalMs <= 0) {
+            return;
+        }
+        refreshTimer = setInterval(() => {
+            this.load().catch((error) =>
+                console.error(
+                    '[Terminology] Periodic refresh failed; keeping cached mappings:',
+                    error
+                )
+            );
+        }, intervalMs);
+        refreshTimer.unref();
+    }
+
+    /**
+     * @method stopPeriodicRefresh
+     * @description Stops the periodic refresh, if running.
+     * @returns {void}
+     */
+    stopPeriodicRefresh(): void {
+        if (refreshTimer) {
+            clearInterval(refreshTimer);
+            refreshTimer = null;
+        }
+    }
+
+    /**
+     * @method translateToFhir
+     * @description Looks up the FHIR code of a local value.
+     * @param {TerminologyConceptMapId} conceptMap - The concept map.
+     * @param {string | null | undefined} localValue - The local value.
+     * @returns {Coding | undefined} The coding (system, code and display), or undefined if the value is not mapped
+     * (callers fall back to `CONCEPT_MAPS[conceptMap].unmapped`).
+     */
+    translateToFhir(
+        conceptMap: TerminologyConceptMapId,
+        localValue: string | null | undefined
+    ): (Coding & { system: string; code: string }) | undefined {
+        if (!localValue?.trim()) {
+            return undefined;
+        }
+        const mapping = mappingsByLocalValue.get(
+            `${conceptMap}|${normalizeLocalValue(localValue)}`
+        );
+        return mapping
+            ? {
+                  system: mapping.targetSystem,
+                  code: mapping.targetCode,
+                  display: mapping.targetDisplay ?? undefined,
+              }
+            : undefined;
+    }
+
+    /**
+     * @method translateToLocal
+     * @description Looks up the local value written when a FHIR code is imported.
+     * @param {TerminologyConceptMapId} conceptMap - The concept map.
+     * @param {string} system - Code system of the code.
+     * @param {string} code - The FHIR code.
+     * @returns {string | undefined} The `reverseDefault` local value of the code (or its oldest one), or undefined.
+     */
+    translateToLocal(
+        conceptMap: TerminologyConceptMapId,
+        system: string,
+        code: string
+    ): string | undefined {
+        return this.findByTarget(conceptMap, code, system)[0]?.localValue;
+    }
+
+    /**
+     * @method localValuesFor
+     * @description Lists the local values that translate to a FHIR code (for searching by code).
+     * @param {TerminologyConceptMapId} conceptMap - The concept map.
+     * @param {string} [code] - The FHIR code; all mapped local values when omitted.
+     * @returns {string[]} Normalized (trimmed, lower-cased) local values.
+     */
+    localValuesFor(conceptMap: TerminologyConceptMapId, code?: string): string[] {
+        return (mappingsByConceptMap.get(conceptMap) ?? [])
+            .filter((mapping) => code === undefined || mapping.targetCode === code)
+            .map((mapping) => normalizeLocalValue(mapping.localValue));
+    }
+
+    /**
+     * @method list
+     * @description Lists mappings from the database, optionally of one concept map.
+     * @param {TerminologyConceptMapId} [conceptMap] - Filter.
+     * @returns {Promise<TerminologyMappingEntity[]>} The mappings, by concept map and id.
+     */
+    async list(conceptMap?: TerminologyConceptMapId): Promise<TerminologyMappingEntity[]> {
+        return this.mappingRepository.find({
+            where: conceptMap ? { conceptMap } : {},
+            order: { conceptMap: 'ASC', id: 'ASC' },
+        });
+    }
+
+    /**
+     * @method create
+     * @description Adds a mapping and reloads the cache.
+     * @param {TerminologyMappingInput} input - The mapping.
+     * @returns {Promise<TerminologyMappingEntity>} The saved mapping.
+     * @throws {BadRequestError} If the input is invalid.
+     * @throws {ConflictError} If the local value is already mapped in that concept map.
+     */
+    async create(input: TerminologyMappingInput): Promise<TerminologyMappingEntity> {
+        const values = this.validateInput(input);
+        const saved = await this.saveMapping(this.mappingRepository.create(values));
+        console.log(
+            `[Terminology] Added ${saved.conceptMap} mapping '${saved.localValue}' -> ${saved.targetSystem}|${saved.targetCode}.`
+        );
+        return saved;
+    }
+
+    /**
+     * @method update
+     * @description Changes a mapping and reloads the cache. Omitted fields keep their value.
+     * @param {number} id - Mapping ID.
+     * @param {Partial<TerminologyMappingInput>} input - The fields to change.
+     * @returns {Promise<TerminologyMappingEntity>} The updated mapping.
+     * @throws {NotFoundError} If the mapping does not exist.
+     * @throws {BadRequestError} If the result is invalid.
+     * @throws {ConflictError} If the new local value is already mapped in that concept map.
+     */
+    async update(
+        id: number,
+        input: Partial<TerminologyMappingInput>
+    ): Promise<TerminologyMappingEntity> {
+        const mapping = await this.findById(id);
+        const conceptMap = input.conceptMap ?? mapping.conceptMap;
+        const values = this.validateInput({
+            conceptMap,
+            localValue: input.localValue ?? mapping.localValue,
+            // A mapping moved to another concept map must name a target system valid there.
+            targetSystem:
+                input.targetSystem ??
+                (conceptMap === mapping.conceptMap ? mapping.targetSystem : undefined),
+            targetCode: input.targetCode ?? mapping.targetCode,
+            targetDisplay:
+                input.targetDisplay === undefined ? mapping.targetDisplay : input.targetDisplay,
+            reverseDefault: input.reverseDefault ?? mapping.reverseDefault,
+        });
+        const saved = await this.saveMapping(this.mappingRepository.merge(mapping, values));
+        console.log(`[Terminology] Updated ${saved.conceptMap} mapping ${id}.`);
+        return saved;
+    }
+
+    /**
+     * @method remove
+     * @description Deletes a mapping and reloads the cache. The local value is sent as unmapped from then on.
+     * @param {number} id - Mapping ID.
+     * @returns {Promise<void>}
+     * @throws {NotFoundError} If the mapping does not exist.
+     */
+    async remove(id: number): Promise<void> {
+        const mapping = await this.findById(id);
+        await this.mappingRepository.delete(mapping.id);
+        await this.load();
+        console.log(
+            `[Terminology] Deleted ${mapping.conceptMap} mapping ${id} ('${mapping.localValue}').`
+        );
+    }
+
+    /**
+     * @method getConceptMap
+     * @description Builds the FHIR ConceptMap of one concept map from the cached mappings.
+     * @param {string} id - The concept map id ('gender', 'language' or 'relationship').
+     * @returns {ConceptMap} The ConceptMap (R5). One group per target code system; local values are the source codes.
+     * @throws {NotFoundError} If there is no such concept map.
+     */
+    getConceptMap(id: string): ConceptMap {
+        const conceptMap = this.resolveConceptMapId(id);
+        const definition = CONCEPT_MAPS[conceptMap];
+        const mappings = mappingsByConceptMap.get(conceptMap) ?? [];
+        const group: ConceptMapGroup[] = definition.targetSystems
+            .map((targetSystem) => ({
+                source: localValueSystem(conceptMap),
+                target: targetSystem,
+                element: mappings
+                    .filter((mapping) => mapping.targetSystem === targetSystem)
+                    .map((mapping) => ({
+                        code: mapping.localValue,
+                        target: [
+                            {
+                                code: mapping.targetCode,
+                                display: mapping.targetDisplay ?? undefined,
+                                relationship: 'equivalent' as const,
+                            },
+                        ],
+                    })),
+                unmapped: definition.unmapped && {
+                    mode: 'fixed' as const,
+                    ...definition.unmapped,
+                    relationship: 'related-to' as const,
+                },
+            }))
+            .filter((g) => g.element.length > 0 || g.unmapped);
+        const lastChange = mappings.reduce<Date | undefined>(
+            (latest, mapping) =>
+                !latest || mapping.updatedAt > latest ? mapping.updatedAt : latest,
+            undefined
+        );
+        return {
+            resourceType: 'ConceptMap',
+            id: conceptMap,
+            url: conceptMapUrl(conceptMap),
+            name: definition.name,
+            title: definition.title,
+            status: 'active',
+            date: lastChange?.toISOString(),
+            description: `Local values stored by the EHR, as sent in ${definition.element}.`,
+            targetScopeCanonical: definition.targetScope,
+            group: group.length > 0 ? group : undefined,
+        };
+    }
+
+    /**
+     * @method listConceptMaps
+     * @description Builds every FHIR ConceptMap.
+     * @returns {ConceptMap[]} The ConceptMaps.
+     */
+    listConceptMaps(): ConceptMap[] {
+        return CONCEPT_MAP_IDS.map((id) => this.getConceptMap(id));
+    }
+
+    /**
+     * @method translate
+     * @description Implements `ConceptMap/$translate` on the cached mappings.
+     * @param {TranslateRequest} request - Which map and which code to translate.
+     * @returns {Parameters} R5 output Parameters: `result`, an optional `message`, and one `match` per translation.
+     * @throws {BadRequestError} If the map cannot be determined, or not exactly one of `sourceCode` / `targetCode` is given.
+     * @throws {NotFoundError} If the named concept map does not exist.
+     * @design
+     * - Forward (`sourceCode`): the local value's code; for an unmapped value the map's fixed `unmapped` code,
+     *   with relationship 'related-to' and a message saying so.
+     * - Reverse (`targetCode`): every local value of the code, the one written on import first.
+     * - Without a map id or `url`, the map is chosen from `system` (a local value system) or `targetSystem`.
+     */
+    translate(request: TranslateRequest): Parameters {
+        const conceptMap = this.resolveTranslateConceptMap(request);
+        if (!!request.sourceCode === !!request.targetCode) {
+            throw new BadRequestError('Exactly one of sourceCode or targetCode must be given.');
+        }
+        const originMap = conceptMapUrl(conceptMap);
+        const buildMatch = (relationship: string, concept: Coding): ParametersParameter => ({
+            name: 'match',
+            part: [
+                { name: 'relationship', valueCode: relationship },
+                { name: 'concept', valueCoding: concept },
+                { name: 'originMap', valueCanonical: originMap },
+            ],
+        });
+
+        if (request.sourceCode) {
+            const wrongSystem =
+                request.system !== undefined && request.system !== localValueSystem(conceptMap);
+            const coding = wrongSystem
+                ? undefined
+                : this.translateToFhir(conceptMap, request.sourceCode);
+            if (coding && (!request.targetSystem || request.targetSystem === coding.system)) {
+                return this.buildTranslateResult(true, undefined, [
+                    buildMatch('equivalent', coding),
+                ]);
+            }
+            const unmapped = CONCEPT_MAPS[conceptMap].unmapped;
+            const targetSystem = CONCEPT_MAPS[conceptMap].targetSystems[0];
+            if (
+                !wrongSystem &&
+                !coding &&
+                unmapped &&
+                (!request.targetSystem || request.targetSystem === targetSystem)
+            ) {
+                return this.buildTranslateResult(
+                    true,
+                    `'${request.sourceCode}' is not mapped; the map's fixed code for unmapped values applies.`,
+                    [buildMatch('related-to', { system: targetSystem, ...unmapped })]
+                );
+            }
+            return this.buildTranslateResult(
+                false,
+                `No mapping for '${request.sourceCode}' in ${originMap}${request.targetSystem ? ` to ${request.targetSystem}` : ''}.`,
+                []
+            );
+        }
+
+        const matches = this.findByTarget(
+            conceptMap,
+            request.targetCode!,
+            request.targetSystem
+        ).map((mapping) =>
+            buildMatch('equivalent', {
+                system: localValueSystem(conceptMap),
+                code: mapping.localValue,
+            })
+        );
+        return this.buildTranslateResult(
+            matches.length > 0,
+            matches.length > 0
+                ? undefined
+                : `No local value maps to '${request.targetCode}' in ${originMap}.`,
+            matches
+        );
+    }
+
+    /**
+     * @private
+     * @method findByTarget
+     * @description Cached mappings of a FHIR code, the `reverseDefault` one first, then by id.
+     */
+    private findByTarget(
+        conceptMap: TerminologyConceptMapId,
+        code: string,
+        system?: string
+    ): TerminologyMappingEntity[] {
+        return (mappingsByConceptMap.get(conceptMap) ?? [])
+            .filter(
+                (mapping) =>
+                    mapping.targetCode === code && (!system || mapping.targetSystem === system)
+            )
+            .sort((a, b) => Number(b.reverseDefault) - Number(a.reverseDefault));
+    }
+
+    /**
+     * @private
+     * @method buildTranslateResult
+     * @description Assembles the `$translate` output Parameters.
+     */
+    private buildTranslateResult(
+        result: boolean,
+        message: string | undefined,
+        matches: ParametersParameter[]
+    ): Parameters {
+        return {
+            resourceType: 'Parameters',
+            parameter: [
+                { name: 'result', valueBoolean: result },
+                ...(message ? [{ name: 'message', valueString: message }] : []),
+                ...matches,
+            ],
+        };
+    }
+
+    /**
+     * @private
+     * @method resolveConceptMapId
+     * @description Checks a concept map id.
+     * @throws {NotFoundError} If there is no such concept map.
+     */
+    private resolveConceptMapId(id: string): TerminologyConceptMapId {
+        if (!CONCEPT_MAP_IDS.includes(id as TerminologyConceptMapId)) {
+            throw new NotFoundError(`ConceptMap/${id} not found`);
+        }
+        return id as TerminologyConceptMapId;
+    }
+
+    /**
+     * @private
+     * @method resolveTranslateConceptMap
+     * @description Determines the concept map of a `$translate` call (see `translate`).
+     */
+    private resolveTranslateConceptMap(request: TranslateRequest): TerminologyConceptMapId {
+        if (request.conceptMapId) {
+            return this.resolveConceptMapId(request.conceptMapId);
+        }
+        if (request.url) {
+            const byUrl = CONCEPT_MAP_IDS.find((id) => conceptMapUrl(id) === request.url);
+            if (!byUrl) {
+                throw new NotFoundError(`ConceptMap with url '${request.url}' not found`);
+            }
+            return byUrl;
+        }
+        const systems = [request.system, request.targetSystem].filter(Boolean) as string[];
+        const bySystem =
+            CONCEPT_MAP_IDS.find((id) => systems.includes(localValueSystem(id))) ??
+            CONCEPT_MAP_IDS.find((id) =>
+                systems.some((system) => CONCEPT_MAPS[id].targetSystems.includes(system))
+            );
+        if (!bySystem) {
+            throw new BadRequestError(
+                "Cannot determine the concept map: give 'url', or a 'system' / 'targetSystem' it maps from or to."
+            );
+        }
+        return bySystem;
+    }
+
+    /**
+     * @private
+     * @method validateInput
+     * @description Checks and normalizes a mapping before it is saved.
+     * @throws {BadRequestError} If a field is missing, too long, or the code does not fit the target system.
+     */
+    private validateInput(input: TerminologyMappingInput): TerminologyMappingValues {
+        if (!CONCEPT_MAP_IDS.includes(input.conceptMap)) {
+            throw new BadRequestError(
+                `Invalid conceptMap '${input.conceptMap}'. Expected one of: ${CONCEPT_MAP_IDS.join(', ')}.`
+            );
+        }
+        const definition = CONCEPT_MAPS[input.conceptMap];
+        const localValue = typeof input.localValue === 'string' ? input.localValue.trim() : '';
+        const targetCode = typeof input.targetCode === 'string' ? input.targetCode.trim() : '';
+        const targetSystem = input.targetSystem ?? definition.targetSystems[0];
+        const targetDisplay =
+            typeof input.targetDisplay === 'string' && input.targetDisplay.trim()
+                ? input.targetDisplay.trim()
+                : null;
+        if (!localValue || localValue.length > 100) {
+            throw new BadRequestError("'localValue' is required (at most 100 characters).");
+        }
+        if (!targetCode || targetCode.length > 100) {
+            throw new BadRequestError("'targetCode' is required (at most 100 characters).");
+        }
+        if (targetDisplay && targetDisplay.length > 255) {
+            throw new BadRequestError("'targetDisplay' must be at most 255 characters.");
+        }
+        if (!definition.targetSystems.includes(targetSystem)) {
+            throw new BadRequestError(
+                `Invalid targetSystem '${targetSystem}' for ${input.conceptMap}. Expected one of: ${definition.targetSystems.join(', ')}.`
+            );
+        }
+        if (
+            targetSystem === ADMINISTRATIVE_GENDER_SYSTEM &&
+            !ADMINISTRATIVE_GENDER_CODES.includes(targetCode)
+        ) {
+            throw new BadRequestError(
+                `Invalid gender code '${targetCode}'. Expected one of: ${ADMINISTRATIVE_GENDER_CODES.join(', ')}.`
+            );
+        }
+        if (targetSystem === BCP47_SYSTEM && !BCP47_TAG_PATTERN.test(targetCode)) {
+            throw new BadRequestError(
+                `'${targetCode}' is not a BCP 47 language tag (e.g., 'en', 'zh-TW').`
+            );
+        }
+        if (input.reverseDefault !== undefined && typeof input.reverseDefault !== 'boolean') {
+            throw new BadRequestError("'reverseDefault' must be a boolean.");
+        }
+        return {
+            conceptMap: input.conceptMap,
+            localValue,
+            targetSystem,
+            targetCode,
+            targetDisplay,
+            reverseDefault: input.reverseDefault ?? false,
+        };
+    }
+
+    /**
+     * @private
+     * @method saveMapping
+     * @description Saves a mapping (clearing the `reverseDefault` flag of the code's other local values if it is set)
+     * and reloads the cache.
+     * @throws {ConflictError} If the local value is already mapped in the concept map.
+     */
+    private async saveMapping(
+        mapping: TerminologyMappingEntity
+    ): Promise<TerminologyMappingEntity> {
+        try {
+            const saved = await AppDataSource.transaction(async (manager) => {
+                if (mapping.reverseDefault) {
+                    await manager
+                        .createQueryBuilder()
+                        .update(TerminologyMappingEntity)
+                        .set({ reverseDefault: false })
+                        .where(
+                            'concept_map = :conceptMap AND target_system = :targetSystem AND target_code = :targetCode',
+                            mapping
+                        )
+                        .andWhere(mapping.id ? 'id <> :id' : 'TRUE', { id: mapping.id })
+                        .execute();
+                }
+                return manager.save(mapping);
+            });
+            await this.load();
+            return saved;
+        } catch (error: any) {
+            if (error.code === '23505') {
+                throw new ConflictError(
+                    `'${mapping.localValue}' is already mapped in the ${mapping.conceptMap} concept map`
+                );
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * @private
+     * @method findById
+     * @throws {NotFoundError} If the mapping does not exist.
+     */
+    private async findById(id: number): Promise<TerminologyMappingEntity> {
+        const mapping = await this.mappingRepository.findOneBy({ id });
+        if (!mapping) {
+            throw new NotFoundError(`Terminology mapping with ID ${id} not found`);
+        }
+        return mapping;
+    }
+}
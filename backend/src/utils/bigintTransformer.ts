@@ -0,0 +1,12 @@
+// backend/src/utils/bigintTransformer.ts
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Column transformer for BIGINT / BIGSERIAL columns typed `number` in the entities.
+ * The pg driver hydrates BIGINT as a string (it may exceed `Number.MAX_SAFE_INTEGER`); the ids used here never do,
+ * so they are read back as numbers and entities hold the type they declare.
+ */
+export const bigintTransformer: ValueTransformer = {
+    to: (value: number | null | undefined) => value,
+    from: (value: string | number | null) => (value === null ? null : Number(value)),
+};
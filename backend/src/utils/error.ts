@@ -1,4 +1,5 @@
 // src/utils/error.ts
+import { OperationOutcome } from 'fhir/r5'
 
 /**
  * Base error class for application-specific errors (optional but promotes consistency).
@@ -65,6 +66,41 @@ export class BadRequestError extends AppError {
    }
 }
 
+export class UnprocessableEntityError extends AppError {
+   public outcome?: OperationOutcome // Optional FHIR OperationOutcome listing what is wrong with the data
+
+   /**
+    * @param {string} [message='The data cannot be processed'] - The error message.
+    * @param {OperationOutcome} [outcome] - Optional OperationOutcome with the individual issues.
+    */
+   constructor(message = 'The data cannot be processed', outcome?: OperationOutcome) {
+      super('UnprocessableEntityError', 422, message)
+      this.outcome = outcome
+   }
+}
+
+export class UpstreamServiceError extends AppError {
+   public upstreamStatusCode?: number // Status returned by the upstream server, if it answered at all
+   public outcome?: OperationOutcome // Optional FHIR OperationOutcome returned by the upstream server
+
+   /**
+    * @param {number} [statusCode=502] - Status to answer with (e.g., 422 when the upstream rejected the data, 502, 504).
+    * @param {string} [message='Upstream server error'] - The error message.
+    * @param {number} [upstreamStatusCode] - Status returned by the upstream server.
+    * @param {OperationOutcome} [outcome] - Optional OperationOutcome returned by the upstream server.
+    */
+   constructor(
+      statusCode = 502,
+      message = 'Upstream server error',
+      upstreamStatusCode?: number,
+      outcome?: OperationOutcome
+   ) {
+      super('UpstreamServiceError', statusCode, message)
+      this.upstreamStatusCode = upstreamStatusCode
+      this.outcome = outcome
+   }
+}
+
 export class InternalServerError extends AppError {
    /**
     * @param {string} [message='Internal server error'] - The error message.
@@ -0,0 +1,156 @@
+// backend/src/utils/fhirRequest.ts
+import { Request, Response } from 'express';
+import type { FhirResource } from 'fhir/r5';
+import config from '../config';
+import {
+    FHIR_VERSION_INFO,
+    FHIR_VERSIONS,
+    FhirVersion,
+    fhirJsonContentType,
+    fhirXmlContentType,
+    getFhirConverter,
+    parseFhirVersion,
+} from '../services/fhirVersions';
+import { parseFhirXml, toFhirXml } from './fhirXml';
+
+/** Wire formats of FHIR resources; JSON unless the client asks for XML. */
+export type FhirFormat = 'json' | 'xml';
+
+/** Media types (and `_format` shorthands) of each format. */
+export const FHIR_XML_MEDIA_TYPES = ['application/fhir+xml', 'application/xml', 'text/xml'];
+const FHIR_FORMAT_MEDIA_TYPES: Record<FhirFormat, string[]> = {
+    json: ['json', 'application/fhir+json', 'application/json', 'text/json'],
+    xml: ['xml', ...FHIR_XML_MEDIA_TYPES],
+};
+
+/**
+ * Resolves the public base URL of the `/fhir` facade, used for `fullUrl`, paging links and status URLs.
+ * Prefers `config.fhir.publicBaseUrl` (needed behind a reverse proxy) and otherwise derives it from the request.
+ * @param {Request} req - The incoming request.
+ * @returns {string} Base URL without a trailing slash (e.g., `https://ehr.example.org/fhir`).
+ */
+export const getFhirBaseUrl = (req: Request): string =>
+    config.fhir.publicBaseUrl?.replace(/\/+$/, '') || `${req.protocol}://${req.get('host')}/fhir`;
+
+/** Error message for a request naming a FHIR release this server does not support (answered with 406 / 415). */
+export const UNSUPPORTED_FHIR_VERSION_MESSAGE = `Unsupported fhirVersion. Supported: ${FHIR_VERSIONS.map(
+    (version) => `${FHIR_VERSION_INFO[version].mimeVersion} (${version})`
+).join(', ')}.`;
+
+/** Extracts the `fhirVersion` parameter of one media type (e.g., `application/fhir+json; fhirVersion=4.0`). */
+const getFhirVersionParameter = (mediaType: string): string | undefined =>
+    mediaType
+        .split(';')
+        .slice(1)
+        .map((parameter) => parameter.split('='))
+        .find(([name]) => name.trim().toLowerCase() === 'fhirversion')?.[1];
+
+/**
+ * Picks the FHIR release of the response from the `Accept` header's `fhirVersion` parameter
+ * (e.g., `Accept: application/fhir+json; fhirVersion=4.0`), honouring `q` weights.
+ * @param {Request} req - The incoming request.
+ * @returns {FhirVersion | undefined} The release to respond in (`config.fhir.defaultVersion` when no range names one),
+ * or undefined if every range names an unsupported release, in which case the caller should answer 406.
+ */
+export const negotiateFhirVersion = (req: Request): FhirVersion | undefined => {
+    const ranges = (req.get('Accept') ?? '')
+        .split(',')
+        .map((range) => ({
+            requested: getFhirVersionParameter(range),
+            q: Number(/;\s*q=([0-9.]+)/i.exec(range)?.[1] ?? 1),
+        }))
+        .filter((range) => range.requested !== undefined && range.q > 0)
+        .sort((a, b) => b.q - a.q);
+    if (ranges.length === 0) {
+        return config.fhir.defaultVersion;
+    }
+    for (const { requested } of ranges) {
+        const version = parseFhirVersion(requested!);
+        if (version) {
+            return version;
+        }
+    }
+    return undefined;
+};
+
+/** Maps a media type (parameters ignored) or `_format` value to its format; the wildcard ranges mean JSON. */
+const parseFhirFormat = (mediaType: string): FhirFormat | undefined => {
+    const type = mediaType.split(';')[0].trim().toLowerCase();
+    if (type === '*/*' || type === 'application/*') {
+        return 'json';
+    }
+    return (Object.keys(FHIR_FORMAT_MEDIA_TYPES) as FhirFormat[]).find((format) =>
+        FHIR_FORMAT_MEDIA_TYPES[format].includes(type)
+    );
+};
+
+/**
+ * Picks the wire format of the response: the `_format` query parameter (`xml`, `json` or a media type) wins,
+ * otherwise the highest-weighted `Accept` range naming FHIR XML or JSON (e.g., `Accept: application/fhir+xml`).
+ * @param {Request} req - The incoming request.
+ * @returns {FhirFormat} `xml` when asked for, otherwise `json` (also for unknown values, e.g. a browser's `text/html`).
+ */
+export const negotiateFhirFormat = (req: Request): FhirFormat => {
+    const requested =
+        typeof req.query._format === 'string' ? parseFhirFormat(req.query._format) : undefined;
+    if (requested) {
+        return requested;
+    }
+    const ranges = (req.get('Accept') ?? '')
+        .split(',')
+        .map((range) => ({
+            format: parseFhirFormat(range),
+            q: Number(/;\s*q=([0-9.]+)/i.exec(range)?.[1] ?? 1),
+        }))
+        .filter((range) => range.format !== undefined && range.q > 0)
+        .sort((a, b) => b.q - a.q);
+    return ranges[0]?.format ?? 'json';
+};
+
+/**
+ * Reads a FHIR request body: FHIR XML (`Content-Type: application/fhir+xml`, kept as text by the XML body parser
+ * in `app.ts`) is parsed into the JSON form, JSON bodies are returned as parsed by `express.json`.
+ * @param {Request} req - The incoming request.
+ * @returns {Record<string, unknown> | undefined} The resource in its JSON form, or undefined when there is no body.
+ * @throws {BadRequestError} If an XML body is not a well-formed FHIR resource.
+ */
+export const readFhirRequestBody = (req: Request): Record<string, unknown> | undefined => {
+    if (typeof req.body === 'string' && req.is(FHIR_XML_MEDIA_TYPES)) {
+        return parseFhirXml(req.body);
+    }
+    return req.body && typeof req.body === 'object' ? req.body : undefined;
+};
+
+/**
+ * Determines the FHIR release of a request body from its `Content-Type` `fhirVersion` parameter.
+ * @param {Request} req - The incoming request.
+ * @returns {FhirVersion | undefined} The release (`config.fhir.defaultVersion` when not named),
+ * or undefined if the named release is not supported.
+ */
+export const getRequestBodyFhirVersion = (req: Request): FhirVersion | undefined => {
+    const requested = getFhirVersionParameter(req.get('Content-Type') ?? '');
+    return requested === undefined ? config.fhir.defaultVersion : parseFhirVersion(requested);
+};
+
+/**
+ * Sends an internal (R5) resource converted to the given release and format, with the matching content type.
+ * @param {Response} res - The response.
+ * @param {number} status - HTTP status.
+ * @param {FhirResource} resource - The resource, in the internal R5 model.
+ * @param {FhirVersion} version - The release to respond in (usually from `negotiateFhirVersion`).
+ * @param {FhirFormat} [format='json'] - The wire format (usually from `negotiateFhirFormat`).
+ */
+export const sendFhirResource = (
+    res: Response,
+    status: number,
+    resource: FhirResource,
+    version: FhirVersion,
+    format: FhirFormat = 'json'
+): void => {
+    const converted = getFhirConverter(version).fromInternal(resource);
+    if (format === 'xml') {
+        res.status(status).type(fhirXmlContentType(version)).send(toFhirXml(converted));
+        return;
+    }
+    res.status(status).type(fhirJsonContentType(version)).send(JSON.stringify(converted));
+};
@@ -0,0 +1,50 @@
+// backend/src/utils/fhirXml.ts
+// FHIR XML serialization (http://hl7.org/fhir/xml.html), for partners that cannot exchange FHIR JSON.
+
+import { Fhir, ParseConformance } from 'fhir';
+import { BadRequestError } from './error';
+
+/**
+ * Serializer built from the base structure definitions bundled with the `fhir` package, created on first use.
+ * The definitions give the element order XML requires; R4 and R5 share it for the resources this server exchanges
+ * (Patient, Bundle, OperationOutcome, ConceptMap, Parameters). Elements the definitions do not know are left out.
+ */
+let serializer: Fhir | undefined;
+const getSerializer = (): Fhir => {
+    if (!serializer) {
+        serializer = new Fhir(new ParseConformance(true));
+    }
+    return serializer;
+};
+
+/**
+ * Serializes a resource (already converted to the target release) as FHIR XML.
+ * Extensions, including those on primitives (`_birthDate`), become `<extension>` elements.
+ * @param {Record<string, unknown>} resource - The resource in its JSON form.
+ * @returns {string} The XML document.
+ */
+export const toFhirXml = (resource: Record<string, unknown>): string =>
+    getSerializer().objToXml(resource);
+
+/**
+ * Parses a FHIR XML document into the JSON form of the resource.
+ * @param {string} xml - The XML document.
+ * @returns {Record<string, unknown>} The resource, as it would have been sent in FHIR JSON, except that `decimal`
+ * values stay strings so they keep their precision (e.g., `Quantity.value`).
+ * @throws {BadRequestError} If the document is not well-formed or its root is not a FHIR resource.
+ */
+export const parseFhirXml = (xml: string): Record<string, unknown> => {
+    let resource: Record<string, unknown> | undefined;
+    try {
+        resource = getSerializer().xmlToObj(xml);
+    } catch (error: any) {
+        console.warn('[FHIR XML] Cannot parse request body:', error?.message);
+        throw new BadRequestError(
+            'Invalid FHIR XML: the document is not a well-formed FHIR resource.'
+        );
+    }
+    if (!resource || typeof resource.resourceType !== 'string') {
+        throw new BadRequestError('Invalid FHIR XML: the root element is not a FHIR resource.');
+    }
+    return resource;
+};
@@ -0,0 +1,111 @@
+// backend/src/utils/operationOutcome.ts
+import { OperationOutcome, OperationOutcomeIssue } from 'fhir/r5';
+import { UnprocessableEntityError, UpstreamServiceError } from './error';
+
+/**
+ * Builds a FHIR OperationOutcome carrying a single issue.
+ * FHIR-facing endpoints (e.g., `/fhir/Patient`) return errors in this shape instead of `{ message }`
+ * so that FHIR clients can parse them.
+ * @param {OperationOutcomeIssue['severity']} severity - 'fatal' | 'error' | 'warning' | 'information'.
+ * @param {OperationOutcomeIssue['code']} code - Issue type code (e.g., 'invalid', 'not-found', 'not-supported').
+ * @param {string} diagnostics - Human-readable description of the problem.
+ * @param {string[]} [expression] - FHIRPath expression(s) or parameter name(s) the issue refers to.
+ * @returns {OperationOutcome} The OperationOutcome resource.
+ */
+export const buildOperationOutcome = (
+    severity: OperationOutcomeIssue['severity'],
+    code: OperationOutcomeIssue['code'],
+    diagnostics: string,
+    expression?: string[]
+): OperationOutcome => ({
+    resourceType: 'OperationOutcome',
+    issue: [{ severity, code, diagnostics, expression }],
+});
+
+/**
+ * @interface OperationOutcomeIssueSummary
+ * @description One issue of an OperationOutcome, flattened for API clients that do not speak FHIR.
+ * @property {string} severity - 'fatal' | 'error' | 'warning' | 'information' | 'success'.
+ * @property {string} code - Issue type code (e.g., 'required', 'code-invalid', 'processing').
+ * @property {string} [diagnostics] - Human-readable description (`diagnostics`, or `details.text` when absent).
+ * @property {string[]} [expression] - FHIRPath location(s) of the offending element(s).
+ */
+export interface OperationOutcomeIssueSummary {
+    severity: OperationOutcomeIssue['severity'];
+    code: OperationOutcomeIssue['code'];
+    diagnostics?: string;
+    expression?: string[];
+}
+
+const ISSUE_SEVERITIES = ['fatal', 'error', 'warning', 'information', 'success'];
+
+/**
+ * Parses an OperationOutcome received from another FHIR server (e.g., the body of a rejected push).
+ * @param {unknown} data - The response body, as parsed from JSON.
+ * @returns {OperationOutcome | undefined} The OperationOutcome with every issue normalized, or undefined if the body is
+ * not an OperationOutcome.
+ * @design Servers differ in how much they fill in, so each issue is normalized:
+ * - `severity` defaults to 'error' and `code` to 'processing' when missing or unknown.
+ * - `diagnostics` falls back to `details.text`, then to the display of the first `details.coding`.
+ * - `expression` falls back to the deprecated `location` (still the only one set by many R4 servers).
+ */
+export const parseOperationOutcome = (data: unknown): OperationOutcome | undefined => {
+    const resource = data as { resourceType?: unknown; issue?: unknown } | null | undefined;
+    if (!resource || resource.resourceType !== 'OperationOutcome') {
+        return undefined;
+    }
+    const issues = (Array.isArray(resource.issue) ? resource.issue : []).filter(
+        (issue): issue is Record<string, any> => Boolean(issue) && typeof issue === 'object'
+    );
+    return {
+        resourceType: 'OperationOutcome',
+        issue: issues.map((issue) => {
+            const expression = Array.isArray(issue.expression)
+                ? issue.expression
+                : Array.isArray(issue.location)
+                  ? issue.location
+                  : undefined;
+            return {
+                ...issue,
+                severity: ISSUE_SEVERITIES.includes(issue.severity) ? issue.severity : 'error',
+                code: typeof issue.code === 'string' && issue.code ? issue.code : 'processing',
+                diagnostics:
+                    issue.diagnostics ??
+                    issue.details?.text ??
+                    issue.details?.coding?.[0]?.display ??
+                    undefined,
+                expression: expression?.filter((item: unknown) => typeof item === 'string'),
+            } as OperationOutcomeIssue;
+        }),
+    };
+};
+
+/**
+ * Flattens the issues of an OperationOutcome for JSON error bodies (`{ message, issues, outcome }`).
+ * @param {OperationOutcome} [outcome] - The OperationOutcome, if any.
+ * @returns {OperationOutcomeIssueSummary[]} One entry per issue; empty without an outcome.
+ */
+export const summarizeOperationOutcome = (
+    outcome?: OperationOutcome
+): OperationOutcomeIssueSummary[] =>
+    (outcome?.issue ?? []).map((issue) => ({
+        severity: issue.severity,
+        code: issue.code,
+        diagnostics: issue.diagnostics ?? issue.details?.text,
+        expression: issue.expression ?? issue.location,
+    }));
+
+/**
+ * Builds the JSON error body of a push that was blocked by local validation or not accepted by the FHIR server:
+ * `{ message, upstreamStatusCode, issues, outcome }`, where `issues` lists what to fix and `outcome` is the full
+ * OperationOutcome (null when there is none).
+ * @param {UnprocessableEntityError | UpstreamServiceError} error - The error thrown by the push.
+ * @returns {object} The response body.
+ */
+export const buildPushErrorBody = (error: UnprocessableEntityError | UpstreamServiceError) => ({
+    message: error.message,
+    upstreamStatusCode:
+        error instanceof UpstreamServiceError ? (error.upstreamStatusCode ?? null) : null,
+    issues: summarizeOperationOutcome(error.outcome),
+    outcome: error.outcome ?? null,
+});
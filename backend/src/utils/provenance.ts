@@ -0,0 +1,136 @@
+// backend/src/utils/provenance.ts
+import { Provenance, ProvenanceAgent } from 'fhir/r5';
+
+/** Identifier system of local user accounts (`users.id`), used to name Provenance agents. */
+export const USER_IDENTIFIER_SYSTEM = 'urn:ehr:system:user';
+
+/**
+ * Core extension asking the server to turn a reference to a resource of the same transaction into a version-specific
+ * reference once that resource's new version is known.
+ */
+const RESOLVE_AS_VERSION_SPECIFIC_URL =
+    'http://hl7.org/fhir/StructureDefinition/resolve-as-version-specific';
+
+/**
+ * What a push did to the Patient on the FHIR server: `create` for its first successful push, `update` afterwards.
+ * Also used for changes recorded locally (see `buildRecordedChangeProvenance`). Coded with HL7 v3 DataOperation.
+ */
+export type FhirPushActivity = 'create' | 'update';
+
+const DATA_OPERATIONS: Record<FhirPushActivity, { code: string; display: string }> = {
+    create: { code: 'CREATE', display: 'create' },
+    update: { code: 'UPDATE', display: 'revise' },
+};
+
+/**
+ * @interface FhirPushAgent
+ * @description The user on whose behalf a push is made (the `req.user` JWT payload, or the user who queued an outbox item).
+ * @property {number} userId - ID of the user account.
+ * @property {string} [email] - The user's email, sent as display.
+ */
+export interface FhirPushAgent {
+    userId: number;
+    email?: string;
+}
+
+/**
+ * Builds the agent of a Provenance: the user as author, or the EHR system as assembler when no user is known.
+ */
+const buildProvenanceAgent = (agent: FhirPushAgent | undefined): ProvenanceAgent =>
+    agent
+        ? {
+              type: {
+                  coding: [
+                      {
+                          system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type',
+                          code: 'author',
+                          display: 'Author',
+                      },
+                  ],
+              },
+              who: {
+                  identifier: { system: USER_IDENTIFIER_SYSTEM, value: String(agent.userId) },
+                  display: agent.email,
+              },
+          }
+        : {
+              type: {
+                  coding: [
+                      {
+                          system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type',
+                          code: 'assembler',
+                          display: 'Assembler',
+                      },
+                  ],
+              },
+              who: { display: 'EHR-FHIR backend' },
+          };
+
+/** Codes a create / update as HL7 v3 DataOperation. */
+const buildProvenanceActivity = (activity: FhirPushActivity): Provenance['activity'] => ({
+    coding: [
+        {
+            system: 'http://terminology.hl7.org/CodeSystem/v3-DataOperation',
+            ...DATA_OPERATIONS[activity],
+        },
+    ],
+});
+
+/**
+ * Builds the Provenance resource sent with a Patient push.
+ * @param {string} pid - The Patient's resource id.
+ * @param {FhirPushActivity} activity - Whether the push creates or updates the remote Patient.
+ * @param {FhirPushAgent | undefined} agent - The user responsible for the change; the EHR system itself when unknown
+ * (e.g., outbox items queued before users were recorded).
+ * @param {Date} recorded - When the push was made.
+ * @param {Date} [occurred] - When the patient record was last changed locally.
+ * @returns {Provenance} The Provenance (R5). Its target is `Patient/<pid>` flagged to be resolved to the version the
+ * same transaction creates, so the audit trail points at the exact version that was sent.
+ */
+export const buildPushProvenance = (
+    pid: string,
+    activity: FhirPushActivity,
+    agent: FhirPushAgent | undefined,
+    recorded: Date,
+    occurred?: Date
+): Provenance => ({
+    resourceType: 'Provenance',
+    target: [
+        {
+            reference: `Patient/${pid}`,
+            extension: [{ url: RESOLVE_AS_VERSION_SPECIFIC_URL, valueBoolean: true }],
+        },
+    ],
+    occurredDateTime: occurred?.toISOString(),
+    recorded: recorded.toISOString(),
+    activity: buildProvenanceActivity(activity),
+    agent: [buildProvenanceAgent(agent)],
+});
+
+/**
+ * Builds the Provenance of a patient change recorded by the EHR itself: a local edit (an outbox item) or a change
+ * applied from the FHIR server (an inbound change). Used by `Patient/$everything`.
+ * @param {string} id - Resource id (e.g., `outbox-12`), stable across requests.
+ * @param {string} pid - The Patient's resource id.
+ * @param {FhirPushActivity} activity - Whether the change created or updated the patient.
+ * @param {FhirPushAgent | undefined} agent - The user who made (or applied) the change; the EHR system when unknown.
+ * @param {Date} recorded - When the change was made.
+ * @param {string} [source] - URL of the resource version the change was taken from, for inbound changes.
+ * @returns {Provenance} The Provenance (R5), targeting `Patient/<pid>`.
+ */
+export const buildRecordedChangeProvenance = (
+    id: string,
+    pid: string,
+    activity: FhirPushActivity,
+    agent: FhirPushAgent | undefined,
+    recorded: Date,
+    source?: string
+): Provenance => ({
+    resourceType: 'Provenance',
+    id,
+    target: [{ reference: `Patient/${pid}` }],
+    recorded: recorded.toISOString(),
+    activity: buildProvenanceActivity(activity),
+    agent: [buildProvenanceAgent(agent)],
+    entity: source ? [{ role: 'source', what: { reference: source } }] : undefined,
+});
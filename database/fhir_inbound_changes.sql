@@ -0,0 +1,32 @@
+-- PostgreSQL CREATE TABLE statement for the 'fhir_inbound_changes' table
+-- Patient changes made on the FHIR server by other systems, received through Subscription rest-hook notifications.
+-- Each row records a change that was applied automatically or is waiting for review.
+
+CREATE TABLE fhir_inbound_changes (
+                                      id BIGSERIAL PRIMARY KEY,
+    -- Not a foreign key: the row is kept for auditing after the patient is deleted; NULL when no local patient has the PID
+                                      patient_id BIGINT NULL,
+    -- Value of the urn:ehr:system:pid identifier of the remote Patient
+                                      pid VARCHAR(10) NOT NULL,
+    -- Logical id and meta.versionId / meta.lastUpdated of the remote Patient that was read
+                                      remote_resource_id VARCHAR(64) NOT NULL,
+                                      remote_version_id VARCHAR(64) NULL,
+                                      remote_last_updated TIMESTAMPTZ NULL,
+    -- pending | applied | rejected | superseded (a newer change of the same Patient arrived while pending)
+                                      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    -- Why the change was queued for review instead of being applied
+                                      reason TEXT NULL,
+    -- The remote Patient (internal R5 model), the local fields mapped from it, and the import report
+                                      resource JSONB NOT NULL,
+                                      patient_data JSONB NOT NULL,
+                                      report JSONB NOT NULL DEFAULT '[]',
+    -- users.id of the reviewer; NULL for changes applied automatically
+                                      reviewed_by BIGINT NULL,
+                                      reviewed_at TIMESTAMPTZ NULL,
+                                      created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                                      updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The review queue lists by status; a new change supersedes the pending ones of the same remote Patient
+CREATE INDEX idx_fhir_inbound_changes_status ON fhir_inbound_changes (status);
+CREATE INDEX idx_fhir_inbound_changes_remote_resource_id ON fhir_inbound_changes (remote_resource_id);
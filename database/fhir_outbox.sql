@@ -0,0 +1,36 @@
+-- PostgreSQL CREATE TABLE statement for the 'fhir_outbox' table
+-- Durable queue of FHIR pushes. A row is inserted in the same transaction as the patient change,
+-- and the backend's outbox worker drains it with exponential backoff.
+
+CREATE TABLE fhir_outbox (
+                             id BIGSERIAL PRIMARY KEY,
+    -- Not a foreign key: the item must survive deletion of the patient
+                             patient_id BIGINT NOT NULL,
+                             pid VARCHAR(10) NOT NULL,
+    -- Name of the FHIR endpoint to push to (FHIR_TARGET_SERVER_NAME or an entry of FHIR_ENDPOINTS_FILE);
+    -- a change routed to several endpoints queues one item per endpoint
+                             endpoint VARCHAR(50) NOT NULL DEFAULT 'default',
+    -- upsert (push the current row) | delete | deactivate (after a local delete, per FHIR_DELETE_POLICY)
+                             operation VARCHAR(20) NOT NULL DEFAULT 'upsert',
+    -- create | update: the local change an upsert records (its Provenance activity); NULL for delete / deactivate
+                             activity VARCHAR(20) NULL,
+    -- pending | processing | done | dead | discarded
+                             status VARCHAR(20) NOT NULL DEFAULT 'pending',
+                             attempts INTEGER NOT NULL DEFAULT 0,
+                             next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                             last_attempt_at TIMESTAMPTZ NULL,
+                             last_error TEXT NULL,
+    -- users.id of the clinician whose change queued the item
+                             created_by BIGINT NULL,
+                             created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                             updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The worker polls for due items by status and next_attempt_at
+CREATE INDEX idx_fhir_outbox_status_next_attempt ON fhir_outbox (status, next_attempt_at);
+CREATE INDEX idx_fhir_outbox_patient_id ON fhir_outbox (patient_id);
+
+-- For databases created before the outbox recorded the local change:
+-- ALTER TABLE fhir_outbox ADD COLUMN activity VARCHAR(20) NULL;
+-- UPDATE fhir_outbox o SET activity = CASE WHEN o.created_at = p.created_at THEN 'create' ELSE 'update' END
+--     FROM patients p WHERE p.id = o.patient_id AND o.operation = 'upsert';
@@ -0,0 +1,31 @@
+-- PostgreSQL CREATE TABLE statement for the 'patient_fhir_sync' table
+-- One row per patient and FHIR endpoint describing the last push to that server. Written by every push path
+-- (outbox worker, manual push, batch push); a missing row means the patient was never pushed there.
+
+CREATE TABLE patient_fhir_sync (
+                                   patient_id BIGINT NOT NULL REFERENCES patients (id) ON DELETE CASCADE,
+    -- Name of the FHIR endpoint (FHIR_TARGET_SERVER_NAME or an entry of FHIR_ENDPOINTS_FILE)
+                                   endpoint VARCHAR(50) NOT NULL DEFAULT 'default',
+    -- When the last push attempt was made and how it ended: success | failed | conflict (412 on If-Match)
+                                   last_push_at TIMESTAMPTZ NOT NULL,
+                                   last_push_result VARCHAR(20) NOT NULL,
+                                   last_push_status_code INTEGER NULL,
+                                   last_push_error TEXT NULL,
+    -- patients.updated_at of the row version sent by the last *successful* push (database clock, millisecond precision);
+    -- a newer patients.updated_at means there are local changes the server has not seen
+                                   synced_local_updated_at TIMESTAMPTZ NULL,
+    -- meta.versionId / meta.lastUpdated reported by the FHIR server for the last successful push;
+    -- the next push sends If-Match: W/"<remote_version_id>"
+                                   remote_version_id VARCHAR(64) NULL,
+                                   remote_last_updated TIMESTAMPTZ NULL,
+    -- SHA-256 (hex) of the canonical JSON of the last successfully pushed resource
+                                   last_pushed_hash CHAR(64) NULL,
+    -- OperationOutcome returned by the server for the last push, if any
+                                   last_operation_outcome JSONB NULL,
+                                   created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                                   updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                                   PRIMARY KEY (patient_id, endpoint)
+);
+
+-- The "failed" filter of GET /api/patients?syncStatus=... scans by result
+CREATE INDEX idx_patient_fhir_sync_last_push_result ON patient_fhir_sync (last_push_result);
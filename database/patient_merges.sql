@@ -0,0 +1,45 @@
+-- PostgreSQL CREATE TABLE statement for the 'patient_merges' table
+-- Append-only log of duplicate patient merges and their reversals (run after patients.sql).
+-- A merge copies the chosen fields of the source record onto the surviving (target) record and marks the source as
+-- inactive and replaced; an unmerge row restores the state recorded by the merge it reverses.
+
+CREATE TABLE patient_merges (
+                                id BIGSERIAL PRIMARY KEY,
+    -- merge | unmerge
+                                action VARCHAR(10) NOT NULL,
+    -- For an unmerge: the merge it reverses (at most once)
+                                merge_id BIGINT NULL REFERENCES patient_merges (id),
+    -- Not foreign keys: the log is kept for auditing after a patient is deleted
+                                source_patient_id BIGINT NOT NULL,
+                                source_pid VARCHAR(10) NOT NULL,
+                                target_patient_id BIGINT NOT NULL,
+                                target_pid VARCHAR(10) NOT NULL,
+    -- Merge: the record each field was taken from (source | target).
+    -- Unmerge: what happened to each field copied from the source (restored | kept, when edited since the merge)
+                                fields JSONB NOT NULL DEFAULT '{}',
+    -- Both records before the change, and the target after it
+                                source_before JSONB NOT NULL,
+                                target_before JSONB NOT NULL,
+                                target_after JSONB NOT NULL,
+    -- users.id of the clinician who merged / unmerged
+                                performed_by BIGINT NULL,
+                                performed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_patient_merges_source_patient_id ON patient_merges (source_patient_id);
+CREATE INDEX idx_patient_merges_target_patient_id ON patient_merges (target_patient_id);
+-- A merge is reversed at most once (merge rows have no merge_id)
+CREATE UNIQUE INDEX idx_patient_merges_merge_id ON patient_merges (merge_id);
+
+-- The log is immutable: rows are only ever inserted
+CREATE OR REPLACE FUNCTION reject_patient_merges_change()
+    RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'patient_merges is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER patient_merges_append_only
+    BEFORE UPDATE OR DELETE ON patient_merges
+    FOR EACH ROW
+EXECUTE FUNCTION reject_patient_merges_change();
@@ -1,5 +1,8 @@
 -- PostgreSQL CREATE TABLE statement for the 'patients' table
 
+-- Trigram matching for the patient search (GET /api/patients/search); ships with PostgreSQL (contrib)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 CREATE TABLE patients (
     -- Use BIGSERIAL for auto-incrementing 64-bit integer primary key
     -- Renamed PatientId to id to match common conventions and previous entity attempts
@@ -30,14 +33,58 @@ CREATE TABLE patients (
                           preferred_language VARCHAR(50) NULL,
                           emergency_contact_name VARCHAR(50) NULL,
                           emergency_contact_relationship VARCHAR(50) NULL,
-                          emergency_contact_phone VARCHAR(20) NULL
+                          emergency_contact_phone VARCHAR(20) NULL,
+
+    -- Set when the record was merged into another one (the survivor); such a record is inactive.
+    -- Cleared by an unmerge (see patient_merges.sql)
+                          replaced_by BIGINT NULL REFERENCES patients (id) ON DELETE SET NULL,
 
-    -- Optional: Add timestamp columns if needed
---     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
---     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    -- Timestamps; updated_at drives the Bulk Data $export _since filter
+                          created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                          updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 ALTER TABLE patients ADD CONSTRAINT unique_pid UNIQUE (pid);
 -- Optional: Add indexes for better query performance
 CREATE INDEX idx_patients_pid ON patients (pid);
-CREATE INDEX idx_patients_name ON patients (family_name, given_name);
\ No newline at end of file
+CREATE INDEX idx_patients_name ON patients (family_name, given_name);
+CREATE INDEX idx_patients_updated_at ON patients (updated_at);
+CREATE INDEX idx_patients_replaced_by ON patients (replaced_by);
+-- Trigram indexes of the patient search: substring (LIKE '%...%') and word-similarity (<%) lookups.
+-- Trigrams are case-insensitive and cover CJK characters as well as Latin ones.
+CREATE INDEX idx_patients_pid_trgm ON patients USING GIN (pid gin_trgm_ops);
+CREATE INDEX idx_patients_family_name_trgm ON patients USING GIN (family_name gin_trgm_ops);
+CREATE INDEX idx_patients_given_name_trgm ON patients USING GIN (given_name gin_trgm_ops);
+-- Full name without spaces, so "王小明" finds family_name 王 + given_name 小明
+CREATE INDEX idx_patients_full_name_trgm ON patients USING GIN ((replace(family_name || given_name, ' ', '')) gin_trgm_ops);
+CREATE INDEX idx_patients_email_trgm ON patients USING GIN (email gin_trgm_ops);
+-- Phone digits only, so "0912-345" and "0912345" find the same numbers
+CREATE INDEX idx_patients_telecom_digits_trgm ON patients USING GIN ((regexp_replace(telecom, '\D', '', 'g')) gin_trgm_ops);
+
+-- Keep updated_at current even for updates that bypass TypeORM (same function as in users.sql)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+    RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_patients_updated_at
+    BEFORE UPDATE ON patients
+    FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- For databases created before the timestamp columns existed:
+-- ALTER TABLE patients ADD COLUMN created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+-- ALTER TABLE patients ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+-- CREATE INDEX idx_patients_updated_at ON patients (updated_at);
+-- (then create the function and trigger above)
+--
+-- For databases created before patient merging existed:
+-- ALTER TABLE patients ADD COLUMN replaced_by BIGINT NULL REFERENCES patients (id) ON DELETE SET NULL;
+-- CREATE INDEX idx_patients_replaced_by ON patients (replaced_by);
+--
+-- For databases created before the patient search existed:
+-- CREATE EXTENSION IF NOT EXISTS pg_trgm;
+-- (then create the idx_patients_*_trgm indexes above)
@@ -0,0 +1,81 @@
+-- PostgreSQL CREATE TABLE statement for the 'terminology_mappings' table
+-- Concept maps from local free-text values (gender, preferred language, emergency contact relationship)
+-- to FHIR codes. The backend caches the rows and uses them for every FHIR conversion in both directions;
+-- rows are maintained through /api/admin/terminology/mappings and published as FHIR ConceptMap resources.
+
+CREATE TABLE terminology_mappings (
+                                      id BIGSERIAL PRIMARY KEY,
+    -- gender | language | relationship
+                                      concept_map VARCHAR(50) NOT NULL,
+    -- Local value as stored in the patients table; matched case-insensitively and ignoring surrounding spaces
+                                      local_value VARCHAR(100) NOT NULL,
+                                      target_system VARCHAR(255) NOT NULL,
+                                      target_code VARCHAR(100) NOT NULL,
+                                      target_display VARCHAR(255) NULL,
+    -- Local value written when a FHIR code is imported. Without a flagged row, the oldest row of the code wins
+                                      reverse_default BOOLEAN NOT NULL DEFAULT FALSE,
+                                      created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                                      updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_terminology_mappings_local_value ON terminology_mappings (concept_map, LOWER(local_value));
+CREATE UNIQUE INDEX idx_terminology_mappings_reverse_default ON terminology_mappings (concept_map, target_system, target_code)
+    WHERE reverse_default;
+
+-- Initial mappings (the values the frontend form and mock data use, in English and Chinese).
+-- Rows are listed with the preferred local value of each code first.
+INSERT INTO terminology_mappings (concept_map, local_value, target_system, target_code, target_display) VALUES
+    ('gender', 'Male', 'http://hl7.org/fhir/administrative-gender', 'male', 'Male'),
+    ('gender', 'm', 'http://hl7.org/fhir/administrative-gender', 'male', 'Male'),
+    ('gender', '男', 'http://hl7.org/fhir/administrative-gender', 'male', 'Male'),
+    ('gender', 'Female', 'http://hl7.org/fhir/administrative-gender', 'female', 'Female'),
+    ('gender', 'f', 'http://hl7.org/fhir/administrative-gender', 'female', 'Female'),
+    ('gender', '女', 'http://hl7.org/fhir/administrative-gender', 'female', 'Female'),
+    ('gender', 'Others', 'http://hl7.org/fhir/administrative-gender', 'other', 'Other'),
+    ('gender', 'other', 'http://hl7.org/fhir/administrative-gender', 'other', 'Other'),
+    ('gender', 'o', 'http://hl7.org/fhir/administrative-gender', 'other', 'Other'),
+    ('gender', '其他', 'http://hl7.org/fhir/administrative-gender', 'other', 'Other'),
+
+    ('language', 'English', 'urn:ietf:bcp:47', 'en', 'English'),
+    ('language', '英語', 'urn:ietf:bcp:47', 'en', 'English'),
+    ('language', 'Mandarin', 'urn:ietf:bcp:47', 'zh-TW', 'Chinese (Taiwan)'),
+    ('language', '繁體中文', 'urn:ietf:bcp:47', 'zh-TW', 'Chinese (Taiwan)'),
+    ('language', '華語', 'urn:ietf:bcp:47', 'zh-TW', 'Chinese (Taiwan)'),
+    ('language', 'Chinese', 'urn:ietf:bcp:47', 'zh', 'Chinese'),
+    ('language', '中文', 'urn:ietf:bcp:47', 'zh', 'Chinese'),
+    ('language', 'Taiwanese', 'urn:ietf:bcp:47', 'nan-TW', 'Min Nan Chinese (Taiwan)'),
+    ('language', '台語', 'urn:ietf:bcp:47', 'nan-TW', 'Min Nan Chinese (Taiwan)'),
+    ('language', 'Hakka', 'urn:ietf:bcp:47', 'hak-TW', 'Hakka Chinese (Taiwan)'),
+    ('language', '客家話', 'urn:ietf:bcp:47', 'hak-TW', 'Hakka Chinese (Taiwan)'),
+    ('language', 'Cantonese', 'urn:ietf:bcp:47', 'yue', 'Cantonese'),
+    ('language', 'Japanese', 'urn:ietf:bcp:47', 'ja', 'Japanese'),
+    ('language', '日語', 'urn:ietf:bcp:47', 'ja', 'Japanese'),
+    ('language', 'Korean', 'urn:ietf:bcp:47', 'ko', 'Korean'),
+    ('language', 'Vietnamese', 'urn:ietf:bcp:47', 'vi', 'Vietnamese'),
+    ('language', 'Indonesian', 'urn:ietf:bcp:47', 'id', 'Indonesian'),
+    ('language', 'Thai', 'urn:ietf:bcp:47', 'th', 'Thai'),
+    ('language', 'Tagalog', 'urn:ietf:bcp:47', 'tl', 'Tagalog'),
+
+    -- Family and personal relationships come from v3 RoleCode, contact roles from v2 Table 0131
+    ('relationship', 'Spouse', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'SPS', 'spouse'),
+    ('relationship', '配偶', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'SPS', 'spouse'),
+    ('relationship', 'Mother', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'MTH', 'mother'),
+    ('relationship', '母親', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'MTH', 'mother'),
+    ('relationship', 'Father', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'FTH', 'father'),
+    ('relationship', '父親', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'FTH', 'father'),
+    ('relationship', 'Brother', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'BRO', 'brother'),
+    ('relationship', '兄弟', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'BRO', 'brother'),
+    ('relationship', 'Sister', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'SIS', 'sister'),
+    ('relationship', '姊妹', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'SIS', 'sister'),
+    ('relationship', 'Child', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'CHILD', 'child'),
+    ('relationship', '子女', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'CHILD', 'child'),
+    ('relationship', 'Friend', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'FRND', 'unrelated friend'),
+    ('relationship', '朋友', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'FRND', 'unrelated friend'),
+    ('relationship', 'Partner', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'DOMPART', 'domestic partner'),
+    ('relationship', 'Guardian', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'GUARD', 'guardian'),
+    ('relationship', '監護人', 'http://terminology.hl7.org/CodeSystem/v3-RoleCode', 'GUARD', 'guardian'),
+    ('relationship', 'Emergency Contact', 'http://terminology.hl7.org/CodeSystem/v2-0131', 'C', 'Emergency Contact'),
+    ('relationship', 'emergency', 'http://terminology.hl7.org/CodeSystem/v2-0131', 'C', 'Emergency Contact'),
+    ('relationship', '緊急聯絡人', 'http://terminology.hl7.org/CodeSystem/v2-0131', 'C', 'Emergency Contact'),
+    ('relationship', 'Next of Kin', 'http://terminology.hl7.org/CodeSystem/v2-0131', 'N', 'Next-of-Kin'),
+    ('relationship', '近親', 'http://terminology.hl7.org/CodeSystem/v2-0131', 'N', 'Next-of-Kin');
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+
+import { mount } from '@vue/test-utils'
+import HighlightedText from '../HighlightedText.vue'
+
+/** The marked parts of the rendered text. */
+const marked = (text: string, ranges: [number, number][]) =>
+   mount(HighlightedText, { props: { text, ranges } })
+      .findAll('mark')
+      .map((mark) => mark.text())
+
+describe('HighlightedText', () => {
+   it('marks the ranges and keeps the rest of the text', () => {
+      const wrapper = mount(HighlightedText, {
+         props: { text: '0912-345-678', ranges: [[0, 4]] },
+      })
+      expect(wrapper.text()).toBe('0912-345-678')
+      expect(wrapper.findAll('mark').map((mark) => mark.text())).toEqual(['0912'])
+   })
+
+   it('renders plain text without ranges', () => {
+      const wrapper = mount(HighlightedText, { props: { text: 'Wang Xiaoming' } })
+      expect(wrapper.text()).toBe('Wang Xiaoming')
+      expect(wrapper.find('mark').exists()).toBe(false)
+   })
+
+   it('sorts unsorted ranges', () => {
+      expect(
+         marked('Wang Xiaoming', [
+            [5, 9],
+            [0, 4],
+         ]),
+      ).toEqual(['Wang', 'Xiao'])
+   })
+
+   it('merges overlapping, nested and touching ranges', () => {
+      expect(
+         marked('Wang Xiaoming', [
+            [0, 3],
+            [2, 6],
+         ]),
+      ).toEqual(['Wang X'])
+      expect(
+         marked('Wang Xiaoming', [
+            [0, 8],
+            [2, 4],
+         ]),
+      ).toEqual(['Wang Xia'])
+      expect(
+         marked('Wang Xiaoming', [
+            [5, 9],
+            [9, 13],
+         ]),
+      ).toEqual(['Xiaoming'])
+   })
+
+   it('clips ranges to the text and ignores empty ones', () => {
+      expect(
+         marked('Wang', [
+            [-2, 2],
+            [3, 10],
+            [1, 1],
+         ]),
+      ).toEqual(['Wa', 'g'])
+   })
+})
@@ -46,6 +46,12 @@ const routes: Array<RouteRecordRaw> = [
       component: PatientFormView, // Eagerly loaded (shared with edit)
       meta: { requiresAuth: true }, // Requires authentication.
    },
+   {
+      path: '/patients/merge', // Query: ?source=<id>&target=<id>
+      name: 'patient-merge',
+      component: () => import('@/views/PatientMergeView.vue'), // Lazy-loaded
+      meta: { requiresAuth: true }, // Requires authentication.
+   },
    {
       path: '/patients/:id/edit', // Dynamic route segment ':id'. The value will be available as `route.params.id`.
       name: 'patient-edit',
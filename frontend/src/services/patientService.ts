@@ -1,19 +1,44 @@
 // src/services/patientService.ts
 import apiClient from './apiClient'
 // Recommended: Define types in a separate file, e.g., src/types/patient.ts
-import type { NewPatient, Patient } from '@/types/patient' // Assumes types are defined
+import type {
+   FhirDeletePolicy,
+   FhirRemoteComparison,
+   NewPatient,
+   Patient,
+   PatientListQuery,
+   PatientMergeChoices,
+   PatientMergeEntry,
+   PatientMergeResult,
+   PatientPage,
+   PatientSearchHit,
+} from '@/types/patient' // Assumes types are defined
 
 // Service object providing methods for patient-related API operations
 export const patientService = {
    /**
-    * Retrieves a list of all patients.
-    * @returns {Promise<Patient[]>} Array of patient objects
+    * Retrieves one page of patients, sorted and filtered by the server.
+    * @param {PatientListQuery} query - Page, page size, sort order and filters
+    * @returns {Promise<PatientPage>} The patients of the page and the total number of matches
     */
-   async getAll(): Promise<Patient[]> {
-      const response = await apiClient.get<Patient[]>('/patients')
+   async getAll(query: PatientListQuery): Promise<PatientPage> {
+      const response = await apiClient.get<PatientPage>('/patients', { params: query })
       return response.data
    },
 
+   /**
+    * Ranked free-text search (name, phone fragment, PID prefix or email) with the matched text marked.
+    * @param {string} q - The query
+    * @param {number} [limit] - Maximum number of results
+    * @returns {Promise<PatientSearchHit[]>} The results, best first
+    */
+   async search(q: string, limit = 8): Promise<PatientSearchHit[]> {
+      const response = await apiClient.get<{ items: PatientSearchHit[] }>('/patients/search', {
+         params: { q, limit },
+      })
+      return response.data.items
+   },
+
    /**
     * Retrieves a single patient by ID.
     * @param {number} id - The patient's ID
@@ -26,11 +51,15 @@ export const patientService = {
 
    /**
     * Creates a new patient.
+    * Answers 409 with `{ message, matches }` when probable duplicates are already registered.
     * @param {NewPatient} patientData - The data for the new patient
+    * @param {boolean} [allowDuplicates] - Save even if probable duplicates exist
     * @returns {Promise<Patient>} The created patient object
     */
-   async create(patientData: NewPatient): Promise<Patient> {
-      const response = await apiClient.post<Patient>('/patients', patientData)
+   async create(patientData: NewPatient, allowDuplicates = false): Promise<Patient> {
+      const response = await apiClient.post<Patient>('/patients', patientData, {
+         params: allowDuplicates ? { allowDuplicates: true } : undefined,
+      })
       return response.data
    },
 
@@ -55,11 +84,65 @@ export const patientService = {
       await apiClient.delete(`/patients/${id}`)
    },
 
+   /**
+    * Merges a duplicate (source) into the surviving (target) patient.
+    * @param {number} sourceId - The record merged away (becomes inactive and replaced)
+    * @param {number} targetId - The surviving record
+    * @param {PatientMergeChoices} choices - The record each field's surviving value is taken from
+    * @returns {Promise<PatientMergeResult>} The merge log entry and both records
+    */
+   async merge(
+      sourceId: number,
+      targetId: number,
+      choices: PatientMergeChoices,
+   ): Promise<PatientMergeResult> {
+      const response = await apiClient.post<PatientMergeResult>('/patients/merge', {
+         sourceId,
+         targetId,
+         choices,
+      })
+      return response.data
+   },
+
+   /**
+    * Reverses a merge.
+    * @param {number} mergeId - ID of the merge log entry
+    * @returns {Promise<PatientMergeResult>} The unmerge log entry and both records
+    */
+   async unmerge(mergeId: number): Promise<PatientMergeResult> {
+      const response = await apiClient.post<PatientMergeResult>(
+         `/patients/merges/${mergeId}/unmerge`,
+      )
+      return response.data
+   },
+
+   /**
+    * Retrieves the merge log entries involving a patient, newest first.
+    * @param {number} id - The patient's ID
+    * @returns {Promise<PatientMergeEntry[]>} The entries
+    */
+   async getMergeLog(id: number): Promise<PatientMergeEntry[]> {
+      const response = await apiClient.get<PatientMergeEntry[]>(`/patients/${id}/merges`)
+      return response.data
+   },
+
+   /**
+    * Retrieves what deleting a patient does on the FHIR server.
+    * @returns {Promise<FhirDeletePolicy>} The backend's FHIR delete policy
+    */
+   async getFhirDeletePolicy(): Promise<FhirDeletePolicy> {
+      const response = await apiClient.get<{ policy: FhirDeletePolicy }>(
+         '/patients/fhir/delete-policy',
+      )
+      return response.data.policy
+   },
+
    /**
     * Triggers pushing a specified patient to the FHIR server.
     * @param {number} id - The patient's ID
     * @returns {Promise<{ message: string } | any>} The backend response message or data
-    * @throws {any} Re-throws errors for handling by the caller (e.g., Store)
+    * @throws {any} Re-throws errors for handling by the caller (e.g., Store). A rejected push carries a
+    * `FhirPushErrorBody` (message plus the OperationOutcome issues) in `error.response.data`.
     */
    async pushToFhir(id: number): Promise<{ message: string } | any> {
       // Adjusted return type
@@ -79,6 +162,33 @@ export const patientService = {
       }
    },
 
+   /**
+    * Retrieves the local FHIR representation of a patient next to the copy on the FHIR server.
+    * @param {number} id - The patient's ID
+    * @returns {Promise<FhirRemoteComparison>} Local and remote resources plus the remote version
+    */
+   async getRemoteFhir(id: number): Promise<FhirRemoteComparison> {
+      const response = await apiClient.get<FhirRemoteComparison>(`/patients/${id}/fhir/remote`)
+      return response.data
+   },
+
+   /**
+    * Resolves a FHIR version conflict by pushing the local patient over the reviewed remote version.
+    * @param {number} id - The patient's ID
+    * @param {string | null} versionId - Remote version that was reviewed (null if the remote copy does not exist)
+    * @returns {Promise<{ message: string; versionId: string | null }>} The backend response
+    */
+   async resolveFhirConflict(
+      id: number,
+      versionId: string | null,
+   ): Promise<{ message: string; versionId: string | null }> {
+      const response = await apiClient.post<{ message: string; versionId: string | null }>(
+         `/patients/${id}/fhir/resolve-conflict`,
+         versionId ? { versionId } : {},
+      )
+      return response.data
+   },
+
    /**
     * Retrieves a patient's data in FHIR JSON format by ID.
     * @param {number} id - The patient's ID
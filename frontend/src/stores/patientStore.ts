@@ -1,8 +1,24 @@
 // src/stores/patientStore.ts
 import { computed, ref } from 'vue' // Import necessary Composition API functions from Vue.
 import { defineStore } from 'pinia' // Import Pinia's store definition function.
+import type { AxiosError } from 'axios'
 import { patientService } from '@/services/patientService' // Import the service responsible for patient API calls.
-import type { NewPatient, Patient } from '@/types/patient' // Import TypeScript types for patients.
+import type {
+   FhirDeletePolicy,
+   FhirOperationOutcomeIssue,
+   FhirPushErrorBody,
+   FhirRemoteComparison,
+   NewPatient,
+   Patient,
+   PatientListQuery,
+   PatientMatch,
+   PatientMergeChoices,
+   PatientMergeEntry,
+   PatientSearchHit,
+} from '@/types/patient' // Import TypeScript types for patients.
+
+/** Page size of the patient list when the URL does not name one. */
+export const DEFAULT_PAGE_SIZE = 20
 
 /**
  * @store usePatientStore (Pinia Setup Store)
@@ -22,8 +38,10 @@ export const usePatientStore = defineStore('patients', () => {
    // --- Reactive State ---
    // Design: Using `ref` makes individual pieces of state reactive.
 
-   /** @state patients - Array holding the list of all fetched patients. */
+   /** @state patients - Array holding the patients of the current page of the list. */
    const patients = ref<Patient[]>([])
+   /** @state patientTotal - Number of patients matching `listQuery` across all pages. */
+   const patientTotal = ref(0)
    /** @state currentPatient - Holds the data of a single patient being viewed or edited, or null if none. */
    const currentPatient = ref<Patient | null>(null)
    /** @state loadingList - Boolean flag indicating if the patient list is currently being fetched. */
@@ -34,6 +52,30 @@ export const usePatientStore = defineStore('patients', () => {
    const submittingForm = ref(false) // Could be split (loadingCreate, loadingUpdate, loadingDelete) for finer control.
    /** @state error - Stores the last encountered error message string during patient operations, or null if no error. */
    const error = ref<string | null>(null)
+   /** @state listQuery - Page, sort order and filters of the patient list (kept in the URL by the list view). */
+   const listQuery = ref<PatientListQuery>({ page: 1, pageSize: DEFAULT_PAGE_SIZE })
+   // Number of the latest list request; answers to older ones (paged or filtered past in the meantime) are dropped.
+   let listRequest = 0
+   /** @state fhirDeletePolicy - What deleting a patient does on the FHIR server, or null until loaded. */
+   const fhirDeletePolicy = ref<FhirDeletePolicy | null>(null)
+   /** @state duplicateCandidates - Probable duplicates reported when creating a patient (empty if none). */
+   const duplicateCandidates = ref<PatientMatch[]>([])
+   /** @state searchSuggestions - Type-ahead results of the patient search box, best first. */
+   const searchSuggestions = ref<PatientSearchHit[]>([])
+   /** @state loadingSuggestions - Boolean flag indicating if type-ahead results are being fetched. */
+   const loadingSuggestions = ref(false)
+   // Number of the latest suggestion request; answers to older ones (slower than the next keystroke) are dropped.
+   let suggestionRequest = 0
+
+   // State for merging duplicate records.
+   /** @state mergePair - The two records being merged side by side (source = merged away), or null. */
+   const mergePair = ref<{ source: Patient; target: Patient } | null>(null)
+   /** @state mergeLog - Merge log entries of `currentPatient`, newest first. */
+   const mergeLog = ref<PatientMergeEntry[]>([])
+   /** @state loadingMergeLog - Boolean flag indicating if the merge log is being fetched or an unmerge is running. */
+   const loadingMergeLog = ref(false)
+   /** @state mergeLogError - Stores error message if fetching the merge log or an unmerge failed. */
+   const mergeLogError = ref<string | null>(null)
 
    // State specifically for FHIR push operations initiated from the UI.
    /** @state isPushingToFhir - Boolean flag indicating if a "push to FHIR" request is active. */
@@ -42,6 +84,8 @@ export const usePatientStore = defineStore('patients', () => {
    const fhirPushError = ref<string | null>(null)
    /** @state fhirPushSuccessMessage - Stores success message after a FHIR push operation. */
    const fhirPushSuccessMessage = ref<string | null>(null)
+   /** @state fhirPushIssues - OperationOutcome issues explaining why the last push failed (empty if none). */
+   const fhirPushIssues = ref<FhirOperationOutcomeIssue[]>([])
 
    // State specifically for fetching/displaying FHIR JSON representation.
    /** @state fhirJsonData - Stores the fetched FHIR Patient resource JSON object, or null. */
@@ -51,10 +95,18 @@ export const usePatientStore = defineStore('patients', () => {
    /** @state fhirJsonError - Stores error message if fetching FHIR JSON failed. */
    const fhirJsonError = ref<string | null>(null)
 
+   // State for resolving FHIR version conflicts (remote copy changed by another system).
+   /** @state remoteFhir - Local vs. remote FHIR representation of `currentPatient`, or null if not loaded. */
+   const remoteFhir = ref<FhirRemoteComparison | null>(null)
+   /** @state loadingRemoteFhir - Boolean flag indicating if the remote copy is being fetched or a resolution is running. */
+   const loadingRemoteFhir = ref(false)
+   /** @state remoteFhirError - Stores error message if fetching the remote copy or resolving the conflict failed. */
+   const remoteFhirError = ref<string | null>(null)
+
    // --- Getters (Computed Properties) ---
    // Design: `computed` provides efficient, cached derived state.
 
-   /** @getter patientCount - Returns the current number of patients in the `patients` array. */
+   /** @getter patientCount - Returns the number of patients on the current page (see `patientTotal` for all pages). */
    const patientCount = computed(() => patients.value.length)
 
    // --- Actions (Functions) ---
@@ -66,10 +118,23 @@ export const usePatientStore = defineStore('patients', () => {
       error.value = null
    }
 
+   /** @action clearDuplicateCandidates - Resets the duplicate warning of the patient form. */
+   const clearDuplicateCandidates = () => {
+      duplicateCandidates.value = []
+   }
+
+   /** @action clearSearchSuggestions - Closes the type-ahead (and drops answers still on their way). */
+   const clearSearchSuggestions = () => {
+      suggestionRequest++
+      searchSuggestions.value = []
+      loadingSuggestions.value = false
+   }
+
    /** @action clearFhirPushStatus - Resets all state variables related to the FHIR push operation. */
    const clearFhirPushStatus = () => {
       fhirPushError.value = null
       fhirPushSuccessMessage.value = null
+      fhirPushIssues.value = []
       isPushingToFhir.value = false
    }
 
@@ -80,28 +145,80 @@ export const usePatientStore = defineStore('patients', () => {
       loadingFhirJson.value = false
    }
 
+   /** @action clearRemoteFhirStatus - Resets all state variables related to FHIR conflict resolution. */
+   const clearRemoteFhirStatus = () => {
+      remoteFhir.value = null
+      remoteFhirError.value = null
+      loadingRemoteFhir.value = false
+   }
+
    /**
     * @action fetchPatientsAction
-    * @description Fetches the complete list of patients from the backend API via `patientService`.
-    * Updates the `patients` state and manages `loadingList` and `error` states.
+    * @description Fetches one page of the patient list from the backend API via `patientService`.
+    * Updates the `patients` and `patientTotal` state and manages `loadingList` and `error` states.
+    * @param {PatientListQuery} [query] - New page, sort order and filters; defaults to `listQuery` (reload after a change).
     * @returns {Promise<void>}
     */
-   const fetchPatientsAction = async (): Promise<void> => {
+   const fetchPatientsAction = async (query?: PatientListQuery): Promise<void> => {
+      if (query) {
+         listQuery.value = query
+      }
+      const request = ++listRequest
       clearError() // Clear previous errors before starting.
       loadingList.value = true // Set loading state to true.
       console.log('[PatientStore] Fetching patient list...')
       try {
-         // Call the service method.
-         patients.value = await patientService.getAll()
-         console.log('[PatientStore] Patient list fetched successfully.')
+         // Call the service method; paging, sorting and filtering happen on the server.
+         const page = await patientService.getAll(listQuery.value)
+         if (request === listRequest) {
+            patients.value = page.items
+            patientTotal.value = page.total
+            console.log('[PatientStore] Patient list fetched successfully.')
+         }
       } catch (err: any) {
          // Handle errors from the API call.
          console.error('[PatientStore] Failed to fetch patient list:', err)
-         // Extract a user-friendly error message from the Axios error response or use a generic message.
-         error.value = err.response?.data?.message || err.message || 'Unable to fetch patient list.'
+         if (request === listRequest) {
+            // Extract a user-friendly error message from the Axios error response or use a generic message.
+            error.value =
+               err.response?.data?.message || err.message || 'Unable to fetch patient list.'
+         }
+      } finally {
+         // Ensure loading state is reset regardless of success or failure (of the latest request).
+         if (request === listRequest) {
+            loadingList.value = false
+         }
+      }
+   }
+
+   /**
+    * @action fetchSearchSuggestionsAction
+    * @description Fetches the type-ahead suggestions of the patient search box via `patientService.search`.
+    * A failed lookup only empties the suggestions: the list filter keeps working without them.
+    * @param {string} q - The text typed so far
+    * @returns {Promise<void>}
+    */
+   const fetchSearchSuggestionsAction = async (q: string): Promise<void> => {
+      const request = ++suggestionRequest
+      if (!q.trim()) {
+         clearSearchSuggestions()
+         return
+      }
+      loadingSuggestions.value = true
+      try {
+         const hits = await patientService.search(q.trim())
+         if (request === suggestionRequest) {
+            searchSuggestions.value = hits
+         }
+      } catch (err) {
+         console.error(`[PatientStore] Failed to fetch search suggestions for "${q}":`, err)
+         if (request === suggestionRequest) {
+            searchSuggestions.value = []
+         }
       } finally {
-         // Ensure loading state is reset regardless of success or failure.
-         loadingList.value = false
+         if (request === suggestionRequest) {
+            loadingSuggestions.value = false
+         }
       }
    }
 
@@ -139,17 +256,22 @@ export const usePatientStore = defineStore('patients', () => {
     * @action createPatientAction
     * @description Sends data to create a new patient via `patientService`.
     * Refetches the patient list on success to update the UI.
-    * Manages `submittingForm` and `error` states.
+    * Manages `submittingForm` and `error` states; probable duplicates reported by the backend go to `duplicateCandidates`.
     * @param {NewPatient} patientData - Patient data (without ID).
+    * @param {boolean} [allowDuplicates=false] - Save even if probable duplicates exist (after the user confirmed).
     * @returns {Promise<boolean>} `true` if creation was successful, `false` otherwise.
     */
-   const createPatientAction = async (patientData: NewPatient): Promise<boolean> => {
+   const createPatientAction = async (
+      patientData: NewPatient,
+      allowDuplicates = false,
+   ): Promise<boolean> => {
       clearError()
+      clearDuplicateCandidates()
       submittingForm.value = true
       console.log('[PatientStore] Attempting to create patient...')
       try {
          // Backend service handles creation and potential FHIR push triggering.
-         await patientService.create(patientData)
+         await patientService.create(patientData, allowDuplicates)
          console.log('[PatientStore] Patient created successfully via service.')
          // Refresh the patient list in the store to include the new patient.
          await fetchPatientsAction() // Ensures UI consistency.
@@ -161,6 +283,8 @@ export const usePatientStore = defineStore('patients', () => {
             error.value =
                err.response.data?.message ||
                'Failed to create patient due to a conflict (e.g., duplicate ID).'
+            // Probable duplicates (as opposed to an existing PID) come with the matching records.
+            duplicateCandidates.value = err.response.data?.matches ?? []
          } else {
             error.value = err.response?.data?.message || err.message || 'Failed to create patient.'
          }
@@ -170,6 +294,129 @@ export const usePatientStore = defineStore('patients', () => {
       }
    }
 
+   /**
+    * @action fetchMergePairAction
+    * @description Fetches the two records to merge into `mergePair`. Manages `loadingDetail` and `error` states.
+    * @param {number} sourceId - The record to merge away.
+    * @param {number} targetId - The surviving record.
+    * @returns {Promise<void>}
+    */
+   const fetchMergePairAction = async (sourceId: number, targetId: number): Promise<void> => {
+      clearError()
+      loadingDetail.value = true
+      mergePair.value = null
+      try {
+         const [source, target] = await Promise.all([
+            patientService.getById(sourceId),
+            patientService.getById(targetId),
+         ])
+         mergePair.value = { source, target }
+      } catch (err) {
+         console.error(`[PatientStore] Failed to fetch patients ${sourceId} and ${targetId}:`, err)
+         const axiosError = err as AxiosError<{ message?: string }>
+         error.value =
+            axiosError.response?.data?.message ||
+            axiosError.message ||
+            'Unable to fetch the patients to merge.'
+      } finally {
+         loadingDetail.value = false
+      }
+   }
+
+   /**
+    * @action mergePatientsAction
+    * @description Merges a duplicate (source) into the surviving (target) patient via `patientService`.
+    * Refetches the patient list on success. Manages `submittingForm` and `error` states.
+    * @param {number} sourceId - The record merged away.
+    * @param {number} targetId - The surviving record.
+    * @param {PatientMergeChoices} choices - The record each field's surviving value is taken from.
+    * @returns {Promise<boolean>} `true` if the merge was successful, `false` otherwise.
+    */
+   const mergePatientsAction = async (
+      sourceId: number,
+      targetId: number,
+      choices: PatientMergeChoices,
+   ): Promise<boolean> => {
+      clearError()
+      submittingForm.value = true
+      try {
+         const result = await patientService.merge(sourceId, targetId, choices)
+         console.log(
+            `[PatientStore] Patient ${sourceId} merged into ${targetId} (entry ${result.entry.id}).`,
+         )
+         await fetchPatientsAction()
+         return true
+      } catch (err) {
+         console.error(`[PatientStore] Failed to merge patient ${sourceId} into ${targetId}:`, err)
+         const axiosError = err as AxiosError<{ message?: string }>
+         error.value =
+            axiosError.response?.data?.message || axiosError.message || 'Failed to merge patients.'
+         return false
+      } finally {
+         submittingForm.value = false
+      }
+   }
+
+   /**
+    * @action fetchMergeLogAction
+    * @description Loads the merge log entries of a patient into `mergeLog`.
+    * @param {number} patientId - The internal ID of the patient.
+    * @returns {Promise<void>}
+    */
+   const fetchMergeLogAction = async (patientId: number): Promise<void> => {
+      mergeLogError.value = null
+      loadingMergeLog.value = true
+      try {
+         mergeLog.value = await patientService.getMergeLog(patientId)
+      } catch (err) {
+         console.error(`[PatientStore] Error fetching merge log for ${patientId}:`, err)
+         const axiosError = err as AxiosError<{ message?: string }>
+         mergeLog.value = []
+         mergeLogError.value =
+            axiosError.response?.data?.message ||
+            axiosError.message ||
+            'Failed to load merge history.'
+      } finally {
+         loadingMergeLog.value = false
+      }
+   }
+
+   /**
+    * @action unmergeAction
+    * @description Reverses a merge, then reloads `currentPatient`, its merge log and the patient list.
+    * @param {number} mergeId - ID of the merge log entry.
+    * @returns {Promise<boolean>} `true` if the merge was undone.
+    */
+   const unmergeAction = async (mergeId: number): Promise<boolean> => {
+      mergeLogError.value = null
+      loadingMergeLog.value = true
+      try {
+         await patientService.unmerge(mergeId)
+         const patientId = currentPatient.value?.id
+         if (patientId) {
+            currentPatient.value = await patientService.getById(patientId)
+            mergeLog.value = await patientService.getMergeLog(patientId)
+         }
+         await fetchPatientsAction()
+         return true
+      } catch (err) {
+         console.error(`[PatientStore] Error undoing merge ${mergeId}:`, err)
+         const axiosError = err as AxiosError<{ message?: string }>
+         mergeLogError.value =
+            axiosError.response?.data?.message || axiosError.message || 'Failed to undo the merge.'
+         return false
+      } finally {
+         loadingMergeLog.value = false
+      }
+   }
+
+   /** @action clearMergeLog - Resets the merge log state. */
+   const clearMergeLog = () => {
+      mergeLog.value = []
+      mergeLogError.value = null
+      loadingMergeLog.value = false
+   }
+
    /**
     * @action updatePatientAction
     * @description Sends data to update an existing patient via `patientService`.
@@ -251,6 +498,21 @@ export const usePatientStore = defineStore('patients', () => {
       }
    }
 
+   /**
+    * @action fetchFhirDeletePolicyAction
+    * @description Loads the backend's FHIR delete policy (once), so the delete confirmation can tell what will happen.
+    * Errors are only logged: the confirmation then simply does not mention the FHIR server.
+    * @returns {Promise<void>}
+    */
+   const fetchFhirDeletePolicyAction = async (): Promise<void> => {
+      if (fhirDeletePolicy.value) return
+      try {
+         fhirDeletePolicy.value = await patientService.getFhirDeletePolicy()
+      } catch (err) {
+         console.warn('[PatientStore] Could not load the FHIR delete policy:', err)
+      }
+   }
+
    /**
     * @action fetchFhirJsonAction
     * @description Fetches the FHIR JSON representation of a patient via `patientService`.
@@ -298,6 +560,86 @@ export const usePatientStore = defineStore('patients', () => {
       console.log('[PatientStore] Cleared current patient data.')
    }
 
+   /**
+    * @action fetchRemoteFhirAction
+    * @description Loads the copy of a patient currently on the FHIR server, next to the local representation.
+    * @param {number} patientId - The internal ID of the patient.
+    * @returns {Promise<void>}
+    */
+   const fetchRemoteFhirAction = async (patientId: number): Promise<void> => {
+      clearRemoteFhirStatus()
+      loadingRemoteFhir.value = true
+      try {
+         remoteFhir.value = await patientService.getRemoteFhir(patientId)
+      } catch (err) {
+         console.error(`[PatientStore] Error fetching remote FHIR copy for ${patientId}:`, err)
+         const axiosError = err as AxiosError<{ message?: string }>
+         remoteFhirError.value =
+            axiosError.response?.data?.message ||
+            axiosError.message ||
+            'Failed to fetch the remote FHIR copy.'
+      } finally {
+         loadingRemoteFhir.value = false
+      }
+   }
+
+   /**
+    * @action resolveFhirConflictAction
+    * @description Pushes the local patient over the remote version loaded by `fetchRemoteFhirAction`.
+    * On a new conflict (409) the remote copy is reloaded so the user can review it again.
+    * @param {number} patientId - The internal ID of the patient.
+    * @returns {Promise<boolean>} `true` if the FHIR server accepted the local copy.
+    */
+   const resolveFhirConflictAction = async (patientId: number): Promise<boolean> => {
+      remoteFhirError.value = null
+      fhirPushIssues.value = []
+      loadingRemoteFhir.value = true
+      try {
+         const response = await patientService.resolveFhirConflict(
+            patientId,
+            remoteFhir.value?.versionId ?? null,
+         )
+         fhirPushSuccessMessage.value = response.message
+         clearRemoteFhirStatus()
+         await refreshFhirSync(patientId)
+         return true
+      } catch (err) {
+         console.error(`[PatientStore] Error resolving FHIR conflict for ${patientId}:`, err)
+         const axiosError = err as AxiosError<Partial<FhirPushErrorBody>>
+         const message =
+            axiosError.response?.data?.message ||
+            axiosError.message ||
+            'Failed to resolve the FHIR conflict.'
+         if (axiosError.response?.status === 409) {
+            await fetchRemoteFhirAction(patientId)
+         }
+         remoteFhirError.value = message
+         fhirPushIssues.value = axiosError.response?.data?.issues ?? []
+         return false
+      } finally {
+         loadingRemoteFhir.value = false
+      }
+   }
+
+   /**
+    * @action refreshFhirSync
+    * @description Reloads the FHIR sync metadata of `currentPatient` (e.g., after a push) without touching the loading state.
+    * Errors are only logged: the sync badge simply keeps its previous value.
+    * @param {number} patientId - The internal ID of the patient.
+    * @returns {Promise<void>}
+    */
+   const refreshFhirSync = async (patientId: number): Promise<void> => {
+      if (currentPatient.value?.id !== patientId) return
+      try {
+         const latest = await patientService.getById(patientId)
+         if (currentPatient.value?.id === patientId) {
+            currentPatient.value = { ...currentPatient.value, fhirSync: latest.fhirSync }
+         }
+      } catch (err) {
+         console.warn(`[PatientStore] Could not refresh FHIR sync status for ${patientId}:`, err)
+      }
+   }
+
    /**
     * @action pushToFhirAction
     * @description Triggers the push of a patient's data to the FHIR server via `patientService`.
@@ -316,14 +658,19 @@ export const usePatientStore = defineStore('patients', () => {
          fhirPushSuccessMessage.value =
             response?.message || `Successfully triggered push for Patient ${patientId}.`
          console.log(`[PatientStore] FHIR push triggered successfully for ${patientId}.`)
+         await refreshFhirSync(patientId)
          return true // Indicate the trigger API call was successful.
       } catch (err: any) {
          console.error(`[PatientStore] Error triggering FHIR push for ${patientId}:`, err)
          if (err.response?.status === 404) {
             fhirPushError.value = `Patient with ID ${patientId} not found for FHIR push trigger.`
          } else {
-            fhirPushError.value =
-               err.response?.data?.message || err.message || 'Failed to trigger FHIR push.'
+            // 409: the remote copy was changed by another system and was not overwritten.
+            // 422/502/503/504: the body lists the OperationOutcome issues (local validation or FHIR server).
+            const data = err.response?.data as Partial<FhirPushErrorBody> | undefined
+            fhirPushError.value = data?.message || err.message || 'Failed to trigger FHIR push.'
+            fhirPushIssues.value = data?.issues ?? []
+            await refreshFhirSync(patientId) // A rejected push is recorded in the sync metadata too.
          }
          return false // Indicate the trigger API call failed.
       } finally {
@@ -341,27 +688,53 @@ export const usePatientStore = defineStore('patients', () => {
       loadingDetail,
       submittingForm,
       error,
+      patientTotal,
+      listQuery,
+      fhirDeletePolicy,
+      duplicateCandidates,
+      searchSuggestions,
+      loadingSuggestions,
+      mergePair,
+      mergeLog,
+      loadingMergeLog,
+      mergeLogError,
       fhirJsonData,
       loadingFhirJson,
       fhirJsonError,
       isPushingToFhir,
       fhirPushError,
       fhirPushSuccessMessage,
+      fhirPushIssues,
+      remoteFhir,
+      loadingRemoteFhir,
+      remoteFhirError,
 
       // Getters (computed properties)
       patientCount,
 
       // Actions (methods)
       fetchPatientsAction,
+      fetchSearchSuggestionsAction,
       fetchPatientByIdAction,
       createPatientAction,
+      fetchMergePairAction,
+      mergePatientsAction,
+      fetchMergeLogAction,
+      unmergeAction,
+      clearMergeLog,
       updatePatientAction,
       deletePatientAction,
+      fetchFhirDeletePolicyAction,
       clearCurrentPatient,
       clearFhirJsonStatus,
       fetchFhirJsonAction,
       clearError, // Expose error clearing actions
+      clearDuplicateCandidates,
+      clearSearchSuggestions,
       pushToFhirAction,
       clearFhirPushStatus,
+      fetchRemoteFhirAction,
+      resolveFhirConflictAction,
+      clearRemoteFhirStatus,
    }
 })
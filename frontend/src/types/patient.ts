@@ -23,9 +23,224 @@ export interface Patient {
    emergencyContactName?: string // Optional: Name of emergency contact
    emergencyContactRelationship?: string // Optional: Relationship to emergency contact
    emergencyContactPhone?: string // Optional: Phone number of emergency contact
+   replacedBy?: number | null // Read-only: ID of the record this one was merged into (set by a merge)
+   fhirSync?: PatientFhirSync // Read-only: FHIR sync metadata (only returned by GET /patients/:id)
+}
+
+/**
+ * FHIR sync state of a patient:
+ * never pushed, remote copy changed elsewhere (version conflict), last push failed,
+ * changed locally since the last push, or up to date on the FHIR server.
+ */
+export type FhirSyncState = 'never-pushed' | 'conflict' | 'failed' | 'modified' | 'in-sync'
+
+/**
+ * Values of the `syncStatus` filter of the patient list ('out-of-sync' = every state but 'in-sync').
+ */
+export type FhirSyncFilter = FhirSyncState | 'out-of-sync'
+
+/**
+ * Sortable columns of the patient list (`sort` of GET /patients).
+ */
+export type PatientSortField =
+   | 'id'
+   | 'pid'
+   | 'familyName'
+   | 'givenName'
+   | 'birthday'
+   | 'gender'
+   | 'active'
+
+/**
+ * Query of the patient list (GET /patients): paging, sort order and filters.
+ * Filters left undefined are not applied.
+ */
+export interface PatientListQuery {
+   page: number // 1-based
+   pageSize: number
+   sort?: PatientSortField // Ties (and the default order) fall back to ID
+   order?: 'asc' | 'desc'
+   q?: string // Substring of the PID, either name, phone or email
+   active?: boolean
+   gender?: string // Local value, e.g. '男'
+   birthdayFrom?: string // YYYY-MM-DD, inclusive
+   birthdayTo?: string // YYYY-MM-DD, inclusive
+   country?: string // Prefix, case-insensitive
+   syncStatus?: FhirSyncFilter
+}
+
+/**
+ * One page of the patient list, as returned by GET /patients.
+ */
+export interface PatientPage {
+   items: Patient[]
+   total: number // Matches across all pages
+   page: number
+   pageSize: number
+}
+
+/**
+ * What deleting a patient does on the FHIR server (`FHIR_DELETE_POLICY` of the backend):
+ * delete the remote Patient, mark it inactive, or leave it as it is.
+ */
+export type FhirDeletePolicy = 'delete' | 'deactivate' | 'keep'
+
+/**
+ * Interface representing the FHIR sync metadata of a patient on one FHIR endpoint.
+ * All fields but `endpoint` and `state` are null when the patient was never pushed there.
+ */
+export interface FhirEndpointSync {
+   endpoint: string // Name of the FHIR endpoint (FHIR_TARGET_SERVER_NAME for the primary one)
+   state: FhirSyncState
+   lastPushAt: string | null // When the last push attempt was made
+   lastPushResult: 'success' | 'failed' | 'conflict' | null
+   lastPushStatusCode: number | null // HTTP status returned by the FHIR server
+   lastPushError: string | null
+   syncedLocalUpdatedAt: string | null // Local version (updated_at) the FHIR server has
+   remoteVersionId: string | null // meta.versionId on the FHIR server
+   remoteLastUpdated: string | null // meta.lastUpdated on the FHIR server
+   lastPushedHash: string | null // SHA-256 of the last pushed resource
+   lastOperationOutcome: FhirOperationOutcome | null // OperationOutcome returned by the last push
+}
+
+/**
+ * Interface representing the FHIR sync metadata of a patient: the state on the primary FHIR endpoint,
+ * plus the state on every endpoint the patient is routed to (primary first).
+ */
+export interface PatientFhirSync extends FhirEndpointSync {
+   endpoints: FhirEndpointSync[]
+}
+
+/**
+ * Local FHIR representation of a patient next to the copy on the FHIR server,
+ * as returned by GET /patients/:id/fhir/remote (used to resolve version conflicts).
+ */
+export interface FhirRemoteComparison {
+   local: Record<string, unknown> | null // Patient resource built from local data
+   remote: Record<string, unknown> | null // Patient resource on the FHIR server (null if it does not exist)
+   versionId: string | null // meta.versionId of the remote copy
+   lastUpdated: string | null // meta.lastUpdated of the remote copy
+}
+
+/**
+ * One issue of a FHIR OperationOutcome, as far as the UI displays it.
+ */
+export interface FhirOperationOutcomeIssue {
+   severity: 'fatal' | 'error' | 'warning' | 'information' | 'success'
+   code: string
+   diagnostics?: string
+   details?: { text?: string }
+   expression?: string[] // FHIRPath location(s) of the offending element(s), e.g. 'Patient.birthDate'
+}
+
+/**
+ * Minimal shape of a FHIR OperationOutcome, as far as the UI displays it.
+ */
+export interface FhirOperationOutcome {
+   resourceType: 'OperationOutcome'
+   issue: FhirOperationOutcomeIssue[]
+}
+
+/**
+ * Error body of a failed FHIR push (POST /patients/:id/push-to-fhir and /fhir/resolve-conflict).
+ * 422 when the resource failed local validation or the FHIR server rejected its content;
+ * 502/503/504 when the FHIR server failed, was unavailable or did not answer.
+ */
+export interface FhirPushErrorBody {
+   message: string
+   upstreamStatusCode: number | null // Status returned by the FHIR server (null if it was not contacted or did not answer)
+   issues: FhirOperationOutcomeIssue[] // What to fix, one entry per OperationOutcome issue
+   outcome: FhirOperationOutcome | null
+}
+
+/**
+ * How likely an existing patient is the same person as a new record (FHIR match-grade codes).
+ */
+export type PatientMatchGrade = 'certain' | 'probable' | 'possible' | 'certainly-not'
+
+/**
+ * An existing patient that is probably the same person as a new record,
+ * as returned with the 409 of POST /patients (duplicate warning).
+ */
+export interface PatientMatch {
+   patient: Patient
+   score: number // 0 - 1
+   grade: PatientMatchGrade
+}
+
+/**
+ * Patient fields the free-text search (GET /patients/search) matches and highlights.
+ */
+export type PatientSearchField = 'pid' | 'familyName' | 'givenName' | 'telecom' | 'email'
+
+/**
+ * A field matched by a search, with the [start, end) offsets of the matched text (none for a fuzzy match).
+ */
+export interface PatientSearchHighlight {
+   field: PatientSearchField
+   ranges: [number, number][]
+}
+
+/**
+ * A result of the free-text search, best first (GET /patients/search).
+ */
+export interface PatientSearchHit {
+   patient: Patient
+   score: number // 0 - 1
+   highlights: PatientSearchHighlight[] // Best matched field first
+}
+
+/**
+ * Patient fields whose surviving value is chosen when two records are merged (the survivor keeps its PID).
+ */
+export type MergeablePatientField =
+   | 'familyName'
+   | 'givenName'
+   | 'gender'
+   | 'birthday'
+   | 'telecom'
+   | 'email'
+   | 'address'
+   | 'postalCode'
+   | 'country'
+   | 'preferredLanguage'
+   | 'emergencyContactName'
+   | 'emergencyContactRelationship'
+   | 'emergencyContactPhone'
+
+/**
+ * Survivorship choices of a merge: the record each field's surviving value is taken from.
+ */
+export type PatientMergeChoices = Partial<Record<MergeablePatientField, 'source' | 'target'>>
+
+/**
+ * An entry of the append-only merge log (GET /patients/:id/merges).
+ * `fields`: for a merge, the record each value was taken from; for an unmerge, what happened to each field
+ * copied from the source ('restored', or 'kept' because it was edited after the merge).
+ */
+export interface PatientMergeEntry {
+   id: number
+   action: 'merge' | 'unmerge'
+   mergeId: number | null // For an unmerge: the merge it reversed
+   sourcePatientId: number // The record merged away
+   sourcePid: string
+   targetPatientId: number // The surviving record
+   targetPid: string
+   fields: Record<string, 'source' | 'target' | 'restored' | 'kept'>
+   performedBy: number | null // users.id
+   performedAt: string
+}
+
+/**
+ * Response of a merge or unmerge: the log entry written and both records after the change.
+ */
+export interface PatientMergeResult {
+   entry: PatientMergeEntry
+   source: Patient
+   target: Patient
 }
 
 /**
  * Type alias for creating a new patient, excluding the auto-generated 'id' field.
  */
-export type NewPatient = Omit<Patient, 'id'>
+export type NewPatient = Omit<Patient, 'id' | 'replacedBy' | 'fhirSync'>